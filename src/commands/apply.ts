@@ -0,0 +1,199 @@
+import { Command } from "commander";
+import { getSiteConfig } from "../utils/config-store.js";
+import { logger } from "../utils/logger.js";
+import { confirmAction } from "../utils/prompts.js";
+import { WordPressClient } from "../services/wordpress-client.js";
+import { TemplateStore } from "../services/template-store.js";
+import { ElementValidator } from "../services/element-validator.js";
+import { MANIFEST_FILE, ManifestPlanner } from "../services/manifest-planner.js";
+import { OperationJournal } from "../services/operation-journal.js";
+import type { WPPage } from "../types/wordpress.js";
+import type { PlanActionType } from "../types/manifest.js";
+import { countPlan, printPlan } from "../utils/plan-format.js";
+import { printUndoHint } from "../utils/journal-format.js";
+import { printValidationResult, summarizeValidation } from "../utils/validation-format.js";
+import { postTypeLabel } from "../utils/post-type.js";
+
+const DONE: Record<PlanActionType, string> = {
+  create: "Created",
+  update: "Updated",
+  delete: "Deleted",
+  unchanged: "Unchanged",
+};
+
+export const applyCommand = new Command("apply")
+  .description("Create and update pages from a site manifest")
+  .option("-f, --file <path>", "Manifest file", MANIFEST_FILE)
+  .option("-s, --site <name>", "Site name from config (overrides the manifest's site)")
+  .option("-n, --dry-run", "Only show the plan")
+  .option("-y, --yes", "Don't ask for confirmation")
+  .option("--prune", "Delete Elementor pages that are not in the manifest")
+  .option("--force", "Delete pruned pages permanently instead of moving them to the trash")
+  .option("--all", "List unchanged pages in the plan as well")
+  .option("--no-validate", "Skip element validation")
+  .option("--json", "Output the plan (and results) as JSON", false)
+  .addHelpText(
+    "after",
+    `
+Examples:
+  $ elementor-cli apply --dry-run               Show what would change
+  $ elementor-cli apply                         Show the plan, then apply it
+  $ elementor-cli apply -f sites/client.yaml --site production --yes
+  $ elementor-cli apply --prune                 Also delete pages not in the manifest
+
+Manifest (elementor-site.yaml):
+  site: production            # optional, --site overrides it
+  type: page                  # default post type of the pages
+  prune: false                # same as --prune
+  pages:
+    - slug: home
+      title: Home
+      status: publish         # publish, draft (default), private, pending
+      template: elementor_canvas
+      elements: content/home.json      # element array or { elements, settings }
+      settings: content/home-settings.json
+    - slug: landing
+      title: Landing
+      fromTemplate: landing-page       # a template from 'templates list'
+
+Pages are matched by post type and slug. Paths are relative to the manifest.
+Pruning only touches Elementor pages of the post types the manifest uses.
+With --json the plan is only applied together with --yes.
+Applied changes are journaled; 'elementor-cli undo' reverts the whole run.
+
+See also:
+  elementor-cli templates list   Templates usable as fromTemplate
+  elementor-cli pull             Download pages to use as element files
+  elementor-cli promote          Copy single pages between sites
+`
+  )
+  .action(async (options) => {
+    try {
+      const planner = new ManifestPlanner(new TemplateStore());
+      const { manifest, pages } = await planner.load(options.file);
+      const { name: siteName, config } = await getSiteConfig(options.site || manifest.site);
+      const client = new WordPressClient(config);
+
+      if (options.validate) {
+        const validator = new ElementValidator();
+        let invalid = 0;
+        for (const page of pages) {
+          const result = validator.validate(page.elements, page.settings);
+          if (!result.valid) {
+            logger.error(`"${page.slug}" (${page.source}) failed validation (${summarizeValidation(result)}).`);
+            printValidationResult(result, 10);
+            invalid++;
+          }
+        }
+        if (invalid > 0) {
+          logger.dim("Fix the element files, or use --no-validate.");
+          process.exit(1);
+        }
+      }
+
+      // Remote pages of every post type in the manifest
+      const spinner = options.json ? null : logger.spinner(`Reading pages from ${siteName}...`);
+      const remote: WPPage[] = [];
+      for (const postType of new Set(pages.map((page) => page.postType))) {
+        for await (const page of client.iteratePages({ postType })) {
+          remote.push({ ...page, type: page.type || postType });
+        }
+      }
+      spinner?.stop();
+
+      const plan = planner.plan(pages, remote, { prune: options.prune || manifest.prune });
+      const counts = countPlan(plan);
+      const pending = counts.create + counts.update + counts.delete;
+      const recorder = new OperationJournal(siteName).begin("apply", `Apply ${options.file}`);
+
+      if (options.json) {
+        const steps = plan.map(({ desired: _desired, ...step }) => step);
+        if (options.dryRun || !options.yes || pending === 0) {
+          console.log(JSON.stringify({ site: siteName, plan: steps, summary: counts }, null, 2));
+          return;
+        }
+        const results = await planner.apply(client, plan, { force: options.force, recorder });
+        console.log(
+          JSON.stringify(
+            {
+              site: siteName,
+              plan: steps,
+              summary: counts,
+              operationId: recorder.operation.id,
+              results: results.map(({ action, id, error }) => ({
+                action: action.action,
+                slug: action.slug,
+                id,
+                error,
+              })),
+            },
+            null,
+            2
+          )
+        );
+        if (results.some((result) => result.error)) {
+          process.exit(1);
+        }
+        return;
+      }
+
+      logger.heading(`Plan for ${siteName} (${config.url})`);
+      printPlan(plan, options.all);
+      console.log("");
+
+      if (pending === 0) {
+        logger.success("Site matches the manifest. Nothing to do.");
+        return;
+      }
+
+      if (options.dryRun) {
+        logger.info("Dry run: nothing was written.");
+        return;
+      }
+
+      if (!options.yes) {
+        const deletes =
+          counts.delete > 0
+            ? ` ${counts.delete} page(s) will be ${options.force ? "deleted permanently" : "moved to the trash"}.`
+            : "";
+        const confirmed = await confirmAction(`Apply this plan to ${siteName}?${deletes}`);
+        if (!confirmed) {
+          logger.info("Cancelled.");
+          return;
+        }
+      }
+
+      const applySpinner = logger.spinner("Applying...");
+      const results = await planner.apply(client, plan, {
+        force: options.force,
+        recorder,
+        onStep: (action) => {
+          applySpinner.text = `${action.action} ${postTypeLabel(action.postType)} "${action.slug}"...`;
+        },
+      });
+      applySpinner.stop();
+
+      for (const { action, id, error } of results) {
+        const label = `${postTypeLabel(action.postType)} "${action.slug}"${id !== undefined ? ` (${id})` : ""}`;
+        if (error) {
+          logger.error(`Could not ${action.action} ${label}: ${error}`);
+        } else {
+          logger.success(`${DONE[action.action]} ${label}`);
+        }
+      }
+
+      const failed = results.filter((result) => result.error).length;
+      if (failed > 0) {
+        logger.error(`${failed} of ${results.length} step(s) failed.`);
+        printUndoHint(recorder.operation);
+        process.exit(1);
+      }
+      logger.success(
+        `Applied to ${siteName}: ${counts.create} created, ${counts.update} updated, ${counts.delete} deleted.`
+      );
+      printUndoHint(recorder.operation);
+    } catch (error) {
+      logger.error(`Apply failed: ${error}`);
+      process.exit(1);
+    }
+  });
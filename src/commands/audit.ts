@@ -1,148 +1,10 @@
 import { Command } from "commander";
 import chalk from "chalk";
-import { getSiteConfig, readConfig } from "../utils/config-store.js";
+import { getSiteConfig } from "../utils/config-store.js";
 import { logger } from "../utils/logger.js";
 import { WordPressClient } from "../services/wordpress-client.js";
-import type { ElementorElement } from "../types/elementor.js";
-
-interface AuditResult {
-  urlMismatches: UrlMismatch[];
-  missingAssets: MissingAsset[];
-  cssStatus: CssStatus | null;
-}
-
-interface UrlMismatch {
-  location: string;
-  url: string;
-  expectedHost: string;
-  actualHost: string;
-}
-
-interface MissingAsset {
-  location: string;
-  url: string;
-  error: string;
-}
-
-interface CssStatus {
-  isStale: boolean;
-  cssTimestamp?: string;
-  dataTimestamp?: string;
-  status?: string;
-}
-
-function extractUrls(data: unknown, path: string = ""): Array<{ location: string; url: string }> {
-  const urls: Array<{ location: string; url: string }> = [];
-
-  if (typeof data === "string") {
-    // Match URLs in strings
-    const urlRegex = /https?:\/\/[^\s"'<>]+/g;
-    const matches = data.match(urlRegex);
-    if (matches) {
-      for (const url of matches) {
-        urls.push({ location: path, url });
-      }
-    }
-  } else if (Array.isArray(data)) {
-    for (let i = 0; i < data.length; i++) {
-      urls.push(...extractUrls(data[i], `${path}[${i}]`));
-    }
-  } else if (data && typeof data === "object") {
-    for (const [key, value] of Object.entries(data)) {
-      urls.push(...extractUrls(value, path ? `${path}.${key}` : key));
-    }
-  }
-
-  return urls;
-}
-
-function buildElementPath(element: ElementorElement): string {
-  const type = element.elType;
-  const widgetType = element.widgetType;
-  if (widgetType) {
-    return `widget[${widgetType}]`;
-  }
-  return `${type}[${element.id.slice(0, 7)}]`;
-}
-
-function extractUrlsFromElements(
-  elements: ElementorElement[],
-  parentPath: string = ""
-): Array<{ location: string; url: string }> {
-  const urls: Array<{ location: string; url: string }> = [];
-
-  for (const element of elements) {
-    const elementPath = parentPath
-      ? `${parentPath} > ${buildElementPath(element)}`
-      : buildElementPath(element);
-
-    // Extract URLs from settings
-    const settingsUrls = extractUrls(element.settings, "");
-    for (const { location, url } of settingsUrls) {
-      urls.push({
-        location: location ? `${elementPath}.${location}` : elementPath,
-        url,
-      });
-    }
-
-    // Recurse into child elements
-    if (element.elements && element.elements.length > 0) {
-      urls.push(...extractUrlsFromElements(element.elements, elementPath));
-    }
-  }
-
-  return urls;
-}
-
-function parseHost(url: string): string {
-  try {
-    const parsed = new URL(url);
-    return parsed.host;
-  } catch {
-    return "";
-  }
-}
-
-async function checkAssetAccessibility(
-  url: string
-): Promise<{ accessible: boolean; error?: string }> {
-  try {
-    const response = await fetch(url, {
-      method: "HEAD",
-      signal: AbortSignal.timeout(5000),
-    });
-    if (response.ok) {
-      return { accessible: true };
-    }
-    return { accessible: false, error: `HTTP ${response.status}` };
-  } catch (error) {
-    const message = error instanceof Error ? error.message : String(error);
-    return { accessible: false, error: message };
-  }
-}
-
-function isAssetUrl(url: string): boolean {
-  const assetExtensions = [
-    ".jpg",
-    ".jpeg",
-    ".png",
-    ".gif",
-    ".svg",
-    ".webp",
-    ".ico",
-    ".pdf",
-    ".mp4",
-    ".webm",
-    ".mp3",
-    ".wav",
-    ".woff",
-    ".woff2",
-    ".ttf",
-    ".eot",
-  ];
-  const lowerUrl = url.toLowerCase();
-  return assetExtensions.some((ext) => lowerUrl.includes(ext));
-}
+import { PageInspector } from "../services/page-inspector.js";
+import { getPostType } from "../utils/post-type.js";
 
 export const auditCommand = new Command("audit")
   .description("Detect URL mismatches, missing assets, and CSS issues in a page")
@@ -150,6 +12,8 @@ export const auditCommand = new Command("audit")
   .option("-s, --site <name>", "Site name from config")
   .option("--check-assets", "Check if referenced assets are accessible", false)
   .option("--json", "Output results as JSON", false)
+  .option("--type <post-type>", "Post type to work with (default: page; e.g. post, product)")
+  .option("--select <selector>", "Only check elements matching a selector (see 'query --help')")
   .addHelpText(
     "after",
     `
@@ -158,6 +22,8 @@ Examples:
   $ elementor-cli audit 42 --check-assets     Also verify assets are accessible
   $ elementor-cli audit 42 --site prod        Use specific site config
   $ elementor-cli audit 42 --json             Output as JSON
+  $ elementor-cli audit 12 --type post        Audit a blog post
+  $ elementor-cli audit 42 --select "widget[button]"   Only check buttons
 
 What it checks:
   - URL mismatches: URLs pointing to wrong domain/port
@@ -180,135 +46,31 @@ See also:
       const { config: siteConfig } = await getSiteConfig(options.site);
       const client = new WordPressClient(siteConfig);
 
-      const siteHost = parseHost(siteConfig.url);
-
       const spinner = logger.spinner(`Auditing page ${pageId}...`);
 
       // Fetch the page
-      const page = await client.getPage(pageId);
+      const page = await client.getPage(pageId, getPostType(options));
 
       if (!client.isElementorPage(page)) {
         spinner.fail(`Page ${pageId} is not an Elementor page.`);
         process.exit(1);
       }
 
-      spinner.text = "Analyzing page data...";
-
-      const title =
-        typeof page.title === "object" ? page.title.rendered : page.title;
-
-      // Parse Elementor data
-      let elements: ElementorElement[] = [];
-      if (page.meta?._elementor_data) {
-        try {
-          elements = JSON.parse(page.meta._elementor_data);
-        } catch {
-          spinner.fail("Failed to parse Elementor data.");
-          process.exit(1);
-        }
-      }
-
-      // Extract all URLs from elements
-      const allUrls = extractUrlsFromElements(elements);
-
-      // Also extract from page settings
-      let pageSettings: Record<string, unknown> = {};
-      if (page.meta?._elementor_page_settings) {
-        try {
-          pageSettings =
-            typeof page.meta._elementor_page_settings === "string"
-              ? JSON.parse(page.meta._elementor_page_settings)
-              : page.meta._elementor_page_settings;
-        } catch {
-          // Ignore parse errors for settings
-        }
-      }
-      const settingsUrls = extractUrls(pageSettings, "page_settings");
-      allUrls.push(...settingsUrls);
-
-      // Deduplicate URLs
-      const seenUrls = new Set<string>();
-      const uniqueUrls = allUrls.filter(({ url }) => {
-        if (seenUrls.has(url)) return false;
-        seenUrls.add(url);
-        return true;
-      });
-
-      const result: AuditResult = {
-        urlMismatches: [],
-        missingAssets: [],
-        cssStatus: null,
-      };
-
-      // Check for URL mismatches
-      for (const { location, url } of uniqueUrls) {
-        const urlHost = parseHost(url);
-        if (urlHost && urlHost !== siteHost) {
-          result.urlMismatches.push({
-            location,
-            url,
-            expectedHost: siteHost,
-            actualHost: urlHost,
-          });
-        }
-      }
-
-      // Check asset accessibility if requested
-      if (options.checkAssets) {
-        spinner.text = "Checking asset accessibility...";
-        const assetUrls = uniqueUrls.filter(({ url }) => isAssetUrl(url));
-
-        for (const { location, url } of assetUrls) {
-          const { accessible, error } = await checkAssetAccessibility(url);
-          if (!accessible) {
-            result.missingAssets.push({
-              location,
-              url,
-              error: error || "Unknown error",
-            });
-          }
-        }
-      }
-
-      // Check CSS status
-      spinner.text = "Checking CSS cache status...";
-      const cssMetaRaw = page.meta?._elementor_css;
-      if (cssMetaRaw) {
-        try {
-          const cssMeta =
-            typeof cssMetaRaw === "string" ? JSON.parse(cssMetaRaw) : cssMetaRaw;
-          const cssTime = cssMeta?.time;
-          const cssStatus = cssMeta?.status;
-          const pageModified = page.modified;
-
-          if (cssTime && pageModified) {
-            const cssDate = new Date(cssTime * 1000);
-            const modifiedDate = new Date(pageModified);
-
-            result.cssStatus = {
-              isStale: modifiedDate > cssDate,
-              cssTimestamp: cssDate.toISOString(),
-              dataTimestamp: modifiedDate.toISOString(),
-              status: cssStatus,
-            };
-          } else {
-            result.cssStatus = {
-              isStale: false,
-              status: cssStatus || "unknown",
-            };
-          }
-        } catch {
-          result.cssStatus = {
-            isStale: true,
-            status: "parse_error",
-          };
-        }
-      } else {
-        result.cssStatus = {
-          isStale: true,
-          status: "not_generated",
-        };
+      spinner.text = options.checkAssets
+        ? "Checking asset accessibility..."
+        : "Analyzing page data...";
+
+      let audit: Awaited<ReturnType<PageInspector["audit"]>>;
+      try {
+        audit = await new PageInspector(siteConfig.url).audit(page, {
+          checkAssets: options.checkAssets,
+          select: options.select,
+        });
+      } catch (error) {
+        spinner.fail(error instanceof Error ? error.message : String(error));
+        process.exit(1);
       }
+      const { result, title, assetCount } = audit;
 
       spinner.stop();
 
@@ -337,7 +99,6 @@ See also:
 
       // Missing assets
       if (options.checkAssets) {
-        const assetUrls = uniqueUrls.filter(({ url }) => isAssetUrl(url));
         if (result.missingAssets.length > 0) {
           console.log(
             chalk.yellow(
@@ -350,11 +111,10 @@ See also:
           }
         } else {
           console.log(
-            chalk.green(`✓ All ${assetUrls.length} assets accessible\n`)
+            chalk.green(`✓ All ${assetCount} assets accessible\n`)
           );
         }
       } else {
-        const assetCount = uniqueUrls.filter(({ url }) => isAssetUrl(url)).length;
         console.log(
           chalk.dim(
             `ℹ Found ${assetCount} asset URL(s). Use --check-assets to verify accessibility.\n`
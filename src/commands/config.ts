@@ -13,6 +13,7 @@ import { promptSiteConfig, confirmAction } from "../utils/prompts.js";
 import { logger } from "../utils/logger.js";
 import { ConfigSchema } from "../types/config.js";
 import { WordPressClient } from "../services/wordpress-client.js";
+import { WPAuthError, WPNetworkError } from "../services/wordpress-errors.js";
 
 export const configCommand = new Command("config").description(
   "Manage site connections and settings"
@@ -231,11 +232,13 @@ Available keys:
   staging.service    WordPress service name in compose file
   staging.url        Local staging URL
   pagesDir           Directory for local page storage
+  pagesLayout        Local element storage: single or split
 
 Examples:
   $ elementor-cli config set staging.path ./docker
   $ elementor-cli config set staging.url http://localhost:3000
   $ elementor-cli config set pagesDir ./my-pages
+  $ elementor-cli config set pagesLayout split
 `
   )
   .action(async (key, value) => {
@@ -287,6 +290,11 @@ See also:
       logger.dim(`Site URL: ${config.url}`);
     } catch (error) {
       logger.error(`Connection failed: ${error}`);
+      if (error instanceof WPAuthError) {
+        logger.info("Check the username and application password for this site.");
+      } else if (error instanceof WPNetworkError) {
+        logger.info("Check the site URL and your network connection.");
+      }
       process.exit(1);
     }
   });
@@ -5,13 +5,23 @@ import { logger, formatDate } from "../utils/logger.js";
 import { WordPressClient } from "../services/wordpress-client.js";
 import { LocalStore } from "../services/local-store.js";
 import { ElementorParser } from "../services/elementor-parser.js";
-import type { ElementorElement } from "../types/elementor.js";
+import { PageDiff } from "../services/page-diff.js";
+import { getPostType, postTypeFlag } from "../utils/post-type.js";
+import {
+  formatElement,
+  formatValue,
+  hasElementChanges,
+  printElementDiff,
+  summarizeElementDiff,
+} from "../utils/diff-format.js";
 
 export const diffCommand = new Command("diff")
   .description("Compare local changes with remote")
   .argument("<page-id>", "Page ID to compare")
   .option("-s, --site <name>", "Site name from config")
   .option("--format <format>", "Output format (text, json, summary, side-by-side)", "text")
+  .option("--type <post-type>", "Post type to work with (default: page; e.g. post, product)")
+  .option("--library", "Compare an Elementor library item (same as --type elementor_library)")
   .addHelpText(
     "after",
     `
@@ -21,6 +31,8 @@ Examples:
   $ elementor-cli diff 42 --format json
   $ elementor-cli diff 42 --format summary
   $ elementor-cli diff 42 --format side-by-side
+  $ elementor-cli diff 87 --library
+  $ elementor-cli diff 12 --type post
 
 Output formats:
   text         Human-readable diff (default)
@@ -38,60 +50,33 @@ See also:
     try {
       const id = parseInt(pageId, 10);
       const { name: siteName, config } = await getSiteConfig(options.site);
+      const postType = getPostType(options);
       const client = new WordPressClient(config);
-      const store = await LocalStore.create();
+      const store = await LocalStore.create(postType);
       const parser = new ElementorParser();
 
       // Load local data
       const localData = await store.loadPage(siteName, id);
       if (!localData) {
-        logger.error(`Page ${id} not found locally. Run 'elementor-cli pull ${id}' first.`);
+        logger.error(
+          `Page ${id} not found locally. Run 'elementor-cli pull ${id}${postTypeFlag(postType)}' first.`
+        );
         process.exit(1);
       }
 
       const spinner = logger.spinner("Fetching remote page...");
 
       // Get remote page
-      const remotePage = await client.getPage(id);
+      const remotePage = await client.getPage(id, postType);
       const remoteData = parser.parseWPPage(remotePage);
 
       spinner.stop();
 
-      // Compare elements
-      const diff = parser.diffElements(localData.elements, remoteData.elementor_data);
-
-      // Compare settings
-      const settingsDiff = compareSettings(localData.settings, remoteData.page_settings);
-
-      // Compare meta
-      const metaDiff = compareSettings(localData.meta, {
-        title: remoteData.title,
-        slug: remoteData.slug,
-        status: remoteData.status,
-      });
-
-      const hasChanges =
-        diff.added.length > 0 ||
-        diff.removed.length > 0 ||
-        diff.modified.length > 0 ||
-        settingsDiff.length > 0 ||
-        metaDiff.length > 0;
+      const report = new PageDiff().compare({ site: siteName, postType }, localData, remoteData);
+      const { hasChanges, elements: diff, settings: settingsDiff, meta: metaDiff } = report;
 
       if (options.format === "json") {
-        console.log(
-          JSON.stringify(
-            {
-              pageId: id,
-              site: siteName,
-              hasChanges,
-              elements: diff,
-              settings: settingsDiff,
-              meta: metaDiff,
-            },
-            null,
-            2
-          )
-        );
+        console.log(JSON.stringify(report, null, 2));
         return;
       }
 
@@ -102,7 +87,7 @@ See also:
           return;
         }
 
-        console.log(`Elements: +${diff.added.length} added, -${diff.removed.length} removed, ~${diff.modified.length} modified`);
+        console.log(`Elements: ${summarizeElementDiff(diff)}`);
         console.log(`Settings: ${settingsDiff.length} changed`);
         console.log(`Meta: ${metaDiff.length} changed`);
         return;
@@ -153,7 +138,7 @@ See also:
         }
 
         // Show element changes
-        if (diff.added.length > 0 || diff.removed.length > 0 || diff.modified.length > 0) {
+        if (hasElementChanges(diff)) {
           console.log(chalk.bold.cyan("\n[Elements]"));
 
           for (const id of diff.added) {
@@ -174,25 +159,39 @@ See also:
             );
           }
 
-          for (const elId of diff.modified) {
-            const localEl = parser.findElement(localData.elements, elId);
-            const remoteEl = parser.findElement(remoteData.elementor_data, elId);
+          for (const change of diff.changes) {
+            const localEl = parser.findElement(localData.elements, change.id);
 
             console.log(chalk.yellow(`\n  ~ ${formatElement(localEl)}`));
 
-            // Compare settings of this element
-            if (localEl && remoteEl) {
-              const elSettingsDiff = compareSettings(
-                localEl.settings as Record<string, unknown>,
-                remoteEl.settings as Record<string, unknown>
+            if (change.type) {
+              printSideBySide(
+                `  type: ${change.type.oldWidgetType || change.type.oldElType}`,
+                `  type: ${change.type.newWidgetType || change.type.newElType}`,
+                colWidth
+              );
+            }
+
+            if (change.move) {
+              printSideBySide(
+                `  parent: ${change.move.oldParentId ?? "(top level)"}`,
+                `  parent: ${change.move.newParentId ?? "(top level)"}`,
+                colWidth
+              );
+            } else if (change.reorder) {
+              printSideBySide(
+                `  position: ${change.reorder.oldIndex + 1}`,
+                `  position: ${change.reorder.newIndex + 1}`,
+                colWidth
+              );
+            }
+
+            for (const setting of change.settings) {
+              printSideBySide(
+                `  ${setting.key}: ${formatValueCompact(setting.oldValue)}`,
+                `  ${setting.key}: ${formatValueCompact(setting.newValue)}`,
+                colWidth
               );
-              for (const change of elSettingsDiff) {
-                printSideBySide(
-                  `  ${change.key}: ${formatValueCompact(change.remote)}`,
-                  `  ${change.key}: ${formatValueCompact(change.local)}`,
-                  colWidth
-                );
-              }
             }
           }
         }
@@ -236,29 +235,9 @@ See also:
       }
 
       // Show element changes
-      if (diff.added.length > 0 || diff.removed.length > 0 || diff.modified.length > 0) {
+      if (hasElementChanges(diff)) {
         console.log(chalk.bold("Elements:"));
-
-        for (const id of diff.added) {
-          const el = parser.findElement(localData.elements, id);
-          console.log(
-            `  ${chalk.green("+")} Added: ${formatElement(el)}`
-          );
-        }
-
-        for (const id of diff.removed) {
-          const el = parser.findElement(remoteData.elementor_data, id);
-          console.log(
-            `  ${chalk.red("-")} Removed: ${formatElement(el)}`
-          );
-        }
-
-        for (const id of diff.modified) {
-          const localEl = parser.findElement(localData.elements, id);
-          console.log(
-            `  ${chalk.yellow("~")} Modified: ${formatElement(localEl)}`
-          );
-        }
+        printElementDiff(diff, localData.elements, remoteData.elementor_data);
       }
     } catch (error) {
       logger.error(`Diff failed: ${error}`);
@@ -266,56 +245,6 @@ See also:
     }
   });
 
-interface SettingChange {
-  key: string;
-  local: unknown;
-  remote: unknown;
-}
-
-function compareSettings(
-  local: Record<string, unknown>,
-  remote: Record<string, unknown>
-): SettingChange[] {
-  const changes: SettingChange[] = [];
-  const allKeys = new Set([...Object.keys(local), ...Object.keys(remote)]);
-
-  for (const key of allKeys) {
-    const localVal = local[key];
-    const remoteVal = remote[key];
-
-    if (JSON.stringify(localVal) !== JSON.stringify(remoteVal)) {
-      changes.push({ key, local: localVal, remote: remoteVal });
-    }
-  }
-
-  return changes;
-}
-
-function formatValue(value: unknown): string {
-  if (value === undefined) return "(not set)";
-  if (typeof value === "object") {
-    return JSON.stringify(value).slice(0, 50);
-  }
-  return String(value);
-}
-
-function formatElement(el: ElementorElement | null): string {
-  if (!el) return "(unknown)";
-
-  if (el.elType === "widget") {
-    const label =
-      el.widgetType === "heading"
-        ? (el.settings.title as string)?.slice(0, 30)
-        : el.widgetType === "button"
-          ? (el.settings.text as string)?.slice(0, 30)
-          : null;
-
-    return `widget[${el.widgetType}]${label ? ` "${label}"` : ""} (${el.id})`;
-  }
-
-  return `${el.elType} (${el.id})`;
-}
-
 function formatValueCompact(value: unknown): string {
   if (value === undefined) return "(not set)";
   if (value === null) return "null";
@@ -0,0 +1,455 @@
+import { Command } from "commander";
+import { getSiteConfig } from "../utils/config-store.js";
+import { logger } from "../utils/logger.js";
+import { LocalStore, type LocalPageData } from "../services/local-store.js";
+import { ElementorParser } from "../services/elementor-parser.js";
+import { ElementValidator } from "../services/element-validator.js";
+import { ElementEditor, type ElementPosition } from "../services/element-editor.js";
+import { TemplateStore } from "../services/template-store.js";
+import type { ElementorElement } from "../types/elementor.js";
+import { printElementDiff } from "../utils/diff-format.js";
+import { printValidationResult } from "../utils/validation-format.js";
+import { getPostType, postTypeFlag, postTypeLabel } from "../utils/post-type.js";
+
+interface PageOptions {
+  site?: string;
+  type?: string;
+  library?: boolean;
+}
+
+interface WriteOptions extends PageOptions {
+  dryRun?: boolean;
+  validate?: boolean;
+  json?: boolean;
+}
+
+interface PositionOptions {
+  parent?: string;
+  top?: boolean;
+  index?: string;
+  before?: string;
+  after?: string;
+}
+
+const editor = new ElementEditor();
+const parser = new ElementorParser();
+
+export const elementCommand = new Command("element").description(
+  "Read and edit single elements of local pages"
+);
+
+/**
+ * Add the options every element subcommand shares
+ */
+function pageOptions(command: Command): Command {
+  return command
+    .option("-s, --site <name>", "Site name from config")
+    .option("--type <post-type>", "Post type to work with (default: page; e.g. post, product)")
+    .option("--library", "Use Elementor library items (same as --type elementor_library)");
+}
+
+function writeOptions(command: Command): Command {
+  return pageOptions(command)
+    .option("-n, --dry-run", "Show the change without saving it")
+    .option("--no-validate", "Save even if the change makes the tree invalid")
+    .option("--json", "Output the result as JSON", false);
+}
+
+function positionOptions(command: Command): Command {
+  return command
+    .option("--parent <element-id>", "Parent element")
+    .option("--top", "Top level of the page")
+    .option("--index <n>", "Position among the parent's children (0 = first; default: last)")
+    .option("--before <element-id>", "Right before this element")
+    .option("--after <element-id>", "Right after this element");
+}
+
+async function loadLocalPage(
+  pageId: string,
+  options: PageOptions
+): Promise<{ store: LocalStore; siteName: string; id: number; page: LocalPageData }> {
+  const id = Number.parseInt(pageId, 10);
+  const postType = getPostType(options);
+  const { name: siteName } = await getSiteConfig(options.site);
+  const store = await LocalStore.create(postType);
+
+  const page = await store.loadPage(siteName, id);
+  if (!page) {
+    logger.error(`${postTypeLabel(postType)} ${id} not found locally.`);
+    logger.info(`Run 'elementor-cli pull ${id}${postTypeFlag(postType)}' first.`);
+    process.exit(1);
+  }
+  return { store, siteName, id, page };
+}
+
+/**
+ * Resolve --parent/--top/--index/--before/--after to a position.
+ * `fallback` is used when no option is given.
+ */
+function resolvePosition(
+  elements: ElementorElement[],
+  options: PositionOptions,
+  fallback: ElementPosition
+): ElementPosition {
+  const given = [options.parent, options.top, options.before, options.after].filter(Boolean);
+  if (given.length > 1) {
+    throw new Error("Use only one of --parent, --top, --before and --after");
+  }
+  if (options.before || options.after) {
+    if (options.index !== undefined) {
+      throw new Error("--index can't be combined with --before or --after");
+    }
+    return editor.besides(elements, (options.before || options.after) as string, !!options.after);
+  }
+
+  const index = options.index !== undefined ? Number.parseInt(options.index, 10) : undefined;
+  if (index !== undefined && Number.isNaN(index)) {
+    throw new Error(`Invalid --index: ${options.index}`);
+  }
+  if (options.parent) return { parentId: options.parent, index };
+  if (options.top) return { parentId: null, index };
+  return { parentId: fallback.parentId, index: index ?? fallback.index };
+}
+
+/**
+ * Parse a value from the command line: JSON if it parses, a string otherwise
+ */
+function parseValue(value: string, asString?: boolean): unknown {
+  if (asString) return value;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Validate and save an edited tree, or show the change for --dry-run.
+ * Only errors the edit introduces block saving, so pages that already
+ * have problems can still be edited.
+ */
+async function saveEdit(
+  context: { store: LocalStore; siteName: string; id: number; page: LocalPageData },
+  elements: ElementorElement[],
+  options: WriteOptions,
+  message: string,
+  result: Record<string, unknown> = {}
+): Promise<void> {
+  const { store, siteName, id, page } = context;
+
+  if (options.validate) {
+    const validator = new ElementValidator();
+    const before = validator.validate(page.elements, page.settings, page.page);
+    const after = validator.validate(elements, page.settings, page.page);
+    if (after.errors.length > before.errors.length) {
+      logger.error("The change would make the element tree invalid:");
+      printValidationResult({ ...after, warnings: [] }, 10);
+      logger.dim("  Use --no-validate to save anyway.");
+      process.exit(1);
+    }
+  }
+
+  if (options.json) {
+    console.log(JSON.stringify({ page: id, ...result, dryRun: !!options.dryRun }, null, 2));
+  }
+
+  if (options.dryRun) {
+    if (!options.json) {
+      logger.info(`Dry run: ${message}`);
+      printElementDiff(parser.diffElements(elements, page.elements), elements, page.elements);
+    }
+    return;
+  }
+
+  await store.saveElements(siteName, id, elements);
+  if (!options.json) {
+    logger.success(message);
+  }
+}
+
+// element get
+pageOptions(
+  elementCommand
+    .command("get <page-id> <element-id> [setting]")
+    .description("Print an element, or one of its settings, as JSON")
+    .option("--path", "Show the element's location in the tree")
+)
+  .addHelpText(
+    "after",
+    `
+Examples:
+  $ elementor-cli element get 42 abc123                        Whole element
+  $ elementor-cli element get 42 abc123 title                  One setting
+  $ elementor-cli element get 42 abc123 typography_font_size.size
+
+Settings are addressed by dotted path; array items by index (gallery.0.url).
+
+See also:
+  elementor-cli element set      Change a setting
+`
+  )
+  .action(async (pageId: string, elementId: string, setting: string | undefined, options) => {
+    try {
+      const { id, page } = await loadLocalPage(pageId, options);
+      const location = editor.locate(page.elements, elementId);
+      if (!location) {
+        logger.error(`Element "${elementId}" not found in page ${id}.`);
+        process.exit(1);
+      }
+
+      if (options.path) {
+        logger.dim(`Path: ${location.path.join(" > ")}`);
+        console.log("");
+      }
+
+      if (setting) {
+        const value = editor.getSetting(location.element, setting);
+        if (value === undefined) {
+          logger.error(`Setting "${setting}" is not set on element ${elementId}.`);
+          process.exit(1);
+        }
+        console.log(JSON.stringify(value, null, 2));
+        return;
+      }
+
+      console.log(JSON.stringify(location.element, null, 2));
+    } catch (error) {
+      logger.error(`Failed to get element: ${error}`);
+      process.exit(1);
+    }
+  });
+
+// element set
+writeOptions(
+  elementCommand
+    .command("set <page-id> <element-id> <setting> [value]")
+    .description("Set (or remove) a setting of an element")
+    .option("--string", "Store the value as a string even if it looks like JSON")
+    .option("--unset", "Remove the setting")
+)
+  .addHelpText(
+    "after",
+    `
+Examples:
+  $ elementor-cli element set 42 abc123 title "Welcome"
+  $ elementor-cli element set 42 abc123 typography_font_size '{"unit":"px","size":40}'
+  $ elementor-cli element set 42 abc123 typography_font_size.size 40
+  $ elementor-cli element set 42 abc123 zip_code 01234 --string
+  $ elementor-cli element set 42 abc123 link --unset
+
+Values are parsed as JSON when possible (numbers, true/false, objects,
+arrays), otherwise stored as text. Missing objects on the path are created.
+
+See also:
+  elementor-cli element get      Show current values
+  elementor-cli push             Upload the page
+`
+  )
+  .action(
+    async (pageId: string, elementId: string, setting: string, value: string | undefined, options) => {
+      try {
+        if (options.unset === (value !== undefined)) {
+          logger.error("Give either a value or --unset.");
+          process.exit(1);
+        }
+
+        const context = await loadLocalPage(pageId, options);
+        const newValue = options.unset ? undefined : parseValue(value as string, options.string);
+        const elements = editor.setSetting(context.page.elements, elementId, setting, newValue);
+
+        await saveEdit(
+          context,
+          elements,
+          options,
+          options.unset
+            ? `Removed ${setting} from element ${elementId}.`
+            : `Set ${setting} of element ${elementId}.`,
+          { element: elementId, setting, value: newValue ?? null }
+        );
+      } catch (error) {
+        logger.error(`Failed to set setting: ${error}`);
+        process.exit(1);
+      }
+    }
+  );
+
+// element delete
+writeOptions(
+  elementCommand
+    .command("delete <page-id> <element-id>")
+    .description("Remove an element and its children")
+)
+  .addHelpText(
+    "after",
+    `
+Examples:
+  $ elementor-cli element delete 42 abc123
+  $ elementor-cli element delete 42 abc123 --dry-run
+`
+  )
+  .action(async (pageId: string, elementId: string, options) => {
+    try {
+      const context = await loadLocalPage(pageId, options);
+      const location = editor.locate(context.page.elements, elementId);
+      const count = location ? parser.countElements([location.element]) : 0;
+      const elements = editor.remove(context.page.elements, elementId);
+
+      await saveEdit(
+        context,
+        elements,
+        options,
+        `Deleted element ${elementId}${count > 1 ? ` and ${count - 1} child element(s)` : ""}.`,
+        { deleted: elementId, count }
+      );
+    } catch (error) {
+      logger.error(`Failed to delete element: ${error}`);
+      process.exit(1);
+    }
+  });
+
+// element move
+positionOptions(
+  writeOptions(
+    elementCommand
+      .command("move <page-id> <element-id>")
+      .description("Move an element to another parent or position")
+  )
+)
+  .addHelpText(
+    "after",
+    `
+Examples:
+  $ elementor-cli element move 42 abc123 --parent def456           Last child of def456
+  $ elementor-cli element move 42 abc123 --parent def456 --index 0 First child
+  $ elementor-cli element move 42 abc123 --after ghi789
+  $ elementor-cli element move 42 abc123 --index 0                 First in current parent
+  $ elementor-cli element move 42 abc123 --top
+
+--index counts the parent's children without the moved element.
+`
+  )
+  .action(async (pageId: string, elementId: string, options) => {
+    try {
+      const context = await loadLocalPage(pageId, options);
+      const location = editor.locate(context.page.elements, elementId);
+      if (!location) {
+        throw new Error(`Element "${elementId}" not found`);
+      }
+      if (!options.parent && !options.top && !options.before && !options.after && !options.index) {
+        logger.error("Give a target: --parent, --top, --before, --after or --index.");
+        process.exit(1);
+      }
+
+      const position = resolvePosition(context.page.elements, options, {
+        parentId: location.parent ? location.parent.id : null,
+      });
+      const elements = editor.move(context.page.elements, elementId, position);
+      const moved = editor.locate(elements, elementId);
+
+      await saveEdit(
+        context,
+        elements,
+        options,
+        `Moved element ${elementId} to ${moved?.path.join(" > ")}.`,
+        { element: elementId, parent: position.parentId, index: moved?.index }
+      );
+    } catch (error) {
+      logger.error(`Failed to move element: ${error}`);
+      process.exit(1);
+    }
+  });
+
+// element duplicate
+writeOptions(
+  elementCommand
+    .command("duplicate <page-id> <element-id>")
+    .description("Copy an element right after itself, with new ids")
+)
+  .addHelpText(
+    "after",
+    `
+Examples:
+  $ elementor-cli element duplicate 42 abc123
+  $ elementor-cli element duplicate 42 abc123 --json    Print the new id as JSON
+`
+  )
+  .action(async (pageId: string, elementId: string, options) => {
+    try {
+      const context = await loadLocalPage(pageId, options);
+      const { elements, id } = editor.duplicate(context.page.elements, elementId);
+
+      await saveEdit(context, elements, options, `Duplicated element ${elementId} as ${id}.`, {
+        source: elementId,
+        id,
+      });
+    } catch (error) {
+      logger.error(`Failed to duplicate element: ${error}`);
+      process.exit(1);
+    }
+  });
+
+// element insert
+positionOptions(
+  writeOptions(
+    elementCommand
+      .command("insert <page-id> [template]")
+      .description("Insert a template's elements (or a JSON file) into a page")
+      .option("-f, --file <path>", "Insert elements from a JSON file instead of a template")
+  )
+)
+  .addHelpText(
+    "after",
+    `
+Examples:
+  $ elementor-cli element insert 42 hero-section                   At the end of the page
+  $ elementor-cli element insert 42 hero-section --index 0         At the top
+  $ elementor-cli element insert 42 cta --after abc123
+  $ elementor-cli element insert 42 --file snippet.json --parent def456
+
+The file holds an element, an element array or a template ({ elements }).
+Inserted elements always get new ids.
+
+See also:
+  elementor-cli templates list   Available templates
+`
+  )
+  .action(async (pageId: string, templateName: string | undefined, options) => {
+    try {
+      if (!!templateName === !!options.file) {
+        logger.error("Give either a template name or --file.");
+        process.exit(1);
+      }
+
+      let snippet: ElementorElement[];
+      let source: string;
+      if (options.file) {
+        const data = await Bun.file(options.file).json();
+        snippet = Array.isArray(data) ? data : Array.isArray(data.elements) ? data.elements : [data];
+        source = options.file;
+      } else {
+        const template = await new TemplateStore().get(templateName as string);
+        if (!template) {
+          logger.error(`Template "${templateName}" not found.`);
+          logger.info("Run 'elementor-cli templates list' to see available templates.");
+          process.exit(1);
+        }
+        snippet = template.elements as ElementorElement[];
+        source = `template ${template.slug}`;
+      }
+
+      const context = await loadLocalPage(pageId, options);
+      const position = resolvePosition(context.page.elements, options, { parentId: null });
+      const { elements, ids } = editor.insert(context.page.elements, snippet, position);
+
+      await saveEdit(
+        context,
+        elements,
+        options,
+        `Inserted ${ids.length} element(s) from ${source}: ${ids.join(", ")}.`,
+        { ids }
+      );
+    } catch (error) {
+      logger.error(`Failed to insert elements: ${error}`);
+      process.exit(1);
+    }
+  });
@@ -0,0 +1,81 @@
+import { Command } from "commander";
+import { getSiteConfig } from "../utils/config-store.js";
+import { logger } from "../utils/logger.js";
+import { OperationJournal } from "../services/operation-journal.js";
+import { printHistory, printOperation } from "../utils/journal-format.js";
+
+export const historyCommand = new Command("history")
+  .description("List journaled remote operations that can be undone")
+  .argument("[op-id]", "Show the pages of one operation (ID or unique prefix)")
+  .option("-s, --site <name>", "Site name from config")
+  .option("-l, --limit <n>", "Number of operations to list", "20")
+  .option("--json", "Output as JSON", false)
+  .addHelpText(
+    "after",
+    `
+Examples:
+  $ elementor-cli history
+  $ elementor-cli history --site production --limit 50
+  $ elementor-cli history 20261019T142530-3f9a
+
+Commands that write to a site (push, search-replace, revisions restore,
+pages delete, transform --remote, promote, apply) first save the current
+content of every page they change in .elementor-cli/journal/<site>/.
+
+See also:
+  elementor-cli undo        Undo an operation
+  elementor-cli revisions   WordPress revisions of a page
+`
+  )
+  .action(async (opId: string | undefined, options) => {
+    try {
+      const { name: siteName } = await getSiteConfig(options.site);
+      const journal = new OperationJournal(siteName);
+
+      if (opId) {
+        const operation = await journal.get(opId);
+        if (!operation) {
+          logger.error(`Operation ${opId} not found in the journal of ${siteName}.`);
+          process.exit(1);
+        }
+
+        if (options.json) {
+          console.log(JSON.stringify(operation, null, 2));
+          return;
+        }
+        logger.heading(`Operation ${operation.id}`);
+        printOperation(operation);
+        return;
+      }
+
+      const limit = Number.parseInt(options.limit, 10);
+      const operations = (await journal.list()).slice(0, Number.isNaN(limit) ? 20 : limit);
+
+      if (options.json) {
+        console.log(
+          JSON.stringify(
+            operations.map(({ pages, ...operation }) => ({
+              ...operation,
+              pages: pages.map(({ id, post_type, action, title }) => ({ id, post_type, action, title })),
+            })),
+            null,
+            2
+          )
+        );
+        return;
+      }
+
+      if (operations.length === 0) {
+        logger.info(`No journaled operations for ${siteName}.`);
+        return;
+      }
+
+      logger.heading(`History (${siteName})`);
+      printHistory(operations);
+      console.log("");
+      logger.dim("Run 'elementor-cli history <op-id>' for details, 'elementor-cli undo <op-id>' to undo.");
+    } catch (error) {
+      logger.error(`Failed to read history: ${error}`);
+      process.exit(1);
+    }
+  });
@@ -0,0 +1,176 @@
+import { Command } from "commander";
+import { getSiteConfig } from "../utils/config-store.js";
+import { logger } from "../utils/logger.js";
+import { WordPressClient } from "../services/wordpress-client.js";
+import { LocalStore } from "../services/local-store.js";
+import { MediaManager } from "../services/media-manager.js";
+import { MediaSync } from "../services/media-sync.js";
+import { getPostType, postTypeFlag } from "../utils/post-type.js";
+import { summarizeMediaDownload } from "../utils/media-format.js";
+
+export const mediaCommand = new Command("media").description(
+  "Download and inspect the media files used by local pages"
+);
+
+// media list
+mediaCommand
+  .command("list <page-id>")
+  .description("List the attachments a local page uses")
+  .option("-s, --site <name>", "Site name from config")
+  .option("--type <post-type>", "Post type to work with (default: page; e.g. post, product)")
+  .option("--library", "Use Elementor library items (same as --type elementor_library)")
+  .option("--json", "Output as JSON", false)
+  .addHelpText(
+    "after",
+    `
+Examples:
+  $ elementor-cli media list 42
+  $ elementor-cli media list 42 --json
+
+Shows every media control (image, background_image, gallery items, ...) with
+the element that uses it and whether the file has been downloaded.
+
+See also:
+  elementor-cli media pull     Download the files
+  elementor-cli push --media   Upload them to another site
+`
+  )
+  .action(async (pageId, options) => {
+    try {
+      const id = Number.parseInt(pageId, 10);
+      const postType = getPostType(options);
+      const { name: siteName } = await getSiteConfig(options.site);
+      const store = await LocalStore.create(postType);
+      const media = new MediaManager();
+
+      const localData = await store.loadPage(siteName, id);
+      if (!localData) {
+        logger.error(`Page ${id} not found locally.`);
+        logger.info(`Run 'elementor-cli pull ${id}${postTypeFlag(postType)}' first.`);
+        process.exit(1);
+      }
+
+      const references = media.findReferences(localData.elements, localData.settings);
+      const manifest = await store.loadMediaManifest(siteName, id);
+      const rows = references.map((reference) => {
+        const entry = manifest.items.find(
+          (item) =>
+            item.url === reference.url && (item.id === undefined || item.id === reference.id)
+        );
+        return { reference, entry };
+      });
+
+      if (options.json) {
+        console.log(JSON.stringify(rows, null, 2));
+        return;
+      }
+
+      if (rows.length === 0) {
+        logger.info(`Page ${id} uses no media.`);
+        return;
+      }
+
+      logger.table(
+        rows.map(({ reference, entry }) => ({
+          Element: reference.elementId ?? "(page settings)",
+          Setting: reference.setting,
+          ID: reference.id ?? "-",
+          File: entry ? entry.file : "(not downloaded)",
+          Uploaded: entry?.targets ? Object.keys(entry.targets).join(", ") : "",
+        }))
+      );
+
+      const missing = rows.filter((row) => !row.entry).length;
+      if (missing > 0) {
+        logger.dim(
+          `${missing} reference(s) not downloaded. Run 'elementor-cli media pull ${id}${postTypeFlag(postType)}'.`
+        );
+      }
+    } catch (error) {
+      logger.error(`Failed to list media: ${error}`);
+      process.exit(1);
+    }
+  });
+
+// media pull
+mediaCommand
+  .command("pull [page-ids...]")
+  .description("Download the media files used by local pages")
+  .option("-s, --site <name>", "Site name from config")
+  .option("-a, --all", "Download media for all local pages")
+  .option("--type <post-type>", "Post type to work with (default: page; e.g. post, product)")
+  .option("--library", "Use Elementor library items (same as --type elementor_library)")
+  .addHelpText(
+    "after",
+    `
+Examples:
+  $ elementor-cli media pull 42          Download media of page 42
+  $ elementor-cli media pull --all       Download media of all local pages
+
+Files are stored in media/ next to the page and listed in media.json.
+Files that are already there are not downloaded again. 'pull --media'
+does the same while pulling.
+
+See also:
+  elementor-cli media list             Show a page's attachments
+  elementor-cli preview sync --media   Import them into staging
+`
+  )
+  .action(async (pageIds: string[], options) => {
+    try {
+      const postType = getPostType(options);
+      const { name: siteName, config } = await getSiteConfig(options.site);
+      const client = new WordPressClient(config);
+      const store = await LocalStore.create(postType);
+      const mediaSync = new MediaSync(store);
+
+      let pages: number[] = [];
+      if (options.all) {
+        pages = await store.listLocalPages(siteName);
+        if (pages.length === 0) {
+          logger.info("No local pages found.");
+          return;
+        }
+      } else if (pageIds.length > 0) {
+        pages = pageIds.map((id) => Number.parseInt(id, 10));
+      } else {
+        logger.error("Please specify page ID(s) or use --all flag.");
+        process.exit(1);
+      }
+
+      let failed = 0;
+      for (const pageId of pages) {
+        const localData = await store.loadPage(siteName, pageId);
+        if (!localData) {
+          logger.warn(`Page ${pageId} not found locally. Skipped.`);
+          continue;
+        }
+
+        const spinner = logger.spinner(`Downloading media for page ${pageId}...`);
+        const result = await mediaSync.download(
+          client,
+          siteName,
+          pageId,
+          localData.elements,
+          localData.settings
+        );
+
+        if (result.failed.length > 0) {
+          spinner.warn(`Page ${pageId}: ${summarizeMediaDownload(result)}`);
+          for (const { reference, error } of result.failed) {
+            logger.dim(`  ${reference.url}: ${error}`);
+          }
+          failed += result.failed.length;
+        } else {
+          spinner.succeed(`Page ${pageId}: ${summarizeMediaDownload(result)}`);
+        }
+      }
+
+      if (failed > 0) {
+        process.exit(1);
+      }
+    } catch (error) {
+      logger.error(`Media download failed: ${error}`);
+      process.exit(1);
+    }
+  });
@@ -0,0 +1,119 @@
+import { Command } from "commander";
+import { readConfig } from "../utils/config-store.js";
+import { logger } from "../utils/logger.js";
+import { getPostType } from "../utils/post-type.js";
+import { LocalStore } from "../services/local-store.js";
+
+export const normalizeCommand = new Command("normalize")
+  .description("Rewrite local page files in canonical, git-friendly form")
+  .argument("[page-ids...]", "Page ID(s) to normalize")
+  .option("-s, --site <name>", "Site name for local pages")
+  .option("-a, --all", "Normalize all local pages")
+  .option("--check", "Only report pages that are not normalized (exit 1 if any)")
+  .option("--type <post-type>", "Post type to work with (default: page; e.g. post, product)")
+  .option("--library", "Use Elementor library items (same as --type elementor_library)")
+  .option("--layout <layout>", "Convert pages to a storage layout (single, split)")
+  .addHelpText(
+    "after",
+    `
+Examples:
+  $ elementor-cli normalize 42              Normalize a single page
+  $ elementor-cli normalize --all           Normalize all local pages
+  $ elementor-cli normalize --all --check   Fail if any page needs normalizing (CI)
+  $ elementor-cli normalize --all --type post
+                                            Normalize all local posts
+  $ elementor-cli normalize --all --layout split
+                                            Convert pages to one file per element
+
+Canonical form:
+  - Object keys sorted (id, elType, widgetType, isInner, settings, elements first)
+  - Element ids stored as strings
+  - Two-space indentation with a trailing newline
+  - pulled_at kept in .pulled_at instead of page.json
+
+Layouts:
+  single   The element tree is stored in elements.json (default)
+  split    One folder per container/section/column and one file per widget
+           under elements/, with ordering kept in _index.json files
+
+Pages are always saved in canonical form (and in the configured
+pagesLayout) by pull and push; this command converts existing pages.
+
+See also:
+  elementor-cli pull           Download pages
+  elementor-cli diff           Compare local vs remote
+`
+  )
+  .action(async (pageIds: string[], options) => {
+    try {
+      const store = await LocalStore.create(getPostType(options));
+      const config = await readConfig();
+
+      const siteName = options.site || config.defaultSite;
+      if (!siteName) {
+        logger.error("No site specified and no default site configured.");
+        process.exit(1);
+      }
+
+      if (options.layout && !["single", "split"].includes(options.layout)) {
+        logger.error(`Invalid layout: ${options.layout}. Use 'single' or 'split'.`);
+        process.exit(1);
+      }
+
+      let pagesToNormalize: number[] = [];
+
+      if (options.all) {
+        pagesToNormalize = await store.listLocalPages(siteName);
+        if (pagesToNormalize.length === 0) {
+          logger.info("No local pages found.");
+          return;
+        }
+      } else if (pageIds.length > 0) {
+        pagesToNormalize = pageIds.map((id) => Number.parseInt(id, 10));
+      } else {
+        logger.error("Please specify page ID(s) or use --all flag.");
+        process.exit(1);
+      }
+
+      let changedPages = 0;
+
+      for (const pageId of pagesToNormalize) {
+        if (!(await store.pageExists(siteName, pageId))) {
+          logger.warn(`Page ${pageId} not found locally. Skipped.`);
+          continue;
+        }
+
+        const changed = await store.normalizePage(siteName, pageId, {
+          dryRun: options.check,
+          layout: options.layout,
+        });
+
+        if (changed.length > 0) {
+          changedPages++;
+          if (options.check) {
+            logger.warn(`Page ${pageId} is not normalized: ${changed.join(", ")}`);
+          } else {
+            logger.success(`Normalized page ${pageId}: ${changed.join(", ")}`);
+          }
+        } else {
+          logger.dim(`Page ${pageId} already normalized.`);
+        }
+      }
+
+      console.log("");
+      if (options.check) {
+        if (changedPages > 0) {
+          logger.error(
+            `${changedPages} page(s) need normalizing. Run 'elementor-cli normalize --all'.`
+          );
+          process.exit(1);
+        }
+        logger.success("All pages are normalized.");
+      } else {
+        logger.success(`Normalized ${changedPages} page(s).`);
+      }
+    } catch (error) {
+      logger.error(`Normalize failed: ${error}`);
+      process.exit(1);
+    }
+  });
@@ -5,6 +5,11 @@ import { confirmAction } from "../utils/prompts.js";
 import { WordPressClient } from "../services/wordpress-client.js";
 import { listTemplates } from "../services/template-library.js";
 import { TemplateStore } from "../services/template-store.js";
+import { OperationJournal } from "../services/operation-journal.js";
+import { printUndoHint } from "../utils/journal-format.js";
+import { getPostType, postTypeLabel } from "../utils/post-type.js";
+import { LIBRARY_POST_TYPE } from "../types/elementor.js";
+import type { WPPage } from "../types/wordpress.js";
 
 export const pagesCommand = new Command("pages").description(
   "List and manage pages"
@@ -20,6 +25,9 @@ pagesCommand
     "Filter by status (publish, draft, private, all)",
     "all"
   )
+  .option("--type <post-type>", "Post type to work with (default: page; e.g. post, product)")
+  .option("--library", "List Elementor library items (templates, headers/footers, global widgets)")
+  .option("--template-type <type>", "With --library, only show this template type (e.g. header, footer, widget)")
   .addHelpText(
     "after",
     `
@@ -27,9 +35,17 @@ Examples:
   $ elementor-cli pages list
   $ elementor-cli pages list --site production
   $ elementor-cli pages list --status draft
+  $ elementor-cli pages list --library
+  $ elementor-cli pages list --library --template-type header
+  $ elementor-cli pages list --type post
+  $ elementor-cli pages list --type case_study
+
+Library template types include page, section, header, footer, single,
+archive, popup and widget (global widgets).
 
 See also:
   elementor-cli pages info     Show page details
+  elementor-cli pages types    List available post types
   elementor-cli pull           Download a page
 `
   )
@@ -39,39 +55,54 @@ See also:
       const spinner = logger.spinner(`Fetching pages from ${siteName}...`);
 
       const client = new WordPressClient(config);
-      const pages = await client.listPages({ status: options.status });
+      const postType = getPostType(options);
+      const isLibrary = postType === LIBRARY_POST_TYPE;
+      const elementorPages: WPPage[] = [];
+      for await (const page of client.iteratePages({ status: options.status, postType })) {
+        if (
+          client.isElementorPage(page) &&
+          (!options.templateType || page.meta?._elementor_template_type === options.templateType)
+        ) {
+          elementorPages.push(page);
+        }
+      }
 
       spinner.stop();
 
-      const elementorPages = pages.filter((p) => client.isElementorPage(p));
+      const noun = postTypeLabel(postType);
 
       if (elementorPages.length === 0) {
-        logger.info("No Elementor pages found.");
+        logger.info(`No Elementor ${noun}s found.`);
         return;
       }
 
-      logger.heading(`Elementor Pages (${siteName})`);
+      logger.heading(
+        `Elementor ${isLibrary ? "Library" : postType === "page" ? "Pages" : `${postType} items`} (${siteName})`
+      );
       console.log(
         "ID".padEnd(8) +
           "Title".padEnd(40) +
+          (isLibrary ? "Type".padEnd(12) : "") +
           "Status".padEnd(12) +
           "Modified"
       );
-      console.log("─".repeat(75));
+      console.log("─".repeat(isLibrary ? 87 : 75));
 
       for (const page of elementorPages) {
         const rawTitle = page.title.raw || page.title.rendered;
         const title =
           rawTitle.slice(0, 38) + (rawTitle.length > 38 ? "…" : "");
+        const templateType = page.meta?._elementor_template_type || "-";
         console.log(
           String(page.id).padEnd(8) +
             title.padEnd(40) +
+            (isLibrary ? templateType.padEnd(12) : "") +
             page.status.padEnd(12) +
             formatDate(page.modified)
         );
       }
 
-      logger.dim(`\n${elementorPages.length} Elementor page(s) found.`);
+      logger.dim(`\n${elementorPages.length} Elementor ${noun}(s) found.`);
     } catch (error) {
       logger.error(`Failed to list pages: ${error}`);
       process.exit(1);
@@ -83,12 +114,15 @@ pagesCommand
   .command("info <page-id>")
   .description("Show page details")
   .option("-s, --site <name>", "Site name from config")
+  .option("--type <post-type>", "Post type to work with (default: page; e.g. post, product)")
+  .option("--library", "Show an Elementor library item")
   .addHelpText(
     "after",
     `
 Examples:
   $ elementor-cli pages info 42
   $ elementor-cli pages info 42 --site production
+  $ elementor-cli pages info 12 --type post
 
 See also:
   elementor-cli pages list     List all pages
@@ -101,12 +135,18 @@ See also:
       const spinner = logger.spinner(`Fetching page ${pageId}...`);
 
       const client = new WordPressClient(config);
-      const page = await client.getPage(parseInt(pageId, 10));
+      const page = await client.getPage(parseInt(pageId, 10), getPostType(options));
 
       spinner.stop();
 
       logger.heading(`Page: ${page.title.raw || page.title.rendered}`);
       console.log(`  ID:       ${page.id}`);
+      if (page.type && page.type !== "page") {
+        console.log(`  Type:     ${page.type}`);
+      }
+      if (page.meta._elementor_template_type) {
+        console.log(`  Template type: ${page.meta._elementor_template_type}`);
+      }
       console.log(`  Slug:     ${page.slug}`);
       console.log(`  Status:   ${page.status}`);
       console.log(`  Template: ${page.template || "default"}`);
@@ -138,6 +178,7 @@ pagesCommand
   .option("--status <status>", "Page status (draft, publish)", "draft")
   .option("-t, --template <name>", "Use a template (run 'pages templates' to list)")
   .option("--page-template <template>", "WordPress page template (e.g., elementor_canvas, elementor_header_footer)")
+  .option("--type <post-type>", "Post type to work with (default: page; e.g. post, product)")
   .addHelpText(
     "after",
     `
@@ -148,6 +189,7 @@ Examples:
   $ elementor-cli pages create "Home" --template landing-page
   $ elementor-cli pages create "Features" --template three-column-features
   $ elementor-cli pages create "Canvas Page" --page-template elementor_canvas
+  $ elementor-cli pages create "Launch Post" --type post
 
 WordPress page templates:
   default                 Theme default template
@@ -194,13 +236,16 @@ See also:
       const spinner = logger.spinner(`Creating page "${title}"...`);
 
       const client = new WordPressClient(config);
-      const page = await client.createPage({
-        title,
-        status: options.status,
-        template: options.pageTemplate,
-        elementorData,
-        pageSettings,
-      });
+      const page = await client.createPage(
+        {
+          title,
+          status: options.status,
+          template: options.pageTemplate,
+          elementorData,
+          pageSettings,
+        },
+        getPostType(options)
+      );
 
       spinner.succeed(`Created page "${title}" (ID: ${page.id})`);
       logger.dim(`Edit URL: ${config.url}/wp-admin/post.php?post=${page.id}&action=elementor`);
@@ -268,12 +313,60 @@ See also:
     logger.dim("For more template options: elementor-cli templates --help");
   });
 
+// pages types
+pagesCommand
+  .command("types")
+  .description("List post types available through the REST API")
+  .option("-s, --site <name>", "Site name from config")
+  .addHelpText(
+    "after",
+    `
+Examples:
+  $ elementor-cli pages types
+  $ elementor-cli pages types --site production
+
+Use the slug with --type on pages, pull, push, diff, revisions,
+search-replace and audit.
+
+See also:
+  elementor-cli pages list --type <post-type>
+`
+  )
+  .action(async (options) => {
+    try {
+      const { name: siteName, config } = await getSiteConfig(options.site);
+      const spinner = logger.spinner(`Fetching post types from ${siteName}...`);
+
+      const client = new WordPressClient(config);
+      const types = await client.listPostTypes();
+
+      spinner.stop();
+
+      logger.heading(`Post Types (${siteName})`);
+      console.log("Slug".padEnd(24) + "Name".padEnd(28) + "REST base");
+      console.log("─".repeat(75));
+
+      for (const type of types) {
+        if (!type.rest_base) continue;
+        console.log(
+          type.slug.padEnd(24) +
+            type.name.slice(0, 26).padEnd(28) +
+            `/${type.rest_namespace || "wp/v2"}/${type.rest_base}`
+        );
+      }
+    } catch (error) {
+      logger.error(`Failed to list post types: ${error}`);
+      process.exit(1);
+    }
+  });
+
 // pages delete
 pagesCommand
   .command("delete <page-id>")
   .description("Delete a page")
   .option("-s, --site <name>", "Site name from config")
   .option("-f, --force", "Skip confirmation and permanently delete")
+  .option("--type <post-type>", "Post type to work with (default: page; e.g. post, product)")
   .addHelpText(
     "after",
     `
@@ -282,8 +375,12 @@ Examples:
   $ elementor-cli pages delete 42 --force
   $ elementor-cli pages delete 42 --site production
 
+The page is journaled before it is deleted; 'elementor-cli undo' recreates it
+(under a new ID).
+
 See also:
   elementor-cli pages list     List all pages
+  elementor-cli undo           Recreate the page
 `
   )
   .action(async (pageId, options) => {
@@ -292,7 +389,7 @@ See also:
 
       if (!options.force) {
         const confirmed = await confirmAction(
-          `Delete page ${pageId} from ${siteName}? This cannot be undone.`
+          `Delete page ${pageId} from ${siteName}? It can only be recreated under a new ID.`
         );
         if (!confirmed) {
           logger.info("Cancelled.");
@@ -303,9 +400,14 @@ See also:
       const spinner = logger.spinner(`Deleting page ${pageId}...`);
 
       const client = new WordPressClient(config);
-      await client.deletePage(parseInt(pageId, 10), true);
+      const id = parseInt(pageId, 10);
+      const postType = getPostType(options);
+      const recorder = new OperationJournal(siteName).begin("pages delete", `Delete page ${id}`);
+      await recorder.record(await client.getPage(id, postType), "delete");
+      await client.deletePage(id, true, postType);
 
       spinner.succeed(`Deleted page ${pageId}`);
+      printUndoHint(recorder.operation);
     } catch (error) {
       logger.error(`Failed to delete page: ${error}`);
       process.exit(1);
@@ -1,11 +1,16 @@
 import { Command } from "commander";
 import { spawn } from "node:child_process";
-import { watch as fsWatch } from "node:fs";
 import { readConfig, writeConfig } from "../utils/config-store.js";
 import { logger } from "../utils/logger.js";
 import { DockerManager } from "../services/docker-manager.js";
 import { LocalStore } from "../services/local-store.js";
 import { ElementorParser } from "../services/elementor-parser.js";
+import { ElementValidator } from "../services/element-validator.js";
+import { MediaManager } from "../services/media-manager.js";
+import { PageWatcher } from "../services/page-watcher.js";
+import { MediaSync, stagingUploader } from "../services/media-sync.js";
+import { printMediaUpload } from "../utils/media-format.js";
+import { printValidationResult, summarizeValidation } from "../utils/validation-format.js";
 import type { ElementorElement } from "../types/elementor.js";
 
 export const previewCommand = new Command("preview").description(
@@ -196,6 +201,8 @@ previewCommand
   .option("-s, --site <name>", "Site name for local pages")
   .option("-a, --all", "Sync all locally stored pages")
   .option("--no-rewrite-urls", "Disable URL rewriting from production to staging")
+  .option("--no-validate", "Skip element validation before syncing")
+  .option("--media", "Import the page's downloaded media into staging and remap ids and URLs")
   .addHelpText(
     "after",
     `
@@ -204,13 +211,15 @@ Examples:
   $ elementor-cli preview sync --all           Sync all local pages
   $ elementor-cli preview sync 42 --site prod  Sync page from specific site
   $ elementor-cli preview sync 42 --no-rewrite-urls  Keep original URLs
+  $ elementor-cli preview sync 42 --media      Include images (pull --media first)
 
 This command:
-  1. Reads local page data from .elementor-cli/pages/
-  2. Rewrites asset URLs from production to staging (unless --no-rewrite-urls)
-  3. Creates or updates the page in staging WordPress
-  4. Updates Elementor meta (_elementor_data, _elementor_page_settings)
-  5. Flushes Elementor CSS cache
+  1. Reads and validates local page data from .elementor-cli/pages/
+  2. Imports downloaded media into staging and remaps ids and URLs (--media)
+  3. Rewrites asset URLs from production to staging (unless --no-rewrite-urls)
+  4. Creates or updates the page in staging WordPress
+  5. Updates Elementor meta (_elementor_data, _elementor_page_settings)
+  6. Flushes Elementor CSS cache
 
 See also:
   elementor-cli pull             Download pages from remote
@@ -222,6 +231,9 @@ See also:
       const docker = await DockerManager.create(options.composeFile);
       const store = await LocalStore.create();
       const parser = new ElementorParser();
+      const validator = new ElementValidator();
+      const media = new MediaManager();
+      const mediaSync = new MediaSync(store);
       const config = await readConfig();
 
       const siteName = options.site || config.defaultSite;
@@ -273,6 +285,15 @@ See also:
           continue;
         }
 
+        if (options.validate) {
+          const validation = validator.validate(localData.elements, localData.settings, localData.page);
+          if (!validation.valid) {
+            logger.error(`Page ${id} failed validation (${summarizeValidation(validation)}). Skipped.`);
+            printValidationResult(validation, 10);
+            continue;
+          }
+        }
+
         const spinner = logger.spinner(`Syncing page ${id}...`);
 
         try {
@@ -296,6 +317,20 @@ See also:
           let elements = localData.elements;
           let settings = localData.settings;
 
+          // Media imported into staging replaces the production attachments
+          if (options.media) {
+            const upload = await mediaSync.upload(
+              siteName,
+              id,
+              "staging",
+              elements,
+              settings,
+              stagingUploader(docker)
+            );
+            ({ elements, settings } = media.remap(elements, settings, upload.mappings));
+            printMediaUpload(upload);
+          }
+
           if (shouldRewriteUrls) {
             elements = parser.rewriteUrls(elements, sourceUrl, targetUrl);
             settings = parser.rewriteSettingsUrls(settings, sourceUrl, targetUrl);
@@ -322,6 +357,8 @@ See also:
           // Flush CSS cache
           await docker.flushElementorCss();
 
+          await store.recordSnapshot(siteName, id, "preview-sync");
+
           spinner.succeed(`Synced page ${id}: "${localData.meta.title}"`);
           synced++;
         } catch (error) {
@@ -444,37 +481,9 @@ See also:
       console.log("");
       logger.dim("Press Ctrl+C to stop watching.\n");
 
-      // Track pending syncs to debounce rapid changes
-      const pendingSyncs = new Map<string, NodeJS.Timeout>();
-
-      // Watch for changes
-      const watcher = fsWatch(
-        pagesDir,
-        { recursive: true },
-        async (eventType, filename) => {
-          if (!filename) return;
-
-          // Parse the page ID from the path (e.g., "42/elements.json" -> 42)
-          const pageIdMatch = filename.match(/^(\d+)\//);
-          if (!pageIdMatch) return;
-
-          const pageId = parseInt(pageIdMatch[1], 10);
-          if (isNaN(pageId)) return;
-
-          // Debounce: wait 500ms before syncing to batch rapid changes
-          if (pendingSyncs.has(String(pageId))) {
-            clearTimeout(pendingSyncs.get(String(pageId)));
-          }
-
-          pendingSyncs.set(
-            String(pageId),
-            setTimeout(async () => {
-              pendingSyncs.delete(String(pageId));
-              await syncPage(pageId);
-            }, 500)
-          );
-        }
-      );
+      // Sync each page once its files have been quiet for 500ms
+      const watcher = new PageWatcher(pagesDir, (pageId) => syncPage(pageId));
+      watcher.start();
 
       async function syncPage(pageId: number) {
         const localData = await store.loadPage(siteName, pageId);
@@ -563,6 +572,7 @@ Examples:
 Output is the element JSON including its settings and nested elements.
 
 See also:
+  elementor-cli element          Edit elements of local pages
   elementor-cli pull             Download pages from remote
   elementor-cli preview sync     Sync pages to staging
 `
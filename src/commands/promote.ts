@@ -0,0 +1,215 @@
+import { Command } from "commander";
+import chalk from "chalk";
+import { getSiteConfig } from "../utils/config-store.js";
+import { logger } from "../utils/logger.js";
+import { confirmAction } from "../utils/prompts.js";
+import { WordPressClient } from "../services/wordpress-client.js";
+import { LocalStore } from "../services/local-store.js";
+import { ElementorParser } from "../services/elementor-parser.js";
+import { ElementValidator } from "../services/element-validator.js";
+import { MediaSync } from "../services/media-sync.js";
+import { PagePromoter } from "../services/page-promoter.js";
+import { WPNotFoundError } from "../services/wordpress-errors.js";
+import type { WPPage } from "../types/wordpress.js";
+import {
+  formatValue,
+  hasElementChanges,
+  printElementDiff,
+  summarizeElementDiff,
+} from "../utils/diff-format.js";
+import { printMediaUpload } from "../utils/media-format.js";
+import { printUndoHint } from "../utils/journal-format.js";
+import { printValidationResult, summarizeValidation } from "../utils/validation-format.js";
+import { getPostType, postTypeLabel } from "../utils/post-type.js";
+
+export const promoteCommand = new Command("promote")
+  .description("Copy a page from one site to another (e.g. staging → production)")
+  .argument("<page-id>", "Page ID on the source site")
+  .requiredOption("--from <site>", "Source site from config")
+  .requiredOption("--to <site>", "Target site from config")
+  .option("--target-id <id>", "Page ID on the target site (remembered for next time)")
+  .option("--status <status>", "Status of the page if it has to be created", "draft")
+  .option("-n, --dry-run", "Show the changes to the target without writing")
+  .option("-y, --yes", "Don't ask for confirmation")
+  .option("--no-media", "Don't copy media; keep the source site's attachment ids")
+  .option("--no-rewrite-urls", "Keep URLs of the source site")
+  .option("--no-validate", "Skip element validation")
+  .option("--type <post-type>", "Post type to work with (default: page; e.g. post, product)")
+  .option("--library", "Promote an Elementor library item (same as --type elementor_library)")
+  .addHelpText(
+    "after",
+    `
+Examples:
+  $ elementor-cli promote 42 --from staging --to production
+  $ elementor-cli promote 42 --from staging --to production --dry-run
+  $ elementor-cli promote 42 --from staging --to production --target-id 314
+  $ elementor-cli promote 87 --from staging --to production --library
+
+How the target page is found:
+  1. --target-id, if given
+  2. The page this page was promoted to before (.elementor-cli/page-mappings.json)
+  3. A page with the same slug on the target site
+  4. Otherwise a new page is created (--status, default: draft)
+
+Before writing:
+  - Source site URLs are rewritten to the target site URL
+  - Attachments are downloaded, uploaded to the target once and remapped
+  - The element tree is validated
+  - The changes to the target page are shown and confirmed
+  - The target page is journaled, so 'elementor-cli undo --site <to>' reverts it
+
+See also:
+  elementor-cli pull           Download pages
+  elementor-cli push           Upload local changes
+  elementor-cli media          Media download and upload
+`
+  )
+  .action(async (pageId: string, options) => {
+    try {
+      const id = Number.parseInt(pageId, 10);
+      const postType = getPostType(options);
+      const source = await getSiteConfig(options.from);
+      const target = await getSiteConfig(options.to);
+
+      if (source.name === target.name) {
+        logger.error("--from and --to must be different sites.");
+        process.exit(1);
+      }
+
+      const sourceClient = new WordPressClient(source.config);
+      const promoter = new PagePromoter(
+        { ...source, client: sourceClient },
+        { ...target, client: new WordPressClient(target.config) },
+        new MediaSync(await LocalStore.create(postType)),
+        {
+          postType,
+          targetId: options.targetId ? Number.parseInt(options.targetId, 10) : undefined,
+          media: options.media !== false,
+          rewriteUrls: options.rewriteUrls !== false,
+        }
+      );
+      const validator = new ElementValidator();
+      const parser = new ElementorParser();
+      const label = postTypeLabel(postType);
+
+      // Source page
+      const spinner = logger.spinner(`Fetching ${label} ${id} from ${source.name}...`);
+      let sourcePage: WPPage;
+      try {
+        sourcePage = await sourceClient.getPage(id, postType);
+      } catch (error) {
+        spinner.stop();
+        if (error instanceof WPNotFoundError) {
+          logger.error(`Source ${label} ${id} does not exist on ${source.name}.`);
+          process.exit(1);
+        }
+        throw error;
+      }
+      if (!sourceClient.isElementorPage(sourcePage)) {
+        spinner.stop();
+        logger.error(`Source ${label} ${id} on ${source.name} is not an Elementor page.`);
+        process.exit(1);
+      }
+
+      // Target page
+      spinner.text = `Looking up the target on ${target.name}...`;
+      const plan = await promoter.plan(sourcePage);
+      spinner.stop();
+      const { source: sourceData, target: match } = plan;
+
+      if (options.validate) {
+        const validation = validator.validate(plan.elements, plan.settings, plan.source);
+        if (!validation.valid) {
+          logger.error(`Source ${label} ${id} failed validation (${summarizeValidation(validation)}).`);
+          printValidationResult(validation, 10);
+          logger.dim("  Fix it on the source site, or use --no-validate.");
+          process.exit(1);
+        }
+      }
+
+      // Plan
+      logger.heading(`Promote ${label} ${id}: "${sourceData.title}"`);
+      console.log(`From: ${source.name} (${source.config.url}) ${label} ${id}`);
+      if (match) {
+        console.log(
+          `To:   ${target.name} (${target.config.url}) ${label} ${match.page.id} ${chalk.dim(`(matched by ${match.matchedBy})`)}`
+        );
+      } else {
+        console.log(
+          `To:   ${target.name} (${target.config.url}) ${chalk.yellow(`new ${label}`)} ${chalk.dim(`(status: ${options.status})`)}`
+        );
+      }
+
+      if (plan.pendingMedia > 0) {
+        console.log(`Media: ${plan.pendingMedia} attachment(s) to copy to ${target.name} and remap`);
+      }
+      console.log("");
+
+      const preview = promoter.preview(plan);
+      if (match && preview) {
+        const targetData = parser.parseWPPage(match.page);
+        if (!hasElementChanges(preview.elements) && preview.settings.length === 0) {
+          logger.info("No changes to the target page.");
+        } else {
+          if (hasElementChanges(preview.elements)) {
+            logger.info(`Elements: ${summarizeElementDiff(preview.elements)}`);
+            printElementDiff(preview.elements, plan.elements, targetData.elementor_data);
+          }
+          for (const change of preview.settings) {
+            console.log(
+              `  ${chalk.yellow("~")} ${change.key}: ${formatValue(change.oldValue)} → ${formatValue(change.newValue)}`
+            );
+          }
+        }
+      } else {
+        logger.info(`Elements: ${parser.countElements(plan.elements)} (new ${label})`);
+      }
+      const mediaNote = promoter.pendingMediaNote(plan);
+      if (mediaNote) {
+        logger.info(mediaNote);
+      }
+      console.log("");
+
+      if (options.dryRun) {
+        logger.info("Dry run: nothing was written.");
+        return;
+      }
+
+      if (!options.yes) {
+        const confirmed = await confirmAction(
+          `Write this ${label} to ${target.name}${match ? ` (${label} ${match.page.id})` : ""}${plan.pendingMedia > 0 ? `, after copying ${plan.pendingMedia} attachment(s)` : ""}?`
+        );
+        if (!confirmed) {
+          logger.info("Cancelled.");
+          return;
+        }
+      }
+
+      // Media: copy attachments from the source site to the target site
+      if (plan.pendingMedia > 0) {
+        const mediaSpinner = logger.spinner("Copying media...");
+        const { download, upload } = await promoter.copyMedia(plan);
+        mediaSpinner.stop();
+
+        for (const { reference, error } of download.failed) {
+          logger.warn(`Could not download ${reference.url}: ${error}`);
+        }
+        printMediaUpload(upload);
+        if (download.failed.length > 0 || upload.failed.length > 0) {
+          logger.error("Some media could not be copied. Nothing was written to the target page.");
+          process.exit(1);
+        }
+      }
+
+      const writeSpinner = logger.spinner(`Writing to ${target.name}...`);
+      const { targetId, operation } = await promoter.write(plan, options.status);
+
+      writeSpinner.succeed(
+        `${match ? "Updated" : "Created"} ${label} ${targetId} on ${target.name}: "${sourceData.title}"`
+      );
+      printUndoHint(operation);
+    } catch (error) {
+      logger.error(`Promote failed: ${error}`);
+      process.exit(1);
+    }
+  });
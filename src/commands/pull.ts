@@ -5,13 +5,26 @@ import { confirmAction } from "../utils/prompts.js";
 import { WordPressClient } from "../services/wordpress-client.js";
 import { LocalStore } from "../services/local-store.js";
 import { ElementorParser } from "../services/elementor-parser.js";
+import { ElementMerger, toMergeSide } from "../services/element-merger.js";
+import { WPNotFoundError } from "../services/wordpress-errors.js";
+import { BulkRunner, countResults, failedResult, type BulkResult } from "../services/bulk-runner.js";
+import { sharedLimiter } from "../services/concurrency-limiter.js";
+import { MediaSync } from "../services/media-sync.js";
+import { getPostType, postTypeFlag, postTypeLabel } from "../utils/post-type.js";
+import { BulkProgress, bulkReport, parseConcurrency, printBulkSummary } from "../utils/bulk-format.js";
+import { printMediaDownload } from "../utils/media-format.js";
 
 export const pullCommand = new Command("pull")
   .description("Download Elementor pages from WordPress to local storage")
   .argument("[page-ids...]", "Page ID(s) to pull")
   .option("-s, --site <name>", "Site name from config")
   .option("-a, --all", "Pull all Elementor pages")
-  .option("-f, --force", "Overwrite local changes without confirmation")
+  .option("-f, --force", "Overwrite local changes instead of merging them")
+  .option("--type <post-type>", "Post type to work with (default: page; e.g. post, product)")
+  .option("--library", "Pull Elementor library items (same as --type elementor_library)")
+  .option("--media", "Also download the images and files the pages use")
+  .option("-c, --concurrency <n>", "Number of pages to pull at the same time (default: 4)")
+  .option("--json", "Output a JSON report of per-page results", false)
   .addHelpText(
     "after",
     `
@@ -21,35 +34,74 @@ Examples:
   $ elementor-cli pull --all                 Pull all Elementor pages
   $ elementor-cli pull 42 --force            Overwrite local changes
   $ elementor-cli pull 42 --site production  Pull from specific site
+  $ elementor-cli pull 87 --library          Pull a library item (e.g. header)
+  $ elementor-cli pull --all --library       Pull all library items
+  $ elementor-cli pull 12 --type post        Pull a blog post
+  $ elementor-cli pull --all --type product  Pull all products (custom post type)
+  $ elementor-cli pull 42 --media            Pull a page with its images
+  $ elementor-cli pull --all -c 8            Pull 8 pages at a time
+  $ elementor-cli pull --all --json          Per-page JSON report (CI)
+
+Merging:
+  If a local copy exists, remote changes are merged into it (three-way merge
+  against the last pulled version). Conflicting settings keep the local value
+  and are written to conflicts.json; run 'elementor-cli resolve' to settle them.
+
+Media:
+  With --media, attachments used by the page (image, background_image,
+  galleries, ...) are downloaded to media/ next to the page and listed in
+  media.json. 'push --media' and 'preview sync --media' upload them elsewhere.
+
+Bulk pulls:
+  Pages are pulled concurrently (--concurrency, default 4) and a summary table
+  is printed at the end. With --json, a report of every page's status and
+  error is printed instead, and local copies that cannot be merged are skipped
+  rather than prompting. The exit code is 1 if any page failed.
 
 See also:
-  elementor-cli pages list     List available pages
+  elementor-cli pages list     List available pages (--library for templates)
   elementor-cli push           Upload local changes
   elementor-cli diff           Compare local vs remote
 `
   )
   .action(async (pageIds: string[], options) => {
     try {
+      const json = Boolean(options.json);
+      const concurrency = parseConcurrency(options.concurrency);
       const { name: siteName, config } = await getSiteConfig(options.site);
+      const postType = getPostType(options);
+      // Let every worker have a request in flight
+      sharedLimiter.setLimit(concurrency);
       const client = new WordPressClient(config);
-      const store = await LocalStore.create();
+      const store = await LocalStore.create(postType);
       const parser = new ElementorParser();
+      const merger = new ElementMerger();
+      const mediaSync = new MediaSync(store);
 
       let pagesToPull: number[] = [];
 
       if (options.all) {
-        const spinner = logger.spinner("Fetching page list...");
-        const pages = await client.listPages();
-        const elementorPages = pages.filter((p) => client.isElementorPage(p));
-        pagesToPull = elementorPages.map((p) => p.id);
-        spinner.stop();
+        const spinner = json ? null : logger.spinner("Fetching page list...");
+        for await (const page of client.iteratePages({ postType })) {
+          if (client.isElementorPage(page)) {
+            pagesToPull.push(page.id);
+            if (spinner) spinner.text = `Fetching page list... (${pagesToPull.length} found)`;
+          }
+        }
+        spinner?.stop();
 
         if (pagesToPull.length === 0) {
-          logger.info("No Elementor pages found on the remote site.");
+          if (json) {
+            console.log(JSON.stringify(bulkReport({ command: "pull", site: siteName, postType }, []), null, 2));
+          } else {
+            logger.info(`No Elementor ${postTypeLabel(postType)}s found on the remote site.`);
+          }
           return;
         }
 
-        logger.info(`Found ${pagesToPull.length} Elementor page(s) to pull.`);
+        if (!json) {
+          logger.info(`Found ${pagesToPull.length} Elementor ${postTypeLabel(postType)}(s) to pull.`);
+        }
       } else if (pageIds.length > 0) {
         pagesToPull = pageIds.map((id) => parseInt(id, 10));
       } else {
@@ -57,57 +109,156 @@ See also:
         process.exit(1);
       }
 
-      let pulled = 0;
-      let skipped = 0;
+      const progress = new BulkProgress("Pulling", pagesToPull.length, !json);
 
-      for (const pageId of pagesToPull) {
+      const pullPage = async (pageId: number): Promise<BulkResult> => {
         // Check if local version exists
         const exists = await store.pageExists(siteName, pageId);
+        const localData =
+          exists && !options.force ? await store.loadPage(siteName, pageId) : null;
+        const base = localData ? await store.loadBase(siteName, pageId) : null;
 
-        if (exists && !options.force) {
-          const localData = await store.loadPage(siteName, pageId);
-          if (localData) {
-            const confirm = await confirmAction(
-              `Local copy of page ${pageId} exists. Overwrite?`
-            );
-            if (!confirm) {
-              logger.dim(`Skipped page ${pageId}`);
-              skipped++;
-              continue;
-            }
+        // Without a base snapshot we cannot merge, so fall back to overwriting
+        if (localData && !base) {
+          if (json) {
+            return {
+              pageId,
+              status: "skipped",
+              message: "Local copy exists and cannot be merged; use --force to overwrite",
+            };
+          }
+          const confirm = await progress.prompt(() =>
+            confirmAction(`Local copy of page ${pageId} exists. Overwrite?`)
+          );
+          if (!confirm) {
+            progress.print(() => logger.dim(`Skipped page ${pageId}`));
+            return { pageId, status: "skipped", message: "Kept local copy" };
           }
         }
 
-        const spinner = logger.spinner(`Pulling page ${pageId}...`);
-
         try {
-          const wpPage = await client.getPage(pageId);
+          const wpPage = await client.getPage(pageId, postType);
 
           if (!client.isElementorPage(wpPage)) {
-            spinner.warn(`Page ${pageId} is not an Elementor page. Skipped.`);
-            skipped++;
-            continue;
+            progress.print(() => logger.warn(`Page ${pageId} is not an Elementor page. Skipped.`));
+            return { pageId, status: "skipped", message: "Not an Elementor page" };
           }
 
           const pageData = parser.parseWPPage(wpPage);
+          const dir = store.getPageDir(siteName, pageId);
+
+          if (localData && base) {
+            const merged = merger.merge(
+              toMergeSide(base),
+              {
+                elements: localData.elements,
+                settings: localData.settings,
+                meta: localData.meta,
+              },
+              toMergeSide(pageData)
+            );
+            await store.saveMerged(siteName, pageData, merged);
+            await store.recordSnapshot(siteName, pageId, "pull");
+            const media = options.media
+              ? await mediaSync.download(client, siteName, pageId, merged.elements, merged.settings)
+              : null;
+
+            if (merged.conflicts.length > 0) {
+              progress.print(() => {
+                logger.warn(
+                  `Merged page ${pageId}: "${pageData.title}" with ${merged.conflicts.length} conflict(s)`
+                );
+                logger.dim(`  Resolve in: ${store.getConflictsPath(siteName, pageId)}`);
+                if (media) printMediaDownload(media);
+              });
+              return {
+                pageId,
+                status: "conflict",
+                title: pageData.title,
+                message: `Merged with ${merged.conflicts.length} conflict(s)`,
+              };
+            }
+
+            progress.print(() => {
+              logger.success(`Pulled page ${pageId}: "${pageData.title}" (merged with local changes)`);
+              logger.dim(`  Saved to: ${dir}`);
+              if (media) printMediaDownload(media);
+            });
+            return { pageId, status: "ok", title: pageData.title, message: "Merged with local changes" };
+          }
+
           await store.savePage(siteName, pageData);
+          await store.recordSnapshot(siteName, pageId, "pull");
+          const media = options.media
+            ? await mediaSync.download(
+                client,
+                siteName,
+                pageId,
+                pageData.elementor_data,
+                pageData.page_settings
+              )
+            : null;
 
-          const dir = store.getPageDir(siteName, pageId);
-          spinner.succeed(`Pulled page ${pageId}: "${pageData.title}"`);
-          logger.dim(`  Saved to: ${dir}`);
-          pulled++;
+          progress.print(() => {
+            logger.success(
+              `Pulled page ${pageId}: "${pageData.title}"${pageData.template_type ? ` (${pageData.template_type})` : ""}`
+            );
+            logger.dim(`  Saved to: ${dir}`);
+            if (media) printMediaDownload(media);
+          });
+          return {
+            pageId,
+            status: "ok",
+            title: pageData.title,
+            message: media?.failed.length
+              ? `${media.failed.length} media file(s) failed to download`
+              : undefined,
+          };
         } catch (error) {
-          spinner.fail(`Failed to pull page ${pageId}: ${error}`);
+          if (error instanceof WPNotFoundError) {
+            progress.print(() => logger.error(`Page ${pageId} does not exist on ${siteName}.`));
+            return failedResult(pageId, error, `Does not exist on ${siteName}`);
+          }
+          progress.print(() => logger.error(`Failed to pull page ${pageId}: ${error}`));
+          return failedResult(pageId, error);
         }
+      };
+
+      progress.start();
+      const results = await new BulkRunner(concurrency).run(pagesToPull, pullPage, (result) =>
+        progress.complete(result)
+      );
+      progress.stop();
+
+      const counts = countResults(results);
+      const pulled = counts.ok + counts.conflict;
+      const failed = counts.failed > 0 || (pulled === 0 && !options.all);
+
+      if (json) {
+        console.log(
+          JSON.stringify(bulkReport({ command: "pull", site: siteName, postType }, results), null, 2)
+        );
+        if (failed) process.exit(1);
+        return;
+      }
+
+      if (results.length > 1) {
+        console.log("");
+        printBulkSummary(results);
       }
 
       console.log("");
       logger.success(
-        `Pulled ${pulled} page(s)${skipped > 0 ? `, skipped ${skipped}` : ""}`
+        `Pulled ${pulled} page(s)${counts.skipped > 0 ? `, skipped ${counts.skipped}` : ""}${counts.conflict > 0 ? `, ${counts.conflict} with conflicts` : ""}${counts.failed > 0 ? `, ${counts.failed} failed` : ""}`
       );
+      if (counts.conflict > 0) {
+        logger.dim(
+          `Run 'elementor-cli resolve <page-id>${postTypeFlag(postType)}' after editing conflicts.json.`
+        );
+      }
 
-      // Exit with error if no pages were successfully pulled and we weren't pulling all
-      if (pulled === 0 && !options.all && pagesToPull.length > 0) {
+      // Exit with error if any page failed, or nothing was pulled for explicit ids
+      if (failed) {
         process.exit(1);
       }
     } catch (error) {
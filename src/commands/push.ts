@@ -5,14 +5,39 @@ import { confirmAction } from "../utils/prompts.js";
 import { WordPressClient } from "../services/wordpress-client.js";
 import { LocalStore } from "../services/local-store.js";
 import { ElementorParser } from "../services/elementor-parser.js";
+import { ElementMerger, toMergeSide } from "../services/element-merger.js";
+import { ElementValidator } from "../services/element-validator.js";
+import type { LocalPageData } from "../services/local-store.js";
+import type { ElementorElement, PageSettings } from "../types/elementor.js";
+import {
+  hasElementChanges,
+  printElementDiff,
+  summarizeElementDiff,
+} from "../utils/diff-format.js";
+import { printValidationResult, summarizeValidation } from "../utils/validation-format.js";
+import { getPostType, postTypeFlag, postTypeLabel } from "../utils/post-type.js";
+import { BulkRunner, countResults, failedResult, type BulkResult } from "../services/bulk-runner.js";
+import { sharedLimiter } from "../services/concurrency-limiter.js";
+import { MediaManager } from "../services/media-manager.js";
+import { MediaSync, wordpressUploader } from "../services/media-sync.js";
+import { OperationJournal } from "../services/operation-journal.js";
+import { printUndoHint } from "../utils/journal-format.js";
+import { BulkProgress, bulkReport, parseConcurrency, printBulkSummary } from "../utils/bulk-format.js";
+import { printMediaUpload, summarizeMediaUpload } from "../utils/media-format.js";
 
 export const pushCommand = new Command("push")
   .description("Upload local changes to WordPress")
   .argument("[page-ids...]", "Page ID(s) to push")
   .option("-s, --site <name>", "Site name from config")
-  .option("-a, --all", "Push all locally modified pages")
-  .option("-f, --force", "Force push even if remote has changed")
+  .option("-a, --all", "Push all local pages")
+  .option("-f, --force", "Force push even if remote has changed or conflicts are unresolved")
   .option("-n, --dry-run", "Show what would be pushed without making changes")
+  .option("--no-validate", "Skip element validation before pushing")
+  .option("--media", "Upload media downloaded from another site and remap ids and URLs")
+  .option("--type <post-type>", "Post type to work with (default: page; e.g. post, product)")
+  .option("--library", "Push Elementor library items (same as --type elementor_library)")
+  .option("-c, --concurrency <n>", "Number of pages to push at the same time (default: 4)")
+  .option("--json", "Output a JSON report of per-page results", false)
   .addHelpText(
     "after",
     `
@@ -23,34 +48,72 @@ Examples:
   $ elementor-cli push 42 --force            Overwrite remote changes
   $ elementor-cli push 42 --dry-run          Preview changes
   $ elementor-cli push 42 --site production  Push to specific site
+  $ elementor-cli push 87 --library          Push a library item (e.g. header)
+  $ elementor-cli push 12 --type post        Push a blog post
+  $ elementor-cli push 42 --media            Upload images from another site first
+  $ elementor-cli push --all -c 8            Push 8 pages at a time
+  $ elementor-cli push --all --json          Per-page JSON report (CI)
 
 Safety features:
-  - Compares timestamps to detect conflicts
-  - Requires --force if remote has been modified
+  - Validates the element tree and skips pages with errors
+  - Compares timestamps to detect remote changes
+  - Merges remote changes into local edits (three-way merge)
+  - Writes conflicts.json and skips the page if edits conflict
+  - Refuses to push pages with unresolved conflicts unless --force
   - WordPress creates a revision before overwriting
+  - The remote content is journaled first; 'elementor-cli undo' puts it back
+
+Media:
+  With --media, files in the page's media/ directory that were downloaded from
+  another site ('pull --media') are uploaded to this site's media library once,
+  and the page's image ids and URLs are rewritten to the uploaded copies.
+
+Bulk pushes:
+  Pages are pushed concurrently (--concurrency, default 4) and a summary table
+  is printed at the end. With --json, a report of every page's status and
+  error is printed instead, and pages changed on remote that cannot be merged
+  are reported as conflicts rather than prompting. The exit code is 1 if any
+  page failed, failed validation or conflicted.
 
 See also:
   elementor-cli pull           Download pages
   elementor-cli diff           Compare local vs remote
+  elementor-cli resolve        Resolve merge conflicts
+  elementor-cli validate       Check pages for errors
   elementor-cli revisions      View/restore backups
 `
   )
   .action(async (pageIds: string[], options) => {
     try {
+      const json = Boolean(options.json);
+      const concurrency = parseConcurrency(options.concurrency);
       const { name: siteName, config } = await getSiteConfig(options.site);
+      const postType = getPostType(options);
+      // Let every worker have a request in flight
+      sharedLimiter.setLimit(concurrency);
       const client = new WordPressClient(config);
-      const store = await LocalStore.create();
+      const store = await LocalStore.create(postType);
       const parser = new ElementorParser();
+      const merger = new ElementMerger();
+      const validator = new ElementValidator();
+      const media = new MediaManager();
+      const mediaSync = new MediaSync(store);
 
       let pagesToPush: number[] = [];
 
       if (options.all) {
         pagesToPush = await store.listLocalPages(siteName);
         if (pagesToPush.length === 0) {
-          logger.info("No local pages found to push.");
+          if (json) {
+            console.log(JSON.stringify(bulkReport({ command: "push", site: siteName, postType }, []), null, 2));
+          } else {
+            logger.info("No local pages found to push.");
+          }
           return;
         }
-        logger.info(`Found ${pagesToPush.length} local page(s) to push.`);
+        if (!json) {
+          logger.info(`Found ${pagesToPush.length} local page(s) to push.`);
+        }
       } else if (pageIds.length > 0) {
         pagesToPush = pageIds.map((id) => parseInt(id, 10));
       } else {
@@ -58,112 +121,308 @@ See also:
         process.exit(1);
       }
 
-      let pushed = 0;
-      let skipped = 0;
-      let conflicts = 0;
+      const label = postTypeLabel(postType);
+      const recorder = new OperationJournal(siteName).begin(
+        "push",
+        options.all ? `Push all local ${label}s` : `Push ${label}(s) ${pagesToPush.join(", ")}`
+      );
 
-      for (const pageId of pagesToPush) {
+      const progress = new BulkProgress(
+        options.dryRun ? "Checking" : "Pushing",
+        pagesToPush.length,
+        !json
+      );
+      // Dry runs report the pages they would push as skipped
+      let wouldPush = 0;
+
+      const pushPage = async (pageId: number): Promise<BulkResult> => {
         // Load local data
         const localData = await store.loadPage(siteName, pageId);
         if (!localData) {
-          logger.warn(`Page ${pageId} not found locally. Skipped.`);
-          skipped++;
-          continue;
+          progress.print(() => logger.warn(`Page ${pageId} not found locally. Skipped.`));
+          return { pageId, status: "skipped", message: "Not found locally" };
         }
+        const title = localData.meta.title;
 
-        const spinner = logger.spinner(`Checking page ${pageId}...`);
+        // Refuse to push while merge conflicts are unresolved
+        const pending = await store.loadConflicts(siteName, pageId);
+        if (pending && !options.force) {
+          progress.print(() => {
+            logger.warn(
+              `Page ${pageId} has ${pending.conflicts.length} unresolved conflict(s). Skipped.`
+            );
+            logger.dim(
+              `  Run 'elementor-cli resolve ${pageId}${postTypeFlag(postType)}' first, or use --force.`
+            );
+          });
+          return {
+            pageId,
+            status: "conflict",
+            title,
+            message: `${pending.conflicts.length} unresolved conflict(s)`,
+          };
+        }
+
+        // Refuse to push element trees that Elementor would not load
+        const checkValid = (
+          elements: ElementorElement[],
+          settings: PageSettings,
+          merged = false
+        ): BulkResult | null => {
+          if (!options.validate) return null;
+          const validation = validator.validate(elements, settings, localData.page);
+          if (validation.valid) return null;
+
+          const failed = merged ? "Failed validation after merging remote changes" : "Failed validation";
+          progress.print(() => {
+            logger.error(`Page ${pageId}: ${failed} (${summarizeValidation(validation)}). Skipped.`);
+            printValidationResult(validation, 10);
+            logger.dim(`  Run 'elementor-cli validate ${pageId}' for details, or use --no-validate.`);
+          });
+          return { pageId, status: "invalid", title, message: `${failed}: ${summarizeValidation(validation)}` };
+        };
+
+        const invalid = checkValid(localData.elements, localData.settings);
+        if (invalid) {
+          return invalid;
+        }
 
         try {
           // Get remote page to check for conflicts
-          const remotePage = await client.getPage(pageId);
+          const remotePage = await client.getPage(pageId, postType);
           const remoteModified = new Date(remotePage.modified);
           const localPulledAt = localData.page.remote_modified
             ? new Date(localData.page.remote_modified)
             : null;
 
-          // Check for conflict
-          if (localPulledAt && remoteModified > localPulledAt && !options.force) {
-            spinner.stop();
-            logger.warn(
-              `Page ${pageId} has been modified on remote since last pull.`
-            );
-            logger.dim(`  Remote modified: ${formatDate(remotePage.modified)}`);
-            logger.dim(
-              `  Local pulled:    ${formatDate(localData.page.remote_modified || "")}`
-            );
+          let elements = localData.elements;
+          let settings = localData.settings;
+          let meta = localData.meta;
+          let mergedRemote = false;
+
+          const base =
+            localPulledAt && remoteModified > localPulledAt && !options.force
+              ? await store.loadBase(siteName, pageId)
+              : null;
 
-            const confirm = await confirmAction(
-              "Force push and overwrite remote changes?"
+          // Remote changed since last pull: merge its changes into ours
+          if (base) {
+            const remoteData = parser.parseWPPage(remotePage);
+            const merged = merger.merge(
+              toMergeSide(base),
+              { elements, settings, meta },
+              toMergeSide(remoteData)
             );
+
+            if (merged.conflicts.length > 0) {
+              if (!options.dryRun) {
+                await store.saveMerged(siteName, remoteData, merged);
+              }
+              progress.print(() => {
+                logger.warn(
+                  `Page ${pageId} conflicts with remote changes (${merged.conflicts.length} conflict(s)). Skipped.`
+                );
+                if (!options.dryRun) {
+                  logger.dim(`  Resolve in: ${store.getConflictsPath(siteName, pageId)}`);
+                }
+              });
+              return {
+                pageId,
+                status: "conflict",
+                title,
+                message: `Conflicts with remote changes (${merged.conflicts.length} conflict(s))`,
+              };
+            }
+
+            // The merged tree is what gets written, so it is checked too
+            const invalidMerge = checkValid(merged.elements, merged.settings, true);
+            if (invalidMerge) {
+              return invalidMerge;
+            }
+
+            elements = merged.elements;
+            settings = merged.settings;
+            meta = merged.meta as LocalPageData["meta"];
+            mergedRemote = true;
+          } else if (localPulledAt && remoteModified > localPulledAt && !options.force) {
+            // No base snapshot (pulled with an older version): ask before overwriting
+            if (json) {
+              return {
+                pageId,
+                status: "conflict",
+                title,
+                message: "Modified on remote since last pull; use --force to overwrite",
+              };
+            }
+
+            const confirm = await progress.prompt(async () => {
+              logger.warn(
+                `Page ${pageId} has been modified on remote since last pull.`
+              );
+              logger.dim(`  Remote modified: ${formatDate(remotePage.modified)}`);
+              logger.dim(
+                `  Local pulled:    ${formatDate(localData.page.remote_modified || "")}`
+              );
+              return confirmAction("Force push and overwrite remote changes?");
+            });
             if (!confirm) {
-              logger.dim(`Skipped page ${pageId}`);
-              conflicts++;
-              continue;
+              progress.print(() => logger.dim(`Skipped page ${pageId}`));
+              return { pageId, status: "conflict", title, message: "Modified on remote since last pull" };
             }
           }
 
-          if (options.dryRun) {
-            spinner.stop();
-            logger.info(`Would push page ${pageId}: "${localData.meta.title}"`);
+          // Attachments from another site: upload them here and point the page at the copies
+          let mediaNote: string | undefined;
+          if (options.media && options.dryRun) {
+            const pendingMedia = await mediaSync.pending(siteName, pageId, siteName, elements, settings);
+            if (pendingMedia.length > 0) {
+              mediaNote = `Media: ${pendingMedia.length} file(s) to upload`;
+            }
+          } else if (options.media) {
+            const upload = await mediaSync.upload(
+              siteName,
+              pageId,
+              siteName,
+              elements,
+              settings,
+              wordpressUploader(client)
+            );
+            if (upload.failed.length > 0) {
+              progress.print(() => {
+                logger.error(`Page ${pageId}: media upload failed. Skipped.`);
+                printMediaUpload(upload);
+              });
+              return {
+                pageId,
+                status: "failed",
+                title,
+                message: `Media: ${summarizeMediaUpload(upload)}`,
+              };
+            }
+            if (upload.mappings.length > 0) {
+              ({ elements, settings } = media.remap(elements, settings, upload.mappings));
+              mediaNote = `Media: ${summarizeMediaUpload(upload)}`;
+            }
+          }
 
+          if (options.dryRun) {
             // Show diff summary
             const remoteData = parser.parseWPPage(remotePage);
             const diff = parser.diffElements(
-              localData.elements,
+              elements,
               remoteData.elementor_data
             );
 
-            if (diff.added.length || diff.removed.length || diff.modified.length) {
-              logger.dim(
-                `  Changes: +${diff.added.length} added, -${diff.removed.length} removed, ~${diff.modified.length} modified`
-              );
-            } else {
-              logger.dim(`  No element changes detected.`);
-            }
+            progress.print(() => {
+              logger.info(`Would push page ${pageId}: "${meta.title}"`);
+              if (hasElementChanges(diff)) {
+                logger.dim(`  Changes: ${summarizeElementDiff(diff)}`);
+                printElementDiff(diff, elements, remoteData.elementor_data);
+              } else {
+                logger.dim(`  No element changes detected.`);
+              }
+              if (mediaNote) logger.dim(`  ${mediaNote}`);
+            });
 
-            skipped++;
-            continue;
+            wouldPush++;
+            return {
+              pageId,
+              status: "skipped",
+              title: meta.title,
+              message: `Dry run: ${hasElementChanges(diff) ? summarizeElementDiff(diff) : "no element changes"}${mediaNote ? `; ${mediaNote}` : ""}`,
+            };
           }
 
-          spinner.text = `Pushing page ${pageId}...`;
-
           // Update page
-          await client.updatePage(pageId, {
-            title: localData.meta.title,
-            slug: localData.meta.slug,
-            status: localData.meta.status,
-            template: localData.meta.template,
-            elementorData: parser.serializeElements(localData.elements),
-            pageSettings: localData.settings,
-          });
+          await recorder.record(remotePage);
+          await client.updatePage(
+            pageId,
+            {
+              title: meta.title,
+              slug: meta.slug,
+              status: meta.status,
+              template: meta.template,
+              elementorData: parser.serializeElements(elements),
+              pageSettings: settings,
+            },
+            postType
+          );
 
           // Update local page data with current values and new remote timestamp
-          const updatedPage = await client.getPage(pageId);
+          const updatedPage = await client.getPage(pageId, postType);
           localData.page.remote_modified = updatedPage.modified;
-          localData.page.elementor_data = localData.elements;
-          localData.page.page_settings = localData.settings;
-          localData.page.title = localData.meta.title;
-          localData.page.slug = localData.meta.slug;
-          localData.page.status = localData.meta.status;
-          localData.page.template = localData.meta.template;
+          localData.page.elementor_data = elements;
+          localData.page.page_settings = settings;
+          localData.page.title = meta.title;
+          localData.page.slug = meta.slug;
+          localData.page.status = meta.status;
+          localData.page.template = meta.template;
           await store.savePage(siteName, localData.page);
+          await store.recordSnapshot(siteName, pageId, "push");
 
-          spinner.succeed(`Pushed page ${pageId}: "${localData.meta.title}"`);
-          pushed++;
+          progress.print(() => {
+            logger.success(
+              `Pushed page ${pageId}: "${meta.title}"${mergedRemote ? " (merged with remote changes)" : ""}`
+            );
+            if (mediaNote) logger.dim(`  ${mediaNote}`);
+          });
+          return {
+            pageId,
+            status: "ok",
+            title: meta.title,
+            message:
+              [mergedRemote ? "Merged with remote changes" : "", mediaNote ?? ""]
+                .filter(Boolean)
+                .join("; ") || undefined,
+          };
         } catch (error) {
-          spinner.fail(`Failed to push page ${pageId}: ${error}`);
+          progress.print(() => logger.error(`Failed to push page ${pageId}: ${error}`));
+          return { ...failedResult(pageId, error), title };
         }
+      };
+
+      progress.start();
+      const results = await new BulkRunner(concurrency).run(pagesToPush, pushPage, (result) =>
+        progress.complete(result)
+      );
+      progress.stop();
+
+      const counts = countResults(results);
+      const failed = counts.failed > 0 || counts.invalid > 0 || counts.conflict > 0;
+
+      if (json) {
+        console.log(
+          JSON.stringify(
+            bulkReport(
+              { command: "push", site: siteName, postType, dryRun: Boolean(options.dryRun) },
+              results
+            ),
+            null,
+            2
+          )
+        );
+        if (failed) process.exit(1);
+        return;
+      }
+
+      if (results.length > 1) {
+        console.log("");
+        printBulkSummary(results);
       }
 
+      const skipped = counts.skipped - wouldPush;
+      const others = `${skipped > 0 ? `, skipped ${skipped}` : ""}${counts.conflict > 0 ? `, ${counts.conflict} conflict(s)` : ""}${counts.invalid > 0 ? `, ${counts.invalid} invalid` : ""}${counts.failed > 0 ? `, ${counts.failed} failed` : ""}`;
+
       console.log("");
       if (options.dryRun) {
-        logger.info(
-          `Dry run complete. ${pagesToPush.length} page(s) would be pushed.`
-        );
+        logger.info(`Dry run complete. ${wouldPush} page(s) would be pushed${others}.`);
       } else {
-        logger.success(
-          `Pushed ${pushed} page(s)${skipped > 0 ? `, skipped ${skipped}` : ""}${conflicts > 0 ? `, ${conflicts} conflict(s)` : ""}`
-        );
+        logger.success(`Pushed ${counts.ok} page(s)${others}`);
+        printUndoHint(recorder.operation);
+      }
+
+      if (failed) {
+        process.exit(1);
       }
     } catch (error) {
       logger.error(`Push failed: ${error}`);
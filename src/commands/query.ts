@@ -0,0 +1,151 @@
+import { Command } from "commander";
+import chalk from "chalk";
+import { getSiteConfig } from "../utils/config-store.js";
+import { logger } from "../utils/logger.js";
+import { LocalStore } from "../services/local-store.js";
+import { ElementQuery, type QueryMatch } from "../services/element-query.js";
+import { getPostType, postTypeFlag, postTypeLabel } from "../utils/post-type.js";
+
+export const queryCommand = new Command("query")
+  .description("Find elements in local pages with a CSS-like selector")
+  .argument("[page-id]", "Local page ID (omit with --all)")
+  .argument("[selector]", "Selector, e.g. 'container > widget[heading]'")
+  .option("-s, --site <name>", "Site name from config")
+  .option("-a, --all", "Search all local pages")
+  .option("--settings", "Print each element's settings")
+  .option("--ids", "Print only element ids, one per line")
+  .option("--count", "Print only the number of matches per page")
+  .option("--json", "Output as JSON", false)
+  .option("--type <post-type>", "Post type to work with (default: page; e.g. post, product)")
+  .option("--library", "Use Elementor library items (same as --type elementor_library)")
+  .addHelpText(
+    "after",
+    `
+Examples:
+  $ elementor-cli query 42 "widget[heading]"
+  $ elementor-cli query 42 "container > widget[heading][header_size=h1]"
+  $ elementor-cli query 42 'widget[button]:has(link.url*="old-domain")' --settings
+  $ elementor-cli query 42 "section:nth(2) widget" --ids
+  $ elementor-cli query --all "widget[image]:not(:has(image.alt))" --json
+
+Selector syntax:
+  container, section,      Element type; * for any
+  column, widget, *
+  #abc123                  Element id
+  [heading]                Widget type
+  [path=value]             Setting equals (dotted path: link.url, typography_font_size.size)
+  [path!=value]            Setting differs (unset counts as "")
+  [path^=value]            Starts with    [path$=value]  Ends with
+  [path*=value]            Contains       [path~=regex]  Matches a regular expression
+  :has(path)               Setting is set (not empty)
+  :has(path*="value")      Same as [path*="value"]
+  :has(selector)           Has a descendant matching the selector
+  :not(selector)           Doesn't match the selector
+  :nth(n) :first :last     Position among siblings of the same type (1-based)
+  a b    a > b             Descendant / direct child
+  a, b                     Either selector
+
+Values may be quoted ("..." or '...'). Objects are compared as JSON.
+Exits with 1 if nothing matched.
+
+See also:
+  elementor-cli element get      Show a matched element
+  elementor-cli audit --select   Audit only matched elements
+`
+  )
+  .action(async (pageId: string | undefined, selectorArg: string | undefined, options) => {
+    try {
+      // With --all the only argument is the selector
+      const selector = options.all ? selectorArg ?? pageId : selectorArg;
+      if (!selector || (!options.all && !pageId) || (options.all && selectorArg)) {
+        logger.error("Usage: query <page-id> <selector>, or query --all <selector>.");
+        process.exit(1);
+      }
+
+      const query = new ElementQuery();
+      const parsed = query.parse(selector);
+      const postType = getPostType(options);
+      const { name: siteName } = await getSiteConfig(options.site);
+      const store = await LocalStore.create(postType);
+      const label = postTypeLabel(postType);
+
+      let pageIds: number[];
+      if (options.all) {
+        pageIds = await store.listLocalPages(siteName);
+        if (pageIds.length === 0) {
+          logger.info("No local pages found.");
+          return;
+        }
+      } else {
+        pageIds = [Number.parseInt(pageId as string, 10)];
+      }
+
+      const results: Array<{ pageId: number; title: string; matches: QueryMatch[] }> = [];
+      for (const id of pageIds) {
+        const page = await store.loadPage(siteName, id);
+        if (!page) {
+          logger.error(`${label} ${id} not found locally.`);
+          logger.info(`Run 'elementor-cli pull ${id}${postTypeFlag(postType)}' first.`);
+          process.exit(1);
+        }
+        const matches = query.select(page.elements, parsed);
+        if (matches.length > 0 || !options.all) {
+          results.push({ pageId: id, title: page.meta.title, matches });
+        }
+      }
+
+      const total = results.reduce((sum, result) => sum + result.matches.length, 0);
+
+      if (options.json) {
+        console.log(
+          JSON.stringify(
+            results.flatMap(({ pageId: id, matches }) =>
+              matches.map((match) => ({
+                page: id,
+                id: match.element.id,
+                elType: match.element.elType,
+                widgetType: match.element.widgetType,
+                path: match.path.join(" > "),
+                parentId: match.parentId,
+                index: match.index,
+                settings: match.element.settings,
+              }))
+            ),
+            null,
+            2
+          )
+        );
+      } else if (options.ids) {
+        for (const { matches } of results) {
+          for (const match of matches) console.log(match.element.id);
+        }
+      } else if (options.count) {
+        for (const { pageId: id, matches } of results) {
+          console.log(`${id}\t${matches.length}`);
+        }
+      } else {
+        for (const { pageId: id, title, matches } of results) {
+          const heading = `${label[0].toUpperCase()}${label.slice(1)} ${id}: ${title}`;
+          logger.heading(`${heading} (${matches.length} match(es))`);
+          for (const match of matches) {
+            console.log(`  ${chalk.cyan(match.element.id)}  ${match.path.join(" > ")}`);
+            if (options.settings) {
+              const settings = JSON.stringify(match.element.settings, null, 2);
+              console.log(chalk.dim(settings.replace(/^/gm, "      ")));
+            }
+          }
+        }
+        if (options.all) {
+          console.log("");
+          logger.info(`${total} match(es) in ${results.length} of ${pageIds.length} ${label}(s).`);
+        }
+      }
+
+      if (total === 0) {
+        process.exit(1);
+      }
+    } catch (error) {
+      logger.error(`Query failed: ${error instanceof Error ? error.message : error}`);
+      process.exit(1);
+    }
+  });
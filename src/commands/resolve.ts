@@ -0,0 +1,210 @@
+import { Command } from "commander";
+import chalk from "chalk";
+import { readConfig } from "../utils/config-store.js";
+import { logger } from "../utils/logger.js";
+import { LocalStore, type ConflictEntry } from "../services/local-store.js";
+import { ElementorParser } from "../services/elementor-parser.js";
+import { getPostType } from "../utils/post-type.js";
+import type { ElementorElement } from "../types/elementor.js";
+
+export const resolveCommand = new Command("resolve")
+  .description("Resolve merge conflicts left by pull or push")
+  .argument("<page-id>", "Page ID with conflicts")
+  .option("-s, --site <name>", "Site name for local pages")
+  .option("--ours", "Resolve all remaining conflicts with the local value")
+  .option("--theirs", "Resolve all remaining conflicts with the remote value")
+  .option("-l, --list", "List conflicts without resolving them")
+  .option("--type <post-type>", "Post type to work with (default: page; e.g. post, product)")
+  .option("--library", "Resolve conflicts of an Elementor library item")
+  .addHelpText(
+    "after",
+    `
+Examples:
+  $ elementor-cli resolve 42 --list        Show conflicts for page 42
+  $ elementor-cli resolve 42               Apply resolutions from conflicts.json
+  $ elementor-cli resolve 42 --ours        Keep local values for all conflicts
+  $ elementor-cli resolve 42 --theirs      Take remote values for all conflicts
+
+How it works:
+  When pull or push merges remote changes into local edits, conflicting
+  changes are written to conflicts.json next to elements.json. The local
+  value is kept in elements.json until the conflict is resolved.
+
+  Set "resolution" on each entry in conflicts.json:
+    "local" or "remote"   for settings, meta and element fields
+    "keep" or "delete"    for elements deleted on one side only
+
+  Then run 'elementor-cli resolve <page-id>' to apply them and push again.
+
+See also:
+  elementor-cli pull           Download and merge remote changes
+  elementor-cli push           Upload local changes
+`
+  )
+  .action(async (pageId: string, options) => {
+    try {
+      const id = Number.parseInt(pageId, 10);
+      const store = await LocalStore.create(getPostType(options));
+      const parser = new ElementorParser();
+      const config = await readConfig();
+
+      const siteName = options.site || config.defaultSite;
+      if (!siteName) {
+        logger.error("No site specified and no default site configured.");
+        process.exit(1);
+      }
+
+      if (options.ours && options.theirs) {
+        logger.error("Cannot use both --ours and --theirs");
+        process.exit(1);
+      }
+
+      const conflictFile = await store.loadConflicts(siteName, id);
+      if (!conflictFile || conflictFile.conflicts.length === 0) {
+        logger.info(`No conflicts for page ${id}.`);
+        return;
+      }
+
+      const localData = await store.loadPage(siteName, id);
+      if (!localData) {
+        logger.error(`Page ${id} not found locally.`);
+        process.exit(1);
+      }
+
+      if (options.list) {
+        logger.heading(`Conflicts for Page ${id}`);
+        for (const conflict of conflictFile.conflicts) {
+          printConflict(conflict);
+        }
+        console.log("");
+        logger.dim(`${conflictFile.conflicts.length} conflict(s) in ${store.getConflictsPath(siteName, id)}`);
+        return;
+      }
+
+      // Fill in unresolved entries from --ours/--theirs
+      const conflicts = conflictFile.conflicts.map((conflict) => {
+        if (conflict.resolution || (!options.ours && !options.theirs)) {
+          return conflict;
+        }
+        const side = options.ours ? conflict.local : conflict.remote;
+        const resolution: ConflictEntry["resolution"] =
+          conflict.kind === "element"
+            ? side === null
+              ? "delete"
+              : "keep"
+            : options.ours
+              ? "local"
+              : "remote";
+        return { ...conflict, resolution };
+      });
+
+      const unresolved = conflicts.filter((c) => !c.resolution);
+      if (unresolved.length > 0) {
+        logger.error(`${unresolved.length} conflict(s) have no resolution:`);
+        for (const conflict of unresolved) {
+          printConflict(conflict);
+        }
+        console.log("");
+        logger.info(
+          `Set "resolution" in ${store.getConflictsPath(siteName, id)} or use --ours/--theirs.`
+        );
+        process.exit(1);
+      }
+
+      const elements = parser.cloneElements(localData.elements);
+      const settings = { ...localData.settings };
+      const meta: Record<string, unknown> = { ...localData.meta };
+
+      for (const conflict of conflicts) {
+        if (conflict.kind === "element") {
+          if (conflict.resolution === "delete" && conflict.elementId) {
+            removeElement(elements, conflict.elementId);
+          }
+          continue;
+        }
+
+        if (conflict.resolution !== "remote" || !conflict.key) {
+          continue;
+        }
+
+        let target: Record<string, unknown> | null = null;
+        if (conflict.kind === "meta") {
+          target = meta;
+        } else if (conflict.elementId) {
+          const element = parser.findElement(elements, conflict.elementId);
+          if (element) {
+            target =
+              conflict.kind === "field"
+                ? (element as unknown as Record<string, unknown>)
+                : element.settings;
+          }
+        } else {
+          target = settings;
+        }
+
+        if (!target) {
+          logger.warn(`Element ${conflict.elementId} no longer exists. Skipped.`);
+          continue;
+        }
+
+        if (conflict.remote === undefined) {
+          delete target[conflict.key];
+        } else {
+          target[conflict.key] = conflict.remote;
+        }
+      }
+
+      const base = await store.loadBase(siteName, id);
+      const page = {
+        ...localData.page,
+        title: meta.title as string,
+        slug: meta.slug as string,
+        status: meta.status as typeof localData.page.status,
+        template: meta.template as string | undefined,
+        elementor_data: elements,
+        page_settings: settings,
+      };
+      await store.savePage(siteName, page, base || page);
+
+      logger.success(`Resolved ${conflicts.length} conflict(s) for page ${id}`);
+      logger.dim(`Run 'elementor-cli push ${id}' to upload the result.`);
+    } catch (error) {
+      logger.error(`Resolve failed: ${error}`);
+      process.exit(1);
+    }
+  });
+
+function printConflict(conflict: ConflictEntry): void {
+  const where =
+    conflict.kind === "meta"
+      ? "meta"
+      : conflict.elementId
+        ? `element ${conflict.elementId}`
+        : "page settings";
+  const label = conflict.kind === "element" ? "deleted on one side, modified on the other" : conflict.key;
+  const resolution = conflict.resolution ? chalk.green(conflict.resolution) : chalk.yellow("unresolved");
+
+  console.log(`  ${chalk.yellow("!")} ${where}: ${label} [${resolution}]`);
+  if (conflict.kind !== "element") {
+    console.log(chalk.dim(`      base:   ${formatValue(conflict.base)}`));
+    console.log(`      local:  ${chalk.green(formatValue(conflict.local))}`);
+    console.log(`      remote: ${chalk.red(formatValue(conflict.remote))}`);
+  }
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined) return "(not set)";
+  if (typeof value === "object") {
+    return JSON.stringify(value).slice(0, 60);
+  }
+  return String(value);
+}
+
+function removeElement(elements: ElementorElement[], id: string): boolean {
+  const index = elements.findIndex((el) => el.id === id);
+  if (index !== -1) {
+    elements.splice(index, 1);
+    return true;
+  }
+  return elements.some((el) => el.elements && removeElement(el.elements, id));
+}
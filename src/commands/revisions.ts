@@ -4,8 +4,22 @@ import { getSiteConfig } from "../utils/config-store.js";
 import { logger, formatDate } from "../utils/logger.js";
 import { confirmAction } from "../utils/prompts.js";
 import { WordPressClient } from "../services/wordpress-client.js";
-import { RevisionManager } from "../services/revision-manager.js";
+import { RevisionManager, type RevisionRestoreResult } from "../services/revision-manager.js";
+import { RevisionTagStore } from "../services/revision-tag-store.js";
+import {
+  RevisionRetention,
+  type RetentionDecision,
+  type RetentionPolicy,
+} from "../services/revision-retention.js";
 import { ElementorParser } from "../services/elementor-parser.js";
+import {
+  hasElementChanges,
+  printElementDiff,
+  summarizeElementDiff,
+} from "../utils/diff-format.js";
+import { getPostType, postTypeLabel } from "../utils/post-type.js";
+import { OperationJournal } from "../services/operation-journal.js";
+import { printUndoHint } from "../utils/journal-format.js";
 
 export const revisionsCommand = new Command("revisions").description(
   "View and restore page backups/revisions"
@@ -16,12 +30,16 @@ revisionsCommand
   .command("list <page-id>")
   .description("List revisions for a page")
   .option("-s, --site <name>", "Site name from config")
+  .option("--type <post-type>", "Post type to work with (default: page; e.g. post, product)")
+  .option("--json", "Output as JSON", false)
   .addHelpText(
     "after",
     `
 Examples:
   $ elementor-cli revisions list 42
   $ elementor-cli revisions list 42 --site production
+  $ elementor-cli revisions list 12 --type post
+  $ elementor-cli revisions list 42 --json
 
 See also:
   elementor-cli revisions show      Show revision details
@@ -31,14 +49,21 @@ See also:
   .action(async (pageId, options) => {
     try {
       const id = parseInt(pageId, 10);
+      const postType = getPostType(options);
       const { name: siteName, config } = await getSiteConfig(options.site);
       const client = new WordPressClient(config);
-      const manager = new RevisionManager(client);
+      const manager = new RevisionManager(client, postType);
 
       const spinner = logger.spinner("Fetching revisions...");
-      const revisions = await manager.listRevisions(id);
+      const tags = await new RevisionTagStore().forPage(siteName, postType, id);
+      const revisions = await manager.listSummaries(id, tags);
       spinner.stop();
 
+      if (options.json) {
+        console.log(JSON.stringify(revisions, null, 2));
+        return;
+      }
+
       if (revisions.length === 0) {
         logger.info("No revisions found for this page.");
         return;
@@ -49,21 +74,18 @@ See also:
         "ID".padEnd(10) +
           "Date".padEnd(25) +
           "Elementor".padEnd(12) +
-          "Elements"
+          "Elements".padEnd(10) +
+          "Tag"
       );
-      console.log("─".repeat(60));
+      console.log("─".repeat(80));
 
       for (const rev of revisions) {
-        const parser = new ElementorParser();
-        const elementCount = rev.hasElementorData
-          ? String(parser.countElements(rev.elementorData))
-          : "-";
-
         console.log(
           String(rev.id).padEnd(10) +
             formatDate(rev.date).padEnd(25) +
             (rev.hasElementorData ? "Yes" : "No").padEnd(12) +
-            elementCount
+            String(rev.elementCount ?? "-").padEnd(10) +
+            (rev.tag ?? "")
         );
       }
 
@@ -80,6 +102,7 @@ revisionsCommand
   .command("show <page-id> <revision-id>")
   .description("Show revision details")
   .option("-s, --site <name>", "Site name from config")
+  .option("--type <post-type>", "Post type to work with (default: page; e.g. post, product)")
   .addHelpText(
     "after",
     `
@@ -98,7 +121,7 @@ See also:
       const revId = parseInt(revisionId, 10);
       const { config } = await getSiteConfig(options.site);
       const client = new WordPressClient(config);
-      const manager = new RevisionManager(client);
+      const manager = new RevisionManager(client, getPostType(options));
       const parser = new ElementorParser();
 
       const spinner = logger.spinner("Fetching revision...");
@@ -140,6 +163,7 @@ revisionsCommand
   .command("diff <page-id> <revision-id>")
   .description("Compare revision to current page")
   .option("-s, --site <name>", "Site name from config")
+  .option("--type <post-type>", "Post type to work with (default: page; e.g. post, product)")
   .addHelpText(
     "after",
     `
@@ -158,13 +182,13 @@ See also:
       const revId = parseInt(revisionId, 10);
       const { config } = await getSiteConfig(options.site);
       const client = new WordPressClient(config);
-      const manager = new RevisionManager(client);
+      const manager = new RevisionManager(client, getPostType(options));
       const parser = new ElementorParser();
 
       const spinner = logger.spinner("Comparing revision...");
 
       const [currentPage, revision] = await Promise.all([
-        client.getPage(id),
+        client.getPage(id, getPostType(options)),
         manager.getRevision(id, revId),
       ]);
 
@@ -184,52 +208,17 @@ See also:
 
       logger.heading(`Diff: Current vs Revision ${revId}`);
 
-      const hasChanges =
-        diff.added.length > 0 ||
-        diff.removed.length > 0 ||
-        diff.modified.length > 0;
-
-      if (!hasChanges) {
+      if (!hasElementChanges(diff)) {
         logger.success("No differences found.");
         return;
       }
 
-      // "Added" means in current but not in revision (new since revision)
-      if (diff.added.length > 0) {
-        console.log(chalk.bold("\nAdded since revision:"));
-        for (const elId of diff.added) {
-          const el = parser.findElement(currentData.elementor_data, elId);
-          console.log(
-            `  ${chalk.green("+")} ${el?.elType}${el?.widgetType ? `[${el.widgetType}]` : ""} (${elId})`
-          );
-        }
-      }
-
-      // "Removed" means in revision but not in current (removed since revision)
-      if (diff.removed.length > 0) {
-        console.log(chalk.bold("\nRemoved since revision:"));
-        for (const elId of diff.removed) {
-          const el = parser.findElement(revision.elementorData, elId);
-          console.log(
-            `  ${chalk.red("-")} ${el?.elType}${el?.widgetType ? `[${el.widgetType}]` : ""} (${elId})`
-          );
-        }
-      }
-
-      if (diff.modified.length > 0) {
-        console.log(chalk.bold("\nModified since revision:"));
-        for (const elId of diff.modified) {
-          const el = parser.findElement(currentData.elementor_data, elId);
-          console.log(
-            `  ${chalk.yellow("~")} ${el?.elType}${el?.widgetType ? `[${el.widgetType}]` : ""} (${elId})`
-          );
-        }
-      }
+      // "Added" means in current but not in revision (new since revision),
+      // setting changes go from the revision value to the current value
+      printElementDiff(diff, currentData.elementor_data, revision.elementorData);
 
       console.log("");
-      logger.dim(
-        `Summary: +${diff.added.length} added, -${diff.removed.length} removed, ~${diff.modified.length} modified`
-      );
+      logger.dim(`Summary: ${summarizeElementDiff(diff)}`);
     } catch (error) {
       logger.error(`Failed to diff revision: ${error}`);
       process.exit(1);
@@ -241,7 +230,9 @@ revisionsCommand
   .command("restore <page-id> <revision-id>")
   .description("Restore a revision to the page")
   .option("-s, --site <name>", "Site name from config")
+  .option("--type <post-type>", "Post type to work with (default: page; e.g. post, product)")
   .option("-f, --force", "Skip confirmation")
+  .option("--json", "Output the result as JSON", false)
   .addHelpText(
     "after",
     `
@@ -249,12 +240,15 @@ Examples:
   $ elementor-cli revisions restore 42 156
   $ elementor-cli revisions restore 42 156 --force
   $ elementor-cli revisions restore 42 156 --site production
+  $ elementor-cli revisions restore 42 156 --force --json
 
 WARNING: This will overwrite the current page content!
+The current content is journaled first; 'elementor-cli undo' puts it back.
 
 See also:
   elementor-cli revisions list   List all revisions
   elementor-cli revisions diff   Compare before restoring
+  elementor-cli undo             Undo the restore
 `
   )
   .action(async (pageId, revisionId, options) => {
@@ -263,7 +257,7 @@ See also:
       const revId = parseInt(revisionId, 10);
       const { name: siteName, config } = await getSiteConfig(options.site);
       const client = new WordPressClient(config);
-      const manager = new RevisionManager(client);
+      const manager = new RevisionManager(client, getPostType(options));
 
       if (!options.force) {
         const confirmed = await confirmAction(
@@ -277,10 +271,27 @@ See also:
 
       const spinner = logger.spinner("Restoring revision...");
 
-      await manager.restoreRevision(id, revId);
+      const recorder = new OperationJournal(siteName).begin(
+        "revisions",
+        `Restore page ${id} to revision ${revId}`
+      );
+      await manager.restoreRevision(id, revId, recorder);
+
+      if (options.json) {
+        spinner.stop();
+        const result: RevisionRestoreResult = {
+          pageId: id,
+          revisionId: revId,
+          site: siteName,
+          operation: recorder.operation.id,
+        };
+        console.log(JSON.stringify(result, null, 2));
+        return;
+      }
 
       spinner.succeed(`Restored page ${id} to revision ${revId}`);
       logger.dim(`Site: ${siteName}`);
+      printUndoHint(recorder.operation);
     } catch (error) {
       logger.error(`Failed to restore revision: ${error}`);
       process.exit(1);
@@ -292,6 +303,7 @@ revisionsCommand
   .command("create <page-id>")
   .description("Create a manual backup (revision)")
   .option("-s, --site <name>", "Site name from config")
+  .option("--type <post-type>", "Post type to work with (default: page; e.g. post, product)")
   .option("-m, --message <message>", "Backup note")
   .addHelpText(
     "after",
@@ -300,30 +312,228 @@ Examples:
   $ elementor-cli revisions create 42
   $ elementor-cli revisions create 42 --message "Before major changes"
 
+The message tags the new revision: it is shown by 'revisions list' and the
+revision is kept by 'revisions prune'. Tags are stored locally in
+.elementor-cli/revision-tags.json.
+
 See also:
   elementor-cli revisions list      List all revisions
   elementor-cli revisions restore   Restore a revision
+  elementor-cli revisions prune     Delete old revisions
 `
   )
   .action(async (pageId, options) => {
     try {
       const id = parseInt(pageId, 10);
+      const postType = getPostType(options);
       const { name: siteName, config } = await getSiteConfig(options.site);
       const client = new WordPressClient(config);
-      const manager = new RevisionManager(client);
+      const manager = new RevisionManager(client, postType);
 
       const spinner = logger.spinner("Creating backup...");
 
+      // WordPress skips the revision when nothing changed, so only a revision
+      // that appeared with the backup gets the tag
+      const previous = options.message ? await manager.latestRevision(id) : null;
       await manager.createBackup(id);
+      const latest = options.message ? await manager.latestRevision(id) : null;
+      const revision = latest && latest.id !== previous?.id ? latest : null;
 
       spinner.succeed(`Created backup for page ${id}`);
       logger.dim(`Site: ${siteName}`);
 
       if (options.message) {
-        logger.dim(`Note: ${options.message}`);
+        if (revision) {
+          await new RevisionTagStore().add(siteName, postType, id, revision.id, options.message);
+          logger.dim(`Tagged revision ${revision.id}: ${options.message}`);
+        } else {
+          logger.warn("WordPress created no new revision, so nothing was tagged.");
+          logger.dim("The page may be unchanged since its last revision, or revisions are disabled.");
+        }
       }
     } catch (error) {
       logger.error(`Failed to create backup: ${error}`);
       process.exit(1);
     }
   });
+
+function printDecisions(decisions: RetentionDecision[], showKept: boolean): void {
+  for (const decision of decisions) {
+    if (decision.keep && !showKept) continue;
+    const line = `  ${String(decision.id).padEnd(10)}${formatDate(decision.date).padEnd(25)}`;
+    console.log(
+      decision.keep
+        ? chalk.dim(`${chalk.green("=")}${line}${decision.reasons.join(", ")}`)
+        : `${chalk.red("-")}${line.trimEnd()}`
+    );
+  }
+}
+
+// revisions prune
+revisionsCommand
+  .command("prune [page-ids...]")
+  .description("Delete old revisions according to a retention policy")
+  .option("-s, --site <name>", "Site name from config")
+  .option("--type <post-type>", "Post type to work with (default: page; e.g. post, product)")
+  .option("-a, --all", "Prune revisions of all Elementor pages")
+  .option("--keep-last <n>", "Keep the newest N revisions")
+  .option("--keep-daily <days>", "Keep the newest revision of each day for the last N days")
+  .option("--no-keep-tagged", "Also delete revisions tagged with 'revisions create --message'")
+  .option("-n, --dry-run", "Show which revisions would be deleted")
+  .option("-f, --force", "Skip confirmation")
+  .option("--json", "Output the decisions (and results) as JSON", false)
+  .addHelpText(
+    "after",
+    `
+Examples:
+  $ elementor-cli revisions prune 42 --keep-last 10 --dry-run
+  $ elementor-cli revisions prune --all --keep-last 5 --keep-daily 30
+  $ elementor-cli revisions prune 42 156 --keep-daily 7 --force
+
+Retention policy:
+  A revision is kept if any rule keeps it; all others are deleted.
+  --keep-last <n>       The newest N revisions
+  --keep-daily <days>   The newest revision of each day within the last N days
+  tagged revisions      Kept unless --no-keep-tagged
+
+At least one of --keep-last and --keep-daily is required. Revisions are
+deleted permanently through the WordPress REST API; the current page
+content is not affected.
+
+See also:
+  elementor-cli revisions list     Show revisions and tags
+  elementor-cli revisions create   Create a tagged revision
+`
+  )
+  .action(async (pageIds: string[], options) => {
+    try {
+      if (pageIds.length === 0 && !options.all) {
+        logger.error("Specify page ID(s) or use --all.");
+        process.exit(1);
+      }
+      if (pageIds.length > 0 && options.all) {
+        logger.error("Cannot use both page IDs and --all.");
+        process.exit(1);
+      }
+
+      const policy: RetentionPolicy = { keepTagged: options.keepTagged };
+      for (const [key, flag] of [
+        ["keepLast", "--keep-last"],
+        ["keepDaily", "--keep-daily"],
+      ] as const) {
+        const raw = options[key];
+        if (raw === undefined) continue;
+        const value = Number.parseInt(raw, 10);
+        if (Number.isNaN(value) || value < 0) {
+          logger.error(`${flag} expects a number, got "${raw}"`);
+          process.exit(1);
+        }
+        policy[key] = value;
+      }
+      if (policy.keepLast === undefined && policy.keepDaily === undefined) {
+        logger.error("Specify a retention policy: --keep-last and/or --keep-daily.");
+        process.exit(1);
+      }
+
+      const postType = getPostType(options);
+      const label = postTypeLabel(postType);
+      const { name: siteName, config } = await getSiteConfig(options.site);
+      const client = new WordPressClient(config);
+      const manager = new RevisionManager(client, postType);
+      const tagStore = new RevisionTagStore();
+      const retention = new RevisionRetention(policy);
+
+      const spinner = options.json ? null : logger.spinner("Fetching revisions...");
+      let ids = pageIds.map((id) => Number.parseInt(id, 10));
+      if (options.all) {
+        ids = [];
+        for await (const page of client.iteratePages({ status: "all", postType })) {
+          if (client.isElementorPage(page)) ids.push(page.id);
+        }
+      }
+
+      const plans: Array<{ pageId: number; decisions: RetentionDecision[] }> = [];
+      for (const [index, pageId] of ids.entries()) {
+        if (spinner) spinner.text = `Fetching revisions ${index + 1}/${ids.length}...`;
+        const revisions = await manager.listRevisions(pageId);
+        const tags = await tagStore.forPage(siteName, postType, pageId);
+        plans.push({ pageId, decisions: retention.decide(revisions, new Set(tags.keys())) });
+      }
+      spinner?.stop();
+
+      const doomed = plans.reduce(
+        (sum, plan) => sum + plan.decisions.filter((decision) => !decision.keep).length,
+        0
+      );
+
+      if (!options.json) {
+        logger.heading(`Revision retention (${siteName})`);
+        for (const { pageId, decisions } of plans) {
+          const pruned = decisions.filter((decision) => !decision.keep).length;
+          console.log(
+            `${chalk.cyan(`${label} ${pageId}:`)} ${decisions.length - pruned} kept, ${pruned} to delete`
+          );
+          printDecisions(decisions, Boolean(options.dryRun));
+        }
+        console.log("");
+      }
+
+      if (doomed === 0 || options.dryRun) {
+        if (options.json) {
+          console.log(JSON.stringify({ site: siteName, policy, dryRun: !!options.dryRun, pages: plans }, null, 2));
+        } else if (doomed === 0) {
+          logger.success("Nothing to prune.");
+        } else {
+          logger.info(`Would delete ${doomed} revision(s). Dry run: nothing was deleted.`);
+        }
+        return;
+      }
+
+      if (!options.force) {
+        const confirmed = await confirmAction(
+          `Permanently delete ${doomed} revision(s) of ${plans.length} ${label}(s) on ${siteName}?`
+        );
+        if (!confirmed) {
+          logger.info("Cancelled.");
+          return;
+        }
+      }
+
+      const deleteSpinner = options.json ? null : logger.spinner("Deleting revisions...");
+      const failures: Array<{ pageId: number; revisionId: number; error: string }> = [];
+      let deleted = 0;
+      for (const { pageId, decisions } of plans) {
+        const removed: number[] = [];
+        for (const decision of decisions.filter((entry) => !entry.keep)) {
+          if (deleteSpinner) deleteSpinner.text = `Deleting revisions (${deleted + 1}/${doomed})...`;
+          try {
+            await manager.deleteRevision(pageId, decision.id);
+            removed.push(decision.id);
+            deleted++;
+          } catch (error) {
+            failures.push({ pageId, revisionId: decision.id, error: String(error) });
+          }
+        }
+        await tagStore.remove(siteName, postType, removed);
+      }
+      deleteSpinner?.stop();
+
+      if (options.json) {
+        console.log(
+          JSON.stringify({ site: siteName, policy, dryRun: false, pages: plans, deleted, failures }, null, 2)
+        );
+      } else {
+        for (const failure of failures) {
+          logger.error(`Could not delete revision ${failure.revisionId} of ${label} ${failure.pageId}: ${failure.error}`);
+        }
+        logger.success(`Deleted ${deleted} revision(s) of ${plans.length} ${label}(s).`);
+      }
+
+      if (failures.length > 0) {
+        process.exit(1);
+      }
+    } catch (error) {
+      logger.error(`Failed to prune revisions: ${error}`);
+      process.exit(1);
+    }
+  });
@@ -3,6 +3,17 @@ import chalk from "chalk";
 import { getSiteConfig } from "../utils/config-store.js";
 import { logger } from "../utils/logger.js";
 import { WordPressClient } from "../services/wordpress-client.js";
+import { printUndoHint } from "../utils/journal-format.js";
+import { getPostType } from "../utils/post-type.js";
+import { ElementorParser } from "../services/elementor-parser.js";
+import {
+  JsonReplacer,
+  escapeRegExp,
+  type ReplaceChange,
+  type ReplaceOptions,
+} from "../services/json-replacer.js";
+import { OperationJournal, type JournalRecorder } from "../services/operation-journal.js";
+import type { PostType } from "../types/elementor.js";
 import type { WPPage } from "../types/wordpress.js";
 
 interface ReplacementResult {
@@ -11,12 +22,20 @@ interface ReplacementResult {
   elementorDataCount: number;
   pageSettingsCount: number;
   totalCount: number;
+  changes?: ReplaceChange[]; // Not reported in --raw mode
 }
 
+interface ReplaceMode extends ReplaceOptions {
+  raw?: boolean;
+}
+
+/**
+ * Legacy mode: replace in the serialized JSON string
+ */
 function countAndReplace(
   data: string,
-  search: string,
-  replace: string,
+  pattern: RegExp,
+  replace: string | (() => string),
   dryRun: boolean
 ): { result: string; count: number } {
   if (!data) {
@@ -24,8 +43,7 @@ function countAndReplace(
   }
 
   // Count occurrences
-  const regex = new RegExp(escapeRegExp(search), "g");
-  const matches = data.match(regex);
+  const matches = data.match(pattern);
   const count = matches ? matches.length : 0;
 
   if (dryRun || count === 0) {
@@ -33,49 +51,61 @@ function countAndReplace(
   }
 
   // Perform replacement
-  const result = data.replace(regex, replace);
+  const result =
+    typeof replace === "function" ? data.replace(pattern, replace) : data.replace(pattern, replace);
   return { result, count };
 }
 
-function escapeRegExp(string: string): string {
-  return string.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+function sumCounts(changes: ReplaceChange[]): number {
+  return changes.reduce((sum, change) => sum + change.count, 0);
+}
+
+function truncate(text: string, length = 70): string {
+  const line = text.replace(/\s+/g, " ");
+  return line.length > length ? `${line.slice(0, length - 1)}…` : line;
 }
 
 async function processPage(
   client: WordPressClient,
   page: WPPage,
-  search: string,
-  replace: string,
-  dryRun: boolean
+  mode: ReplaceMode,
+  dryRun: boolean,
+  postType: PostType,
+  recorder: JournalRecorder
 ): Promise<ReplacementResult | null> {
   const title =
     typeof page.title === "object" ? page.title.rendered : String(page.title);
 
-  // Get elementor data
-  const elementorData = page.meta?._elementor_data || "";
-  const pageSettings =
-    typeof page.meta?._elementor_page_settings === "string"
-      ? page.meta._elementor_page_settings
-      : JSON.stringify(page.meta?._elementor_page_settings || {});
-
-  // Count and replace in elementor data
-  const elementorResult = countAndReplace(elementorData, search, replace, dryRun);
-
-  // Count and replace in page settings
-  const settingsResult = countAndReplace(pageSettings, search, replace, dryRun);
-
-  const totalCount = elementorResult.count + settingsResult.count;
-
-  if (totalCount === 0) {
-    return null;
-  }
-
-  // If not dry run, update the page
-  if (!dryRun) {
-    const updateData: {
-      elementorData?: string;
-      pageSettings?: Record<string, unknown>;
-    } = {};
+  const updateData: {
+    elementorData?: string;
+    pageSettings?: Record<string, unknown>;
+  } = {};
+  let elementorDataCount: number;
+  let pageSettingsCount: number;
+  let changes: ReplaceChange[] | undefined;
+
+  if (mode.raw) {
+    // Get elementor data
+    const elementorData = page.meta?._elementor_data || "";
+    const pageSettings =
+      typeof page.meta?._elementor_page_settings === "string"
+        ? page.meta._elementor_page_settings
+        : JSON.stringify(page.meta?._elementor_page_settings || {});
+
+    const pattern = new RegExp(
+      mode.regex ? mode.search : escapeRegExp(mode.search),
+      `g${mode.ignoreCase ? "i" : ""}`
+    );
+    const replace = mode.regex ? mode.replace : () => mode.replace;
+
+    // Count and replace in elementor data
+    const elementorResult = countAndReplace(elementorData, pattern, replace, dryRun);
+
+    // Count and replace in page settings
+    const settingsResult = countAndReplace(pageSettings, pattern, replace, dryRun);
+
+    elementorDataCount = elementorResult.count;
+    pageSettingsCount = settingsResult.count;
 
     if (elementorResult.count > 0) {
       updateData.elementorData = elementorResult.result;
@@ -88,22 +118,63 @@ async function processPage(
         // If we can't parse it, skip updating settings
       }
     }
+  } else {
+    // JSON-aware: replace inside decoded string values only
+    const parser = new ElementorParser();
+    const replacer = new JsonReplacer(mode);
+    const data = parser.parseWPPage(page);
+
+    const elementsResult = replacer.replaceInElements(data.elementor_data);
+    const settingsResult = replacer.replaceInSettings(data.page_settings);
+
+    elementorDataCount = sumCounts(elementsResult.changes);
+    pageSettingsCount = sumCounts(settingsResult.changes);
+    changes = [...elementsResult.changes, ...settingsResult.changes];
+
+    if (elementsResult.changes.length > 0) {
+      updateData.elementorData = parser.serializeElements(elementsResult.elements);
+    }
+    if (settingsResult.changes.length > 0) {
+      updateData.pageSettings = settingsResult.settings;
+    }
+  }
+
+  const totalCount = elementorDataCount + pageSettingsCount;
 
-    await client.updatePage(page.id, updateData);
+  if (totalCount === 0) {
+    return null;
+  }
+
+  // If not dry run, update the page
+  if (!dryRun) {
+    await recorder.record(page);
+    await client.updatePage(page.id, updateData, postType);
 
     // Invalidate CSS cache after making changes
-    await client.invalidateCss(page.id);
+    await client.invalidateCss(page.id, postType);
   }
 
   return {
     pageId: page.id,
     title,
-    elementorDataCount: elementorResult.count,
-    pageSettingsCount: settingsResult.count,
+    elementorDataCount,
+    pageSettingsCount,
     totalCount,
+    changes,
   };
 }
 
+const collect = (value: string, previous: string[]) => [...previous, value];
+
+function printChanges(changes: ReplaceChange[]): void {
+  for (const change of changes) {
+    const id = change.elementId ? ` (${change.elementId})` : "";
+    console.log(`  ${change.element}${id} ${change.setting}:`);
+    console.log(`    ${chalk.red(truncate(change.oldValue))}`);
+    console.log(`    ${chalk.green(truncate(change.newValue))}`);
+  }
+}
+
 export const searchReplaceCommand = new Command("search-replace")
   .description("Search and replace text in Elementor page data")
   .argument("<search>", "Text to search for")
@@ -112,6 +183,11 @@ export const searchReplaceCommand = new Command("search-replace")
   .option("-s, --site <name>", "Site name from config")
   .option("-n, --dry-run", "Preview changes without applying them", false)
   .option("-a, --all-pages", "Apply to all Elementor pages", false)
+  .option("--regex", "Treat <search> as a regular expression ($1, $<name> in <replace>)", false)
+  .option("-i, --ignore-case", "Match case-insensitively", false)
+  .option("--key <key>", "Only replace in this setting, e.g. link.url or url (repeatable)", collect, [])
+  .option("--raw", "Replace in the serialized JSON string (legacy mode)", false)
+  .option("--type <post-type>", "Post type to work with (default: page; e.g. post, product)")
   .option("--json", "Output results as JSON", false)
   .addHelpText(
     "after",
@@ -121,6 +197,20 @@ Examples:
   $ elementor-cli search-replace "staging.example.com" "example.com" -p 42 --dry-run
   $ elementor-cli search-replace "old-url" "new-url" --all-pages
   $ elementor-cli search-replace "http://" "https://" --all-pages --dry-run
+  $ elementor-cli search-replace "old-url" "new-url" --all-pages --type post
+  $ elementor-cli search-replace "old.example.com" "new.example.com" -a --key link.url
+  $ elementor-cli search-replace "https?://cdn(\\d)\\.old\\.com" "https://cdn$1.new.com" -a --regex
+
+Modes:
+  By default the page data is decoded and only string values are replaced,
+  so keys and the JSON structure are never touched and URLs stored with
+  escaped slashes (https:\\/\\/example.com) are found. Each changed setting
+  is listed with its element path.
+  --regex      <search> is a JavaScript regular expression; <replace> may use
+               $1, $2, $<name> and $& (in plain mode "$" is literal)
+  --key        Only replace in matching settings: a full path (link.url), a
+               leading part (link) or the last key (url)
+  --raw        Replace in the serialized JSON string like older versions
 
 Use cases:
   - Fix URL port mismatches after migration
@@ -132,10 +222,14 @@ Notes:
   - Changes are made directly to the remote WordPress database
   - CSS cache is automatically invalidated after changes
   - Use --dry-run to preview changes before applying
+  - The previous content is journaled; 'elementor-cli undo' puts it back
+  - Only string values are replaced; use 'transform' to change other values
 
 See also:
   elementor-cli audit             Check for URL mismatches
   elementor-cli regenerate-css    Invalidate CSS cache
+  elementor-cli transform         Change settings of selected elements
+  elementor-cli history           List journaled operations
   elementor-cli pull              Download page for local editing
 `
   )
@@ -152,13 +246,41 @@ See also:
         process.exit(1);
       }
 
-      if (search === replace) {
+      if (search === replace && !options.regex) {
         logger.error("Search and replace strings are identical");
         process.exit(1);
       }
 
-      const { config: siteConfig } = await getSiteConfig(options.site);
+      if (options.raw && options.key.length > 0) {
+        logger.error("--key cannot be used with --raw");
+        process.exit(1);
+      }
+
+      if (options.regex) {
+        try {
+          new RegExp(search);
+        } catch (error) {
+          logger.error(`Invalid regular expression: ${error instanceof Error ? error.message : error}`);
+          process.exit(1);
+        }
+      }
+
+      const mode: ReplaceMode = {
+        search,
+        replace,
+        regex: options.regex,
+        ignoreCase: options.ignoreCase,
+        keys: options.key,
+        raw: options.raw,
+      };
+
+      const { name: siteName, config: siteConfig } = await getSiteConfig(options.site);
       const client = new WordPressClient(siteConfig);
+      const postType = getPostType(options);
+      const recorder = new OperationJournal(siteName).begin(
+        "search-replace",
+        `"${search}" → "${replace}"${options.allPages ? " on all pages" : ` on page ${options.page}`}`
+      );
 
       const spinner = logger.spinner(
         options.dryRun ? "Previewing changes..." : "Processing..."
@@ -168,21 +290,26 @@ See also:
       let pagesProcessed = 0;
 
       if (options.allPages) {
-        // Fetch all pages
-        const pages = await client.listPages({ status: "all" });
-        const elementorPages = pages.filter((p) => client.isElementorPage(p));
+        // Fetch all pages, following pagination
+        const elementorPages: WPPage[] = [];
+        for await (const page of client.iteratePages({ status: "all", postType })) {
+          if (client.isElementorPage(page)) {
+            elementorPages.push(page);
+          }
+        }
 
         spinner.text = `Processing ${elementorPages.length} Elementor page(s)...`;
 
         for (const page of elementorPages) {
           // Need to fetch full page data for each
-          const fullPage = await client.getPage(page.id);
+          const fullPage = await client.getPage(page.id, postType);
           const result = await processPage(
             client,
             fullPage,
-            search,
-            replace,
-            options.dryRun
+            mode,
+            options.dryRun,
+            postType,
+            recorder
           );
           pagesProcessed++;
           if (result) {
@@ -197,7 +324,7 @@ See also:
           process.exit(1);
         }
 
-        const page = await client.getPage(pageId);
+        const page = await client.getPage(pageId, postType);
         if (!client.isElementorPage(page)) {
           spinner.fail(`Page ${pageId} is not an Elementor page.`);
           process.exit(1);
@@ -206,9 +333,10 @@ See also:
         const result = await processPage(
           client,
           page,
-          search,
-          replace,
-          options.dryRun
+          mode,
+          options.dryRun,
+          postType,
+          recorder
         );
         pagesProcessed = 1;
         if (result) {
@@ -226,8 +354,12 @@ See also:
               dryRun: options.dryRun,
               search,
               replace,
+              mode: options.raw ? "raw" : "json",
+              regex: options.regex,
+              keys: options.key,
               pagesProcessed,
               pagesWithMatches: results.length,
+              operationId: options.dryRun ? undefined : recorder.operation.id,
               results,
             },
             null,
@@ -269,6 +401,9 @@ See also:
             chalk.dim(`  Page settings: ${result.pageSettingsCount} match(es)`)
           );
         }
+        if (result.changes) {
+          printChanges(result.changes);
+        }
         totalReplacements += result.totalCount;
       }
 
@@ -284,6 +419,7 @@ See also:
           `Replaced ${totalReplacements} occurrence(s) in ${results.length} page(s)`
         );
         console.log(chalk.dim("CSS cache has been invalidated for affected pages."));
+        printUndoHint(recorder.operation);
       }
     } catch (error) {
       logger.error(`Search-replace failed: ${error}`);
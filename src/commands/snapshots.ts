@@ -0,0 +1,269 @@
+import { Command } from "commander";
+import { getSiteConfig } from "../utils/config-store.js";
+import { logger, formatDate } from "../utils/logger.js";
+import { LocalStore, type LocalPageData, type Snapshot } from "../services/local-store.js";
+import { ElementorParser } from "../services/elementor-parser.js";
+import {
+  diffFields,
+  hasElementChanges,
+  printElementDiff,
+  printFieldDiff,
+  summarizeElementDiff,
+} from "../utils/diff-format.js";
+import { getPostType, postTypeFlag, postTypeLabel } from "../utils/post-type.js";
+
+export const snapshotsCommand = new Command("snapshots").description(
+  "Browse and restore local snapshots of pages (recorded by pull, push and preview sync)"
+);
+
+/**
+ * Open the store for a command's --type/--library options and check that
+ * the page exists locally
+ */
+async function openPage(pageId: string, options: { site?: string; type?: string; library?: boolean }) {
+  const id = Number.parseInt(pageId, 10);
+  const postType = getPostType(options);
+  const { name: siteName } = await getSiteConfig(options.site);
+  const store = await LocalStore.create(postType);
+
+  if (!(await store.pageExists(siteName, id))) {
+    logger.error(`${postTypeLabel(postType)} ${id} not found locally.`);
+    logger.info(`Run 'elementor-cli pull ${id}${postTypeFlag(postType)}' first.`);
+    process.exit(1);
+  }
+  return { id, siteName, store };
+}
+
+async function findSnapshot(
+  store: LocalStore,
+  siteName: string,
+  pageId: number,
+  snapshotId: string
+): Promise<Snapshot> {
+  const snapshot = await store.loadSnapshot(siteName, pageId, snapshotId);
+  if (!snapshot) {
+    logger.error(`Snapshot ${snapshotId} not found for page ${pageId}.`);
+    logger.info(`Run 'elementor-cli snapshots list ${pageId}' to see the snapshots.`);
+    process.exit(1);
+  }
+  return snapshot;
+}
+
+// snapshots list
+snapshotsCommand
+  .command("list <page-id>")
+  .description("List the snapshots of a local page")
+  .option("-s, --site <name>", "Site name from config")
+  .option("--type <post-type>", "Post type to work with (default: page; e.g. post, product)")
+  .option("--library", "Use Elementor library items (same as --type elementor_library)")
+  .option("--json", "Output as JSON", false)
+  .addHelpText(
+    "after",
+    `
+Examples:
+  $ elementor-cli snapshots list 42
+  $ elementor-cli snapshots list 42 --json
+
+See also:
+  elementor-cli snapshots show      Show a snapshot
+  elementor-cli snapshots diff      Compare snapshots
+  elementor-cli snapshots restore   Restore a snapshot locally
+`
+  )
+  .action(async (pageId, options) => {
+    try {
+      const { id, siteName, store } = await openPage(pageId, options);
+      const snapshots = await store.listSnapshots(siteName, id);
+
+      if (options.json) {
+        console.log(JSON.stringify(snapshots, null, 2));
+        return;
+      }
+
+      if (snapshots.length === 0) {
+        logger.info(`No snapshots for page ${id} yet. They are recorded by pull, push and preview sync.`);
+        return;
+      }
+
+      logger.heading(`Snapshots for Page ${id}`);
+      console.log(`${"ID".padEnd(15)}${"Date".padEnd(25)}${"Source".padEnd(16)}Title`);
+      console.log("─".repeat(80));
+      for (const snapshot of snapshots) {
+        console.log(
+          snapshot.id.padEnd(15) +
+            formatDate(snapshot.created_at).padEnd(25) +
+            snapshot.source.padEnd(16) +
+            snapshot.title
+        );
+      }
+      console.log("");
+      logger.dim(`${snapshots.length} snapshot(s) found.`);
+    } catch (error) {
+      logger.error(`Failed to list snapshots: ${error}`);
+      process.exit(1);
+    }
+  });
+
+// snapshots show
+snapshotsCommand
+  .command("show <page-id> <snapshot-id>")
+  .description("Show a snapshot")
+  .option("-s, --site <name>", "Site name from config")
+  .option("--type <post-type>", "Post type to work with (default: page; e.g. post, product)")
+  .option("--library", "Use Elementor library items (same as --type elementor_library)")
+  .option("--json", "Output the snapshot content as JSON", false)
+  .addHelpText(
+    "after",
+    `
+Examples:
+  $ elementor-cli snapshots show 42 3f9a1c
+  $ elementor-cli snapshots show 42 3f9a1c --json > page-42-before.json
+
+Snapshot IDs can be shortened to any unique prefix.
+
+See also:
+  elementor-cli snapshots list   List snapshots
+  elementor-cli snapshots diff   Compare snapshots
+`
+  )
+  .action(async (pageId, snapshotId, options) => {
+    try {
+      const { id, siteName, store } = await openPage(pageId, options);
+      const snapshot = await findSnapshot(store, siteName, id, snapshotId);
+
+      if (options.json) {
+        console.log(JSON.stringify(snapshot, null, 2));
+        return;
+      }
+
+      const parser = new ElementorParser();
+      logger.heading(`Snapshot ${snapshot.id}`);
+      console.log(`  Page ID:   ${id}`);
+      console.log(`  Hash:      ${snapshot.hash}`);
+      console.log(`  Date:      ${formatDate(snapshot.created_at)}`);
+      console.log(`  Source:    ${snapshot.source}`);
+      console.log(`  Title:     ${snapshot.meta.title}`);
+      console.log(`  Slug:      ${snapshot.meta.slug}`);
+      console.log(`  Status:    ${snapshot.meta.status}`);
+      if (snapshot.meta.template) {
+        console.log(`  Template:  ${snapshot.meta.template}`);
+      }
+      console.log(`  Elements:  ${parser.countElements(snapshot.elements)}`);
+
+      const widgetTypes = new Map<string, number>();
+      for (const widget of parser.getWidgets(snapshot.elements)) {
+        const type = widget.widgetType || "unknown";
+        widgetTypes.set(type, (widgetTypes.get(type) || 0) + 1);
+      }
+      for (const [type, count] of widgetTypes) {
+        console.log(`    - ${type}: ${count}`);
+      }
+    } catch (error) {
+      logger.error(`Failed to show snapshot: ${error}`);
+      process.exit(1);
+    }
+  });
+
+// snapshots diff
+snapshotsCommand
+  .command("diff <page-id> <from> [to]")
+  .description("Compare a snapshot with another one or with the local files")
+  .option("-s, --site <name>", "Site name from config")
+  .option("--type <post-type>", "Post type to work with (default: page; e.g. post, product)")
+  .option("--library", "Use Elementor library items (same as --type elementor_library)")
+  .addHelpText(
+    "after",
+    `
+Examples:
+  $ elementor-cli snapshots diff 42 3f9a1c            Snapshot vs local files
+  $ elementor-cli snapshots diff 42 3f9a1c 8b20d4     Between two snapshots
+
+Changes are shown from <from> to <to> (default: the current local files).
+
+See also:
+  elementor-cli snapshots list   List snapshots
+  elementor-cli revisions diff   Compare a WordPress revision
+`
+  )
+  .action(async (pageId, fromId, toId, options) => {
+    try {
+      const { id, siteName, store } = await openPage(pageId, options);
+      const from = await findSnapshot(store, siteName, id, fromId);
+
+      let to: Snapshot | LocalPageData;
+      if (toId) {
+        to = await findSnapshot(store, siteName, id, toId);
+      } else {
+        const local = await store.loadPage(siteName, id);
+        if (!local) {
+          logger.error(`Page ${id} not found locally.`);
+          process.exit(1);
+        }
+        to = local;
+      }
+
+      const parser = new ElementorParser();
+      const diff = parser.diffElements(to.elements, from.elements);
+      const metaDiff = diffFields(from.meta, to.meta);
+      const settingsDiff = diffFields(from.settings, to.settings);
+
+      const toLabel = "id" in to ? `Snapshot ${to.id}` : "local files";
+      logger.heading(`Diff: Snapshot ${from.id} vs ${toLabel}`);
+
+      if (!hasElementChanges(diff) && metaDiff.length === 0 && settingsDiff.length === 0) {
+        logger.success("No differences found.");
+        return;
+      }
+
+      printFieldDiff("meta", metaDiff);
+      printFieldDiff("page setting", settingsDiff);
+      printElementDiff(diff, to.elements, from.elements);
+
+      console.log("");
+      logger.dim(
+        `Summary: ${summarizeElementDiff(diff)}; ${metaDiff.length} meta, ${settingsDiff.length} setting(s) changed`
+      );
+    } catch (error) {
+      logger.error(`Failed to diff snapshots: ${error}`);
+      process.exit(1);
+    }
+  });
+
+// snapshots restore
+snapshotsCommand
+  .command("restore <page-id> <snapshot-id>")
+  .description("Write a snapshot back to the local page files")
+  .option("-s, --site <name>", "Site name from config")
+  .option("--type <post-type>", "Post type to work with (default: page; e.g. post, product)")
+  .option("--library", "Use Elementor library items (same as --type elementor_library)")
+  .addHelpText(
+    "after",
+    `
+Examples:
+  $ elementor-cli snapshots restore 42 3f9a1c
+  $ elementor-cli push 42                         Upload the restored content
+
+Only the local files change (elements, settings and meta). The current
+content is snapshotted first ("before-restore"), so a restore can be
+reverted the same way. Run 'push' to upload the restored page.
+
+See also:
+  elementor-cli snapshots diff   Check a snapshot before restoring
+  elementor-cli push             Upload the restored page
+`
+  )
+  .action(async (pageId, snapshotId, options) => {
+    try {
+      const postType = getPostType(options);
+      const { id, siteName, store } = await openPage(pageId, options);
+      const snapshot = await findSnapshot(store, siteName, id, snapshotId);
+
+      await store.restoreSnapshot(siteName, id, snapshot);
+
+      logger.success(`Restored page ${id} to snapshot ${snapshot.id} (${formatDate(snapshot.created_at)})`);
+      logger.dim(`Run 'elementor-cli push ${id}${postTypeFlag(postType)}' to upload it.`);
+    } catch (error) {
+      logger.error(`Failed to restore snapshot: ${error}`);
+      process.exit(1);
+    }
+  });
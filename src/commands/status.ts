@@ -3,79 +3,7 @@ import chalk from "chalk";
 import { getSiteConfig } from "../utils/config-store.js";
 import { logger, formatDate } from "../utils/logger.js";
 import { WordPressClient } from "../services/wordpress-client.js";
-import type { ElementorElement } from "../types/elementor.js";
-
-interface UrlCount {
-  host: string;
-  count: number;
-  matches: boolean;
-}
-
-interface CssMetadata {
-  status?: string;
-  time?: number;
-  fonts?: string[];
-  icons?: string[];
-}
-
-interface StatusResult {
-  pageId: number;
-  title: string;
-  css: {
-    status: string;
-    generatedAt?: string;
-    version?: string | number;
-    isStale: boolean;
-  };
-  data: {
-    lastModified: string;
-    elementCount: number;
-  };
-  urls: UrlCount[];
-  siteUrl: string;
-}
-
-function extractUrls(data: unknown): string[] {
-  const urls: string[] = [];
-
-  if (typeof data === "string") {
-    const urlRegex = /https?:\/\/[^\s"'<>]+/g;
-    const matches = data.match(urlRegex);
-    if (matches) {
-      urls.push(...matches);
-    }
-  } else if (Array.isArray(data)) {
-    for (const item of data) {
-      urls.push(...extractUrls(item));
-    }
-  } else if (data && typeof data === "object") {
-    for (const value of Object.values(data)) {
-      urls.push(...extractUrls(value));
-    }
-  }
-
-  return urls;
-}
-
-function countElements(elements: ElementorElement[]): number {
-  let count = 0;
-  for (const element of elements) {
-    count++;
-    if (element.elements && element.elements.length > 0) {
-      count += countElements(element.elements);
-    }
-  }
-  return count;
-}
-
-function parseHost(url: string): string {
-  try {
-    const parsed = new URL(url);
-    return parsed.host;
-  } catch {
-    return "";
-  }
-}
+import { PageInspector } from "../services/page-inspector.js";
 
 function formatRelativeTime(date: Date): string {
   const now = new Date();
@@ -131,7 +59,6 @@ See also:
 
       const { config: siteConfig } = await getSiteConfig(options.site);
       const client = new WordPressClient(siteConfig);
-      const siteHost = parseHost(siteConfig.url);
 
       const spinner = logger.spinner(`Fetching status for page ${pageId}...`);
 
@@ -142,93 +69,15 @@ See also:
         process.exit(1);
       }
 
-      const title =
-        typeof page.title === "object" ? page.title.rendered : String(page.title);
-
-      // Parse CSS metadata
-      let cssStatus = "not_generated";
-      let cssGeneratedAt: string | undefined;
-      let cssVersion: string | number | undefined;
-      let cssTime: number | undefined;
-
-      const cssMetaRaw = page.meta?._elementor_css;
-      if (cssMetaRaw) {
-        try {
-          const cssMeta: CssMetadata =
-            typeof cssMetaRaw === "string" ? JSON.parse(cssMetaRaw) : cssMetaRaw;
-          cssStatus = cssMeta.status || "unknown";
-          cssTime = cssMeta.time;
-          if (cssTime) {
-            cssGeneratedAt = new Date(cssTime * 1000).toISOString();
-          }
-        } catch {
-          cssStatus = "parse_error";
-        }
-      }
-
-      // Parse Elementor data
-      let elements: ElementorElement[] = [];
-      if (page.meta?._elementor_data) {
-        try {
-          elements = JSON.parse(page.meta._elementor_data);
-        } catch {
-          // Ignore parse errors
-        }
-      }
-
-      // Extract URLs
-      const allUrls = extractUrls(page.meta?._elementor_data || "");
-
-      // Also extract from page settings
-      if (page.meta?._elementor_page_settings) {
-        const settingsData =
-          typeof page.meta._elementor_page_settings === "string"
-            ? page.meta._elementor_page_settings
-            : JSON.stringify(page.meta._elementor_page_settings);
-        allUrls.push(...extractUrls(settingsData));
-      }
-
-      // Count URLs by host
-      const hostCounts = new Map<string, number>();
-      for (const url of allUrls) {
-        const host = parseHost(url);
-        if (host) {
-          hostCounts.set(host, (hostCounts.get(host) || 0) + 1);
-        }
-      }
-
-      const urlCounts: UrlCount[] = Array.from(hostCounts.entries())
-        .map(([host, count]) => ({
-          host,
-          count,
-          matches: host === siteHost,
-        }))
-        .sort((a, b) => b.count - a.count);
-
-      // Check if CSS is stale
+      const result = new PageInspector(siteConfig.url).status(page);
+      const { title, css, urls: urlCounts } = result;
+      const cssStatus = css.status;
+      const cssGeneratedAt = css.generatedAt;
+      const isStale = css.isStale;
       const pageModified = new Date(page.modified);
-      const cssGenerated = cssTime ? new Date(cssTime * 1000) : null;
-      const isStale = cssGenerated ? pageModified > cssGenerated : true;
 
       spinner.stop();
 
-      const result: StatusResult = {
-        pageId,
-        title,
-        css: {
-          status: cssStatus,
-          generatedAt: cssGeneratedAt,
-          version: cssVersion,
-          isStale,
-        },
-        data: {
-          lastModified: page.modified,
-          elementCount: countElements(elements),
-        },
-        urls: urlCounts,
-        siteUrl: siteConfig.url,
-      };
-
       // Output results
       if (options.json) {
         console.log(JSON.stringify(result, null, 2));
@@ -258,7 +107,7 @@ See also:
       console.log(
         `  Last modified: ${formatDate(page.modified)} (${formatRelativeTime(pageModified)})`
       );
-      console.log(`  Elements: ${countElements(elements)}`);
+      console.log(`  Elements: ${result.data.elementCount}`);
 
       if (isStale) {
         console.log(chalk.yellow("  ⚠ CSS may be stale (data is newer than CSS)"));
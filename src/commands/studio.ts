@@ -1,12 +1,14 @@
 import { Command } from "commander";
 import { spawn } from "node:child_process";
 import { createStudioServer } from "../studio/server.js";
+import { isLoopbackHost } from "../studio/auth.js";
 import { logger } from "../utils/logger.js";
 
 export const studioCommand = new Command("studio")
   .description("Start the web-based Studio UI for side-by-side page editing")
   .option("-p, --port <port>", "Port to run the server on", "3000")
-  .option("-s, --site <name>", "Site name from config")
+  .option("--host <host>", "Interface to listen on (use 0.0.0.0 to allow other machines)", "127.0.0.1")
+  .option("-s, --site <name>", "Site to open first (default: the config's default site)")
   .option("--no-open", "Don't open browser automatically")
   .addHelpText(
     "after",
@@ -14,20 +16,34 @@ export const studioCommand = new Command("studio")
 Examples:
   $ elementor-cli studio                    Start Studio on port 3000
   $ elementor-cli studio --port 8000        Use custom port
-  $ elementor-cli studio --site production  Use specific site config
+  $ elementor-cli studio --site production  Open the production site first
   $ elementor-cli studio --no-open          Don't open browser
+  $ elementor-cli studio --host 0.0.0.0     Reachable from other machines
 
 The Studio provides:
   - Side-by-side view of production and staging
   - Quick sync, pull, and push operations
   - CSS regeneration controls
   - Real-time staging status monitoring
+  - Live reload of the previews after syncs, pushes and file changes
+  - Element editor: outline, settings form, drag-and-drop reordering
+  - Site switcher for every site in the config
+  - Copy a page to another site (as 'elementor-cli promote')
+
+Security:
+  The studio only listens on 127.0.0.1 unless --host is given. Every API
+  request needs the session token printed on startup; the printed URL
+  carries it, so open that URL (the browser opens it for you).
+  Pushes check for remote changes like 'elementor-cli push': pages changed
+  on production since the last pull are merged or refused, and the studio
+  shows a dry-run preview of the changes before pushing.
 
 Prerequisites:
   - Configure a site: elementor-cli config add
   - For staging preview: elementor-cli preview start
 
 See also:
+  elementor-cli promote    Copy a page between sites
   elementor-cli preview    Manage staging environment
   elementor-cli sync       Sync pages to staging
   elementor-cli push       Push changes to production
@@ -46,10 +62,18 @@ See also:
 
       const studio = await createStudioServer({
         port,
+        host: options.host,
         site: options.site,
       });
+      const sessionUrl = `${studio.url}/?token=${studio.token}`;
 
-      spinner.succeed(`Studio running at ${studio.url}`);
+      spinner.succeed(`Studio running at ${sessionUrl}`);
+      logger.dim(`Session token: ${studio.token}`);
+      if (!isLoopbackHost(options.host)) {
+        logger.warn(
+          `Listening on ${options.host}: anyone who can reach this machine and has the token can push to production.`
+        );
+      }
       logger.info("\nPress Ctrl+C to stop the server.\n");
 
       // Open browser if not disabled
@@ -61,7 +85,7 @@ See also:
               ? "start"
               : "xdg-open";
 
-        spawn(openCmd, [studio.url], { detached: true, stdio: "ignore" }).unref();
+        spawn(openCmd, [sessionUrl], { detached: true, stdio: "ignore" }).unref();
       }
 
       // Handle shutdown
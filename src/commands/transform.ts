@@ -0,0 +1,323 @@
+import { Command } from "commander";
+import chalk from "chalk";
+import { getSiteConfig } from "../utils/config-store.js";
+import { logger } from "../utils/logger.js";
+import { WordPressClient } from "../services/wordpress-client.js";
+import { LocalStore } from "../services/local-store.js";
+import { ElementorParser } from "../services/elementor-parser.js";
+import { ElementQuery } from "../services/element-query.js";
+import { RevisionManager } from "../services/revision-manager.js";
+import { OperationJournal } from "../services/operation-journal.js";
+import {
+  ElementTransformer,
+  type TransformChange,
+  type TransformOperation,
+} from "../services/element-transformer.js";
+import { formatValue } from "../utils/diff-format.js";
+import { printUndoHint } from "../utils/journal-format.js";
+import { getPostType, postTypeFlag, postTypeLabel } from "../utils/post-type.js";
+
+interface PageResult {
+  pageId: number;
+  title: string;
+  matched: number;
+  changes: TransformChange[];
+  error?: string;
+}
+
+const collect = (value: string, previous: string[]) => [...previous, value];
+
+/**
+ * Split "path=rest" at the first "="
+ */
+function splitAssignment(value: string, flag: string): [string, string] {
+  const index = value.indexOf("=");
+  if (index <= 0) {
+    throw new Error(`${flag} expects <setting>=<value>, got "${value}"`);
+  }
+  return [value.slice(0, index), value.slice(index + 1)];
+}
+
+/**
+ * Split "old=>new"
+ */
+function splitArrow(value: string, flag: string): [string, string] {
+  const index = value.indexOf("=>");
+  if (index < 0) {
+    throw new Error(`${flag} expects <setting>=<old>=><new>, got "${value}"`);
+  }
+  return [value.slice(0, index), value.slice(index + 2)];
+}
+
+/**
+ * Parse a value from the command line: JSON if it parses, a string otherwise
+ */
+function parseValue(value: string): unknown {
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}
+
+async function readOperations(options: {
+  ops?: string;
+  rename: string[];
+  map: string[];
+  replace: string[];
+  set: string[];
+  unset: string[];
+}): Promise<TransformOperation[]> {
+  const operations: TransformOperation[] = [];
+
+  if (options.ops) {
+    const data = await Bun.file(options.ops).json();
+    if (!Array.isArray(data)) {
+      throw new Error(`${options.ops} must contain an array of operations`);
+    }
+    operations.push(...(data as TransformOperation[]));
+  }
+  for (const value of options.rename) {
+    const [path, to] = splitAssignment(value, "--rename");
+    operations.push({ op: "rename", path, to });
+  }
+  for (const value of options.map) {
+    const [path, rest] = splitAssignment(value, "--map");
+    const [from, to] = splitArrow(rest, "--map");
+    operations.push({ op: "map", path, from, to: parseValue(to) });
+  }
+  for (const value of options.replace) {
+    const [path, rest] = splitAssignment(value, "--replace");
+    const [search, replace] = splitArrow(rest, "--replace");
+    if (!search) throw new Error("--replace needs a non-empty search text");
+    operations.push({ op: "replace", path, search, replace });
+  }
+  for (const value of options.set) {
+    const [path, raw] = splitAssignment(value, "--set");
+    operations.push({ op: "set", path, value: parseValue(raw) });
+  }
+  for (const path of options.unset) {
+    operations.push({ op: "unset", path });
+  }
+
+  const known = new Set(["set", "unset", "rename", "map", "replace"]);
+  for (const operation of operations) {
+    if (!operation || !known.has(operation.op) || typeof operation.path !== "string") {
+      throw new Error(`Invalid operation: ${JSON.stringify(operation)}`);
+    }
+  }
+  return operations;
+}
+
+function printChanges(changes: TransformChange[]): void {
+  for (const change of changes) {
+    const marker = change.newValue === undefined ? chalk.red("-") : chalk.yellow("~");
+    console.log(
+      `  ${marker} ${change.element} (${change.elementId}) ${change.setting}: ${chalk.red(formatValue(change.oldValue))} → ${chalk.green(formatValue(change.newValue))}`
+    );
+  }
+}
+
+export const transformCommand = new Command("transform")
+  .description("Change settings of the elements a selector matches, across pages")
+  .argument("<selector>", "Elements to change (see 'query --help' for the syntax)")
+  .argument("[page-ids...]", "Page ID(s) to transform")
+  .option("-s, --site <name>", "Site name from config")
+  .option("-a, --all", "Transform all local pages (all Elementor pages with --remote)")
+  .option("--remote", "Change the pages on the site instead of the local copies")
+  .option("--set <setting=value>", "Set a setting (repeatable)", collect, [])
+  .option("--unset <setting>", "Remove a setting (repeatable)", collect, [])
+  .option("--rename <setting=new-name>", "Move a setting to another key (repeatable)", collect, [])
+  .option("--map <setting=old=>new>", "Replace one value by another (repeatable)", collect, [])
+  .option("--replace <setting=search=>replacement>", "Replace text within a value (repeatable)", collect, [])
+  .option("--ops <file>", "Read operations from a JSON file")
+  .option("-n, --dry-run", "Show the changes without saving them")
+  .option("--no-backup", "Don't create a revision before changing a remote page")
+  .option("--type <post-type>", "Post type to work with (default: page; e.g. post, product)")
+  .option("--library", "Use Elementor library items (same as --type elementor_library)")
+  .option("--json", "Output results as JSON", false)
+  .addHelpText(
+    "after",
+    `
+Examples:
+  $ elementor-cli transform "widget[heading][header_size=h2]" 42 --set title_color="#1a1a1a"
+  $ elementor-cli transform "widget[button]" --all --replace "link.url=old-domain.com=>new-domain.com"
+  $ elementor-cli transform "widget[heading]" --all --map "header_size=h1=>h2" --dry-run
+  $ elementor-cli transform "*" 42 --rename _css_classes=css_classes
+  $ elementor-cli transform "widget[image]" --all --remote --unset image_size
+  $ elementor-cli transform "widget" 42 --ops changes.json
+
+Operations (applied in this order to each matched element):
+  --ops <file>      JSON array, e.g. [{"op":"set","path":"title_color","value":"#000"},
+                    {"op":"map","path":"header_size","from":"h1","to":"h2"},
+                    {"op":"replace","path":"link.url","search":"a","replace":"b"},
+                    {"op":"rename","path":"old_key","to":"new_key"},{"op":"unset","path":"x"}]
+  --rename          Move a value to another key
+  --map             Replace a value that equals <old> (objects compare as JSON)
+  --replace         Replace text inside a text value
+  --set             Set a value (JSON if it parses: numbers, objects, true/false)
+  --unset           Remove a setting
+
+Settings are addressed by dotted path (link.url, typography_font_size.size).
+
+Local pages (default) are changed on disk; push them afterwards. With
+--remote the pages on the site are changed directly: a revision is created
+first as a backup (--no-backup to skip), the previous content is journaled
+for 'elementor-cli undo' and the CSS cache is invalidated.
+
+See also:
+  elementor-cli query            Try a selector first
+  elementor-cli search-replace   Replace text anywhere in the page data
+  elementor-cli revisions        Restore a backup
+`
+  )
+  .action(async (selector: string, pageIdArgs: string[], options) => {
+    try {
+      if (pageIdArgs.length === 0 && !options.all) {
+        logger.error("Specify page ID(s) or use --all.");
+        process.exit(1);
+      }
+      if (pageIdArgs.length > 0 && options.all) {
+        logger.error("Cannot use both page IDs and --all.");
+        process.exit(1);
+      }
+
+      const parsed = new ElementQuery().parse(selector);
+      const operations = await readOperations(options);
+      if (operations.length === 0) {
+        logger.error("No operations given. Use --set, --unset, --rename, --map, --replace or --ops.");
+        process.exit(1);
+      }
+
+      const postType = getPostType(options);
+      const label = postTypeLabel(postType);
+      const { name: siteName, config } = await getSiteConfig(options.site);
+      const transformer = new ElementTransformer();
+      const parser = new ElementorParser();
+      const results: PageResult[] = [];
+      const recorder = new OperationJournal(siteName).begin("transform", selector);
+      const spinner = options.json ? null : logger.spinner("Transforming...");
+
+      if (options.remote) {
+        const client = new WordPressClient(config);
+        const revisions = new RevisionManager(client, postType);
+
+        let pageIds = pageIdArgs.map((id) => Number.parseInt(id, 10));
+        if (options.all) {
+          pageIds = [];
+          for await (const page of client.iteratePages({ status: "all", postType })) {
+            if (client.isElementorPage(page)) pageIds.push(page.id);
+          }
+        }
+
+        for (const [index, pageId] of pageIds.entries()) {
+          if (spinner) spinner.text = `Transforming ${label} ${index + 1}/${pageIds.length}...`;
+          try {
+            const page = await client.getPage(pageId, postType);
+            if (!client.isElementorPage(page)) {
+              throw new Error(`Not an Elementor ${label}`);
+            }
+            const data = parser.parseWPPage(page);
+            const result = transformer.transform(data.elementor_data, parsed, operations);
+            results.push({ pageId, title: data.title, matched: result.matched, changes: result.changes });
+
+            if (result.changes.length > 0 && !options.dryRun) {
+              await recorder.record(page);
+              if (options.backup) {
+                await revisions.createBackup(pageId);
+              }
+              await client.updatePage(
+                pageId,
+                { elementorData: parser.serializeElements(result.elements) },
+                postType
+              );
+              await client.invalidateCss(pageId, postType);
+            }
+          } catch (error) {
+            results.push({ pageId, title: "", matched: 0, changes: [], error: String(error) });
+          }
+        }
+      } else {
+        const store = await LocalStore.create(postType);
+        const pageIds = options.all
+          ? await store.listLocalPages(siteName)
+          : pageIdArgs.map((id) => Number.parseInt(id, 10));
+
+        for (const pageId of pageIds) {
+          const page = await store.loadPage(siteName, pageId);
+          if (!page) {
+            results.push({
+              pageId,
+              title: "",
+              matched: 0,
+              changes: [],
+              error: `Not found locally. Run 'elementor-cli pull ${pageId}${postTypeFlag(postType)}' first.`,
+            });
+            continue;
+          }
+          const result = transformer.transform(page.elements, parsed, operations);
+          results.push({ pageId, title: page.meta.title, matched: result.matched, changes: result.changes });
+          if (result.changes.length > 0 && !options.dryRun) {
+            await store.saveElements(siteName, pageId, result.elements);
+          }
+        }
+      }
+      spinner?.stop();
+
+      const changed = results.filter((result) => result.changes.length > 0);
+      const failed = results.filter((result) => result.error);
+      const total = changed.reduce((sum, result) => sum + result.changes.length, 0);
+
+      if (options.json) {
+        console.log(
+          JSON.stringify(
+            {
+              dryRun: !!options.dryRun,
+              remote: !!options.remote,
+              selector,
+              operations,
+              pagesProcessed: results.length,
+              pagesChanged: changed.length,
+              operationId: options.remote && !options.dryRun ? recorder.operation.id : undefined,
+              results,
+            },
+            null,
+            2
+          )
+        );
+      } else {
+        logger.heading(options.dryRun ? "Dry Run Results" : "Transform Results");
+        for (const result of failed) {
+          logger.error(`${label} ${result.pageId}: ${result.error}`);
+        }
+        for (const result of changed) {
+          console.log(
+            `${chalk.cyan(`${label} ${result.pageId}:`)} ${result.title} ${chalk.dim(`(${result.matched} matched)`)}`
+          );
+          printChanges(result.changes);
+        }
+
+        console.log("");
+        if (changed.length === 0) {
+          logger.info(`No changes in ${results.length - failed.length} ${label}(s).`);
+        } else if (options.dryRun) {
+          logger.info(`Would change ${total} setting(s) in ${changed.length} ${label}(s).`);
+          console.log(chalk.dim("Run without --dry-run to apply changes."));
+        } else if (options.remote) {
+          logger.success(`Changed ${total} setting(s) in ${changed.length} ${label}(s) on ${siteName}.`);
+          console.log(chalk.dim("CSS cache has been invalidated for affected pages."));
+          printUndoHint(recorder.operation);
+        } else {
+          logger.success(`Changed ${total} setting(s) in ${changed.length} local ${label}(s).`);
+          console.log(chalk.dim("Run 'elementor-cli push' to upload them."));
+        }
+      }
+
+      if (failed.length > 0) {
+        process.exit(1);
+      }
+    } catch (error) {
+      logger.error(`Transform failed: ${error instanceof Error ? error.message : error}`);
+      process.exit(1);
+    }
+  });
@@ -0,0 +1,110 @@
+import { Command } from "commander";
+import { getSiteConfig } from "../utils/config-store.js";
+import { logger } from "../utils/logger.js";
+import { confirmAction } from "../utils/prompts.js";
+import { WordPressClient } from "../services/wordpress-client.js";
+import { OperationJournal } from "../services/operation-journal.js";
+import { printOperation, printUndoHint } from "../utils/journal-format.js";
+import { postTypeLabel } from "../utils/post-type.js";
+
+export const undoCommand = new Command("undo")
+  .description("Restore the pages a journaled operation changed")
+  .argument("[op-id]", "Operation to undo (default: the latest one not yet undone)")
+  .option("-s, --site <name>", "Site name from config")
+  .option("-n, --dry-run", "Show what would be restored")
+  .option("-f, --force", "Skip confirmation")
+  .addHelpText(
+    "after",
+    `
+Examples:
+  $ elementor-cli undo                          Undo the latest operation
+  $ elementor-cli undo 20261019T142530-3f9a     Undo a specific operation
+  $ elementor-cli undo --site production -n     Preview
+
+Each page of the operation gets its content, page settings, title, slug,
+status and template back, in reverse order:
+  - Changed pages are overwritten with the journaled content
+  - Deleted pages are taken out of the trash, or recreated under a new ID
+    if they were deleted permanently
+  - Pages the operation created are moved to the trash
+
+The undo is journaled too, so it can be undone in turn ('undo <undo-op-id>').
+Changes made to the pages after the operation are overwritten.
+
+See also:
+  elementor-cli history     List operations
+  elementor-cli revisions   WordPress revisions of a page
+`
+  )
+  .action(async (opId: string | undefined, options) => {
+    try {
+      const { name: siteName, config } = await getSiteConfig(options.site);
+      const journal = new OperationJournal(siteName);
+
+      const operation = opId ? await journal.get(opId) : await journal.latest();
+      if (!operation) {
+        logger.error(
+          opId
+            ? `Operation ${opId} not found in the journal of ${siteName}.`
+            : `Nothing to undo on ${siteName}.`
+        );
+        process.exit(1);
+      }
+
+      logger.heading(`Undo ${operation.id}`);
+      printOperation(operation);
+      console.log("");
+
+      if (operation.undone_by) {
+        logger.warn(`Already undone by ${operation.undone_by}.`);
+      }
+
+      if (options.dryRun) {
+        logger.info("Dry run: nothing was written.");
+        return;
+      }
+
+      if (!options.force) {
+        const confirmed = await confirmAction(
+          `Restore ${operation.pages.length} page(s) on ${siteName}? Later changes to them will be overwritten.`
+        );
+        if (!confirmed) {
+          logger.info("Cancelled.");
+          return;
+        }
+      }
+
+      const client = new WordPressClient(config);
+      const spinner = logger.spinner("Undoing...");
+      const { undo, steps } = await journal.undo(client, operation, {
+        onStep: (page) => {
+          spinner.text = `Restoring ${postTypeLabel(page.post_type)} ${page.id}...`;
+        },
+      });
+      spinner.stop();
+
+      for (const { page, restoredId, recreated, error } of steps) {
+        const label = `${postTypeLabel(page.post_type)} ${page.id} "${page.title}"`;
+        if (error) {
+          logger.error(`Could not restore ${label}: ${error}`);
+        } else if (page.action === "create") {
+          logger.success(`Moved ${label} to the trash`);
+        } else if (recreated) {
+          logger.success(`Recreated ${label} as ${restoredId}`);
+        } else {
+          logger.success(`Restored ${label}${restoredId !== page.id ? ` (now ${restoredId})` : ""}`);
+        }
+      }
+
+      const failed = steps.filter((step) => step.error).length;
+      if (failed > 0) {
+        logger.error(`${failed} of ${steps.length} page(s) could not be restored; the operation stays in the history.`);
+        printUndoHint(undo);
+        process.exit(1);
+      }
+      printUndoHint(undo);
+    } catch (error) {
+      logger.error(`Undo failed: ${error}`);
+      process.exit(1);
+    }
+  });
@@ -0,0 +1,131 @@
+import { Command } from "commander";
+import { readConfig } from "../utils/config-store.js";
+import { logger } from "../utils/logger.js";
+import { printValidationResult, summarizeValidation } from "../utils/validation-format.js";
+import { getPostType } from "../utils/post-type.js";
+import { LocalStore } from "../services/local-store.js";
+import { ElementValidator, type ValidationResult } from "../services/element-validator.js";
+
+export const validateCommand = new Command("validate")
+  .description("Check local element trees for structural and settings errors")
+  .argument("[page-ids...]", "Page ID(s) to validate")
+  .option("-s, --site <name>", "Site name for local pages")
+  .option("-a, --all", "Validate all local pages")
+  .option("-f, --file <path>", "Validate an elements JSON file instead of a local page")
+  .option("--strict", "Treat warnings as errors")
+  .option("--type <post-type>", "Post type to work with (default: page; e.g. post, product)")
+  .option("--library", "Use Elementor library items (same as --type elementor_library)")
+  .option("--json", "Output results as JSON", false)
+  .addHelpText(
+    "after",
+    `
+Examples:
+  $ elementor-cli validate 42                  Validate a local page
+  $ elementor-cli validate --all               Validate all local pages
+  $ elementor-cli validate --file hero.json    Validate an elements file
+  $ elementor-cli validate --all --strict      Fail on warnings too (CI)
+  $ elementor-cli validate --all --library     Validate library items
+
+What it checks:
+  - Element structure (id, elType, settings, elements)
+  - Unique element ids
+  - Widgets have a widgetType and no child elements
+  - Columns only inside sections, sections only at top level or in columns
+  - Settings of common widgets: heading, text-editor, image, button,
+    icon-box, video, form
+
+Validation also runs automatically before 'push' and 'preview sync'
+(skip with --no-validate).
+
+See also:
+  elementor-cli push           Upload local changes
+  elementor-cli preview sync   Sync to local staging
+`
+  )
+  .action(async (pageIds: string[], options) => {
+    try {
+      const validator = new ElementValidator();
+      const results: Array<{ target: string; result: ValidationResult }> = [];
+
+      if (options.file) {
+        let elements: unknown;
+        try {
+          elements = await Bun.file(options.file).json();
+        } catch (error) {
+          logger.error(`Could not read ${options.file}: ${error}`);
+          process.exit(1);
+        }
+        results.push({ target: options.file, result: validator.validate(elements) });
+      } else {
+        const store = await LocalStore.create(getPostType(options));
+        const config = await readConfig();
+
+        const siteName = options.site || config.defaultSite;
+        if (!siteName) {
+          logger.error("No site specified and no default site configured.");
+          process.exit(1);
+        }
+
+        let pagesToValidate: number[] = [];
+
+        if (options.all) {
+          pagesToValidate = await store.listLocalPages(siteName);
+          if (pagesToValidate.length === 0) {
+            logger.info("No local pages found.");
+            return;
+          }
+        } else if (pageIds.length > 0) {
+          pagesToValidate = pageIds.map((id) => Number.parseInt(id, 10));
+        } else {
+          logger.error("Please specify page ID(s), --all or --file.");
+          process.exit(1);
+        }
+
+        for (const pageId of pagesToValidate) {
+          const localData = await store.loadPage(siteName, pageId);
+          if (!localData) {
+            logger.warn(`Page ${pageId} not found locally. Skipped.`);
+            continue;
+          }
+          results.push({
+            target: `page ${pageId}`,
+            result: validator.validate(localData.elements, localData.settings, localData.page),
+          });
+        }
+      }
+
+      const failed = results.filter(
+        ({ result }) => !result.valid || (options.strict && result.warnings.length > 0)
+      );
+
+      if (options.json) {
+        console.log(JSON.stringify(results, null, 2));
+        if (failed.length > 0) process.exit(1);
+        return;
+      }
+
+      for (const { target, result } of results) {
+        if (result.errors.length === 0 && result.warnings.length === 0) {
+          logger.success(`${target}: valid`);
+          continue;
+        }
+        const message = `${target}: ${summarizeValidation(result)}`;
+        if (failed.some((entry) => entry.target === target)) {
+          logger.error(message);
+        } else {
+          logger.warn(message);
+        }
+        printValidationResult(result);
+      }
+
+      console.log("");
+      if (failed.length > 0) {
+        logger.error(`${failed.length} of ${results.length} target(s) failed validation.`);
+        process.exit(1);
+      }
+      logger.success(`${results.length} target(s) valid.`);
+    } catch (error) {
+      logger.error(`Validation failed: ${error}`);
+      process.exit(1);
+    }
+  });
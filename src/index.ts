@@ -17,6 +17,18 @@ import { exportCommand } from "./commands/export.js";
 import { exportHtmlCommand } from "./commands/export-html.js";
 import { updateCommand } from "./commands/update.js";
 import { templatesCommand } from "./commands/templates.js";
+import { resolveCommand } from "./commands/resolve.js";
+import { normalizeCommand } from "./commands/normalize.js";
+import { validateCommand } from "./commands/validate.js";
+import { mediaCommand } from "./commands/media.js";
+import { promoteCommand } from "./commands/promote.js";
+import { applyCommand } from "./commands/apply.js";
+import { elementCommand } from "./commands/element.js";
+import { queryCommand } from "./commands/query.js";
+import { transformCommand } from "./commands/transform.js";
+import { historyCommand } from "./commands/history.js";
+import { undoCommand } from "./commands/undo.js";
+import { snapshotsCommand } from "./commands/snapshots.js";
 import pkg from "../package.json";
 
 const program = new Command();
@@ -58,5 +70,17 @@ program.addCommand(exportCommand);
 program.addCommand(exportHtmlCommand);
 program.addCommand(updateCommand);
 program.addCommand(templatesCommand);
+program.addCommand(resolveCommand);
+program.addCommand(normalizeCommand);
+program.addCommand(validateCommand);
+program.addCommand(mediaCommand);
+program.addCommand(promoteCommand);
+program.addCommand(applyCommand);
+program.addCommand(elementCommand);
+program.addCommand(queryCommand);
+program.addCommand(transformCommand);
+program.addCommand(historyCommand);
+program.addCommand(undoCommand);
+program.addCommand(snapshotsCommand);
 
 program.parse();
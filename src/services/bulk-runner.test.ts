@@ -0,0 +1,53 @@
+import { describe, test, expect } from "bun:test";
+import { BulkRunner, countResults } from "./bulk-runner.js";
+import { WPNotFoundError } from "./wordpress-errors.js";
+
+describe("BulkRunner", () => {
+  test("runs workers concurrently up to the limit and keeps input order", async () => {
+    const runner = new BulkRunner(3);
+    let running = 0;
+    let peak = 0;
+    const completed: number[] = [];
+
+    const results = await runner.run(
+      [1, 2, 3, 4, 5, 6, 7],
+      async (pageId) => {
+        running++;
+        peak = Math.max(peak, running);
+        await Bun.sleep(pageId % 2 === 0 ? 2 : 8);
+        running--;
+        return { pageId, status: "ok" };
+      },
+      (result) => completed.push(result.pageId)
+    );
+
+    expect(peak).toBe(3);
+    expect(results.map((result) => result.pageId)).toEqual([1, 2, 3, 4, 5, 6, 7]);
+    expect(completed).toHaveLength(7);
+    expect(completed).not.toEqual([1, 2, 3, 4, 5, 6, 7]);
+  });
+
+  test("turns thrown errors into failed results and keeps going", async () => {
+    const runner = new BulkRunner(2);
+
+    const results = await runner.run([1, 2, 3], async (pageId) => {
+      if (pageId === 2) {
+        throw new WPNotFoundError("Invalid post ID.", { status: 404, code: "rest_post_invalid_id" });
+      }
+      return { pageId, status: pageId === 3 ? "skipped" : "ok" };
+    });
+
+    expect(results[1]).toEqual({
+      pageId: 2,
+      status: "failed",
+      message: "Invalid post ID.",
+      error: {
+        name: "WPNotFoundError",
+        message: "Invalid post ID.",
+        status: 404,
+        code: "rest_post_invalid_id",
+      },
+    });
+    expect(countResults(results)).toEqual({ ok: 1, skipped: 1, conflict: 0, invalid: 0, failed: 1 });
+  });
+});
@@ -0,0 +1,86 @@
+import { ConcurrencyLimiter } from "./concurrency-limiter.js";
+import { WPApiError } from "./wordpress-errors.js";
+
+export type BulkStatus = "ok" | "skipped" | "conflict" | "invalid" | "failed";
+
+export const BULK_STATUSES: BulkStatus[] = ["ok", "skipped", "conflict", "invalid", "failed"];
+
+export interface BulkResult {
+  pageId: number;
+  status: BulkStatus;
+  title?: string;
+  message?: string;
+  error?: {
+    name: string;
+    message: string;
+    status?: number; // HTTP status for WordPress API errors
+    code?: string; // WordPress error code, e.g. "rest_post_invalid_id"
+  };
+}
+
+export type BulkWorker = (pageId: number) => Promise<BulkResult>;
+
+/**
+ * Build a "failed" result from a thrown error, keeping the HTTP status and
+ * WordPress error code so reports can tell a 404 from a timeout.
+ */
+export function failedResult(pageId: number, error: unknown, message?: string): BulkResult {
+  const err = error instanceof Error ? error : new Error(String(error));
+  return {
+    pageId,
+    status: "failed",
+    message: message ?? err.message,
+    error: {
+      name: err.name,
+      message: err.message,
+      status: err instanceof WPApiError ? err.status : undefined,
+      code: err instanceof WPApiError ? err.code : undefined,
+    },
+  };
+}
+
+export function countResults(results: BulkResult[]): Record<BulkStatus, number> {
+  const counts = Object.fromEntries(BULK_STATUSES.map((status) => [status, 0])) as Record<
+    BulkStatus,
+    number
+  >;
+  for (const result of results) {
+    counts[result.status]++;
+  }
+  return counts;
+}
+
+/**
+ * BulkRunner processes many pages with at most `concurrency` workers at a time.
+ *
+ * Results come back in the order of the input ids. A worker that throws does
+ * not stop the run; it produces a "failed" result instead.
+ */
+export class BulkRunner {
+  private limiter: ConcurrencyLimiter;
+
+  constructor(concurrency: number) {
+    this.limiter = new ConcurrencyLimiter(concurrency);
+  }
+
+  async run(
+    pageIds: number[],
+    worker: BulkWorker,
+    onResult?: (result: BulkResult) => void
+  ): Promise<BulkResult[]> {
+    return Promise.all(
+      pageIds.map((pageId) =>
+        this.limiter.run(async () => {
+          let result: BulkResult;
+          try {
+            result = await worker(pageId);
+          } catch (error) {
+            result = failedResult(pageId, error);
+          }
+          onResult?.(result);
+          return result;
+        })
+      )
+    );
+  }
+}
@@ -0,0 +1,75 @@
+import { describe, test, expect } from "bun:test";
+import { CanonicalSerializer } from "./canonical-serializer.js";
+import type { ElementorElement, PageData } from "../types/elementor.js";
+
+describe("CanonicalSerializer", () => {
+  const serializer = new CanonicalSerializer();
+
+  test("produces the same output regardless of key order", () => {
+    const a = [
+      {
+        elements: [],
+        settings: { title: "Hi", align: "left", typography: { size: 12, unit: "px" } },
+        widgetType: "heading",
+        elType: "widget",
+        id: "abc1234",
+      },
+    ] as ElementorElement[];
+    const b = [
+      {
+        id: "abc1234",
+        elType: "widget",
+        widgetType: "heading",
+        settings: { typography: { unit: "px", size: 12 }, align: "left", title: "Hi" },
+        elements: [],
+      },
+    ] as ElementorElement[];
+
+    expect(serializer.serializeElements(a)).toBe(serializer.serializeElements(b));
+  });
+
+  test("orders element keys and sorts settings", () => {
+    const output = serializer.serializeElements([
+      { settings: { b: 1, a: 2 }, elements: [], elType: "container", id: "c1" },
+    ] as ElementorElement[]);
+
+    expect(output).toBe(
+      `${JSON.stringify([{ id: "c1", elType: "container", settings: { a: 2, b: 1 }, elements: [] }], null, 2)}\n`
+    );
+  });
+
+  test("formats numeric ids as strings", () => {
+    const output = serializer.serializeElements([
+      { id: 12345 as unknown as string, elType: "container", settings: {}, elements: [] },
+    ]);
+
+    expect(JSON.parse(output)[0].id).toBe("12345");
+  });
+
+  test("leaves pulled_at out of page data", () => {
+    const page: PageData = {
+      id: 42,
+      title: "Home",
+      slug: "home",
+      status: "publish",
+      elementor_data: [],
+      page_settings: [] as unknown as Record<string, unknown>,
+      pulled_at: "2024-01-27T12:00:00Z",
+      remote_modified: "2024-01-15T10:30:00Z",
+    };
+
+    const parsed = JSON.parse(serializer.serializePage(page));
+
+    expect(parsed.pulled_at).toBeUndefined();
+    expect(parsed.page_settings).toEqual({});
+    expect(Object.keys(parsed)).toEqual([
+      "id",
+      "title",
+      "slug",
+      "status",
+      "remote_modified",
+      "page_settings",
+      "elementor_data",
+    ]);
+  });
+});
@@ -0,0 +1,102 @@
+import type { ElementorElement, PageData, PageSettings } from "../types/elementor.js";
+
+// Fixed key order for known objects; any other keys follow alphabetically
+const ELEMENT_KEY_ORDER = ["id", "elType", "widgetType", "isInner", "settings", "elements"];
+const PAGE_KEY_ORDER = [
+  "id",
+  "title",
+  "slug",
+  "status",
+  "template",
+  "post_type",
+  "template_type",
+  "remote_modified",
+  "page_settings",
+  "elementor_data",
+];
+const META_KEY_ORDER = ["title", "slug", "status", "template"];
+
+/**
+ * CanonicalSerializer writes page files in a stable, git-friendly form.
+ *
+ * - Object keys are sorted (known Elementor keys first, in a fixed order)
+ * - Element ids are always strings
+ * - Two-space indentation and a trailing newline
+ *
+ * Serializing the same data twice always produces the same text, regardless
+ * of the key order WordPress returned.
+ */
+export class CanonicalSerializer {
+  serializeElements(elements: ElementorElement[]): string {
+    return this.format(this.canonicalElements(elements));
+  }
+
+  serializeSettings(settings: PageSettings): string {
+    // WordPress/Elementor can return [] for empty settings, but expects {}
+    return this.format(this.sortKeys(Array.isArray(settings) ? {} : settings));
+  }
+
+  serializeMeta(meta: Record<string, unknown>): string {
+    return this.format(this.orderKeys(meta, META_KEY_ORDER));
+  }
+
+  /**
+   * Serialize full page data. `pulled_at` is left out because it changes on
+   * every pull; it is kept in the separate .pulled_at file instead.
+   */
+  serializePage(page: PageData): string {
+    const { pulled_at: _pulledAt, ...rest } = page;
+    const canonical: Record<string, unknown> = {
+      ...rest,
+      elementor_data: this.canonicalElements(page.elementor_data || []),
+      page_settings: this.sortKeys(Array.isArray(page.page_settings) ? {} : page.page_settings),
+    };
+    return this.format(this.orderKeys(canonical, PAGE_KEY_ORDER));
+  }
+
+  canonicalElements(elements: ElementorElement[]): ElementorElement[] {
+    return elements.map((el) => {
+      const canonical: Record<string, unknown> = {
+        ...el,
+        id: String(el.id).trim(),
+        settings: this.sortKeys(Array.isArray(el.settings) ? {} : el.settings || {}),
+        elements: this.canonicalElements(el.elements || []),
+      };
+      return this.orderKeys(canonical, ELEMENT_KEY_ORDER) as unknown as ElementorElement;
+    });
+  }
+
+  private format(value: unknown): string {
+    return `${JSON.stringify(value, null, 2)}\n`;
+  }
+
+  private orderKeys(obj: Record<string, unknown>, order: string[]): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+    for (const key of order) {
+      if (obj[key] !== undefined) {
+        result[key] = obj[key];
+      }
+    }
+    for (const key of Object.keys(obj).sort()) {
+      if (!order.includes(key) && obj[key] !== undefined) {
+        result[key] = this.sortKeys(obj[key]);
+      }
+    }
+    return result;
+  }
+
+  private sortKeys<T>(value: T): T {
+    if (Array.isArray(value)) {
+      return value.map((item) => this.sortKeys(item)) as T;
+    }
+    if (value && typeof value === "object") {
+      const obj = value as Record<string, unknown>;
+      const sorted: Record<string, unknown> = {};
+      for (const key of Object.keys(obj).sort()) {
+        sorted[key] = this.sortKeys(obj[key]);
+      }
+      return sorted as T;
+    }
+    return value;
+  }
+}
@@ -0,0 +1,38 @@
+import { describe, test, expect } from "bun:test";
+import { ConcurrencyLimiter } from "./concurrency-limiter.js";
+
+describe("ConcurrencyLimiter", () => {
+  test("never runs more tasks than the limit", async () => {
+    const limiter = new ConcurrencyLimiter(2);
+    let running = 0;
+    let peak = 0;
+
+    const task = async () => {
+      running++;
+      peak = Math.max(peak, running);
+      await Bun.sleep(5);
+      running--;
+    };
+
+    await Promise.all(Array.from({ length: 6 }, () => limiter.run(task)));
+
+    expect(peak).toBe(2);
+  });
+
+  test("starts queued tasks in order and frees slots on errors", async () => {
+    const limiter = new ConcurrencyLimiter(1);
+    const order: number[] = [];
+
+    const results = await Promise.allSettled([
+      limiter.run(async () => {
+        order.push(1);
+        throw new Error("fail");
+      }),
+      limiter.run(async () => order.push(2)),
+      limiter.run(async () => order.push(3)),
+    ]);
+
+    expect(results[0].status).toBe("rejected");
+    expect(order).toEqual([1, 2, 3]);
+  });
+});
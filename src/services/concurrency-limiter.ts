@@ -0,0 +1,56 @@
+/**
+ * ConcurrencyLimiter caps how many async tasks run at the same time.
+ * Tasks beyond the limit wait in FIFO order until a slot frees up.
+ */
+export class ConcurrencyLimiter {
+  private active = 0;
+  private queue: Array<() => void> = [];
+  private max: number;
+
+  constructor(max: number) {
+    this.max = Math.max(1, max);
+  }
+
+  get limit(): number {
+    return this.max;
+  }
+
+  setLimit(max: number): void {
+    this.max = Math.max(1, max);
+    this.drain();
+  }
+
+  async run<T>(task: () => Promise<T>): Promise<T> {
+    if (this.active < this.max) {
+      this.active++;
+    } else {
+      // The slot is handed over by release(), so active is not incremented here
+      await new Promise<void>((resolve) => this.queue.push(resolve));
+    }
+
+    try {
+      return await task();
+    } finally {
+      this.release();
+    }
+  }
+
+  private release(): void {
+    const next = this.active <= this.max ? this.queue.shift() : undefined;
+    if (next) {
+      next();
+    } else {
+      this.active--;
+    }
+  }
+
+  private drain(): void {
+    while (this.active < this.max && this.queue.length > 0) {
+      this.active++;
+      this.queue.shift()?.();
+    }
+  }
+}
+
+// Shared by all WordPressClient instances so bulk commands never exceed it in total
+export const sharedLimiter = new ConcurrencyLimiter(4);
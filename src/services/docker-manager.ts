@@ -243,6 +243,41 @@ export class DockerManager {
     return parseInt(output.trim(), 10);
   }
 
+  /**
+   * Copy a local file into the container and import it into the media library.
+   * `name` is the file name WordPress sees (defaults to the local file name).
+   * Returns the new attachment's id and URL.
+   */
+  async importMedia(
+    localPath: string,
+    details: { name?: string; title?: string; alt?: string } = {}
+  ): Promise<{ id: number; url: string }> {
+    const name = details.name || localPath.split("/").pop() || "file";
+    const containerDir = `/tmp/elementor-cli-media-${Date.now()}`;
+    await this.runCommand(["exec", this.service, "mkdir", "-p", containerDir], { capture: true });
+
+    try {
+      await this.runCommand(["cp", localPath, `${this.service}:${containerDir}/${name}`], {
+        capture: true,
+      });
+
+      const args = ["media", "import", `${containerDir}/${name}`, "--porcelain"];
+      if (details.title) args.push(`--title=${details.title}`);
+      if (details.alt) args.push(`--alt=${details.alt}`);
+      const id = parseInt((await this.execWpCli(args)).trim(), 10);
+      if (isNaN(id)) {
+        throw new Error(`Could not import ${name} into staging`);
+      }
+
+      const url = await this.execWpCli(["eval", `echo wp_get_attachment_url(${id});`]);
+      return { id, url: url.trim() };
+    } finally {
+      await this.runCommand(["exec", this.service, "rm", "-rf", containerDir], {
+        capture: true,
+      }).catch(() => {});
+    }
+  }
+
   async updatePost(
     postId: number,
     data: { title?: string; status?: string; slug?: string }
@@ -0,0 +1,66 @@
+import { describe, test, expect } from "bun:test";
+import { ElementEditor } from "./element-editor.js";
+import type { ElementorElement } from "../types/elementor.js";
+import { widget } from "../test-utils/elements.js";
+
+const tree: ElementorElement[] = [
+  {
+    id: "c1",
+    elType: "container",
+    settings: {},
+    elements: [
+      widget("h1", "heading", { title: "Hello", typography_font_size: { unit: "px", size: 32 } }),
+      widget("b1", "button", { text: "Go" }),
+    ],
+  },
+  { id: "c2", elType: "container", settings: {}, elements: [] },
+];
+
+const ids = (elements: ElementorElement[]): unknown =>
+  elements.map((el) => (el.elements.length > 0 ? [el.id, ids(el.elements)] : el.id));
+
+describe("ElementEditor", () => {
+  const editor = new ElementEditor();
+
+  test("reads and sets settings by dotted path without touching the input", () => {
+    const location = editor.locate(tree, "h1");
+    expect(location?.path).toEqual(["container[0]", "widget[0](heading)"]);
+    expect(editor.getSetting(tree[0].elements[0], "typography_font_size.size")).toBe(32);
+
+    const updated = editor.setSetting(tree, "h1", "typography_font_size.size", 40);
+    const added = editor.setSetting(updated, "h1", "link.url", "https://example.com");
+    const removed = editor.setSetting(added, "h1", "title", undefined);
+
+    expect(removed[0].elements[0].settings).toEqual({
+      typography_font_size: { unit: "px", size: 40 },
+      link: { url: "https://example.com" },
+    });
+    expect(tree[0].elements[0].settings.title).toBe("Hello");
+  });
+
+  test("moves, deletes and positions elements", () => {
+    const moved = editor.move(tree, "b1", { parentId: "c2" });
+    expect(ids(moved)).toEqual([["c1", ["h1"]], ["c2", ["b1"]]]);
+
+    const before = editor.move(tree, "c2", editor.besides(tree, "c1", false));
+    expect(ids(before)).toEqual(["c2", ["c1", ["h1", "b1"]]]);
+
+    expect(ids(editor.remove(tree, "h1"))).toEqual([["c1", ["b1"]], "c2"]);
+    expect(() => editor.move(tree, "c1", { parentId: "h1" })).toThrow("into itself");
+    expect(() => editor.move(tree, "c2", { parentId: "b1" })).toThrow("is a widget");
+    expect(() => editor.insert(tree, [], { parentId: "c2", index: 3 })).toThrow("out of range");
+  });
+
+  test("duplicates and inserts with fresh ids", () => {
+    const { elements, id } = editor.duplicate(tree, "c1");
+    expect(elements).toHaveLength(3);
+    expect(elements[1].id).toBe(id);
+    expect(id).not.toBe("c1");
+    expect(elements[1].elements.map((el) => el.id)).not.toContain("h1");
+    expect(elements[1].elements[0].settings).toEqual(tree[0].elements[0].settings);
+
+    const inserted = editor.insert(tree, [widget("h1", "heading")], { parentId: "c1", index: 1 });
+    expect(inserted.ids).toHaveLength(1);
+    expect(inserted.elements[0].elements.map((el) => el.id)).toEqual(["h1", inserted.ids[0], "b1"]);
+  });
+});
@@ -0,0 +1,234 @@
+import type { ElementorElement } from "../types/elementor.js";
+import { ElementorParser } from "./elementor-parser.js";
+
+/**
+ * Where an element sits in a tree
+ */
+export interface ElementLocation {
+  element: ElementorElement;
+  parent: ElementorElement | null; // null for top-level elements
+  index: number;
+  path: string[]; // e.g. ["container[0]", "widget[2](heading)"]
+}
+
+/**
+ * A position in a tree: a parent (null for the top level) and an index
+ * among its children. A missing index means "at the end".
+ */
+export interface ElementPosition {
+  parentId: string | null;
+  index?: number;
+}
+
+/**
+ * ElementEditor makes single changes to an element tree: setting values,
+ * moving, deleting, duplicating and inserting elements. Every method works
+ * on a copy and returns the new tree; the input is never modified.
+ */
+export class ElementEditor {
+  private parser = new ElementorParser();
+
+  locate(elements: ElementorElement[], id: string): ElementLocation | null {
+    const search = (
+      children: ElementorElement[],
+      parent: ElementorElement | null,
+      path: string[]
+    ): ElementLocation | null => {
+      for (let index = 0; index < children.length; index++) {
+        const element = children[index];
+        const elementPath = [
+          ...path,
+          `${element.elType}[${index}]${element.widgetType ? `(${element.widgetType})` : ""}`,
+        ];
+        if (element.id === id) {
+          return { element, parent, index, path: elementPath };
+        }
+        const found = search(element.elements || [], element, elementPath);
+        if (found) return found;
+      }
+      return null;
+    };
+    return search(elements, null, []);
+  }
+
+  /**
+   * Read a setting by dotted path ("typography_font_size.size", "gallery.0.url")
+   */
+  getSetting(element: ElementorElement, path: string): unknown {
+    let value: unknown = element.settings;
+    for (const key of this.splitPath(path)) {
+      if (value === null || typeof value !== "object") return undefined;
+      value = (value as Record<string, unknown>)[key];
+    }
+    return value;
+  }
+
+  /**
+   * Set a setting by dotted path, creating intermediate objects.
+   * `undefined` removes the setting.
+   */
+  setSetting(
+    elements: ElementorElement[],
+    id: string,
+    path: string,
+    value: unknown
+  ): ElementorElement[] {
+    const tree = this.parser.cloneElements(elements);
+    const { element } = this.require(tree, id);
+    const keys = this.splitPath(path);
+
+    // Elementor stores empty settings as []
+    if (Array.isArray(element.settings)) {
+      element.settings = {};
+    }
+
+    let target = element.settings as Record<string, unknown>;
+    for (const key of keys.slice(0, -1)) {
+      const next = target[key];
+      if (next === null || typeof next !== "object") {
+        target[key] = {};
+      }
+      target = target[key] as Record<string, unknown>;
+    }
+
+    const last = keys[keys.length - 1];
+    if (value === undefined) {
+      if (Array.isArray(target)) {
+        target.splice(Number(last), 1);
+      } else {
+        delete target[last];
+      }
+    } else {
+      target[last] = value;
+    }
+    return tree;
+  }
+
+  remove(elements: ElementorElement[], id: string): ElementorElement[] {
+    const tree = this.parser.cloneElements(elements);
+    const { parent, index } = this.require(tree, id);
+    this.children(tree, parent).splice(index, 1);
+    return tree;
+  }
+
+  /**
+   * Move an element to another parent and/or position. The index refers
+   * to the parent's children after the element has been taken out.
+   */
+  move(elements: ElementorElement[], id: string, position: ElementPosition): ElementorElement[] {
+    const tree = this.parser.cloneElements(elements);
+    const { element, parent, index } = this.require(tree, id);
+
+    if (position.parentId !== null) {
+      if (position.parentId === id || this.locate(element.elements || [], position.parentId)) {
+        throw new Error(`Cannot move element ${id} into itself`);
+      }
+    }
+
+    this.children(tree, parent).splice(index, 1);
+    this.place(tree, [element], position);
+    return tree;
+  }
+
+  /**
+   * Copy an element (with its children) right after the original.
+   * The copy gets fresh ids; returns the tree and the copy's id.
+   */
+  duplicate(
+    elements: ElementorElement[],
+    id: string
+  ): { elements: ElementorElement[]; id: string } {
+    const tree = this.parser.cloneElements(elements);
+    const { element, parent, index } = this.require(tree, id);
+
+    const [copy] = this.withFreshIds(tree, [element]);
+    this.children(tree, parent).splice(index + 1, 0, copy);
+    return { elements: tree, id: copy.id };
+  }
+
+  /**
+   * Insert elements (e.g. a template's elements) at a position.
+   * The inserted elements get fresh ids; returns the tree and their ids.
+   */
+  insert(
+    elements: ElementorElement[],
+    snippet: ElementorElement[],
+    position: ElementPosition
+  ): { elements: ElementorElement[]; ids: string[] } {
+    const tree = this.parser.cloneElements(elements);
+    const inserted = this.withFreshIds(tree, this.parser.cloneElements(snippet));
+    this.place(tree, inserted, position);
+    return { elements: tree, ids: inserted.map((element) => element.id) };
+  }
+
+  /**
+   * Position right before or after a sibling element
+   */
+  besides(elements: ElementorElement[], siblingId: string, after: boolean): ElementPosition {
+    const { parent, index } = this.require(elements, siblingId);
+    return { parentId: parent ? parent.id : null, index: after ? index + 1 : index };
+  }
+
+  private place(
+    tree: ElementorElement[],
+    inserted: ElementorElement[],
+    position: ElementPosition
+  ): void {
+    const parent = position.parentId === null ? null : this.require(tree, position.parentId).element;
+    if (parent && parent.elType === "widget") {
+      throw new Error(`Element ${parent.id} is a widget and cannot have children`);
+    }
+
+    const children = this.children(tree, parent);
+    const index = position.index ?? children.length;
+    if (!Number.isInteger(index) || index < 0 || index > children.length) {
+      throw new Error(`Position ${index} is out of range (0-${children.length})`);
+    }
+    children.splice(index, 0, ...inserted);
+  }
+
+  private children(tree: ElementorElement[], parent: ElementorElement | null): ElementorElement[] {
+    if (!parent) return tree;
+    if (!parent.elements) parent.elements = [];
+    return parent.elements;
+  }
+
+  /**
+   * Give every element new ids that are not used anywhere in `tree`
+   */
+  private withFreshIds(tree: ElementorElement[], elements: ElementorElement[]): ElementorElement[] {
+    const used = new Set<string>();
+    const collect = (els: ElementorElement[]) => {
+      for (const el of els) {
+        used.add(el.id);
+        collect(el.elements || []);
+      }
+    };
+    collect(tree);
+
+    const renew = (els: ElementorElement[]): ElementorElement[] =>
+      els.map((el) => {
+        let id = this.parser.generateElementId();
+        while (used.has(id)) id = this.parser.generateElementId();
+        used.add(id);
+        return { ...el, id, elements: renew(el.elements || []) };
+      });
+    return renew(elements);
+  }
+
+  private require(elements: ElementorElement[], id: string): ElementLocation {
+    const location = this.locate(elements, id);
+    if (!location) {
+      throw new Error(`Element "${id}" not found`);
+    }
+    return location;
+  }
+
+  private splitPath(path: string): string[] {
+    const keys = path.split(".").filter((key) => key.length > 0);
+    if (keys.length === 0) {
+      throw new Error("Setting path is empty");
+    }
+    return keys;
+  }
+}
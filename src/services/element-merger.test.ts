@@ -0,0 +1,110 @@
+import { describe, test, expect } from "bun:test";
+import { ElementMerger, type MergeSide } from "./element-merger.js";
+import type { ElementorElement } from "../types/elementor.js";
+import { container, widget } from "../test-utils/elements.js";
+
+function side(elements: ElementorElement[]): MergeSide {
+  return { elements, settings: {}, meta: { title: "Home" } };
+}
+
+function ids(elements: ElementorElement[]): string[] {
+  return elements.flatMap((el) => [el.id, ...ids(el.elements)]);
+}
+
+describe("ElementMerger", () => {
+  const merger = new ElementMerger();
+
+  test("merges non-overlapping setting changes", () => {
+    const base = [container("c1", [widget("w1", "heading", { title: "Hello", align: "left" })])];
+    const local = [container("c1", [widget("w1", "heading", { title: "Hi", align: "left" })])];
+    const remote = [container("c1", [widget("w1", "heading", { title: "Hello", align: "center" })])];
+
+    const result = merger.merge(side(base), side(local), side(remote));
+
+    expect(result.conflicts).toHaveLength(0);
+    expect(result.elements[0].elements[0].settings).toEqual({ title: "Hi", align: "center" });
+  });
+
+  test("reports conflicting setting keys and keeps the local value", () => {
+    const base = [container("c1", [widget("w1", "heading", { title: "Hello" })])];
+    const local = [container("c1", [widget("w1", "heading", { title: "Local" })])];
+    const remote = [container("c1", [widget("w1", "heading", { title: "Remote" })])];
+
+    const result = merger.merge(side(base), side(local), side(remote));
+
+    expect(result.elements[0].elements[0].settings.title).toBe("Local");
+    expect(result.conflicts).toEqual([
+      {
+        kind: "setting",
+        elementId: "w1",
+        key: "title",
+        base: "Hello",
+        local: "Local",
+        remote: "Remote",
+      },
+    ]);
+  });
+
+  test("keeps elements added on either side in position", () => {
+    const base = [container("c1", [widget("w1"), widget("w2")])];
+    const local = [container("c1", [widget("w1"), widget("l1"), widget("w2")])];
+    const remote = [container("c1", [widget("w1"), widget("w2"), widget("r1")])];
+
+    const result = merger.merge(side(base), side(local), side(remote));
+
+    expect(result.conflicts).toHaveLength(0);
+    expect(ids(result.elements)).toEqual(["c1", "w1", "l1", "w2", "r1"]);
+  });
+
+  test("applies deletions of unmodified elements", () => {
+    const base = [container("c1", [widget("w1"), widget("w2", "heading", { title: "A" })])];
+    const local = [container("c1", [widget("w1")])];
+    const remote = [container("c1", [widget("w1", "heading", { title: "New" }), widget("w2", "heading", { title: "A" })])];
+
+    const result = merger.merge(side(base), side(local), side(remote));
+
+    expect(result.conflicts).toHaveLength(0);
+    expect(ids(result.elements)).toEqual(["c1", "w1"]);
+    expect(result.elements[0].elements[0].settings.title).toBe("New");
+  });
+
+  test("keeps an element deleted on one side but modified on the other", () => {
+    const base = [container("c1", [widget("w1", "heading", { title: "A" })])];
+    const local = [container("c1", [widget("w1", "heading", { title: "B" })])];
+    const remote: ElementorElement[] = [];
+
+    const result = merger.merge(side(base), side(local), side(remote));
+
+    expect(ids(result.elements)).toEqual(["c1", "w1"]);
+    expect(result.conflicts).toHaveLength(1);
+    expect(result.conflicts[0].kind).toBe("element");
+    expect(result.conflicts[0].elementId).toBe("c1");
+    expect(result.conflicts[0].remote).toBeNull();
+  });
+
+  test("follows moves made on one side", () => {
+    const base = [container("c1", [widget("w1")]), container("c2", [])];
+    const local = [container("c1", [widget("w1", "heading", { title: "Edited" })]), container("c2", [])];
+    const remote = [container("c1", []), container("c2", [widget("w1")])];
+
+    const result = merger.merge(side(base), side(local), side(remote));
+
+    expect(result.conflicts).toHaveLength(0);
+    expect(result.elements[0].elements).toHaveLength(0);
+    expect(result.elements[1].elements[0].settings.title).toBe("Edited");
+  });
+
+  test("merges page settings and meta", () => {
+    const base: MergeSide = { elements: [], settings: { a: 1 }, meta: { title: "Home", slug: "home" } };
+    const local: MergeSide = { elements: [], settings: { a: 2 }, meta: { title: "Start", slug: "home" } };
+    const remote: MergeSide = { elements: [], settings: { a: 1, b: 3 }, meta: { title: "Landing", slug: "home" } };
+
+    const result = merger.merge(base, local, remote);
+
+    expect(result.settings).toEqual({ a: 2, b: 3 });
+    expect(result.meta.title).toBe("Start");
+    expect(result.conflicts).toEqual([
+      { kind: "meta", key: "title", base: "Home", local: "Start", remote: "Landing" },
+    ]);
+  });
+});
@@ -0,0 +1,376 @@
+import type { ElementorElement, PageSettings, PageData } from "../types/elementor.js";
+import { isEqual } from "../utils/equality.js";
+
+/**
+ * One side of a three-way merge (base, local or remote)
+ */
+export interface MergeSide {
+  elements: ElementorElement[];
+  settings: PageSettings;
+  meta: Record<string, unknown>;
+}
+
+/**
+ * A change that could not be merged automatically.
+ *
+ * - "setting": an element setting (elementId set) or a page setting (no elementId)
+ * - "meta":    a page meta field (title, slug, status, template)
+ * - "field":   an element field such as elType or widgetType
+ * - "element": one side deleted an element the other side modified
+ */
+export interface MergeConflict {
+  kind: "setting" | "meta" | "field" | "element";
+  elementId?: string;
+  key?: string;
+  base: unknown;
+  local: unknown;
+  remote: unknown;
+}
+
+export interface MergeResult {
+  elements: ElementorElement[];
+  settings: PageSettings;
+  meta: Record<string, unknown>;
+  conflicts: MergeConflict[];
+}
+
+interface IndexedElement {
+  element: ElementorElement;
+  parentId: string;
+}
+
+interface IndexedTree {
+  byId: Map<string, IndexedElement>;
+  children: Map<string, string[]>;
+  order: string[];
+}
+
+const ROOT = "";
+const ELEMENT_FIELDS = ["elType", "widgetType", "isInner"] as const;
+
+/**
+ * Convert stored page data into a merge side
+ */
+export function toMergeSide(page: PageData): MergeSide {
+  const meta: Record<string, unknown> = {
+    title: page.title,
+    slug: page.slug,
+    status: page.status,
+  };
+  if (page.template) {
+    meta.template = page.template;
+  }
+  return {
+    elements: page.elementor_data,
+    settings: page.page_settings,
+    meta,
+  };
+}
+
+/**
+ * ElementMerger performs a three-way merge of Elementor element trees.
+ *
+ * Elements are matched by id. Changes made on only one side are applied
+ * automatically; when both sides changed the same setting differently the
+ * local value is kept and a conflict is reported.
+ */
+export class ElementMerger {
+  merge(base: MergeSide, local: MergeSide, remote: MergeSide): MergeResult {
+    const conflicts: MergeConflict[] = [];
+
+    const elements = this.mergeElements(
+      base.elements,
+      local.elements,
+      remote.elements,
+      conflicts
+    );
+    const settings = this.mergeRecords(
+      base.settings,
+      local.settings,
+      remote.settings,
+      (key, values) => conflicts.push({ kind: "setting", key, ...values })
+    );
+    const meta = this.mergeRecords(base.meta, local.meta, remote.meta, (key, values) =>
+      conflicts.push({ kind: "meta", key, ...values })
+    );
+
+    return { elements, settings, meta, conflicts };
+  }
+
+  /**
+   * Merge two element trees against their common ancestor
+   */
+  mergeElements(
+    base: ElementorElement[],
+    local: ElementorElement[],
+    remote: ElementorElement[],
+    conflicts: MergeConflict[] = []
+  ): ElementorElement[] {
+    const baseTree = this.indexTree(base);
+    const localTree = this.indexTree(local);
+    const remoteTree = this.indexTree(remote);
+
+    // Decide which elements survive. Trees are walked in pre-order so that a
+    // parent kept because of a delete/modify conflict keeps its whole subtree.
+    const survivors = new Map<string, ElementorElement>();
+    const keptByConflict = new Set<string>();
+
+    const visit = (id: string) => {
+      if (survivors.has(id)) return;
+
+      const inBase = baseTree.byId.get(id);
+      const inLocal = localTree.byId.get(id);
+      const inRemote = remoteTree.byId.get(id);
+
+      if (inLocal && inRemote) {
+        survivors.set(id, this.mergeElement(id, inBase?.element, inLocal.element, inRemote.element, conflicts));
+        return;
+      }
+
+      const kept = inLocal || inRemote;
+      if (!kept) return;
+
+      // Added on one side only
+      if (!inBase) {
+        survivors.set(id, this.shallow(kept.element));
+        return;
+      }
+
+      // Deleted on the other side: keep it only if it was modified on this side
+      const keptTree = inLocal ? localTree : remoteTree;
+      if (this.hasKeptAncestor(keptTree, id, keptByConflict)) {
+        survivors.set(id, this.shallow(kept.element));
+        keptByConflict.add(id);
+        return;
+      }
+
+      if (!isEqual(inBase.element, kept.element)) {
+        survivors.set(id, this.shallow(kept.element));
+        keptByConflict.add(id);
+        conflicts.push({
+          kind: "element",
+          elementId: id,
+          base: inBase.element,
+          local: inLocal ? inLocal.element : null,
+          remote: inRemote ? inRemote.element : null,
+        });
+      }
+    };
+
+    for (const id of localTree.order) visit(id);
+    for (const id of remoteTree.order) visit(id);
+
+    // Decide where each surviving element lives
+    const parents = new Map<string, string>();
+    for (const id of survivors.keys()) {
+      parents.set(id, this.resolveParent(id, baseTree, localTree, remoteTree, survivors));
+    }
+
+    const build = (parentId: string): ElementorElement[] => {
+      return this.orderChildren(parentId, parents, baseTree, localTree, remoteTree).map((id) => {
+        const element = survivors.get(id) as ElementorElement;
+        return { ...element, elements: build(id) };
+      });
+    };
+
+    return build(ROOT);
+  }
+
+  /**
+   * Merge flat key/value records (element settings, page settings, meta)
+   */
+  mergeRecords(
+    base: Record<string, unknown>,
+    local: Record<string, unknown>,
+    remote: Record<string, unknown>,
+    onConflict: (key: string, values: { base: unknown; local: unknown; remote: unknown }) => void
+  ): Record<string, unknown> {
+    const merged: Record<string, unknown> = {};
+    const keys = [...Object.keys(local)];
+    for (const key of Object.keys(remote)) {
+      if (!keys.includes(key)) keys.push(key);
+    }
+    for (const key of Object.keys(base)) {
+      if (!keys.includes(key)) keys.push(key);
+    }
+
+    for (const key of keys) {
+      const { value, conflict } = this.mergeValue(base[key], local[key], remote[key]);
+      if (conflict) {
+        onConflict(key, { base: base[key], local: local[key], remote: remote[key] });
+      }
+      if (value !== undefined) {
+        merged[key] = value;
+      }
+    }
+
+    return merged;
+  }
+
+  private mergeValue(
+    base: unknown,
+    local: unknown,
+    remote: unknown
+  ): { value: unknown; conflict: boolean } {
+    if (isEqual(local, remote)) return { value: local, conflict: false };
+    if (isEqual(local, base)) return { value: remote, conflict: false };
+    if (isEqual(remote, base)) return { value: local, conflict: false };
+    return { value: local, conflict: true };
+  }
+
+  private mergeElement(
+    id: string,
+    base: ElementorElement | undefined,
+    local: ElementorElement,
+    remote: ElementorElement,
+    conflicts: MergeConflict[]
+  ): ElementorElement {
+    const merged = this.shallow(local);
+
+    for (const field of ELEMENT_FIELDS) {
+      const { value, conflict } = this.mergeValue(base?.[field], local[field], remote[field]);
+      if (conflict) {
+        conflicts.push({
+          kind: "field",
+          elementId: id,
+          key: field,
+          base: base?.[field],
+          local: local[field],
+          remote: remote[field],
+        });
+      }
+      if (value === undefined) {
+        delete merged[field];
+      } else {
+        (merged as unknown as Record<string, unknown>)[field] = value;
+      }
+    }
+
+    merged.settings = this.mergeRecords(
+      base?.settings || {},
+      local.settings || {},
+      remote.settings || {},
+      (key, values) => conflicts.push({ kind: "setting", elementId: id, key, ...values })
+    );
+
+    return merged;
+  }
+
+  private resolveParent(
+    id: string,
+    baseTree: IndexedTree,
+    localTree: IndexedTree,
+    remoteTree: IndexedTree,
+    survivors: Map<string, ElementorElement>
+  ): string {
+    const inLocal = localTree.byId.get(id);
+    const inRemote = remoteTree.byId.get(id);
+    const baseParent = baseTree.byId.get(id)?.parentId;
+
+    let parent: string;
+    let tree: IndexedTree;
+    if (inLocal && inRemote) {
+      const moved = inLocal.parentId === baseParent && inRemote.parentId !== baseParent;
+      parent = moved ? inRemote.parentId : inLocal.parentId;
+      tree = moved ? remoteTree : localTree;
+    } else if (inLocal) {
+      parent = inLocal.parentId;
+      tree = localTree;
+    } else {
+      parent = (inRemote as IndexedElement).parentId;
+      tree = remoteTree;
+    }
+
+    // Fall back to the closest surviving ancestor if the parent was deleted
+    while (parent !== ROOT && !survivors.has(parent)) {
+      parent = tree.byId.get(parent)?.parentId ?? ROOT;
+    }
+    return parent;
+  }
+
+  private orderChildren(
+    parentId: string,
+    parents: Map<string, string>,
+    baseTree: IndexedTree,
+    localTree: IndexedTree,
+    remoteTree: IndexedTree
+  ): string[] {
+    const baseOrder = baseTree.children.get(parentId) || [];
+    const localOrder = localTree.children.get(parentId) || [];
+    const remoteOrder = remoteTree.children.get(parentId) || [];
+
+    const belongs = (id: string) => parents.get(id) === parentId;
+
+    // Use the order of whichever side reordered this parent (local wins ties)
+    const localChanged = !isEqual(
+      localOrder.filter((id) => baseOrder.includes(id)),
+      baseOrder.filter((id) => localOrder.includes(id))
+    );
+    const primary = localChanged ? localOrder : remoteOrder;
+    const secondary = localChanged ? remoteOrder : localOrder;
+
+    const result = primary.filter(belongs);
+
+    // Insert elements only present in the other side after their previous sibling
+    for (let i = 0; i < secondary.length; i++) {
+      const id = secondary[i];
+      if (!belongs(id) || result.includes(id)) continue;
+
+      let insertAt = 0;
+      for (let j = i - 1; j >= 0; j--) {
+        const index = result.indexOf(secondary[j]);
+        if (index !== -1) {
+          insertAt = index + 1;
+          break;
+        }
+      }
+      result.splice(insertAt, 0, id);
+    }
+
+    // Elements moved here from elsewhere in the tree
+    for (const [id, parent] of parents) {
+      if (parent === parentId && !result.includes(id)) {
+        result.push(id);
+      }
+    }
+
+    return result;
+  }
+
+  private hasKeptAncestor(tree: IndexedTree, id: string, kept: Set<string>): boolean {
+    let parent = tree.byId.get(id)?.parentId ?? ROOT;
+    while (parent !== ROOT) {
+      if (kept.has(parent)) return true;
+      parent = tree.byId.get(parent)?.parentId ?? ROOT;
+    }
+    return false;
+  }
+
+  private shallow(element: ElementorElement): ElementorElement {
+    return {
+      ...element,
+      settings: { ...(element.settings || {}) },
+      elements: [],
+    };
+  }
+
+  private indexTree(elements: ElementorElement[]): IndexedTree {
+    const byId = new Map<string, IndexedElement>();
+    const children = new Map<string, string[]>();
+    const order: string[] = [];
+
+    const traverse = (els: ElementorElement[], parentId: string) => {
+      children.set(parentId, els.map((el) => el.id));
+      for (const el of els) {
+        byId.set(el.id, { element: el, parentId });
+        order.push(el.id);
+        if (el.elements && el.elements.length > 0) {
+          traverse(el.elements, el.id);
+        }
+      }
+    };
+
+    traverse(elements, ROOT);
+    return { byId, children, order };
+  }
+}
@@ -0,0 +1,66 @@
+import { describe, test, expect } from "bun:test";
+import { ElementQuery, SelectorError } from "./element-query.js";
+import type { ElementorElement } from "../types/elementor.js";
+import { column, widget } from "../test-utils/elements.js";
+
+const tree: ElementorElement[] = [
+  {
+    id: "c1",
+    elType: "container",
+    settings: {},
+    elements: [
+      widget("h1", "heading", { title: "Welcome", header_size: "h1" }),
+      widget("b1", "button", { text: "Old", link: { url: "https://old-domain.com/contact" } }),
+      {
+        id: "c2",
+        elType: "container",
+        settings: {},
+        elements: [widget("h2", "heading", { title: "Nested", header_size: "h2" })],
+      },
+    ],
+  },
+  { id: "s1", elType: "section", settings: {}, elements: [column("col1", [widget("t1", "text-editor")])] },
+  {
+    id: "s2",
+    elType: "section",
+    settings: {},
+    elements: [column("col2", [widget("b2", "button", { link: { url: "https://example.com" } })])],
+  },
+];
+
+describe("ElementQuery", () => {
+  const query = new ElementQuery();
+  const ids = (selector: string) => query.select(tree, selector).map((match) => match.element.id);
+
+  test("matches types, widget types, ids and combinators", () => {
+    expect(ids("widget[heading]")).toEqual(["h1", "h2"]);
+    expect(ids("container > widget[heading][header_size=h1]")).toEqual(["h1"]);
+    expect(ids("container > widget[heading]")).toEqual(["h1", "h2"]);
+    expect(ids("container container widget")).toEqual(["h2"]);
+    expect(ids("#c2 > *")).toEqual(["h2"]);
+    expect(ids("section widget, widget[heading]")).toEqual(["h1", "h2", "t1", "b2"]);
+  });
+
+  test("matches settings and pseudo-classes", () => {
+    expect(ids('widget[button]:has(link.url*="old-domain")')).toEqual(["b1"]);
+    expect(ids("widget:has(link)")).toEqual(["b1", "b2"]);
+    expect(ids("container:has(widget[heading][header_size=h2])")).toEqual(["c1", "c2"]);
+    expect(ids("section:nth(2) widget")).toEqual(["b2"]);
+    expect(ids("section:last, container:first")).toEqual(["c1", "c2", "s2"]);
+    expect(ids("widget:not([heading])")).toEqual(["b1", "t1", "b2"]);
+    expect(ids('widget[title^="Wel"]')).toEqual(["h1"]);
+    expect(ids("widget[title~=^N.st]")).toEqual(["h2"]);
+
+    const [match] = query.select(tree, "widget[text-editor]");
+    expect(match.path).toEqual(["section[1]", "column[0]", "widget[0](text-editor)"]);
+    expect(match.parentId).toBe("col1");
+  });
+
+  test("reports selector errors with their position", () => {
+    expect(() => query.parse("contaner > widget")).toThrow(SelectorError);
+    expect(() => query.parse("contaner > widget")).toThrow('Unknown element type "contaner"');
+    expect(() => query.parse("widget[heading")).toThrow('Expected "]" at position 15');
+    expect(() => query.parse("widget:nth(0)")).toThrow(":nth() needs a position");
+    expect(() => query.parse("widget >")).toThrow("Selector ended early");
+  });
+});
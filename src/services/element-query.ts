@@ -0,0 +1,521 @@
+import type { ElementorElement, ElementType } from "../types/elementor.js";
+
+const ELEMENT_TYPES = new Set<string>(["container", "section", "column", "widget"]);
+const OPERATORS = ["!=", "^=", "$=", "*=", "~=", "="] as const;
+
+type Operator = (typeof OPERATORS)[number];
+
+/**
+ * A test on a setting: `path` alone tests that it is set
+ */
+interface SettingTest {
+  path: string[];
+  operator?: Operator;
+  value?: string;
+}
+
+type Filter =
+  | { kind: "id"; id: string }
+  | { kind: "widgetType"; widgetType: string }
+  | { kind: "setting"; test: SettingTest }
+  | { kind: "has"; selector: Selector }
+  | { kind: "not"; selector: Selector }
+  | { kind: "nth"; n: number }
+  | { kind: "first" }
+  | { kind: "last" };
+
+interface Compound {
+  elType?: ElementType; // undefined for "*" or no type
+  filters: Filter[];
+}
+
+type Combinator = "descendant" | "child";
+
+/** Compounds from left to right; combinators[i] joins compounds[i] and compounds[i + 1] */
+interface Complex {
+  compounds: Compound[];
+  combinators: Combinator[];
+}
+
+/** A parsed selector: one or more comma-separated alternatives */
+export interface Selector {
+  source: string;
+  alternatives: Complex[];
+}
+
+/**
+ * An element matched by a selector
+ */
+export interface QueryMatch {
+  element: ElementorElement;
+  path: string[]; // e.g. ["container[0]", "widget[2](heading)"]
+  parentId: string | null;
+  index: number;
+}
+
+interface Node {
+  element: ElementorElement;
+  parent: Node | null;
+  index: number;
+  typeIndex: number; // 1-based position among siblings of the same elType
+  lastOfType: boolean;
+  path: string[];
+}
+
+export class SelectorError extends Error {
+  constructor(message: string, selector: string, position?: number) {
+    super(
+      position === undefined
+        ? `${message} in selector "${selector}"`
+        : `${message} at position ${position + 1} in selector "${selector}"`
+    );
+    this.name = "SelectorError";
+  }
+}
+
+/**
+ * ElementQuery finds elements in a tree with CSS-like selectors:
+ *
+ *   container > widget[heading][header_size=h1]
+ *   widget[button]:has(link.url*="old-domain")
+ *   section:nth(2) widget
+ *
+ * See specs/commands.md (query) for the full syntax.
+ */
+export class ElementQuery {
+  /**
+   * Parse a selector. Throws SelectorError with the position of the problem.
+   */
+  parse(selector: string): Selector {
+    return new SelectorParser(selector).parse();
+  }
+
+  /**
+   * All elements matching the selector, in document order
+   */
+  select(elements: ElementorElement[], selector: string | Selector): QueryMatch[] {
+    const parsed = typeof selector === "string" ? this.parse(selector) : selector;
+    return this.nodes(elements)
+      .filter((node) => this.matchesSelector(node, parsed))
+      .map((node) => ({
+        element: node.element,
+        path: node.path,
+        parentId: node.parent ? node.parent.element.id : null,
+        index: node.index,
+      }));
+  }
+
+  /**
+   * Whether a single element (found by id) matches the selector
+   */
+  matches(elements: ElementorElement[], id: string, selector: string | Selector): boolean {
+    return this.select(elements, selector).some((match) => match.element.id === id);
+  }
+
+  /**
+   * Read a setting by path segments; undefined if any segment is missing
+   */
+  getSetting(element: ElementorElement, path: string[]): unknown {
+    let value: unknown = element.settings;
+    for (const key of path) {
+      if (value === null || typeof value !== "object") return undefined;
+      value = (value as Record<string, unknown>)[key];
+    }
+    return value;
+  }
+
+  private nodes(elements: ElementorElement[]): Node[] {
+    const nodes: Node[] = [];
+    const walk = (children: ElementorElement[], parent: Node | null, path: string[]) => {
+      const typeCounts = new Map<string, number>();
+      const typeTotals = new Map<string, number>();
+      for (const child of children) {
+        typeTotals.set(child.elType, (typeTotals.get(child.elType) || 0) + 1);
+      }
+
+      children.forEach((element, index) => {
+        const typeIndex = (typeCounts.get(element.elType) || 0) + 1;
+        typeCounts.set(element.elType, typeIndex);
+        const node: Node = {
+          element,
+          parent,
+          index,
+          typeIndex,
+          lastOfType: typeIndex === typeTotals.get(element.elType),
+          path: [
+            ...path,
+            `${element.elType}[${index}]${element.widgetType ? `(${element.widgetType})` : ""}`,
+          ],
+        };
+        nodes.push(node);
+        walk(element.elements || [], node, node.path);
+      });
+    };
+    walk(elements, null, []);
+    return nodes;
+  }
+
+  private matchesSelector(node: Node, selector: Selector): boolean {
+    return selector.alternatives.some((complex) =>
+      this.matchesComplex(node, complex, complex.compounds.length - 1)
+    );
+  }
+
+  /**
+   * Match right to left: the node must match compound `i`, and an ancestor
+   * (or the parent, for ">") must match the compounds before it.
+   */
+  private matchesComplex(node: Node, complex: Complex, i: number): boolean {
+    if (!this.matchesCompound(node, complex.compounds[i])) return false;
+    if (i === 0) return true;
+
+    if (complex.combinators[i - 1] === "child") {
+      return node.parent !== null && this.matchesComplex(node.parent, complex, i - 1);
+    }
+    for (let ancestor = node.parent; ancestor; ancestor = ancestor.parent) {
+      if (this.matchesComplex(ancestor, complex, i - 1)) return true;
+    }
+    return false;
+  }
+
+  private matchesCompound(node: Node, compound: Compound): boolean {
+    if (compound.elType && node.element.elType !== compound.elType) return false;
+    return compound.filters.every((filter) => this.matchesFilter(node, filter));
+  }
+
+  private matchesFilter(node: Node, filter: Filter): boolean {
+    const { element } = node;
+    switch (filter.kind) {
+      case "id":
+        return element.id === filter.id;
+      case "widgetType":
+        return element.widgetType === filter.widgetType;
+      case "setting":
+        return this.testSetting(element, filter.test);
+      case "has":
+        return this.nodes(element.elements || []).some((descendant) =>
+          this.matchesSelector(descendant, filter.selector)
+        );
+      case "not":
+        return !this.matchesSelector(node, filter.selector);
+      case "nth":
+        return node.typeIndex === filter.n;
+      case "first":
+        return node.typeIndex === 1;
+      case "last":
+        return node.lastOfType;
+    }
+  }
+
+  private testSetting(element: ElementorElement, test: SettingTest): boolean {
+    const value = this.getSetting(element, test.path);
+    if (test.operator === undefined) {
+      return value !== undefined && value !== null && value !== "";
+    }
+
+    const actual =
+      value === undefined || value === null
+        ? ""
+        : typeof value === "object"
+          ? JSON.stringify(value)
+          : String(value);
+    const expected = test.value ?? "";
+
+    switch (test.operator) {
+      case "=":
+        return actual === expected;
+      case "!=":
+        return actual !== expected;
+      case "^=":
+        return actual.startsWith(expected);
+      case "$=":
+        return actual.endsWith(expected);
+      case "*=":
+        return actual.includes(expected);
+      case "~=":
+        return new RegExp(expected).test(actual);
+    }
+  }
+}
+
+/**
+ * Recursive descent parser for selectors
+ */
+class SelectorParser {
+  private pos = 0;
+
+  constructor(private source: string) {}
+
+  parse(): Selector {
+    const alternatives: Complex[] = [];
+    do {
+      this.skipSpace();
+      alternatives.push(this.parseComplex());
+      this.skipSpace();
+    } while (this.eat(","));
+
+    if (this.pos < this.source.length) {
+      this.fail(`Unexpected "${this.source[this.pos]}"`);
+    }
+    return { source: this.source, alternatives };
+  }
+
+  private parseComplex(): Complex {
+    const compounds = [this.parseCompound()];
+    const combinators: Combinator[] = [];
+
+    for (;;) {
+      const hadSpace = this.skipSpace();
+      let combinator: Combinator;
+      if (this.eat(">")) {
+        this.skipSpace();
+        combinator = "child";
+      } else if (hadSpace && this.pos < this.source.length && !/[,)]/.test(this.peek())) {
+        combinator = "descendant";
+      } else {
+        break;
+      }
+      combinators.push(combinator);
+      compounds.push(this.parseCompound());
+    }
+
+    return { compounds, combinators };
+  }
+
+  private parseCompound(): Compound {
+    const start = this.pos;
+    const compound: Compound = { filters: [] };
+
+    if (this.eat("*")) {
+      // Any element type
+    } else if (/[a-z]/i.test(this.peek())) {
+      const name = this.readIdentifier();
+      if (!ELEMENT_TYPES.has(name)) {
+        this.fail(
+          `Unknown element type "${name}" (use container, section, column, widget or *)`,
+          start
+        );
+      }
+      compound.elType = name as ElementType;
+    }
+
+    for (;;) {
+      if (this.eat("#")) {
+        compound.filters.push({ kind: "id", id: this.readIdentifier() });
+      } else if (this.eat("[")) {
+        compound.filters.push(this.parseAttribute());
+      } else if (this.eat(":")) {
+        compound.filters.push(this.parsePseudo());
+      } else {
+        break;
+      }
+    }
+
+    if (this.pos === start) {
+      this.fail(this.pos < this.source.length ? `Unexpected "${this.peek()}"` : "Selector ended early");
+    }
+    return compound;
+  }
+
+  /**
+   * [heading] (widget type) or [path op value] (setting test)
+   */
+  private parseAttribute(): Filter {
+    this.skipSpace();
+    const path = this.readPath();
+    this.skipSpace();
+
+    const operator = OPERATORS.find((op) => this.source.startsWith(op, this.pos));
+    if (!operator) {
+      this.expect("]");
+      if (path.includes(".")) {
+        this.fail(`Widget type "${path}" can't contain "."; use :has(${path}) to test a setting`);
+      }
+      return { kind: "widgetType", widgetType: path };
+    }
+
+    this.pos += operator.length;
+    this.skipSpace();
+    const valueStart = this.pos;
+    const value = this.readValue("]");
+    this.checkPattern(operator, value, valueStart);
+    this.skipSpace();
+    this.expect("]");
+    return { kind: "setting", test: { path: path.split("."), operator, value } };
+  }
+
+  private parsePseudo(): Filter {
+    const start = this.pos;
+    const name = this.readIdentifier();
+
+    switch (name) {
+      case "first":
+        return { kind: "first" };
+      case "last":
+        return { kind: "last" };
+      case "nth": {
+        const argument = this.readArgument().trim();
+        const n = Number.parseInt(argument, 10);
+        if (!/^\d+$/.test(argument) || n < 1) {
+          this.fail(`:nth() needs a position of 1 or more, got "${argument}"`, start);
+        }
+        return { kind: "nth", n };
+      }
+      case "not":
+        return { kind: "not", selector: this.parseNested(this.readArgument()) };
+      case "has": {
+        const argumentStart = this.pos + 1;
+        const argument = this.readArgument().trim();
+        const test = this.parseSettingTest(argument, argumentStart);
+        return test ? { kind: "setting", test } : { kind: "has", selector: this.parseNested(argument) };
+      }
+      default:
+        return this.fail(`Unknown pseudo-class ":${name}"`, start);
+    }
+  }
+
+  /**
+   * `:has()` takes a setting test (link.url*="x", or a setting path to test
+   * that it is set) or a selector for descendants (widget[heading])
+   */
+  private parseSettingTest(argument: string, start: number): SettingTest | null {
+    const match = argument.match(/^([\w-]+(?:\.[\w-]+)*)\s*(!=|\^=|\$=|\*=|~=|=)\s*([\s\S]*)$/);
+    if (match) {
+      const value = new SelectorParser(match[3]).readValue(null);
+      this.checkPattern(match[2] as Operator, value, start);
+      return { path: match[1].split("."), operator: match[2] as Operator, value };
+    }
+    if (/^[\w-]+(?:\.[\w-]+)*$/.test(argument) && !ELEMENT_TYPES.has(argument)) {
+      return { path: argument.split(".") };
+    }
+    if (argument.length === 0) {
+      this.fail(":has() needs a selector or a setting", start);
+    }
+    return null;
+  }
+
+  private checkPattern(operator: Operator, value: string, position: number): void {
+    if (operator !== "~=") return;
+    try {
+      new RegExp(value);
+    } catch {
+      this.fail(`Invalid regular expression "${value}"`, position);
+    }
+  }
+
+  private parseNested(argument: string): Selector {
+    try {
+      return new SelectorParser(argument).parse();
+    } catch (error) {
+      if (error instanceof SelectorError) {
+        throw new SelectorError(`${error.message.replace(/ in selector .*$/, "")}`, this.source);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Text between balanced parentheses, respecting quotes
+   */
+  private readArgument(): string {
+    this.expect("(");
+    const start = this.pos;
+    let depth = 1;
+    let quote: string | null = null;
+
+    while (this.pos < this.source.length) {
+      const char = this.source[this.pos];
+      if (quote) {
+        if (char === "\\") this.pos++;
+        else if (char === quote) quote = null;
+      } else if (char === '"' || char === "'") {
+        quote = char;
+      } else if (char === "(") {
+        depth++;
+      } else if (char === ")") {
+        depth--;
+        if (depth === 0) {
+          const argument = this.source.slice(start, this.pos);
+          this.pos++;
+          return argument;
+        }
+      }
+      this.pos++;
+    }
+    return this.fail("Missing )", start - 1);
+  }
+
+  /**
+   * A quoted string, or unquoted text up to `end` (or the end of input)
+   */
+  readValue(end: string | null): string {
+    const quote = this.peek();
+    if (quote === '"' || quote === "'") {
+      const start = this.pos;
+      this.pos++;
+      let value = "";
+      while (this.pos < this.source.length && this.source[this.pos] !== quote) {
+        if (this.source[this.pos] === "\\") this.pos++;
+        value += this.source[this.pos] ?? "";
+        this.pos++;
+      }
+      if (this.pos >= this.source.length) {
+        this.fail("Unterminated string", start);
+      }
+      this.pos++;
+      return value;
+    }
+
+    const start = this.pos;
+    while (this.pos < this.source.length && this.source[this.pos] !== end) {
+      this.pos++;
+    }
+    return this.source.slice(start, this.pos).trim();
+  }
+
+  private readIdentifier(): string {
+    const match = this.source.slice(this.pos).match(/^[\w-]+/);
+    if (!match) {
+      this.fail(this.pos < this.source.length ? `Unexpected "${this.peek()}"` : "Selector ended early");
+    }
+    this.pos += match[0].length;
+    return match[0];
+  }
+
+  private readPath(): string {
+    const match = this.source.slice(this.pos).match(/^[\w-]+(?:\.[\w-]+)*/);
+    if (!match) {
+      this.fail("Expected a widget type or setting");
+    }
+    this.pos += match[0].length;
+    return match[0];
+  }
+
+  private skipSpace(): boolean {
+    const start = this.pos;
+    while (/\s/.test(this.peek())) this.pos++;
+    return this.pos > start;
+  }
+
+  private peek(): string {
+    return this.source[this.pos] ?? "";
+  }
+
+  private eat(text: string): boolean {
+    if (this.source.startsWith(text, this.pos)) {
+      this.pos += text.length;
+      return true;
+    }
+    return false;
+  }
+
+  private expect(text: string): void {
+    if (!this.eat(text)) {
+      this.fail(`Expected "${text}"`);
+    }
+  }
+
+  private fail(message: string, position = this.pos): never {
+    throw new SelectorError(message, this.source, position);
+  }
+}
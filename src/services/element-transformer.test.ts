@@ -0,0 +1,70 @@
+import { describe, test, expect } from "bun:test";
+import { ElementTransformer } from "./element-transformer.js";
+import type { ElementorElement } from "../types/elementor.js";
+import { widget } from "../test-utils/elements.js";
+
+const tree: ElementorElement[] = [
+  {
+    id: "c1",
+    elType: "container",
+    settings: {},
+    elements: [
+      widget("h1", "heading", { title: "Intro", header_size: "h2", title_color: "#000" }),
+      widget("h2", "heading", { title: "Big", header_size: "h1", title_color: "#000" }),
+      widget("b1", "button", { text: "Go", link: { url: "https://old.example.com/contact" } }),
+      widget("t1", "text-editor", { editor: "<a href=\"https://old.example.com\">old</a>" }),
+    ],
+  },
+];
+
+describe("ElementTransformer", () => {
+  const transformer = new ElementTransformer();
+
+  test("changes only the settings of matched elements", () => {
+    const { elements, changes, matched } = transformer.transform(
+      tree,
+      "widget[heading][header_size=h2], widget[button]",
+      [
+        { op: "set", path: "title_color", value: "#333" },
+        { op: "replace", path: "link.url", search: "old.example.com", replace: "example.com" },
+      ]
+    );
+
+    expect(matched).toBe(2);
+    expect(changes.map((change) => [change.elementId, change.setting, change.newValue])).toEqual([
+      ["h1", "title_color", "#333"],
+      ["b1", "title_color", "#333"],
+      ["b1", "link.url", "https://example.com/contact"],
+    ]);
+    const [h1, h2, , text] = elements[0].elements;
+    expect(h1.settings.title_color).toBe("#333");
+    expect(h2.settings.title_color).toBe("#000");
+    expect(text.settings.editor).toContain("old.example.com");
+    expect(tree[0].elements[0].settings.title_color).toBe("#000");
+  });
+
+  test("renames, maps and unsets settings", () => {
+    const { elements, changes } = transformer.transform(tree, "widget[heading]", [
+      { op: "map", path: "header_size", from: "h1", to: "h2" },
+      { op: "rename", path: "title_color", to: "typography_color" },
+      { op: "unset", path: "missing" },
+    ]);
+
+    expect(changes).toHaveLength(5);
+    expect(elements[0].elements[1].settings).toEqual({
+      title: "Big",
+      header_size: "h2",
+      typography_color: "#000",
+    });
+  });
+
+  test("skips values that only differ in key order", () => {
+    const { changes } = transformer.transform(
+      [widget("b1", "button", { typography: { unit: "px", size: 16 } })],
+      "widget[button]",
+      [{ op: "set", path: "typography", value: { size: 16, unit: "px" } }]
+    );
+
+    expect(changes).toEqual([]);
+  });
+});
@@ -0,0 +1,102 @@
+import type { ElementorElement } from "../types/elementor.js";
+import { isEqual } from "../utils/equality.js";
+import { ElementEditor } from "./element-editor.js";
+import { ElementQuery, type Selector } from "./element-query.js";
+
+/**
+ * A typed change to the settings of matched elements
+ */
+export type TransformOperation =
+  | { op: "set"; path: string; value: unknown }
+  | { op: "unset"; path: string }
+  | { op: "rename"; path: string; to: string }
+  | { op: "map"; path: string; from: string; to: unknown } // Replace one value by another
+  | { op: "replace"; path: string; search: string; replace: string }; // Substring in a text value
+
+/**
+ * One setting changed by a transform
+ */
+export interface TransformChange {
+  elementId: string;
+  element: string; // Element path, e.g. "container[0] > widget[1](button)"
+  setting: string;
+  oldValue: unknown;
+  newValue: unknown;
+}
+
+/**
+ * ElementTransformer applies setting operations to the elements a selector
+ * matches. Like ElementEditor it works on a copy of the tree.
+ */
+export class ElementTransformer {
+  private editor = new ElementEditor();
+  private query = new ElementQuery();
+
+  transform(
+    elements: ElementorElement[],
+    selector: string | Selector,
+    operations: TransformOperation[]
+  ): { elements: ElementorElement[]; changes: TransformChange[]; matched: number } {
+    const matches = this.query.select(elements, selector);
+    const changes: TransformChange[] = [];
+    let tree = elements;
+
+    for (const match of matches) {
+      const id = match.element.id;
+      for (const operation of operations) {
+        const element = this.editor.locate(tree, id)?.element;
+        if (!element) break;
+
+        for (const [setting, newValue] of this.plan(element, operation)) {
+          const oldValue = this.editor.getSetting(element, setting);
+          if (isEqual(oldValue, newValue)) continue;
+
+          tree = this.editor.setSetting(tree, id, setting, newValue);
+          changes.push({
+            elementId: id,
+            element: match.path.join(" > "),
+            setting,
+            oldValue,
+            newValue,
+          });
+        }
+      }
+    }
+
+    return { elements: tree, changes, matched: matches.length };
+  }
+
+  /**
+   * Settings an operation writes on one element, as [path, new value]
+   * pairs; undefined removes the setting
+   */
+  private plan(element: ElementorElement, operation: TransformOperation): Array<[string, unknown]> {
+    const current = this.editor.getSetting(element, operation.path);
+
+    switch (operation.op) {
+      case "set":
+        return [[operation.path, operation.value]];
+      case "unset":
+        return current === undefined ? [] : [[operation.path, undefined]];
+      case "rename":
+        return current === undefined
+          ? []
+          : [
+              [operation.to, current],
+              [operation.path, undefined],
+            ];
+      case "map":
+        return current !== undefined && this.valueText(current) === operation.from
+          ? [[operation.path, operation.to]]
+          : [];
+      case "replace":
+        return typeof current === "string" && current.includes(operation.search)
+          ? [[operation.path, current.split(operation.search).join(operation.replace)]]
+          : [];
+    }
+  }
+
+  private valueText(value: unknown): string {
+    return typeof value === "object" && value !== null ? JSON.stringify(value) : String(value);
+  }
+}
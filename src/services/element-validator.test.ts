@@ -0,0 +1,75 @@
+import { describe, test, expect } from "bun:test";
+import { ElementValidator } from "./element-validator.js";
+import { LIBRARY_POST_TYPE } from "../types/elementor.js";
+import { element, widget } from "../test-utils/elements.js";
+
+describe("ElementValidator", () => {
+  const validator = new ElementValidator();
+
+  test("accepts a valid container and section layout", () => {
+    const result = validator.validate([
+      element("c1", "container", [widget("w1", "heading", { title: "Hi", header_size: "h2" })]),
+      element("s1", "section", [element("col1", "column", [widget("w2", "button", { size: "md" })])]),
+    ]);
+
+    expect(result.valid).toBe(true);
+    expect(result.errors).toEqual([]);
+  });
+
+  test("reports duplicate ids and widgets with children", () => {
+    const broken = widget("w1", "heading");
+    broken.elements = [widget("w2", "heading")];
+
+    const result = validator.validate([element("c1", "container", [broken, widget("w1", "heading")])]);
+
+    expect(result.valid).toBe(false);
+    expect(result.errors.map((issue) => issue.message)).toEqual([
+      "Widget must not have child elements (found 1)",
+      'Duplicate element id "w1"',
+    ]);
+  });
+
+  test("enforces section and column nesting", () => {
+    const result = validator.validate([
+      element("col1", "column", []),
+      element("c1", "container", [element("s1", "section", [])]),
+      element("s2", "section", [widget("w1", "heading")]),
+    ]);
+
+    expect(result.errors.map((issue) => issue.elementId)).toEqual(["col1", "s1", "w1"]);
+  });
+
+  test("accepts one top-level widget in a global widget template", () => {
+    const globalWidget = { post_type: LIBRARY_POST_TYPE, template_type: "widget" };
+
+    expect(validator.validate([widget("w1", "heading")], undefined, globalWidget).errors).toEqual([]);
+    expect(validator.validate([widget("w1", "heading")]).valid).toBe(false);
+    const two = [widget("w1", "heading"), widget("w2", "heading")];
+    expect(validator.validate(two, undefined, globalWidget).errors.map((issue) => issue.message)).toEqual([
+      "A global widget must hold exactly one widget at the top level",
+    ]);
+  });
+
+  test("validates settings of known widgets with element paths", () => {
+    const result = validator.validate([
+      element("c1", "container", [
+        widget("w1", "heading", { header_size: "h9" }),
+        widget("w2", "image", { image: { id: 5 } }),
+        widget("w3", "custom-widget", { anything: 1 }),
+      ]),
+    ]);
+
+    expect(result.errors.map((issue) => issue.path)).toEqual([
+      "container(c1) > widget[heading](w1).settings.header_size",
+      "container(c1) > widget[image](w2).settings.image.url",
+    ]);
+  });
+
+  test("reports malformed elements", () => {
+    const result = validator.validate([{ id: "x", elType: "row", settings: {}, elements: [] }]);
+
+    expect(result.valid).toBe(false);
+    expect(result.errors[0].path).toBe("[0].elType");
+    expect(result.errors[0].elementId).toBe("x");
+  });
+});
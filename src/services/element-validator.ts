@@ -0,0 +1,190 @@
+import type { ZodIssue } from "zod";
+import {
+  ElementSchema,
+  PageSettingsSchema,
+  WidgetSettingsSchemas,
+} from "../types/elementor-schema.js";
+import {
+  LIBRARY_POST_TYPE,
+  type ElementorElement,
+  type PageData,
+  type PageSettings,
+} from "../types/elementor.js";
+
+export type ValidationSeverity = "error" | "warning";
+
+export interface ValidationIssue {
+  severity: ValidationSeverity;
+  path: string; // e.g. "container(abc1234) > widget[heading](def5678).settings.link"
+  elementId?: string;
+  message: string;
+}
+
+export interface ValidationResult {
+  valid: boolean;
+  errors: ValidationIssue[];
+  warnings: ValidationIssue[];
+}
+
+/**
+ * ElementValidator checks an element tree before it is written to WordPress.
+ *
+ * - Element structure (zod ElementSchema)
+ * - Settings of common widgets (zod WidgetSettingsSchemas)
+ * - Unique element ids
+ * - Nesting rules: widgets have no children, columns only inside sections,
+ *   sections only at top level or inside a column (inner sections)
+ *
+ * Pass the page to validate a library item by its template type: a global
+ * widget is one widget at the top level.
+ */
+export class ElementValidator {
+  validate(
+    elements: unknown,
+    settings?: PageSettings,
+    page?: Pick<PageData, "post_type" | "template_type">
+  ): ValidationResult {
+    const issues: ValidationIssue[] = [];
+    const globalWidget = page?.post_type === LIBRARY_POST_TYPE && page.template_type === "widget";
+
+    if (!Array.isArray(elements)) {
+      issues.push({ severity: "error", path: "(root)", message: "Element tree must be an array" });
+    } else {
+      if (globalWidget && (elements.length !== 1 || elements[0]?.elType !== "widget")) {
+        issues.push({
+          severity: "error",
+          path: "(root)",
+          message: "A global widget must hold exactly one widget at the top level",
+        });
+      }
+      this.validateElements(elements, null, "", new Set(), issues, globalWidget);
+    }
+
+    if (settings !== undefined) {
+      const result = PageSettingsSchema.safeParse(settings);
+      if (!result.success) {
+        issues.push(...this.fromZod(result.error.issues, "page_settings"));
+      }
+    }
+
+    const errors = issues.filter((issue) => issue.severity === "error");
+    const warnings = issues.filter((issue) => issue.severity === "warning");
+    return { valid: errors.length === 0, errors, warnings };
+  }
+
+  private validateElements(
+    elements: unknown[],
+    parent: ElementorElement | null,
+    parentPath: string,
+    seenIds: Set<string>,
+    issues: ValidationIssue[],
+    topLevelWidget = false
+  ): void {
+    elements.forEach((raw, index) => {
+      const result = ElementSchema.safeParse(raw);
+      if (!result.success) {
+        const id = (raw as { id?: unknown })?.id;
+        const path = `${parentPath ? `${parentPath} > ` : ""}[${index}]`;
+        for (const issue of this.fromZod(result.error.issues, path)) {
+          issues.push({ ...issue, elementId: typeof id === "string" ? id : undefined });
+        }
+        return;
+      }
+
+      const element = raw as ElementorElement;
+      const path = parentPath
+        ? `${parentPath} > ${this.label(element)}`
+        : this.label(element);
+      const error = (message: string) =>
+        issues.push({ severity: "error", path, elementId: element.id, message });
+
+      if (seenIds.has(element.id)) {
+        error(`Duplicate element id "${element.id}"`);
+      }
+      seenIds.add(element.id);
+
+      this.checkNesting(element, parent, topLevelWidget, error, (message) =>
+        issues.push({ severity: "warning", path, elementId: element.id, message })
+      );
+
+      if (element.elType === "widget") {
+        if (!element.widgetType) {
+          error("Widget has no widgetType");
+        }
+        if (element.elements.length > 0) {
+          error(`Widget must not have child elements (found ${element.elements.length})`);
+        }
+
+        const schema = element.widgetType ? WidgetSettingsSchemas[element.widgetType] : undefined;
+        const settings = Array.isArray(element.settings) ? {} : element.settings;
+        const settingsResult = schema?.safeParse(settings);
+        if (settingsResult && !settingsResult.success) {
+          for (const issue of this.fromZod(settingsResult.error.issues, `${path}.settings`)) {
+            issues.push({ ...issue, elementId: element.id });
+          }
+        }
+      } else if (element.widgetType) {
+        issues.push({
+          severity: "warning",
+          path,
+          elementId: element.id,
+          message: `widgetType "${element.widgetType}" is ignored on ${element.elType} elements`,
+        });
+      }
+
+      this.validateElements(element.elements, element, path, seenIds, issues);
+    });
+  }
+
+  private checkNesting(
+    element: ElementorElement,
+    parent: ElementorElement | null,
+    topLevelWidget: boolean,
+    error: (message: string) => void,
+    warning: (message: string) => void
+  ): void {
+    const parentType = parent?.elType ?? null;
+
+    switch (element.elType) {
+      case "column":
+        if (parentType !== "section") {
+          error(`Column must be inside a section (found in ${parentType ?? "top level"})`);
+        }
+        break;
+      case "section":
+        if (parentType !== null && parentType !== "column") {
+          error(`Section must be at top level or inside a column (found in ${parentType})`);
+        } else if (parentType === "column" && !element.isInner) {
+          warning("Section inside a column should be marked isInner");
+        }
+        break;
+      case "container":
+        if (parentType !== null && parentType !== "container") {
+          error(`Container must be at top level or inside a container (found in ${parentType})`);
+        }
+        break;
+      case "widget":
+        if (parentType === null && !topLevelWidget) {
+          error("Widget must be inside a container or column, not at top level");
+        } else if (parentType === "section") {
+          error("Widget must be inside a column, not directly in a section");
+        }
+        break;
+    }
+  }
+
+  private label(element: ElementorElement): string {
+    if (element.elType === "widget") {
+      return `widget[${element.widgetType ?? "?"}](${element.id})`;
+    }
+    return `${element.elType}(${element.id})`;
+  }
+
+  private fromZod(zodIssues: ZodIssue[], path: string): ValidationIssue[] {
+    return zodIssues.map((issue) => ({
+      severity: "error",
+      path: issue.path.length > 0 ? `${path}.${issue.path.join(".")}` : path,
+      message: issue.message,
+    }));
+  }
+}
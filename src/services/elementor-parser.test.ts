@@ -0,0 +1,129 @@
+import { describe, test, expect } from "bun:test";
+import { ElementorParser } from "./elementor-parser.js";
+import type { WPPage } from "../types/wordpress.js";
+import { container, widget } from "../test-utils/elements.js";
+
+describe("ElementorParser", () => {
+  describe("diffElements", () => {
+    const parser = new ElementorParser();
+
+    test("reports per-key setting changes with old and new values", () => {
+      const remote = [container("c1", [widget("w1", "heading", { title: "Old", align: "left" })])];
+      const local = [container("c1", [widget("w1", "heading", { title: "New", size: "h1" })])];
+
+      const diff = parser.diffElements(local, remote);
+
+      expect(diff.modified).toEqual(["w1"]);
+      expect(diff.changes[0].settings).toEqual([
+        { key: "title", oldValue: "Old", newValue: "New" },
+        { key: "align", oldValue: "left", newValue: undefined },
+        { key: "size", oldValue: undefined, newValue: "h1" },
+      ]);
+    });
+
+    test("detects added and removed elements", () => {
+      const remote = [container("c1", [widget("w1")])];
+      const local = [container("c1", [widget("w2")])];
+
+      const diff = parser.diffElements(local, remote);
+
+      expect(diff.added).toEqual(["w2"]);
+      expect(diff.removed).toEqual(["w1"]);
+      expect(diff.changes).toHaveLength(0);
+    });
+
+    test("detects moves between parents", () => {
+      const remote = [container("c1", [widget("w1")]), container("c2", [])];
+      const local = [container("c1", []), container("c2", [widget("w1")])];
+
+      const diff = parser.diffElements(local, remote);
+
+      expect(diff.moved).toEqual(["w1"]);
+      expect(diff.modified).toHaveLength(0);
+      expect(diff.changes[0].move).toEqual({
+        oldParentId: "c1",
+        newParentId: "c2",
+        oldIndex: 0,
+        newIndex: 0,
+      });
+    });
+
+    test("detects reorders among siblings without flagging shifted siblings", () => {
+      const remote = [container("c1", [widget("a"), widget("b"), widget("c")])];
+      const local = [container("c1", [widget("new"), widget("c"), widget("a"), widget("b")])];
+
+      const diff = parser.diffElements(local, remote);
+
+      expect(diff.added).toEqual(["new"]);
+      expect(diff.reordered).toEqual(["c"]);
+      expect(diff.changes.find((c) => c.id === "c")?.reorder).toEqual({
+        oldIndex: 2,
+        newIndex: 1,
+      });
+    });
+
+    test("detects widget type changes", () => {
+      const remote = [widget("w1", "heading", { title: "Hi" })];
+      const local = [widget("w1", "text-editor", { title: "Hi" })];
+
+      const diff = parser.diffElements(local, remote);
+
+      expect(diff.modified).toEqual(["w1"]);
+      expect(diff.changes[0].type).toEqual({
+        oldElType: "widget",
+        newElType: "widget",
+        oldWidgetType: "heading",
+        newWidgetType: "text-editor",
+      });
+    });
+
+    test("treats empty array settings like empty objects", () => {
+      const remote = [{ ...container("c1", []), settings: [] as unknown as Record<string, unknown> }];
+      const local = [container("c1", [])];
+
+      const diff = parser.diffElements(local, remote);
+
+      expect(diff.changes).toHaveLength(0);
+    });
+
+    test("ignores the key order of nested settings", () => {
+      const remote = [widget("w1", "button", { link: { url: "https://example.com", is_external: "on", nofollow: "" } })];
+      const local = [widget("w1", "button", { link: { is_external: "on", nofollow: "", url: "https://example.com" } })];
+
+      const diff = parser.diffElements(local, remote);
+
+      expect(diff.modified).toEqual([]);
+      expect(diff.changes).toHaveLength(0);
+    });
+  });
+
+  describe("parseWPPage", () => {
+    const parser = new ElementorParser();
+
+    function wpPage(overrides: Partial<WPPage>): WPPage {
+      return {
+        id: 87,
+        slug: "site-header",
+        status: "publish",
+        modified: "2024-01-15T10:30:00",
+        title: { rendered: "Site Header" },
+        meta: { _elementor_data: "[]", _elementor_template_type: "header" },
+        ...overrides,
+      } as WPPage;
+    }
+
+    test("records post type and template type of library items", () => {
+      const page = parser.parseWPPage(wpPage({ type: "elementor_library" }));
+
+      expect(page.post_type).toBe("elementor_library");
+      expect(page.template_type).toBe("header");
+    });
+
+    test("leaves post type unset for pages", () => {
+      const page = parser.parseWPPage(wpPage({ type: "page" }));
+
+      expect(page.post_type).toBeUndefined();
+      expect(page.template_type).toBeUndefined();
+    });
+  });
+});
@@ -1,5 +1,12 @@
 import type { WPPage } from "../types/wordpress.js";
-import type { PageData, ElementorElement, PageSettings } from "../types/elementor.js";
+import { isEqual } from "../utils/equality.js";
+import {
+  LIBRARY_POST_TYPE,
+  type PageData,
+  type ElementorElement,
+  type ElementType,
+  type PageSettings,
+} from "../types/elementor.js";
 
 export class ElementorParser {
   /**
@@ -37,6 +44,9 @@ export class ElementorParser {
       slug: wpPage.slug,
       status: wpPage.status,
       template: wpPage.template,
+      post_type: wpPage.type && wpPage.type !== "page" ? wpPage.type : undefined,
+      template_type:
+        wpPage.type === LIBRARY_POST_TYPE ? wpPage.meta._elementor_template_type : undefined,
       elementor_data: elementorData,
       page_settings: pageSettings,
       pulled_at: new Date().toISOString(),
@@ -127,49 +137,205 @@ export class ElementorParser {
   }
 
   /**
-   * Compare two element trees and find differences
+   * Compare two element trees and find differences.
+   *
+   * `local` is treated as the newer tree and `remote` as the older one:
+   * "added" elements exist only in `local`, setting changes go from the
+   * remote value (old) to the local value (new).
    */
   diffElements(
     local: ElementorElement[],
     remote: ElementorElement[]
   ): ElementDiff {
-    const localIds = new Set(this.getAllIds(local));
-    const remoteIds = new Set(this.getAllIds(remote));
+    const localIndex = this.indexElements(local);
+    const remoteIndex = this.indexElements(remote);
 
     const added: string[] = [];
     const removed: string[] = [];
     const modified: string[] = [];
+    const moved: string[] = [];
+    const reordered: string[] = [];
+    const changes: ElementChange[] = [];
 
     // Find added (in local but not in remote)
-    for (const id of localIds) {
-      if (!remoteIds.has(id)) {
+    for (const id of localIndex.keys()) {
+      if (!remoteIndex.has(id)) {
         added.push(id);
       }
     }
 
     // Find removed (in remote but not in local)
-    for (const id of remoteIds) {
-      if (!localIds.has(id)) {
+    for (const id of remoteIndex.keys()) {
+      if (!localIndex.has(id)) {
         removed.push(id);
       }
     }
 
-    // Find modified (same ID but different settings)
-    for (const id of localIds) {
-      if (remoteIds.has(id)) {
-        const localEl = this.findElement(local, id);
-        const remoteEl = this.findElement(remote, id);
-        if (
-          localEl &&
-          remoteEl &&
-          JSON.stringify(localEl.settings) !== JSON.stringify(remoteEl.settings)
-        ) {
-          modified.push(id);
-        }
+    const reorderedIds = this.findReordered(local, remote, localIndex, remoteIndex);
+
+    // Compare elements present in both trees
+    for (const [id, newEntry] of localIndex) {
+      const oldEntry = remoteIndex.get(id);
+      if (!oldEntry) continue;
+
+      const newEl = newEntry.element;
+      const oldEl = oldEntry.element;
+      const change: ElementChange = {
+        id,
+        elType: newEl.elType,
+        widgetType: newEl.widgetType,
+        settings: this.diffSettings(oldEl.settings, newEl.settings),
+      };
+
+      if (newEl.elType !== oldEl.elType || newEl.widgetType !== oldEl.widgetType) {
+        change.type = {
+          oldElType: oldEl.elType,
+          newElType: newEl.elType,
+          oldWidgetType: oldEl.widgetType,
+          newWidgetType: newEl.widgetType,
+        };
+      }
+
+      if (newEntry.parentId !== oldEntry.parentId) {
+        change.move = {
+          oldParentId: oldEntry.parentId,
+          newParentId: newEntry.parentId,
+          oldIndex: oldEntry.index,
+          newIndex: newEntry.index,
+        };
+        moved.push(id);
+      } else if (reorderedIds.has(id)) {
+        change.reorder = { oldIndex: oldEntry.index, newIndex: newEntry.index };
+        reordered.push(id);
+      }
+
+      if (change.settings.length > 0 || change.type) {
+        modified.push(id);
+      }
+
+      if (change.settings.length > 0 || change.type || change.move || change.reorder) {
+        changes.push(change);
+      }
+    }
+
+    return { added, removed, modified, moved, reordered, changes };
+  }
+
+  /**
+   * Compare two settings objects key by key
+   */
+  diffSettings(
+    oldSettings: Record<string, unknown> | undefined,
+    newSettings: Record<string, unknown> | undefined
+  ): SettingChange[] {
+    // Elementor stores empty settings as [] in some places
+    const oldObj = oldSettings && !Array.isArray(oldSettings) ? oldSettings : {};
+    const newObj = newSettings && !Array.isArray(newSettings) ? newSettings : {};
+
+    const changes: SettingChange[] = [];
+    const keys = new Set([...Object.keys(oldObj), ...Object.keys(newObj)]);
+
+    for (const key of keys) {
+      const oldValue = oldObj[key];
+      const newValue = newObj[key];
+      if (!isEqual(oldValue, newValue)) {
+        changes.push({ key, oldValue, newValue });
+      }
+    }
+
+    return changes;
+  }
+
+  /**
+   * Find elements whose position changed relative to siblings that are
+   * present in both trees. Uses the longest common subsequence of each
+   * parent's children so that an insertion doesn't mark every later
+   * sibling as reordered.
+   */
+  private findReordered(
+    local: ElementorElement[],
+    remote: ElementorElement[],
+    localIndex: Map<string, IndexedElement>,
+    remoteIndex: Map<string, IndexedElement>
+  ): Set<string> {
+    const reordered = new Set<string>();
+    const remoteChildren = new Map<string | null, string[]>();
+
+    const collect = (els: ElementorElement[], parentId: string | null) => {
+      remoteChildren.set(parentId, els.map((el) => el.id));
+      for (const el of els) {
+        if (el.elements && el.elements.length > 0) collect(el.elements, el.id);
+      }
+    };
+    collect(remote, null);
+
+    const compare = (els: ElementorElement[], parentId: string | null) => {
+      const sameParent = (id: string) =>
+        localIndex.get(id)?.parentId === parentId &&
+        remoteIndex.get(id)?.parentId === parentId;
+
+      const newOrder = els.map((el) => el.id).filter(sameParent);
+      const oldOrder = (remoteChildren.get(parentId) || []).filter(sameParent);
+
+      const stable = new Set(this.longestCommonSubsequence(oldOrder, newOrder));
+      for (const id of newOrder) {
+        if (!stable.has(id)) reordered.add(id);
+      }
+
+      for (const el of els) {
+        if (el.elements && el.elements.length > 0) compare(el.elements, el.id);
+      }
+    };
+    compare(local, null);
+
+    return reordered;
+  }
+
+  private longestCommonSubsequence(a: string[], b: string[]): string[] {
+    const lengths: number[][] = Array.from({ length: a.length + 1 }, () =>
+      new Array(b.length + 1).fill(0)
+    );
+
+    for (let i = a.length - 1; i >= 0; i--) {
+      for (let j = b.length - 1; j >= 0; j--) {
+        lengths[i][j] =
+          a[i] === b[j]
+            ? lengths[i + 1][j + 1] + 1
+            : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+      }
+    }
+
+    const result: string[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < a.length && j < b.length) {
+      if (a[i] === b[j]) {
+        result.push(a[i]);
+        i++;
+        j++;
+      } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+        i++;
+      } else {
+        j++;
       }
     }
+    return result;
+  }
+
+  private indexElements(elements: ElementorElement[]): Map<string, IndexedElement> {
+    const index = new Map<string, IndexedElement>();
 
-    return { added, removed, modified };
+    const traverse = (els: ElementorElement[], parentId: string | null) => {
+      els.forEach((el, i) => {
+        index.set(el.id, { element: el, parentId, index: i });
+        if (el.elements && el.elements.length > 0) {
+          traverse(el.elements, el.id);
+        }
+      });
+    };
+
+    traverse(elements, null);
+    return index;
   }
 
   /**
@@ -257,26 +423,51 @@ export class ElementorParser {
     this.rewriteUrlsInObject(cloned, source, target);
     return cloned;
   }
+}
 
-  private getAllIds(elements: ElementorElement[]): string[] {
-    const ids: string[] = [];
+interface IndexedElement {
+  element: ElementorElement;
+  parentId: string | null;
+  index: number;
+}
 
-    const traverse = (els: ElementorElement[]) => {
-      for (const el of els) {
-        ids.push(el.id);
-        if (el.elements && el.elements.length > 0) {
-          traverse(el.elements);
-        }
-      }
-    };
+export interface SettingChange {
+  key: string;
+  oldValue: unknown;
+  newValue: unknown;
+}
 
-    traverse(elements);
-    return ids;
-  }
+export interface ElementChange {
+  id: string;
+  elType: ElementType;
+  widgetType?: string;
+  settings: SettingChange[];
+  type?: {
+    oldElType: ElementType;
+    newElType: ElementType;
+    oldWidgetType?: string;
+    newWidgetType?: string;
+  };
+  move?: {
+    oldParentId: string | null;
+    newParentId: string | null;
+    oldIndex: number;
+    newIndex: number;
+  };
+  reorder?: {
+    oldIndex: number;
+    newIndex: number;
+  };
 }
 
 export interface ElementDiff {
   added: string[];
   removed: string[];
+  /** Elements whose settings or type changed */
   modified: string[];
+  /** Elements that now have a different parent */
+  moved: string[];
+  /** Elements that changed position among their siblings */
+  reordered: string[];
+  changes: ElementChange[];
 }
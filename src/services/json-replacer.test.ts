@@ -0,0 +1,51 @@
+import { describe, test, expect } from "bun:test";
+import { JsonReplacer } from "./json-replacer.js";
+import type { ElementorElement } from "../types/elementor.js";
+
+// As stored by WordPress: slashes escaped inside JSON strings
+const stored =
+  '[{"id":"c1","elType":"container","settings":{"background_image":{"id":5,"url":"https:\\/\\/old.test\\/bg.jpg"}},"elements":[' +
+  '{"id":"b1","elType":"widget","widgetType":"button","settings":{"text":"Visit old.test","link":{"url":"https:\\/\\/old.test\\/contact"}},"elements":[]}' +
+  "]}]";
+
+describe("JsonReplacer", () => {
+  const elements = JSON.parse(stored) as ElementorElement[];
+
+  test("replaces inside string values, including escaped URLs", () => {
+    const replacer = new JsonReplacer({ search: "https://old.test", replace: "https://new.test" });
+    const result = replacer.replaceInElements(elements);
+
+    expect(result.changes.map((change) => [change.elementId, change.element, change.setting])).toEqual([
+      ["c1", "container[0]", "background_image.url"],
+      ["b1", "container[0] > widget[0](button)", "link.url"],
+    ]);
+    const serialized = JSON.stringify(result.elements);
+    expect(serialized).toContain('"url":"https://new.test/contact"');
+    expect(serialized).toContain('"id":5');
+    expect(JSON.stringify(elements)).toContain("old.test/contact");
+  });
+
+  test("limits replacement to --key settings", () => {
+    const replacer = new JsonReplacer({ search: "old.test", replace: "new.test", keys: ["link"] });
+    const { changes } = replacer.replaceInElements(elements);
+    expect(changes.map((change) => change.setting)).toEqual(["link.url"]);
+
+    const byName = new JsonReplacer({ search: "old.test", replace: "new.test", keys: ["text", "url"] });
+    expect(byName.replaceInElements(elements).changes).toHaveLength(3);
+  });
+
+  test("supports regular expressions with capture groups and literal $ in plain mode", () => {
+    const regex = new JsonReplacer({
+      search: "https://old\\.test/(\\w+)",
+      replace: "https://new.test/pages/$1",
+      regex: true,
+    });
+    const { changes } = regex.replaceInElements(elements);
+    expect(changes[1].newValue).toBe("https://new.test/pages/contact");
+
+    const plain = new JsonReplacer({ search: "Visit", replace: "Pay $1" });
+    const result = plain.replaceInSettings({ note: "Visit Visit", count: 2 });
+    expect(result.settings).toEqual({ note: "Pay $1 Pay $1", count: 2 });
+    expect(result.changes[0]).toMatchObject({ element: "(page settings)", setting: "note", count: 2 });
+  });
+});
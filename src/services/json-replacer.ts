@@ -0,0 +1,135 @@
+import type { ElementorElement, PageSettings } from "../types/elementor.js";
+
+export interface ReplaceOptions {
+  search: string;
+  replace: string;
+  regex?: boolean; // `search` is a regular expression; `replace` may use $1, $<name>, ...
+  ignoreCase?: boolean;
+  keys?: string[]; // Only replace in these settings (see JsonReplacer.keyMatches)
+}
+
+/**
+ * One setting value changed by a replacement
+ */
+export interface ReplaceChange {
+  elementId?: string; // Not set for page settings
+  element: string; // Element path, e.g. "container[0] > widget[1](button)", or "(page settings)"
+  setting: string; // Dotted path inside the settings, e.g. "link.url", "gallery.2.url"
+  oldValue: string;
+  newValue: string;
+  count: number;
+}
+
+/**
+ * JsonReplacer replaces text inside the string values of element and page
+ * settings, leaving keys, numbers and the JSON structure alone. Values are
+ * matched after JSON decoding, so URLs stored with escaped slashes
+ * (https:\/\/example.com) are found too.
+ */
+export class JsonReplacer {
+  private pattern: RegExp;
+  private replacement: string | (() => string);
+
+  constructor(private options: ReplaceOptions) {
+    const flags = `g${options.ignoreCase ? "i" : ""}`;
+    this.pattern = options.regex
+      ? new RegExp(options.search, flags)
+      : new RegExp(escapeRegExp(options.search), flags);
+    // In plain mode "$" in the replacement has no special meaning
+    this.replacement = options.regex ? options.replace : () => options.replace;
+  }
+
+  replaceInElements(elements: ElementorElement[]): {
+    elements: ElementorElement[];
+    changes: ReplaceChange[];
+  } {
+    const changes: ReplaceChange[] = [];
+
+    const walk = (children: ElementorElement[], path: string[]): ElementorElement[] =>
+      children.map((element, index) => {
+        const elementPath = [
+          ...path,
+          `${element.elType}[${index}]${element.widgetType ? `(${element.widgetType})` : ""}`,
+        ];
+        const location = { elementId: element.id, element: elementPath.join(" > ") };
+        return {
+          ...element,
+          settings: this.replaceValue(element.settings, [], location, changes) as Record<string, unknown>,
+          elements: walk(element.elements || [], elementPath),
+        };
+      });
+
+    return { elements: walk(elements, []), changes };
+  }
+
+  replaceInSettings(settings: PageSettings): { settings: PageSettings; changes: ReplaceChange[] } {
+    const changes: ReplaceChange[] = [];
+    const replaced = this.replaceValue(settings, [], { element: "(page settings)" }, changes);
+    return { settings: replaced as PageSettings, changes };
+  }
+
+  /**
+   * Whether a setting path passes the --key filter: a filter matches the
+   * full path ("link.url"), a leading part of it ("link") or the last
+   * key ("url")
+   */
+  keyMatches(path: string[]): boolean {
+    const keys = this.options.keys;
+    if (!keys || keys.length === 0) return true;
+
+    const named = path.filter((segment) => !/^\d+$/.test(segment));
+    const full = path.join(".");
+    return keys.some(
+      (key) =>
+        key === full ||
+        full.startsWith(`${key}.`) ||
+        key === named.join(".") ||
+        named.join(".").startsWith(`${key}.`) ||
+        key === named[named.length - 1]
+    );
+  }
+
+  private replaceValue(
+    value: unknown,
+    path: string[],
+    location: { elementId?: string; element: string },
+    changes: ReplaceChange[]
+  ): unknown {
+    if (typeof value === "string") {
+      if (!this.keyMatches(path)) return value;
+
+      const count = value.match(this.pattern)?.length ?? 0;
+      if (count === 0) return value;
+      const replaced =
+        typeof this.replacement === "function"
+          ? value.replace(this.pattern, this.replacement)
+          : value.replace(this.pattern, this.replacement);
+
+      if (replaced !== value) {
+        changes.push({ ...location, setting: path.join("."), oldValue: value, newValue: replaced, count });
+      }
+      return replaced;
+    }
+
+    if (Array.isArray(value)) {
+      return value.map((item, index) =>
+        this.replaceValue(item, [...path, String(index)], location, changes)
+      );
+    }
+
+    if (value && typeof value === "object") {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [
+          key,
+          this.replaceValue(item, [...path, key], location, changes),
+        ])
+      );
+    }
+
+    return value;
+  }
+}
+
+export function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
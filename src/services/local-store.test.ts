@@ -0,0 +1,113 @@
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join, relative } from "node:path";
+import { LocalStore } from "./local-store.js";
+import type { PageData } from "../types/elementor.js";
+
+function page(title: string, text: string): PageData {
+  return {
+    id: 42,
+    title,
+    slug: "home",
+    status: "publish",
+    elementor_data: [
+      {
+        id: "abc1234",
+        elType: "widget",
+        widgetType: "heading",
+        settings: { title: text },
+        elements: [],
+      },
+    ],
+    page_settings: { hide_title: "yes" },
+  };
+}
+
+describe("LocalStore snapshots", () => {
+  let dir: string;
+  let store: LocalStore;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "local-store-"));
+    // pagesDir is resolved against the working directory
+    store = new LocalStore(relative(process.cwd(), dir));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  test("records content-addressed snapshots, skipping unchanged content", async () => {
+    await store.savePage("local", page("Home", "Hello"));
+    const first = await store.recordSnapshot("local", 42, "pull");
+    expect(await store.recordSnapshot("local", 42, "push")).toEqual(first);
+
+    await store.savePage("local", page("Home v2", "Hello world"));
+    const second = await store.recordSnapshot("local", 42, "push");
+
+    const entries = await store.listSnapshots("local", 42);
+    expect(entries.map((entry) => [entry.source, entry.title])).toEqual([
+      ["push", "Home v2"],
+      ["pull", "Home"],
+    ]);
+    expect(second?.hash).not.toBe(first?.hash);
+    expect(first?.id).toBe(first?.hash.slice(0, 12) as string);
+
+    const snapshot = await store.loadSnapshot("local", 42, first?.id.slice(0, 6) as string);
+    expect(snapshot?.meta.title).toBe("Home");
+    expect(snapshot?.elements[0].settings.title).toBe("Hello");
+    expect(snapshot?.settings).toEqual({ hide_title: "yes" });
+    expect(await store.loadSnapshot("local", 42, "ffffffff")).toBeNull();
+  });
+
+  test("rejects empty and ambiguous snapshot ids", async () => {
+    await store.savePage("local", page("Home", "Hello"));
+    const first = await store.recordSnapshot("local", 42, "pull");
+    await expect(store.loadSnapshot("local", 42, "")).rejects.toThrow("empty");
+
+    // Of 17 different contents, two hashes start with the same hex digit
+    for (let i = 1; i <= 16; i++) {
+      await store.savePage("local", page("Home", `Hello ${i}`));
+      await store.recordSnapshot("local", 42, "push");
+    }
+    // The first content again: another entry with the same hash
+    await store.savePage("local", page("Home", "Hello"));
+    await store.recordSnapshot("local", 42, "pull");
+
+    const hashes = new Set((await store.listSnapshots("local", 42)).map((entry) => entry.hash));
+    const digits = [...hashes].map((hash) => hash[0]);
+    const shared = digits.find((digit, i) => digits.indexOf(digit) !== i) as string;
+    await expect(store.loadSnapshot("local", 42, shared)).rejects.toThrow("ambiguous");
+    const snapshot = await store.loadSnapshot("local", 42, first?.id as string);
+    expect(snapshot?.elements[0].settings.title).toBe("Hello");
+  });
+
+  test("restoring writes the snapshot locally after snapshotting the current content", async () => {
+    await store.savePage("local", page("Home", "Hello"));
+    const first = await store.recordSnapshot("local", 42, "pull");
+    await store.savePage("local", page("Home v2", "Hello world"));
+
+    const snapshot = await store.loadSnapshot("local", 42, first?.id as string);
+    if (!snapshot) throw new Error("snapshot not found");
+    await store.restoreSnapshot("local", 42, snapshot);
+
+    const local = await store.loadPage("local", 42);
+    expect(local?.meta.title).toBe("Home");
+    expect(local?.elements[0].settings.title).toBe("Hello");
+    // The base still reflects the last sync, so push sees the restore as an edit
+    expect((await store.loadBase("local", 42))?.title).toBe("Home v2");
+
+    const entries = await store.listSnapshots("local", 42);
+    expect(entries[0].source).toBe("before-restore");
+    expect(entries[0].title).toBe("Home v2");
+  });
+});
+
+describe("LocalStore", () => {
+  test("rejects post types that would leave the pages directory", () => {
+    expect(() => new LocalStore("pages", "single", "../x")).toThrow('Invalid post type "../x"');
+    expect(() => new LocalStore("pages", "single", "a/b")).toThrow("Invalid post type");
+    expect(() => new LocalStore("pages", "single", "elementor_library")).not.toThrow();
+  });
+});
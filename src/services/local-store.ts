@@ -1,6 +1,19 @@
-import { mkdir } from "node:fs/promises";
+import { mkdir, rm } from "node:fs/promises";
+import { createHash } from "node:crypto";
 import { readConfig } from "../utils/config-store.js";
-import type { PageData, ElementorElement, PageSettings, PageStatus } from "../types/elementor.js";
+import { checkPostType } from "../utils/post-type.js";
+import type { PagesLayout } from "../types/config.js";
+import type {
+  PageData,
+  ElementorElement,
+  PageSettings,
+  PageStatus,
+  PostType,
+} from "../types/elementor.js";
+import type { MediaManifest } from "../types/media.js";
+import type { MergeConflict, MergeResult } from "./element-merger.js";
+import { CanonicalSerializer } from "./canonical-serializer.js";
+import { SplitLayout } from "./split-layout.js";
 
 export interface LocalPageData {
   page: PageData;
@@ -14,20 +27,75 @@ export interface LocalPageData {
   };
 }
 
+export interface ConflictEntry extends MergeConflict {
+  /**
+   * "local" or "remote" for settings/meta/fields, "keep" or "delete" for elements.
+   * Left as null until the user decides.
+   */
+  resolution: "local" | "remote" | "keep" | "delete" | null;
+}
+
+export interface ConflictFile {
+  pageId: number;
+  site: string;
+  created_at: string;
+  remote_modified?: string;
+  conflicts: ConflictEntry[];
+}
+
+/**
+ * What recorded a snapshot
+ */
+export type SnapshotSource = "pull" | "push" | "preview-sync" | "before-restore";
+
+/**
+ * An entry in a page's snapshot history. The content lives in
+ * .snapshots/objects/<hash>.json, shared by entries with the same content.
+ */
+export interface SnapshotEntry {
+  id: string; // First 12 characters of the hash
+  hash: string; // sha256 of the canonical content
+  created_at: string;
+  source: SnapshotSource;
+  title: string;
+}
+
+export interface Snapshot extends SnapshotEntry {
+  elements: ElementorElement[];
+  settings: PageSettings;
+  meta: LocalPageData["meta"];
+}
+
 export class LocalStore {
   private pagesDir: string;
+  private layout: PagesLayout;
+  private postType: PostType;
+  private serializer = new CanonicalSerializer();
+  private split = new SplitLayout(this.serializer);
 
-  constructor(pagesDir: string) {
+  constructor(pagesDir: string, layout: PagesLayout = "single", postType: PostType = "page") {
     this.pagesDir = pagesDir;
+    this.layout = layout;
+    this.postType = checkPostType(postType);
   }
 
-  static async create(): Promise<LocalStore> {
+  static async create(postType: PostType = "page"): Promise<LocalStore> {
     const config = await readConfig();
-    return new LocalStore(config.pagesDir);
+    return new LocalStore(config.pagesDir, config.pagesLayout, postType);
+  }
+
+  /**
+   * Directory holding a site's items of this store's post type.
+   * Pages live directly under the site directory, other post types in a
+   * subdirectory named after the post type (e.g. production/elementor_library/).
+   */
+  private getSiteDir(siteName: string): string {
+    const siteDir = `${process.cwd()}/${this.pagesDir}/${siteName}`;
+    return this.postType === "page" ? siteDir : `${siteDir}/${this.postType}`;
   }
 
   getPageDir(siteName: string, pageId: number): string {
-    return `${process.cwd()}/${this.pagesDir}/${siteName}/${pageId}`;
+    return `${this.getSiteDir(siteName)}/${pageId}`;
   }
 
   async pageExists(siteName: string, pageId: number): Promise<boolean> {
@@ -36,26 +104,27 @@ export class LocalStore {
     return pageFile.exists();
   }
 
-  async savePage(siteName: string, pageData: PageData): Promise<void> {
+  /**
+   * Save a page to local storage.
+   *
+   * `base` is the common ancestor used for three-way merges on the next pull
+   * or push. It defaults to the saved page itself, which is correct whenever
+   * the local copy matches the remote (a plain pull, or right after a push).
+   */
+  async savePage(siteName: string, pageData: PageData, base: PageData = pageData): Promise<void> {
     const dir = this.getPageDir(siteName, pageData.id);
     await mkdir(dir, { recursive: true });
 
     // Save full page data
-    await Bun.write(
-      `${dir}/page.json`,
-      JSON.stringify(pageData, null, 2)
-    );
+    await Bun.write(`${dir}/page.json`, this.serializer.serializePage(pageData));
 
-    // Save elements.json (for editing)
-    await Bun.write(
-      `${dir}/elements.json`,
-      JSON.stringify(pageData.elementor_data, null, 2)
-    );
+    // Save elements.json or the split elements/ directory (for editing)
+    await this.writeElements(dir, pageData.elementor_data, this.layout);
 
     // Save settings.json
     await Bun.write(
       `${dir}/settings.json`,
-      JSON.stringify(pageData.page_settings, null, 2)
+      this.serializer.serializeSettings(pageData.page_settings)
     );
 
     // Save meta.json (include template if present)
@@ -67,15 +136,98 @@ export class LocalStore {
     if (pageData.template) {
       metaData.template = pageData.template;
     }
-    await Bun.write(
-      `${dir}/meta.json`,
-      JSON.stringify(metaData, null, 2)
-    );
+    await Bun.write(`${dir}/meta.json`, this.serializer.serializeMeta(metaData));
+
+    // Save base snapshot for three-way merges
+    await Bun.write(`${dir}/.base.json`, this.serializer.serializePage(base));
+
+    // A freshly saved page has no pending conflicts
+    await this.clearConflicts(siteName, pageData.id);
 
     // Save pulled_at timestamp
     await Bun.write(`${dir}/.pulled_at`, new Date().toISOString());
   }
 
+  /**
+   * Save the result of merging local edits with a remote page.
+   * The remote page becomes the new base; conflicts are written to conflicts.json.
+   */
+  async saveMerged(siteName: string, remote: PageData, merged: MergeResult): Promise<void> {
+    const meta = merged.meta as LocalPageData["meta"];
+    const pageData: PageData = {
+      ...remote,
+      title: meta.title,
+      slug: meta.slug,
+      status: meta.status,
+      template: meta.template,
+      elementor_data: merged.elements,
+      page_settings: merged.settings,
+    };
+
+    await this.savePage(siteName, pageData, remote);
+
+    if (merged.conflicts.length > 0) {
+      await this.saveConflicts(siteName, remote.id, {
+        pageId: remote.id,
+        site: siteName,
+        created_at: new Date().toISOString(),
+        remote_modified: remote.remote_modified,
+        conflicts: merged.conflicts.map((conflict) => ({ ...conflict, resolution: null })),
+      });
+    }
+  }
+
+  async loadBase(siteName: string, pageId: number): Promise<PageData | null> {
+    const dir = this.getPageDir(siteName, pageId);
+    const file = Bun.file(`${dir}/.base.json`);
+    if (!(await file.exists())) {
+      return null;
+    }
+    return file.json();
+  }
+
+  getConflictsPath(siteName: string, pageId: number): string {
+    return `${this.getPageDir(siteName, pageId)}/conflicts.json`;
+  }
+
+  async saveConflicts(siteName: string, pageId: number, conflicts: ConflictFile): Promise<void> {
+    await Bun.write(this.getConflictsPath(siteName, pageId), JSON.stringify(conflicts, null, 2));
+  }
+
+  async loadConflicts(siteName: string, pageId: number): Promise<ConflictFile | null> {
+    const file = Bun.file(this.getConflictsPath(siteName, pageId));
+    if (!(await file.exists())) {
+      return null;
+    }
+    return file.json();
+  }
+
+  async clearConflicts(siteName: string, pageId: number): Promise<void> {
+    await rm(this.getConflictsPath(siteName, pageId), { force: true });
+  }
+
+  /**
+   * Directory holding a page's downloaded media files (listed in media.json)
+   */
+  getMediaDir(siteName: string, pageId: number): string {
+    return `${this.getPageDir(siteName, pageId)}/media`;
+  }
+
+  async loadMediaManifest(siteName: string, pageId: number): Promise<MediaManifest> {
+    const file = Bun.file(`${this.getPageDir(siteName, pageId)}/media.json`);
+    if (!(await file.exists())) {
+      return { items: [] };
+    }
+    return file.json();
+  }
+
+  async saveMediaManifest(siteName: string, pageId: number, manifest: MediaManifest): Promise<void> {
+    await Bun.write(
+      `${this.getPageDir(siteName, pageId)}/media.json`,
+      JSON.stringify(manifest, null, 2)
+    );
+  }
+
   async loadPage(siteName: string, pageId: number): Promise<LocalPageData | null> {
     const dir = this.getPageDir(siteName, pageId);
 
@@ -86,7 +238,7 @@ export class LocalStore {
 
     const [page, elements, rawSettings, meta] = await Promise.all([
       pageFile.json() as Promise<PageData>,
-      Bun.file(`${dir}/elements.json`).json() as Promise<ElementorElement[]>,
+      this.readElements(dir) as Promise<ElementorElement[]>,
       Bun.file(`${dir}/settings.json`).json() as Promise<PageSettings>,
       Bun.file(`${dir}/meta.json`).json() as Promise<{
         title: string;
@@ -100,11 +252,105 @@ export class LocalStore {
     // WordPress/Elementor can return [] for empty settings, but expects {}
     const settings = Array.isArray(rawSettings) ? {} : rawSettings;
 
+    // pulled_at lives in its own file so page.json doesn't change on every pull
+    if (!page.pulled_at) {
+      page.pulled_at = (await this.getPulledAt(siteName, pageId)) || undefined;
+    }
+
     return { page, elements, settings, meta };
   }
 
+  /**
+   * Rewrite a local page's files in canonical form without changing content.
+   * Returns the names of the files that changed.
+   */
+  async normalizePage(
+    siteName: string,
+    pageId: number,
+    options: { dryRun?: boolean; layout?: PagesLayout } = {}
+  ): Promise<string[]> {
+    const dir = this.getPageDir(siteName, pageId);
+    const changed: string[] = [];
+
+    // Convert between layouts if requested
+    const currentLayout = await this.getPageLayout(siteName, pageId);
+    const layout = options.layout || currentLayout;
+    if (layout !== currentLayout) {
+      changed.push(layout === "split" ? "elements/" : "elements.json");
+      if (!options.dryRun) {
+        const elements = (await this.readElements(dir)) || [];
+        await this.writeElements(dir, elements, layout);
+      }
+    } else if (layout === "split") {
+      const elements = await this.split.read(`${dir}/elements`);
+      const splitChanged = await this.split.write(`${dir}/elements`, elements, options);
+      changed.push(...splitChanged.map((path) => `elements/${path}`));
+    }
+
+    const rewrite = async (name: string, serialize: (data: never) => string) => {
+      const file = Bun.file(`${dir}/${name}`);
+      if (!(await file.exists())) return;
+
+      const current = await file.text();
+      const canonical = serialize(JSON.parse(current) as never);
+      if (current !== canonical) {
+        changed.push(name);
+        if (!options.dryRun) {
+          await Bun.write(`${dir}/${name}`, canonical);
+        }
+      }
+    };
+
+    // Move a legacy pulled_at out of page.json before it gets dropped
+    const pageFile = Bun.file(`${dir}/page.json`);
+    if (!options.dryRun && (await pageFile.exists())) {
+      const page = (await pageFile.json()) as PageData;
+      if (page.pulled_at && !(await this.getPulledAt(siteName, pageId))) {
+        await Bun.write(`${dir}/.pulled_at`, page.pulled_at);
+      }
+    }
+
+    await rewrite("page.json", (page: PageData) => this.serializer.serializePage(page));
+    await rewrite("elements.json", (elements: ElementorElement[]) =>
+      this.serializer.serializeElements(elements)
+    );
+    await rewrite("settings.json", (settings: PageSettings) =>
+      this.serializer.serializeSettings(settings)
+    );
+    await rewrite("meta.json", (meta: Record<string, unknown>) =>
+      this.serializer.serializeMeta(meta)
+    );
+    await rewrite(".base.json", (page: PageData) => this.serializer.serializePage(page));
+
+    return changed;
+  }
+
   async loadElements(siteName: string, pageId: number): Promise<ElementorElement[] | null> {
     const dir = this.getPageDir(siteName, pageId);
+    return this.readElements(dir);
+  }
+
+  /**
+   * Replace a local page's element tree, keeping its layout.
+   * The base snapshot is left alone, so the change shows up as a local edit.
+   */
+  async saveElements(siteName: string, pageId: number, elements: ElementorElement[]): Promise<void> {
+    const dir = this.getPageDir(siteName, pageId);
+    await this.writeElements(dir, elements, await this.getPageLayout(siteName, pageId));
+  }
+
+  /**
+   * Get the layout a page is currently stored in
+   */
+  async getPageLayout(siteName: string, pageId: number): Promise<PagesLayout> {
+    const dir = this.getPageDir(siteName, pageId);
+    return (await this.split.exists(`${dir}/elements`)) ? "split" : "single";
+  }
+
+  private async readElements(dir: string): Promise<ElementorElement[] | null> {
+    if (await this.split.exists(`${dir}/elements`)) {
+      return this.split.read(`${dir}/elements`);
+    }
     const file = Bun.file(`${dir}/elements.json`);
     if (!(await file.exists())) {
       return null;
@@ -112,6 +358,23 @@ export class LocalStore {
     return file.json();
   }
 
+  /**
+   * Write elements in the given layout and remove the other layout's files
+   */
+  private async writeElements(
+    dir: string,
+    elements: ElementorElement[],
+    layout: PagesLayout
+  ): Promise<void> {
+    if (layout === "split") {
+      await this.split.write(`${dir}/elements`, elements);
+      await rm(`${dir}/elements.json`, { force: true });
+    } else {
+      await Bun.write(`${dir}/elements.json`, this.serializer.serializeElements(elements));
+      await rm(`${dir}/elements`, { recursive: true, force: true });
+    }
+  }
+
   async loadSettings(siteName: string, pageId: number): Promise<PageSettings | null> {
     const dir = this.getPageDir(siteName, pageId);
     const file = Bun.file(`${dir}/settings.json`);
@@ -143,7 +406,7 @@ export class LocalStore {
   }
 
   async listLocalPages(siteName: string): Promise<number[]> {
-    const dir = `${process.cwd()}/${this.pagesDir}/${siteName}`;
+    const dir = this.getSiteDir(siteName);
 
     try {
       const glob = new Bun.Glob("*/page.json");
@@ -162,6 +425,105 @@ export class LocalStore {
     }
   }
 
+  /**
+   * Record the local page's current content in its snapshot history.
+   * Nothing is added if it matches the latest snapshot; that one is returned.
+   */
+  async recordSnapshot(
+    siteName: string,
+    pageId: number,
+    source: SnapshotSource
+  ): Promise<SnapshotEntry | null> {
+    const page = await this.loadPage(siteName, pageId);
+    if (!page) {
+      return null;
+    }
+
+    const content = {
+      meta: JSON.parse(this.serializer.serializeMeta(page.meta)),
+      settings: JSON.parse(this.serializer.serializeSettings(page.settings)),
+      elements: JSON.parse(this.serializer.serializeElements(page.elements)),
+    };
+    const text = `${JSON.stringify(content, null, 2)}\n`;
+    const hash = createHash("sha256").update(text).digest("hex");
+
+    const entries = await this.listSnapshots(siteName, pageId);
+    if (entries[0]?.hash === hash) {
+      return entries[0];
+    }
+
+    const dir = this.getSnapshotsDir(siteName, pageId);
+    const object = Bun.file(`${dir}/objects/${hash}.json`);
+    if (!(await object.exists())) {
+      await mkdir(`${dir}/objects`, { recursive: true });
+      await Bun.write(object, text);
+    }
+
+    const entry: SnapshotEntry = {
+      id: hash.slice(0, 12),
+      hash,
+      created_at: new Date().toISOString(),
+      source,
+      title: page.meta.title,
+    };
+    await Bun.write(`${dir}/index.json`, JSON.stringify([entry, ...entries], null, 2));
+    return entry;
+  }
+
+  /**
+   * Snapshot history of a page, newest first
+   */
+  async listSnapshots(siteName: string, pageId: number): Promise<SnapshotEntry[]> {
+    const file = Bun.file(`${this.getSnapshotsDir(siteName, pageId)}/index.json`);
+    if (!(await file.exists())) {
+      return [];
+    }
+    return file.json();
+  }
+
+  /**
+   * Load a snapshot by id or hash prefix. Entries with the same content
+   * share a hash, so a prefix is only ambiguous across different hashes.
+   */
+  async loadSnapshot(siteName: string, pageId: number, id: string): Promise<Snapshot | null> {
+    if (!id) {
+      throw new Error("Snapshot id is empty");
+    }
+    const matches = (await this.listSnapshots(siteName, pageId)).filter((snapshot) =>
+      snapshot.hash.startsWith(id)
+    );
+    const hashes = new Set(matches.map((snapshot) => snapshot.hash));
+    if (hashes.size > 1) {
+      throw new Error(`Snapshot id '${id}' is ambiguous (${hashes.size} matches)`);
+    }
+    const entry = matches[0];
+    if (!entry) {
+      return null;
+    }
+    const content = await Bun.file(
+      `${this.getSnapshotsDir(siteName, pageId)}/objects/${entry.hash}.json`
+    ).json();
+    return { ...entry, ...content };
+  }
+
+  /**
+   * Write a snapshot's content to the local page files. The current content
+   * is snapshotted first, and the base is kept, so the restored content
+   * shows up as a local edit for `push`.
+   */
+  async restoreSnapshot(siteName: string, pageId: number, snapshot: Snapshot): Promise<void> {
+    await this.recordSnapshot(siteName, pageId, "before-restore");
+
+    const dir = this.getPageDir(siteName, pageId);
+    await this.saveElements(siteName, pageId, snapshot.elements);
+    await Bun.write(`${dir}/settings.json`, this.serializer.serializeSettings(snapshot.settings));
+    await Bun.write(`${dir}/meta.json`, this.serializer.serializeMeta(snapshot.meta));
+  }
+
+  private getSnapshotsDir(siteName: string, pageId: number): string {
+    return `${this.getPageDir(siteName, pageId)}/.snapshots`;
+  }
+
   async deletePage(siteName: string, pageId: number): Promise<boolean> {
     const dir = this.getPageDir(siteName, pageId);
     const pageFile = Bun.file(`${dir}/page.json`);
@@ -170,7 +532,6 @@ export class LocalStore {
       return false;
     }
 
-    const { rm } = await import("node:fs/promises");
     await rm(dir, { recursive: true, force: true });
     return true;
   }
@@ -0,0 +1,158 @@
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { ManifestPlanner } from "./manifest-planner.js";
+import { TemplateStore } from "./template-store.js";
+import type { DesiredPage } from "../types/manifest.js";
+import type { ElementorElement } from "../types/elementor.js";
+import type { WPPage } from "../types/wordpress.js";
+
+const heading = (id: string, title: string): ElementorElement => ({
+  id,
+  elType: "widget",
+  widgetType: "heading",
+  settings: { title },
+  elements: [],
+});
+
+function remotePage(
+  id: number,
+  slug: string,
+  elements: ElementorElement[],
+  overrides: Partial<WPPage> = {}
+): WPPage {
+  return {
+    id,
+    type: "page",
+    slug,
+    status: "publish",
+    title: { rendered: slug, raw: slug },
+    template: "",
+    modified: "2024-01-01T00:00:00",
+    meta: { _elementor_edit_mode: "builder", _elementor_data: JSON.stringify(elements) },
+    ...overrides,
+  } as WPPage;
+}
+
+function desiredPage(slug: string, elements: ElementorElement[], overrides: Partial<DesiredPage> = {}): DesiredPage {
+  return { slug, title: slug, status: "publish", postType: "page", elements, source: "test", ...overrides };
+}
+
+describe("ManifestPlanner", () => {
+  let dir: string;
+  let planner: ManifestPlanner;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "manifest-"));
+    planner = new ManifestPlanner(new TemplateStore(join(dir, "templates"), join(dir, "global")));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  test("plans creates, updates, deletes and unchanged pages by slug", () => {
+    const remote = [
+      remotePage(1, "home", [heading("h1", "Welcome")]),
+      remotePage(2, "about", [heading("a1", "About")], { status: "draft" }),
+      remotePage(3, "old", []),
+      remotePage(4, "blog", [], { meta: {} } as Partial<WPPage>),
+    ];
+    const desired = [
+      desiredPage("home", [heading("h1", "Welcome")]),
+      desiredPage("about", [heading("a1", "About us")]),
+      desiredPage("contact", []),
+    ];
+
+    const plan = planner.plan(desired, remote, { prune: true });
+
+    expect(plan.map((step) => [step.action, step.slug, step.remoteId])).toEqual([
+      ["unchanged", "home", 1],
+      ["update", "about", 2],
+      ["create", "contact", undefined],
+      ["delete", "old", 3],
+    ]);
+    expect(plan[1].changes).toEqual([
+      "status: draft → publish",
+      "elements: +0 added, -0 removed, ~1 modified",
+    ]);
+    // Without prune nothing is deleted
+    expect(planner.plan(desired, remote).some((step) => step.action === "delete")).toBe(false);
+  });
+
+  test("keeps the status of existing pages when the manifest doesn't set one", () => {
+    const remote = [remotePage(1, "home", [heading("h1", "Welcome")])];
+    const desired = [desiredPage("home", [heading("h1", "Welcome")], { status: undefined })];
+
+    expect(planner.plan(desired, remote).map((step) => [step.action, step.changes])).toEqual([
+      ["unchanged", []],
+    ]);
+  });
+
+  test("ignores element ids and key order when comparing content", () => {
+    const button = (id: string, link: Record<string, unknown>): ElementorElement => ({
+      id,
+      elType: "widget",
+      widgetType: "button",
+      settings: { link },
+      elements: [],
+    });
+    const remote = [
+      remotePage(1, "home", [button("b1", { url: "https://example.com", is_external: "on", nofollow: "" })]),
+    ];
+    const desired = [
+      desiredPage("home", [button("x9", { is_external: "on", nofollow: "", url: "https://example.com" })]),
+    ];
+
+    expect(planner.plan(desired, remote).map((step) => step.action)).toEqual(["unchanged"]);
+  });
+
+  test("loads pages from element files and templates", async () => {
+    await Bun.write(join(dir, "content", "home.json"), JSON.stringify([heading("h1", "Welcome")]));
+    await Bun.write(
+      join(dir, "content", "landing.json"),
+      JSON.stringify({ elements: [heading("l1", "Landing")], settings: { hide_title: "yes" } })
+    );
+    await Bun.write(
+      join(dir, "elementor-site.yaml"),
+      [
+        "site: production",
+        "pages:",
+        "  - slug: home",
+        "    title: Home",
+        "    status: publish",
+        "    template: elementor_canvas",
+        "    elements: content/home.json",
+        "  - slug: landing",
+        "    title: Landing",
+        "    elements: content/landing.json",
+        "  - slug: hero",
+        "    title: Hero",
+        "    fromTemplate: hero-section",
+      ].join("\n")
+    );
+
+    const { manifest, pages } = await planner.load(join(dir, "elementor-site.yaml"));
+
+    expect(manifest.site).toBe("production");
+    expect(pages.map((page) => [page.slug, page.status, page.template, page.source])).toEqual([
+      ["home", "publish", "elementor_canvas", "content/home.json"],
+      ["landing", undefined, undefined, "content/landing.json"],
+      ["hero", undefined, undefined, "template hero-section"],
+    ]);
+    expect(pages[1].settings).toEqual({ hide_title: "yes" });
+    expect(pages[2].elements.length).toBeGreaterThan(0);
+  });
+
+  test("rejects pages without exactly one element source", async () => {
+    await Bun.write(
+      join(dir, "elementor-site.yaml"),
+      ["pages:", "  - slug: home", "    title: Home"].join("\n")
+    );
+
+    await expect(planner.load(join(dir, "elementor-site.yaml"))).rejects.toThrow(
+      "Set exactly one of 'elements' or 'fromTemplate'"
+    );
+  });
+});
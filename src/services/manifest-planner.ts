@@ -0,0 +1,322 @@
+import { dirname, resolve } from "node:path";
+import { parse } from "yaml";
+import {
+  SiteManifestSchema,
+  type DesiredPage,
+  type PlanAction,
+  type SiteManifest,
+} from "../types/manifest.js";
+import type { ElementorElement, PageSettings } from "../types/elementor.js";
+import type { WPPage } from "../types/wordpress.js";
+import { ElementorParser } from "./elementor-parser.js";
+import { isEqual } from "../utils/equality.js";
+import type { JournalRecorder } from "./operation-journal.js";
+import type { TemplateStore } from "./template-store.js";
+import type { WordPressClient } from "./wordpress-client.js";
+import { hasElementChanges, summarizeElementDiff } from "../utils/diff-format.js";
+
+export const MANIFEST_FILE = "elementor-site.yaml";
+
+export interface ApplyResult {
+  action: PlanAction;
+  id?: number; // Page id on the site after the step
+  error?: string;
+}
+
+/**
+ * ManifestPlanner turns a site manifest into a plan against the remote site
+ * (create, update, delete, unchanged per page) and carries it out.
+ * Pages are matched by post type and slug.
+ */
+export class ManifestPlanner {
+  private parser = new ElementorParser();
+
+  constructor(private templates: TemplateStore) {}
+
+  /**
+   * Read a manifest file and load the elements of every page.
+   * Paths in the manifest are relative to the manifest file.
+   */
+  async load(path: string): Promise<{ manifest: SiteManifest; pages: DesiredPage[] }> {
+    const file = Bun.file(path);
+    if (!(await file.exists())) {
+      throw new Error(`Manifest not found: ${path}`);
+    }
+
+    const result = SiteManifestSchema.safeParse(parse(await file.text()) ?? {});
+    if (!result.success) {
+      const issues = result.error.issues.map(
+        (issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`
+      );
+      throw new Error(`Invalid manifest ${path}:\n  ${issues.join("\n  ")}`);
+    }
+    const manifest = result.data;
+    const baseDir = dirname(resolve(path));
+
+    const pages: DesiredPage[] = [];
+    const seen = new Set<string>();
+    for (const page of manifest.pages) {
+      const postType = page.type || manifest.type;
+      const key = `${postType}/${page.slug}`;
+      if (seen.has(key)) {
+        throw new Error(`Manifest lists ${postType} "${page.slug}" more than once`);
+      }
+      seen.add(key);
+
+      let elements: ElementorElement[];
+      let settings: PageSettings | undefined;
+      let source: string;
+
+      if (page.elements) {
+        ({ elements, settings } = await this.readElementsFile(resolve(baseDir, page.elements)));
+        source = page.elements;
+      } else {
+        const template = await this.templates.get(page.fromTemplate as string);
+        if (!template) {
+          throw new Error(`Template "${page.fromTemplate}" not found (page "${page.slug}")`);
+        }
+        elements = template.elements as ElementorElement[];
+        settings = Object.keys(template.settings).length > 0 ? template.settings : undefined;
+        source = `template ${template.slug}`;
+      }
+
+      if (page.settings) {
+        settings = await this.readJson<PageSettings>(resolve(baseDir, page.settings));
+      }
+
+      pages.push({
+        slug: page.slug,
+        title: page.title,
+        status: page.status,
+        postType,
+        template: page.template,
+        elements,
+        settings,
+        source,
+      });
+    }
+
+    return { manifest, pages };
+  }
+
+  /**
+   * Compare the desired pages with the pages on the site.
+   * With `prune`, Elementor pages of the same post types that are not in
+   * the manifest are deleted.
+   */
+  plan(desired: DesiredPage[], remote: WPPage[], options: { prune?: boolean } = {}): PlanAction[] {
+    const actions: PlanAction[] = [];
+    const matched = new Set<number>();
+
+    for (const page of desired) {
+      const candidates = remote.filter(
+        (item) => item.slug === page.slug && (item.type || "page") === page.postType
+      );
+      if (candidates.length > 1) {
+        throw new Error(
+          `Several ${page.postType} items have the slug "${page.slug}" (${candidates.map((item) => item.id).join(", ")})`
+        );
+      }
+
+      const [existing] = candidates;
+      if (!existing) {
+        actions.push({
+          action: "create",
+          postType: page.postType,
+          slug: page.slug,
+          title: page.title,
+          changes: [],
+          desired: page,
+        });
+        continue;
+      }
+
+      matched.add(existing.id);
+      const changes = this.compare(page, existing);
+      actions.push({
+        action: changes.length > 0 ? "update" : "unchanged",
+        postType: page.postType,
+        slug: page.slug,
+        title: page.title,
+        remoteId: existing.id,
+        changes,
+        desired: page,
+      });
+    }
+
+    if (options.prune) {
+      const postTypes = new Set(desired.map((page) => page.postType));
+      for (const item of remote) {
+        const postType = item.type || "page";
+        if (
+          matched.has(item.id) ||
+          !postTypes.has(postType) ||
+          item.meta?._elementor_edit_mode !== "builder"
+        ) {
+          continue;
+        }
+        actions.push({
+          action: "delete",
+          postType,
+          slug: item.slug,
+          title: item.title.raw || item.title.rendered,
+          remoteId: item.id,
+          changes: [],
+        });
+      }
+    }
+
+    return actions;
+  }
+
+  /**
+   * Carry out the plan one step at a time. A failed step does not stop
+   * the remaining steps; its error is recorded in the result. With a
+   * recorder, pages are journaled before they are changed or deleted.
+   */
+  async apply(
+    client: WordPressClient,
+    actions: PlanAction[],
+    options: {
+      force?: boolean;
+      recorder?: JournalRecorder;
+      onStep?: (action: PlanAction) => void;
+    } = {}
+  ): Promise<ApplyResult[]> {
+    const results: ApplyResult[] = [];
+
+    for (const action of actions) {
+      if (action.action === "unchanged") continue;
+      options.onStep?.(action);
+
+      try {
+        results.push({
+          action,
+          id: await this.applyAction(client, action, options.force, options.recorder),
+        });
+      } catch (error) {
+        results.push({
+          action,
+          id: action.remoteId,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    return results;
+  }
+
+  private async applyAction(
+    client: WordPressClient,
+    action: PlanAction,
+    force = false,
+    recorder?: JournalRecorder
+  ): Promise<number> {
+    if (recorder && action.action !== "create") {
+      await recorder.record(
+        await client.getPage(action.remoteId as number, action.postType),
+        action.action === "delete" ? "delete" : "update"
+      );
+    }
+
+    if (action.action === "delete") {
+      await client.deletePage(action.remoteId as number, force, action.postType);
+      return action.remoteId as number;
+    }
+
+    const page = action.desired as DesiredPage;
+    const data = {
+      title: page.title,
+      slug: page.slug,
+      status: page.status,
+      template: page.template,
+      elementorData: this.parser.serializeElements(page.elements),
+      pageSettings: page.settings,
+    };
+
+    let id: number;
+    if (action.action === "create") {
+      const created = await client.createPage({ ...data, status: page.status || "draft" }, page.postType);
+      await recorder?.record(created, "create");
+      id = created.id;
+    } else {
+      id = action.remoteId as number;
+      await client.updatePage(id, { ...data, editMode: "builder" }, page.postType);
+    }
+    await client.invalidateCss(id, page.postType);
+    return id;
+  }
+
+  private compare(page: DesiredPage, existing: WPPage): string[] {
+    const current = this.parser.parseWPPage(existing);
+    const changes: string[] = [];
+
+    if (existing.meta?._elementor_edit_mode !== "builder") {
+      changes.push("enable Elementor");
+    }
+    if (current.title !== page.title) {
+      changes.push(`title: "${current.title}" → "${page.title}"`);
+    }
+    if (page.status !== undefined && current.status !== page.status) {
+      changes.push(`status: ${current.status} → ${page.status}`);
+    }
+    if (page.template !== undefined && (current.template || "default") !== page.template) {
+      changes.push(`template: ${current.template || "default"} → ${page.template}`);
+    }
+
+    // Built-in templates get new element ids in every run, so a tree that
+    // only differs in ids counts as unchanged
+    const diff = this.parser.diffElements(page.elements, current.elementor_data);
+    if (hasElementChanges(diff) && !this.sameContent(page.elements, current.elementor_data)) {
+      changes.push(`elements: ${summarizeElementDiff(diff)}`);
+    }
+
+    if (page.settings !== undefined) {
+      const settingsDiff = this.parser.diffSettings(current.page_settings, page.settings);
+      if (settingsDiff.length > 0) {
+        changes.push(`settings: ${settingsDiff.map((change) => change.key).join(", ")}`);
+      }
+    }
+
+    return changes;
+  }
+
+  private sameContent(a: ElementorElement[], b: ElementorElement[]): boolean {
+    const withoutIds = (elements: ElementorElement[]): unknown =>
+      elements.map(({ id: _id, elements: children, ...rest }) => ({
+        ...rest,
+        elements: withoutIds(children || []),
+      }));
+    // Key order differs between canonical local files and WordPress
+    return isEqual(withoutIds(a), withoutIds(b));
+  }
+
+  private async readElementsFile(
+    path: string
+  ): Promise<{ elements: ElementorElement[]; settings?: PageSettings }> {
+    const data = await this.readJson<unknown>(path);
+
+    // A bare element array (elements.json of a pulled page) or an object
+    // with `elements` and optional `settings` (a template or export file)
+    if (Array.isArray(data)) {
+      return { elements: data as ElementorElement[] };
+    }
+    if (data && typeof data === "object" && Array.isArray((data as { elements?: unknown }).elements)) {
+      const { elements, settings } = data as { elements: ElementorElement[]; settings?: PageSettings };
+      return { elements, settings };
+    }
+    throw new Error(`${path} does not contain an element array`);
+  }
+
+  private async readJson<T>(path: string): Promise<T> {
+    const file = Bun.file(path);
+    if (!(await file.exists())) {
+      throw new Error(`File not found: ${path}`);
+    }
+    try {
+      return (await file.json()) as T;
+    } catch (error) {
+      throw new Error(`Could not parse ${path}: ${error}`);
+    }
+  }
+}
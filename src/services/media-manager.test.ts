@@ -0,0 +1,104 @@
+import { describe, test, expect } from "bun:test";
+import { MediaManager } from "./media-manager.js";
+import type { ElementorElement } from "../types/elementor.js";
+
+const uploads = "https://example.com/wp-content/uploads/2024/05";
+
+const elements: ElementorElement[] = [
+  {
+    id: "c1",
+    elType: "container",
+    settings: {
+      background_background: "classic",
+      background_image: { id: 10, url: `${uploads}/bg.jpg`, source: "library" },
+    },
+    elements: [
+      {
+        id: "w1",
+        elType: "widget",
+        widgetType: "image",
+        settings: {
+          image: { id: "11", url: `${uploads}/photo.png` },
+          link: { url: "https://example.com/contact", is_external: "" },
+        },
+        elements: [],
+      },
+      {
+        id: "w2",
+        elType: "widget",
+        widgetType: "image-gallery",
+        settings: {
+          wp_gallery: [
+            { id: 12, url: `${uploads}/a.jpg` },
+            { id: 10, url: `${uploads}/bg.jpg` },
+          ],
+        },
+        elements: [],
+      },
+      {
+        id: "w3",
+        elType: "widget",
+        widgetType: "text-editor",
+        settings: { editor: `<p><img src="${uploads}/photo.png"></p>` },
+        elements: [],
+      },
+    ],
+  },
+];
+
+describe("MediaManager", () => {
+  const media = new MediaManager();
+
+  test("finds media controls in elements and page settings", () => {
+    const references = media.findReferences(elements, {
+      background_image: { id: "", url: `${uploads}/page-bg.jpg` },
+      custom_css: "",
+    });
+
+    expect(references).toEqual([
+      { id: 10, url: `${uploads}/bg.jpg`, elementId: "c1", setting: "background_image" },
+      { id: 11, url: `${uploads}/photo.png`, elementId: "w1", setting: "image" },
+      { id: 12, url: `${uploads}/a.jpg`, elementId: "w2", setting: "wp_gallery[0]" },
+      { id: 10, url: `${uploads}/bg.jpg`, elementId: "w2", setting: "wp_gallery[1]" },
+      { id: undefined, url: `${uploads}/page-bg.jpg`, elementId: undefined, setting: "background_image" },
+    ]);
+    expect(media.uniqueReferences(references).map((reference) => reference.id)).toEqual([
+      10,
+      11,
+      12,
+      undefined,
+    ]);
+  });
+
+  test("remaps ids and urls without touching the input", () => {
+    const target = "https://staging.test/wp-content/uploads/2024/06";
+    const { elements: remapped } = media.remap(elements, {}, [
+      { fromId: 10, fromUrl: `${uploads}/bg.jpg`, toId: 110, toUrl: `${target}/bg.jpg` },
+      { fromId: 11, fromUrl: `${uploads}/photo.png`, toId: 111, toUrl: `${target}/photo.png` },
+    ]);
+
+    const [container] = remapped;
+    const [image, gallery, text] = container.elements;
+    expect(container.settings.background_image).toEqual({
+      id: 110,
+      url: `${target}/bg.jpg`,
+      source: "library",
+    });
+    expect(image.settings.image).toEqual({ id: "111", url: `${target}/photo.png` });
+    expect(gallery.settings.wp_gallery).toEqual([
+      { id: 12, url: `${uploads}/a.jpg` },
+      { id: 110, url: `${target}/bg.jpg` },
+    ]);
+    expect(text.settings.editor).toBe(`<p><img src="${target}/photo.png"></p>`);
+    expect(elements[0].settings.background_image).toEqual({
+      id: 10,
+      url: `${uploads}/bg.jpg`,
+      source: "library",
+    });
+  });
+
+  test("builds file names from the url and attachment id", () => {
+    expect(media.fileName(`${uploads}/My%20Photo.jpg`, 11)).toBe("11-My_Photo.jpg");
+    expect(media.fileName(`${uploads}/logo.svg`)).toBe("logo.svg");
+  });
+});
@@ -0,0 +1,187 @@
+import type { ElementorElement, PageSettings } from "../types/elementor.js";
+import type { MediaMapping, MediaReference } from "../types/media.js";
+
+type MediaControl = { id?: unknown; url: string; [key: string]: unknown };
+
+/**
+ * MediaManager finds the attachments an element tree uses and rewrites
+ * them to other attachments (e.g. the copies uploaded to another site).
+ *
+ * A media control is any settings object with an `id` and a non-empty `url`:
+ * `image`, `background_image`, `background_overlay_image`, gallery items,
+ * SVG icons (`selected_icon.value`), video posters and so on. Controls whose
+ * id is empty only count when the url points into wp-content/uploads.
+ */
+export class MediaManager {
+  findReferences(elements: ElementorElement[], settings?: PageSettings): MediaReference[] {
+    const references: MediaReference[] = [];
+
+    const walk = (elementsToScan: ElementorElement[]) => {
+      for (const element of elementsToScan) {
+        if (element.settings && !Array.isArray(element.settings)) {
+          this.scan(element.settings, "", element.id, references);
+        }
+        walk(element.elements || []);
+      }
+    };
+
+    walk(elements);
+    if (settings && !Array.isArray(settings)) {
+      this.scan(settings, "", undefined, references);
+    }
+
+    return references;
+  }
+
+  /**
+   * Unique attachments of a reference list, by id or (without id) by url
+   */
+  uniqueReferences(references: MediaReference[]): MediaReference[] {
+    const seen = new Set<string>();
+    return references.filter((reference) => {
+      const key = reference.id !== undefined ? `id:${reference.id}` : `url:${reference.url}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+  }
+
+  /**
+   * Return copies of elements and settings with mapped attachments replaced.
+   * Media controls get the new id and url; the old url is also replaced in any
+   * other string setting (e.g. <img> tags in a text editor widget).
+   */
+  remap(
+    elements: ElementorElement[],
+    settings: PageSettings,
+    mappings: MediaMapping[]
+  ): { elements: ElementorElement[]; settings: PageSettings } {
+    const clonedElements = JSON.parse(JSON.stringify(elements)) as ElementorElement[];
+    const clonedSettings = JSON.parse(JSON.stringify(settings)) as PageSettings;
+    if (mappings.length === 0) {
+      return { elements: clonedElements, settings: clonedSettings };
+    }
+
+    const walk = (elementsToRemap: ElementorElement[]) => {
+      for (const element of elementsToRemap) {
+        if (element.settings && !Array.isArray(element.settings)) {
+          this.remapObject(element.settings, mappings);
+        }
+        walk(element.elements || []);
+      }
+    };
+
+    walk(clonedElements);
+    if (!Array.isArray(clonedSettings)) {
+      this.remapObject(clonedSettings, mappings);
+    }
+
+    return { elements: clonedElements, settings: clonedSettings };
+  }
+
+  /**
+   * File name for a downloaded attachment: "<id>-<basename>" so two uploads
+   * with the same name in different months don't collide.
+   */
+  fileName(url: string, id?: number): string {
+    let base = "file";
+    try {
+      base = decodeURIComponent(new URL(url).pathname.split("/").pop() || "file");
+    } catch {
+      base = url.split("/").pop() || "file";
+    }
+    const safe = base.replace(/[^a-zA-Z0-9._-]/g, "_");
+    return id !== undefined ? `${id}-${safe}` : safe;
+  }
+
+  private scan(
+    value: unknown,
+    path: string,
+    elementId: string | undefined,
+    references: MediaReference[]
+  ): void {
+    if (Array.isArray(value)) {
+      value.forEach((item, index) => this.scan(item, `${path}[${index}]`, elementId, references));
+      return;
+    }
+    if (!value || typeof value !== "object") {
+      return;
+    }
+
+    const control = value as Record<string, unknown>;
+    if (this.isMediaControl(control)) {
+      references.push({
+        id: this.parseId(control.id),
+        url: control.url,
+        elementId,
+        setting: path,
+      });
+      return;
+    }
+
+    for (const [key, child] of Object.entries(control)) {
+      this.scan(child, path ? `${path}.${key}` : key, elementId, references);
+    }
+  }
+
+  private remapObject(obj: Record<string, unknown>, mappings: MediaMapping[]): void {
+    for (const [key, value] of Object.entries(obj)) {
+      if (typeof value === "string") {
+        obj[key] = this.remapString(value, mappings);
+      } else if (Array.isArray(value)) {
+        value.forEach((item, index) => {
+          if (typeof item === "string") {
+            value[index] = this.remapString(item, mappings);
+          } else if (item && typeof item === "object") {
+            this.remapControlOrObject(item as Record<string, unknown>, mappings);
+          }
+        });
+      } else if (value && typeof value === "object") {
+        this.remapControlOrObject(value as Record<string, unknown>, mappings);
+      }
+    }
+  }
+
+  private remapControlOrObject(obj: Record<string, unknown>, mappings: MediaMapping[]): void {
+    if (!this.isMediaControl(obj)) {
+      this.remapObject(obj, mappings);
+      return;
+    }
+
+    const id = this.parseId(obj.id);
+    const mapping = mappings.find((candidate) =>
+      id !== undefined && candidate.fromId !== undefined
+        ? candidate.fromId === id
+        : candidate.fromUrl === obj.url
+    );
+    if (!mapping) {
+      return;
+    }
+
+    // Keep the id's type: Elementor stores it as a number or a numeric string
+    obj.id = typeof obj.id === "string" ? String(mapping.toId) : mapping.toId;
+    obj.url = mapping.toUrl;
+  }
+
+  private remapString(value: string, mappings: MediaMapping[]): string {
+    let result = value;
+    for (const mapping of mappings) {
+      if (result.includes(mapping.fromUrl)) {
+        result = result.split(mapping.fromUrl).join(mapping.toUrl);
+      }
+    }
+    return result;
+  }
+
+  private isMediaControl(obj: Record<string, unknown>): obj is MediaControl {
+    if (!("id" in obj) || typeof obj.url !== "string" || obj.url === "") {
+      return false;
+    }
+    return this.parseId(obj.id) !== undefined || obj.url.includes("/wp-content/uploads/");
+  }
+
+  private parseId(value: unknown): number | undefined {
+    const id = typeof value === "number" ? value : Number.parseInt(String(value ?? ""), 10);
+    return Number.isInteger(id) && id > 0 ? id : undefined;
+  }
+}
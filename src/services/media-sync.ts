@@ -0,0 +1,240 @@
+import { mkdir } from "node:fs/promises";
+import type { ElementorElement, PageSettings } from "../types/elementor.js";
+import type { MediaEntry, MediaMapping, MediaReference } from "../types/media.js";
+import type { LocalStore } from "./local-store.js";
+import type { WordPressClient } from "./wordpress-client.js";
+import type { DockerManager } from "./docker-manager.js";
+import { MediaManager } from "./media-manager.js";
+
+export interface MediaDownloadResult {
+  downloaded: number;
+  existing: number;
+  failed: Array<{ reference: MediaReference; error: string }>;
+}
+
+export interface MediaUploadResult {
+  mappings: MediaMapping[];
+  uploaded: number;
+  reused: number;
+  failed: Array<{ entry: MediaEntry; error: string }>;
+}
+
+/** Uploads one downloaded file to a target and returns the new attachment */
+export type MediaUploader = (entry: MediaEntry, path: string) => Promise<{ id: number; url: string }>;
+
+/**
+ * MediaSync keeps copies of the attachments a page uses next to the page
+ * (media/ and media.json) and uploads them to other targets: another site
+ * through /wp/v2/media, or staging through DockerManager.
+ *
+ * Uploads are recorded per target in media.json, so each file is uploaded
+ * to a target only once.
+ */
+export class MediaSync {
+  private store: LocalStore;
+  private media = new MediaManager();
+
+  constructor(store: LocalStore) {
+    this.store = store;
+  }
+
+  /**
+   * Download every attachment the page references that is not stored yet
+   */
+  async download(
+    client: WordPressClient,
+    siteName: string,
+    pageId: number,
+    elements: ElementorElement[],
+    settings: PageSettings
+  ): Promise<MediaDownloadResult> {
+    const result: MediaDownloadResult = { downloaded: 0, existing: 0, failed: [] };
+    const references = this.media.uniqueReferences(this.media.findReferences(elements, settings));
+    if (references.length === 0) {
+      return result;
+    }
+
+    const mediaDir = this.store.getMediaDir(siteName, pageId);
+    const manifest = await this.store.loadMediaManifest(siteName, pageId);
+    await mkdir(mediaDir, { recursive: true });
+
+    for (const reference of references) {
+      const known = manifest.items.find(
+        (entry) => entry.site === siteName && this.matches(entry, reference)
+      );
+      if (known && (await Bun.file(`${mediaDir}/${known.file}`).exists())) {
+        result.existing++;
+        continue;
+      }
+
+      try {
+        const details = reference.id !== undefined ? await client.getMedia(reference.id) : null;
+        const sourceUrl = details?.source_url || reference.url;
+        const { data, mimeType } = await client.downloadMedia(sourceUrl);
+        const file = this.media.fileName(sourceUrl, reference.id);
+        await Bun.write(`${mediaDir}/${file}`, data);
+
+        const entry: MediaEntry = {
+          id: reference.id,
+          url: reference.url,
+          file,
+          site: siteName,
+          mime_type: details?.mime_type || mimeType,
+          title: details ? details.title.raw ?? details.title.rendered : undefined,
+          alt: details?.alt_text || undefined,
+        };
+        manifest.items = manifest.items.filter((item) => item !== known);
+        manifest.items.push(entry);
+        result.downloaded++;
+      } catch (error) {
+        result.failed.push({
+          reference,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    await this.store.saveMediaManifest(siteName, pageId, manifest);
+    return result;
+  }
+
+  /**
+   * Downloaded attachments the page still references that came from a site
+   * other than `target` and have not been uploaded to it yet
+   */
+  async pending(
+    siteName: string,
+    pageId: number,
+    target: string,
+    elements: ElementorElement[],
+    settings: PageSettings
+  ): Promise<MediaEntry[]> {
+    const entries = await this.referencedEntries(siteName, pageId, target, elements, settings);
+    return entries.filter((entry) => !entry.targets?.[target]);
+  }
+
+  /**
+   * Mappings for attachments that were already uploaded to `target`,
+   * e.g. to preview a remapped tree without uploading anything
+   */
+  async knownMappings(
+    siteName: string,
+    pageId: number,
+    target: string,
+    elements: ElementorElement[],
+    settings: PageSettings
+  ): Promise<MediaMapping[]> {
+    const entries = await this.referencedEntries(siteName, pageId, target, elements, settings);
+    return entries.flatMap((entry) => {
+      const uploaded = entry.targets?.[target];
+      return uploaded
+        ? [{ fromId: entry.id, fromUrl: entry.url, toId: uploaded.id, toUrl: uploaded.url }]
+        : [];
+    });
+  }
+
+  /**
+   * Upload the page's attachments to `target` (a site name or "staging") and
+   * return the mappings to apply with MediaManager.remap()
+   */
+  async upload(
+    siteName: string,
+    pageId: number,
+    target: string,
+    elements: ElementorElement[],
+    settings: PageSettings,
+    uploader: MediaUploader
+  ): Promise<MediaUploadResult> {
+    const result: MediaUploadResult = { mappings: [], uploaded: 0, reused: 0, failed: [] };
+    const manifest = await this.store.loadMediaManifest(siteName, pageId);
+    const entries = await this.referencedEntries(siteName, pageId, target, elements, settings, manifest);
+    if (entries.length === 0) {
+      return result;
+    }
+
+    const mediaDir = this.store.getMediaDir(siteName, pageId);
+    for (const entry of entries) {
+      let uploaded = entry.targets?.[target];
+
+      if (uploaded) {
+        result.reused++;
+      } else {
+        try {
+          uploaded = await uploader(entry, `${mediaDir}/${entry.file}`);
+          entry.targets = { ...entry.targets, [target]: uploaded };
+          result.uploaded++;
+        } catch (error) {
+          result.failed.push({
+            entry,
+            error: error instanceof Error ? error.message : String(error),
+          });
+          continue;
+        }
+      }
+
+      result.mappings.push({
+        fromId: entry.id,
+        fromUrl: entry.url,
+        toId: uploaded.id,
+        toUrl: uploaded.url,
+      });
+    }
+
+    if (result.uploaded > 0) {
+      await this.store.saveMediaManifest(siteName, pageId, manifest);
+    }
+    return result;
+  }
+
+  private async referencedEntries(
+    siteName: string,
+    pageId: number,
+    target: string,
+    elements: ElementorElement[],
+    settings: PageSettings,
+    manifest?: { items: MediaEntry[] }
+  ): Promise<MediaEntry[]> {
+    const { items } = manifest ?? (await this.store.loadMediaManifest(siteName, pageId));
+    const references = this.media.findReferences(elements, settings);
+    return items.filter(
+      (entry) =>
+        entry.site !== target && references.some((reference) => this.matches(entry, reference))
+    );
+  }
+
+  /**
+   * Ids alone are not enough: after a remap the page may use an attachment
+   * of another site that happens to have the same id
+   */
+  private matches(entry: MediaEntry, reference: MediaReference): boolean {
+    if (entry.url !== reference.url) return false;
+    return entry.id === undefined || reference.id === undefined || entry.id === reference.id;
+  }
+}
+
+// Upload under the original name, not the "<id>-" prefixed local file name
+function originalName(entry: MediaEntry): string {
+  return new MediaManager().fileName(entry.url);
+}
+
+/** Upload to a WordPress site through /wp/v2/media */
+export function wordpressUploader(client: WordPressClient): MediaUploader {
+  return async (entry, path) => {
+    const file = Bun.file(path);
+    const uploaded = await client.uploadMedia(
+      {
+        name: originalName(entry),
+        data: await file.arrayBuffer(),
+        mimeType: entry.mime_type || file.type,
+      },
+      { title: entry.title, alt: entry.alt }
+    );
+    return { id: uploaded.id, url: uploaded.source_url };
+  };
+}
+
+/** Import into the staging environment with WP-CLI */
+export function stagingUploader(docker: DockerManager): MediaUploader {
+  return (entry, path) =>
+    docker.importMedia(path, { name: originalName(entry), title: entry.title, alt: entry.alt });
+}
@@ -0,0 +1,178 @@
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { OperationJournal } from "./operation-journal.js";
+import { WPNotFoundError } from "./wordpress-errors.js";
+import type { WordPressClient } from "./wordpress-client.js";
+import type { WPPage } from "../types/wordpress.js";
+
+function wpPage(id: number, title: string, data: string): WPPage {
+  return {
+    id,
+    type: "page",
+    slug: title.toLowerCase(),
+    status: "publish",
+    title: { rendered: title, raw: title },
+    modified: "2024-01-01T00:00:00",
+    meta: {
+      _elementor_edit_mode: "builder",
+      _elementor_data: data,
+      _elementor_page_settings: { hide_title: "yes" } as unknown as string,
+    },
+  } as WPPage;
+}
+
+/**
+ * In-memory site recording the writes made to it
+ */
+function fakeClient(pages: Map<number, WPPage>) {
+  const calls: string[] = [];
+  const client = {
+    async getPage(id: number) {
+      const page = pages.get(id);
+      if (!page) throw new WPNotFoundError(`No page ${id}`, { status: 404 });
+      return page;
+    },
+    async replacePage(
+      id: number,
+      data: {
+        title: string;
+        template: string;
+        elementorData: string;
+        pageSettings: Record<string, unknown>;
+        editMode: string;
+      }
+    ) {
+      calls.push(`update ${id} ${data.elementorData}`);
+      const page = wpPage(id, data.title, data.elementorData);
+      page.template = data.template;
+      page.meta = {
+        _elementor_edit_mode: data.editMode || undefined,
+        _elementor_data: data.elementorData || undefined,
+        _elementor_page_settings: data.pageSettings as unknown as string,
+      };
+      pages.set(id, page);
+      return page;
+    },
+    async createPage(data: { title: string; elementorData: string }) {
+      calls.push(`create ${data.title} ${data.elementorData}`);
+      const page = wpPage(100, data.title, data.elementorData);
+      pages.set(100, page);
+      return page;
+    },
+    async deletePage(id: number, force: boolean) {
+      calls.push(`delete ${id} force=${force}`);
+      pages.delete(id);
+    },
+    async invalidateCss() {},
+  };
+  return { client: client as unknown as WordPressClient, calls };
+}
+
+describe("OperationJournal", () => {
+  let dir: string;
+  let journal: OperationJournal;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "journal-"));
+    journal = new OperationJournal("production", dir);
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  test("records operations only once a page is written", async () => {
+    await journal.begin("push", "Nothing to push").flush();
+    expect(await journal.list()).toEqual([]);
+
+    const recorder = journal.begin("search-replace", '"old" → "new"');
+    await Promise.all([
+      recorder.record(wpPage(1, "Home", '[{"id":"a"}]')),
+      recorder.record(wpPage(2, "About", "[]")),
+    ]);
+
+    const [operation] = await journal.list();
+    expect(operation.id).toBe(recorder.operation.id);
+    expect(operation.pages.map((page) => [page.id, page.title, page.elementor_data])).toEqual([
+      [1, "Home", '[{"id":"a"}]'],
+      [2, "About", "[]"],
+    ]);
+    expect(operation.pages[0].page_settings).toEqual({ hide_title: "yes" });
+    expect(await journal.get(operation.id.slice(0, 10))).toEqual(operation);
+    expect(await journal.latest()).toEqual(operation);
+  });
+
+  test("undo restores updated pages, recreates deleted ones and is journaled", async () => {
+    const pages = new Map([[1, wpPage(1, "Home", "[old]")]]);
+    const { client, calls } = fakeClient(pages);
+
+    const recorder = journal.begin("search-replace", "test");
+    await recorder.record(wpPage(1, "Home", "[old]"));
+    await recorder.record(wpPage(2, "Contact", "[contact]"), "delete");
+    pages.set(1, wpPage(1, "Home", "[new]"));
+
+    const { undo, steps } = await journal.undo(client, recorder.operation);
+
+    expect(calls).toEqual([
+      "create Contact [contact]",
+      "update 100 [contact]",
+      "update 1 [old]",
+    ]);
+    expect(steps.map((step) => [step.page.id, step.restoredId, step.error])).toEqual([
+      [2, 100, undefined],
+      [1, 1, undefined],
+    ]);
+    expect(undo.undoes).toBe(recorder.operation.id);
+    expect(undo.pages.map((page) => [page.id, page.action, page.elementor_data])).toEqual([
+      [100, "create", "[contact]"],
+      [1, "update", "[new]"],
+    ]);
+    expect((await journal.get(recorder.operation.id))?.undone_by).toBe(undo.id);
+    // Undos are skipped when picking the latest operation
+    expect(await journal.latest()).toBeNull();
+
+    // Undoing the undo trashes the recreated page and puts the change back
+    calls.length = 0;
+    await journal.undo(client, undo);
+    expect(calls).toEqual(["update 1 [new]", "delete 100 force=false"]);
+  });
+
+  test("undo restores empty settings, the default template and pages without Elementor", async () => {
+    const before = wpPage(1, "Home", "");
+    before.meta = {};
+    const after = wpPage(1, "Home", "[new]");
+    after.template = "elementor_canvas";
+    const pages = new Map([[1, after]]);
+    const { client } = fakeClient(pages);
+
+    const recorder = journal.begin("push", "test");
+    await recorder.record(before);
+    await journal.undo(client, recorder.operation);
+
+    const restored = pages.get(1);
+    expect(restored?.template).toBe("");
+    expect(restored?.meta._elementor_edit_mode).toBeUndefined();
+    expect(restored?.meta._elementor_data).toBeUndefined();
+    expect(restored?.meta._elementor_page_settings as unknown).toEqual({});
+  });
+
+  test("older operations on a recreated page follow its new id", async () => {
+    const pages = new Map<number, WPPage>();
+    const { client, calls } = fakeClient(pages);
+
+    const edit = journal.begin("push", "edit");
+    await edit.record(wpPage(2, "Contact", "[v1]"));
+    const removal = journal.begin("pages delete", "delete");
+    await removal.record(wpPage(2, "Contact", "[v2]"), "delete");
+
+    await journal.undo(client, removal.operation);
+    const { steps } = await journal.undo(client, edit.operation);
+
+    expect(calls).toEqual(["create Contact [v2]", "update 100 [v2]", "update 100 [v1]"]);
+    expect(steps[0].restoredId).toBe(100);
+    expect(steps[0].recreated).toBe(false);
+    expect((await journal.get(removal.operation.id))?.pages[0].recreated_as).toBe(100);
+  });
+});
@@ -0,0 +1,293 @@
+import { mkdir, readdir } from "node:fs/promises";
+import type { PageSettings, PageStatus, PostType } from "../types/elementor.js";
+import type { WPPage } from "../types/wordpress.js";
+import { ElementorParser } from "./elementor-parser.js";
+import type { WordPressClient } from "./wordpress-client.js";
+import { WPNotFoundError } from "./wordpress-errors.js";
+
+const JOURNAL_DIR = ".elementor-cli/journal";
+
+/**
+ * What an operation did to a page: changed it, deleted it or created it
+ */
+export type JournalAction = "update" | "delete" | "create";
+
+/**
+ * A page as it was right before an operation wrote to it
+ */
+export interface JournalPage {
+  id: number;
+  post_type: PostType;
+  action: JournalAction;
+  title: string;
+  slug: string;
+  status: PageStatus;
+  template?: string;
+  edit_mode?: string;
+  elementor_data: string; // _elementor_data exactly as stored
+  page_settings: PageSettings;
+  modified: string;
+  recreated_as?: number; // Set when an undo had to recreate the deleted page
+}
+
+/**
+ * One command run that wrote to a site, with the previous state of every
+ * page it touched
+ */
+export interface JournalOperation {
+  id: string;
+  site: string;
+  command: string;
+  description: string;
+  created_at: string;
+  pages: JournalPage[];
+  undoes?: string; // Set on operations created by `undo`
+  undone_by?: string;
+}
+
+export interface UndoStep {
+  page: JournalPage;
+  restoredId?: number; // Id of the page now; differs from page.id after a recreation
+  recreated?: boolean; // The deleted page was gone for good and was created again
+  error?: string;
+}
+
+/**
+ * OperationJournal keeps a local record of remote writes under
+ * .elementor-cli/journal/<site>/, so an operation can be undone even on
+ * sites where WordPress revisions are disabled.
+ */
+export class OperationJournal {
+  private dir: string;
+  private parser = new ElementorParser();
+
+  constructor(
+    private siteName: string,
+    dir?: string
+  ) {
+    this.dir = `${dir || `${process.cwd()}/${JOURNAL_DIR}`}/${siteName}`;
+  }
+
+  /**
+   * Start recording an operation. Nothing is written until the first page
+   * is recorded.
+   */
+  begin(command: string, description: string): JournalRecorder {
+    const createdAt = new Date().toISOString();
+    const id = `${createdAt.replace(/[-:]/g, "").slice(0, 15)}-${Math.random().toString(16).slice(2, 6)}`;
+    return new JournalRecorder(this, {
+      id,
+      site: this.siteName,
+      command,
+      description,
+      created_at: createdAt,
+      pages: [],
+    });
+  }
+
+  /**
+   * Operations on this site, newest first
+   */
+  async list(): Promise<JournalOperation[]> {
+    let files: string[];
+    try {
+      files = await readdir(this.dir);
+    } catch {
+      return [];
+    }
+
+    const operations: JournalOperation[] = [];
+    for (const file of files.filter((name) => name.endsWith(".json"))) {
+      operations.push((await Bun.file(`${this.dir}/${file}`).json()) as JournalOperation);
+    }
+    return operations.sort((a, b) => b.created_at.localeCompare(a.created_at));
+  }
+
+  /**
+   * Find an operation by id or a unique prefix of it
+   */
+  async get(id: string): Promise<JournalOperation | null> {
+    const matches = (await this.list()).filter((operation) => operation.id.startsWith(id));
+    if (matches.length > 1 && !matches.some((operation) => operation.id === id)) {
+      throw new Error(`Operation id '${id}' is ambiguous (${matches.length} matches)`);
+    }
+    return matches.find((operation) => operation.id === id) || matches[0] || null;
+  }
+
+  /**
+   * The most recent operation that hasn't been undone and isn't an undo itself
+   */
+  async latest(): Promise<JournalOperation | null> {
+    return (await this.list()).find((operation) => !operation.undone_by && !operation.undoes) || null;
+  }
+
+  async save(operation: JournalOperation): Promise<void> {
+    await mkdir(this.dir, { recursive: true });
+    await Bun.write(`${this.dir}/${operation.id}.json`, JSON.stringify(operation, null, 2));
+  }
+
+  /**
+   * Put every page of an operation back the way it was, in reverse order.
+   * The undo is journaled itself, so it can be undone too. The operation is
+   * only marked as undone if every page was restored.
+   */
+  async undo(
+    client: WordPressClient,
+    operation: JournalOperation,
+    options: { onStep?: (page: JournalPage) => void } = {}
+  ): Promise<{ undo: JournalOperation; steps: UndoStep[] }> {
+    const recorder = this.begin("undo", `Undo ${operation.id} (${operation.command})`);
+    recorder.operation.undoes = operation.id;
+    const aliases = this.aliases(await this.list());
+    const steps: UndoStep[] = [];
+
+    for (const page of [...operation.pages].reverse()) {
+      options.onStep?.(page);
+      try {
+        const id = this.resolveId(aliases, page);
+        const restoredId = await this.restorePage(client, { ...page, id }, recorder);
+        const recreated = page.action === "delete" && restoredId !== id;
+        if (recreated) {
+          page.recreated_as = restoredId;
+        }
+        steps.push({ page, restoredId, recreated });
+      } catch (error) {
+        steps.push({ page, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+
+    await recorder.flush();
+    if (steps.every((step) => !step.error)) {
+      operation.undone_by = recorder.operation.id;
+    }
+    await this.save(operation);
+    return { undo: recorder.operation, steps };
+  }
+
+  /**
+   * Pages recreated under a new id, so older operations on them can still
+   * be undone
+   */
+  private aliases(operations: JournalOperation[]): Map<string, number> {
+    const aliases = new Map<string, number>();
+    for (const operation of operations) {
+      for (const page of operation.pages) {
+        if (page.recreated_as !== undefined) {
+          aliases.set(`${page.post_type}:${page.id}`, page.recreated_as);
+        }
+      }
+    }
+    return aliases;
+  }
+
+  private resolveId(aliases: Map<string, number>, page: JournalPage): number {
+    let id = page.id;
+    const seen = new Set([id]);
+    let next = aliases.get(`${page.post_type}:${id}`);
+    while (next !== undefined && !seen.has(next)) {
+      seen.add(next);
+      id = next;
+      next = aliases.get(`${page.post_type}:${id}`);
+    }
+    return id;
+  }
+
+  private async restorePage(
+    client: WordPressClient,
+    page: JournalPage,
+    recorder: JournalRecorder
+  ): Promise<number> {
+    // Sent as recorded, so empty settings, the default template and pages
+    // that didn't use Elementor come back too
+    const data = {
+      title: page.title,
+      slug: page.slug,
+      status: page.status,
+      template: page.template || "",
+      elementorData: page.elementor_data,
+      pageSettings: page.page_settings,
+      editMode: page.edit_mode || "",
+    };
+
+    if (page.action === "create") {
+      // Created by the operation: move it to the trash
+      await recorder.record(await client.getPage(page.id, page.post_type), "delete");
+      await client.deletePage(page.id, false, page.post_type);
+      return page.id;
+    }
+
+    let current: WPPage | null = null;
+    try {
+      current = await client.getPage(page.id, page.post_type);
+    } catch (error) {
+      if (!(error instanceof WPNotFoundError) || page.action !== "delete") throw error;
+    }
+
+    if (current) {
+      // Updated, or deleted to the trash (restoring the status takes it out)
+      await recorder.record(current, "update");
+      await client.replacePage(page.id, data, page.post_type);
+      await client.invalidateCss(page.id, page.post_type);
+      return page.id;
+    }
+
+    // Permanently deleted: recreate it under a new id, then write the
+    // recorded meta createPage leaves out
+    const created = await client.createPage(data, page.post_type);
+    await recorder.record(created, "create");
+    await client.replacePage(created.id, data, page.post_type);
+    return created.id;
+  }
+
+  /**
+   * Previous state of a page as a journal entry
+   */
+  snapshot(page: WPPage, action: JournalAction): JournalPage {
+    const data = this.parser.parseWPPage(page);
+    const elementorData = page.meta?._elementor_data;
+    return {
+      id: page.id,
+      post_type: page.type || "page",
+      action,
+      title: data.title,
+      slug: data.slug,
+      status: data.status,
+      template: data.template || undefined,
+      edit_mode: page.meta?._elementor_edit_mode,
+      elementor_data: typeof elementorData === "string" ? elementorData : "",
+      page_settings: data.page_settings,
+      modified: page.modified,
+    };
+  }
+}
+
+/**
+ * Records the pages one operation writes to. Pages can be recorded
+ * concurrently (bulk push); the journal file is rewritten after each one.
+ */
+export class JournalRecorder {
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(
+    private journal: OperationJournal,
+    readonly operation: JournalOperation
+  ) {}
+
+  /**
+   * Call before writing to the page (or after creating it, with "create")
+   */
+  async record(page: WPPage, action: JournalAction = "update"): Promise<void> {
+    this.operation.pages.push(this.journal.snapshot(page, action));
+    await this.flush();
+  }
+
+  /**
+   * Wait for pending writes; a recorder without pages writes nothing
+   */
+  async flush(): Promise<void> {
+    if (this.operation.pages.length > 0) {
+      this.writes = this.writes.then(() => this.journal.save(this.operation));
+    }
+    await this.writes;
+  }
+}
@@ -0,0 +1,68 @@
+import { describe, test, expect } from "bun:test";
+import { PageDiff } from "./page-diff.js";
+import type { LocalPageData } from "./local-store.js";
+import type { PageData } from "../types/elementor.js";
+
+const remote: PageData = {
+  id: 42,
+  title: "Home",
+  slug: "home",
+  status: "publish",
+  elementor_data: [
+    { id: "h1", elType: "widget", widgetType: "heading", settings: { title: "Hello" }, elements: [] },
+  ],
+  page_settings: { hide_title: "yes" },
+};
+
+function local(changes: Partial<PageData>): LocalPageData {
+  const page = { ...remote, ...changes };
+  return {
+    page,
+    elements: page.elementor_data,
+    settings: page.page_settings,
+    meta: { title: page.title, slug: page.slug, status: page.status },
+  };
+}
+
+describe("PageDiff", () => {
+  const differ = new PageDiff();
+
+  test("reports no changes for an unchanged page", () => {
+    const report = differ.compare({ site: "production", postType: "page" }, local({}), remote);
+    expect(report.hasChanges).toBe(false);
+    expect(report.settings).toEqual([]);
+    expect(report.meta).toEqual([]);
+  });
+
+  test("ignores the key order of nested page settings", () => {
+    const page = { ...remote, page_settings: { background_image: { url: "bg.jpg", id: 7 } } };
+    const report = differ.compare(
+      { site: "production", postType: "page" },
+      local({ page_settings: { background_image: { id: 7, url: "bg.jpg" } } }),
+      page
+    );
+    expect(report.settings).toEqual([]);
+    expect(report.hasChanges).toBe(false);
+  });
+
+  test("reports element, setting and meta changes", () => {
+    const report = differ.compare(
+      { site: "production", postType: "page" },
+      local({
+        title: "Welcome",
+        page_settings: {},
+        elementor_data: [
+          { id: "h1", elType: "widget", widgetType: "heading", settings: { title: "Hi" }, elements: [] },
+        ],
+      }),
+      remote
+    );
+
+    expect(report.pageId).toBe(42);
+    expect(report.site).toBe("production");
+    expect(report.hasChanges).toBe(true);
+    expect(report.meta).toEqual([{ key: "title", local: "Welcome", remote: "Home" }]);
+    expect(report.settings).toEqual([{ key: "hide_title", local: undefined, remote: "yes" }]);
+    expect(report.elements.changes.map((change) => change.id)).toEqual(["h1"]);
+  });
+});
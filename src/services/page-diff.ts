@@ -0,0 +1,75 @@
+import type { PageData, PostType } from "../types/elementor.js";
+import { ElementorParser, type ElementDiff } from "./elementor-parser.js";
+import { isEqual } from "../utils/equality.js";
+import { hasElementChanges } from "../utils/diff-format.js";
+import type { LocalPageData } from "./local-store.js";
+
+export interface SettingChange {
+  key: string;
+  local: unknown;
+  remote: unknown;
+}
+
+/**
+ * Report of `diff --format json` and the studio's GET /api/pages/:id/diff
+ */
+export interface PageDiffReport {
+  pageId: number;
+  site: string;
+  postType: PostType;
+  hasChanges: boolean;
+  elements: ElementDiff;
+  settings: SettingChange[];
+  meta: SettingChange[];
+}
+
+/**
+ * PageDiff compares a local page with its remote version: elements, page
+ * settings and meta (title, slug, status)
+ */
+export class PageDiff {
+  private parser = new ElementorParser();
+
+  compare(
+    context: { site: string; postType: PostType },
+    local: LocalPageData,
+    remote: PageData
+  ): PageDiffReport {
+    const elements = this.parser.diffElements(local.elements, remote.elementor_data);
+    const settings = compareSettings(local.settings, remote.page_settings);
+    const meta = compareSettings(local.meta, {
+      title: remote.title,
+      slug: remote.slug,
+      status: remote.status,
+    });
+
+    return {
+      pageId: remote.id,
+      site: context.site,
+      postType: context.postType,
+      hasChanges: hasElementChanges(elements) || settings.length > 0 || meta.length > 0,
+      elements,
+      settings,
+      meta,
+    };
+  }
+}
+
+function compareSettings(
+  local: Record<string, unknown>,
+  remote: Record<string, unknown>
+): SettingChange[] {
+  const changes: SettingChange[] = [];
+  const allKeys = new Set([...Object.keys(local), ...Object.keys(remote)]);
+
+  for (const key of allKeys) {
+    const localVal = local[key];
+    const remoteVal = remote[key];
+
+    if (!isEqual(localVal, remoteVal)) {
+      changes.push({ key, local: localVal, remote: remoteVal });
+    }
+  }
+
+  return changes;
+}
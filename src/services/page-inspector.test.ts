@@ -0,0 +1,83 @@
+import { describe, test, expect } from "bun:test";
+import { PageInspector } from "./page-inspector.js";
+import type { WPPage } from "../types/wordpress.js";
+
+function wpPage(meta: WPPage["meta"], modified = "2026-10-19T10:00:00"): WPPage {
+  return {
+    id: 42,
+    title: { rendered: "Home" },
+    modified,
+    meta: { _elementor_edit_mode: "builder", ...meta },
+  } as WPPage;
+}
+
+const elements = JSON.stringify([
+  {
+    id: "abc1234567",
+    elType: "container",
+    settings: { background_image: { url: "https://staging.test/bg.jpg" } },
+    elements: [
+      {
+        id: "def5678",
+        elType: "widget",
+        widgetType: "button",
+        settings: { link: { url: "https://example.com/contact" } },
+        elements: [],
+      },
+    ],
+  },
+]);
+
+describe("PageInspector", () => {
+  const inspector = new PageInspector("https://example.com");
+
+  test("audit reports URLs on other hosts and stale CSS", async () => {
+    const page = wpPage({
+      _elementor_data: elements,
+      _elementor_css: { status: "file", time: Date.parse("2026-10-18T10:00:00Z") / 1000 },
+    });
+
+    const { result, title, assetCount } = await inspector.audit(page);
+
+    expect(title).toBe("Home");
+    expect(assetCount).toBe(1);
+    expect(result.urlMismatches).toEqual([
+      {
+        location: "container[abc1234].background_image.url",
+        url: "https://staging.test/bg.jpg",
+        expectedHost: "example.com",
+        actualHost: "staging.test",
+      },
+    ]);
+    expect(result.missingAssets).toEqual([]);
+    expect(result.cssStatus?.isStale).toBe(true);
+    expect(result.cssStatus?.status).toBe("file");
+  });
+
+  test("audit can be scoped with a selector", async () => {
+    const { result, assetCount } = await inspector.audit(wpPage({ _elementor_data: elements }), {
+      select: "widget[button]",
+    });
+    expect(result.urlMismatches).toEqual([]);
+    expect(assetCount).toBe(0);
+    expect(result.cssStatus).toEqual({ isStale: true, status: "not_generated" });
+  });
+
+  test("status counts elements and URL hosts", () => {
+    const result = inspector.status(
+      wpPage({
+        _elementor_data: elements,
+        _elementor_page_settings: JSON.stringify({ link: "https://example.com/" }),
+      })
+    );
+
+    expect(result.pageId).toBe(42);
+    expect(result.data.elementCount).toBe(2);
+    expect(result.css).toEqual({ status: "not_generated", generatedAt: undefined, isStale: true });
+    expect(result.urls).toEqual([
+      { host: "example.com", count: 2, matches: true },
+      { host: "staging.test", count: 1, matches: false },
+    ]);
+    expect(result.siteUrl).toBe("https://example.com");
+  });
+});
@@ -0,0 +1,406 @@
+import type { ElementorElement } from "../types/elementor.js";
+import type { WPPage } from "../types/wordpress.js";
+import { ElementQuery } from "./element-query.js";
+
+export interface UrlMismatch {
+  location: string;
+  url: string;
+  expectedHost: string;
+  actualHost: string;
+}
+
+export interface MissingAsset {
+  location: string;
+  url: string;
+  error: string;
+}
+
+export interface CssStatus {
+  isStale: boolean;
+  cssTimestamp?: string;
+  dataTimestamp?: string;
+  status?: string;
+}
+
+/**
+ * Report of `audit --json` and the studio's GET /api/pages/:id/audit
+ */
+export interface AuditResult {
+  urlMismatches: UrlMismatch[];
+  missingAssets: MissingAsset[];
+  cssStatus: CssStatus | null;
+}
+
+export interface AuditOptions {
+  checkAssets?: boolean; // HEAD-request every asset URL
+  select?: string; // Only check elements matching a selector
+}
+
+export interface UrlCount {
+  host: string;
+  count: number;
+  matches: boolean;
+}
+
+/**
+ * Report of `status --json` and the studio's GET /api/pages/:id/status
+ */
+export interface StatusResult {
+  pageId: number;
+  title: string;
+  css: {
+    status: string;
+    generatedAt?: string;
+    version?: string | number;
+    isStale: boolean;
+  };
+  data: {
+    lastModified: string;
+    elementCount: number;
+  };
+  urls: UrlCount[];
+  siteUrl: string;
+}
+
+interface CssMetadata {
+  status?: string;
+  time?: number;
+  fonts?: string[];
+  icons?: string[];
+}
+
+const ASSET_EXTENSIONS = [
+  ".jpg",
+  ".jpeg",
+  ".png",
+  ".gif",
+  ".svg",
+  ".webp",
+  ".ico",
+  ".pdf",
+  ".mp4",
+  ".webm",
+  ".mp3",
+  ".wav",
+  ".woff",
+  ".woff2",
+  ".ttf",
+  ".eot",
+];
+
+/**
+ * PageInspector builds the `audit` and `status` reports of a remote page:
+ * URLs pointing to other hosts, unreachable assets and the state of
+ * Elementor's CSS cache. Shared by the CLI and the studio.
+ */
+export class PageInspector {
+  private siteHost: string;
+
+  constructor(private siteUrl: string) {
+    this.siteHost = parseHost(siteUrl);
+  }
+
+  /**
+   * Audit an Elementor page. Returns the report, the page title and the
+   * number of asset URLs found (checked or not).
+   */
+  async audit(
+    page: WPPage,
+    options: AuditOptions = {}
+  ): Promise<{ result: AuditResult; title: string; assetCount: number }> {
+    // Parse Elementor data
+    let elements: ElementorElement[] = [];
+    if (page.meta?._elementor_data) {
+      try {
+        elements = JSON.parse(page.meta._elementor_data);
+      } catch {
+        throw new Error("Failed to parse Elementor data.");
+      }
+    }
+
+    // Extract all URLs from elements (only the matched ones with a selector)
+    const scoped = options.select
+      ? new ElementQuery()
+          .select(elements, options.select)
+          .map(({ element }) => ({ ...element, elements: [] }))
+      : elements;
+    const allUrls = extractUrlsFromElements(scoped);
+
+    // Also extract from page settings
+    if (!options.select) {
+      allUrls.push(...extractUrls(parsePageSettings(page), "page_settings"));
+    }
+
+    // Deduplicate URLs
+    const seenUrls = new Set<string>();
+    const uniqueUrls = allUrls.filter(({ url }) => {
+      if (seenUrls.has(url)) return false;
+      seenUrls.add(url);
+      return true;
+    });
+
+    const result: AuditResult = {
+      urlMismatches: [],
+      missingAssets: [],
+      cssStatus: this.auditCss(page),
+    };
+
+    // Check for URL mismatches
+    for (const { location, url } of uniqueUrls) {
+      const urlHost = parseHost(url);
+      if (urlHost && urlHost !== this.siteHost) {
+        result.urlMismatches.push({
+          location,
+          url,
+          expectedHost: this.siteHost,
+          actualHost: urlHost,
+        });
+      }
+    }
+
+    const assetUrls = uniqueUrls.filter(({ url }) => isAssetUrl(url));
+
+    // Check asset accessibility if requested
+    if (options.checkAssets) {
+      for (const { location, url } of assetUrls) {
+        const { accessible, error } = await checkAssetAccessibility(url);
+        if (!accessible) {
+          result.missingAssets.push({
+            location,
+            url,
+            error: error || "Unknown error",
+          });
+        }
+      }
+    }
+
+    return { result, title: pageTitle(page), assetCount: assetUrls.length };
+  }
+
+  /**
+   * CSS cache state and URL hosts of an Elementor page
+   */
+  status(page: WPPage): StatusResult {
+    // Parse CSS metadata
+    let cssStatus = "not_generated";
+    let cssGeneratedAt: string | undefined;
+    let cssTime: number | undefined;
+
+    const cssMetaRaw = page.meta?._elementor_css;
+    if (cssMetaRaw) {
+      try {
+        const cssMeta: CssMetadata =
+          typeof cssMetaRaw === "string" ? JSON.parse(cssMetaRaw) : cssMetaRaw;
+        cssStatus = cssMeta.status || "unknown";
+        cssTime = cssMeta.time;
+        if (cssTime) {
+          cssGeneratedAt = new Date(cssTime * 1000).toISOString();
+        }
+      } catch {
+        cssStatus = "parse_error";
+      }
+    }
+
+    // Parse Elementor data
+    let elements: ElementorElement[] = [];
+    if (page.meta?._elementor_data) {
+      try {
+        elements = JSON.parse(page.meta._elementor_data);
+      } catch {
+        // Ignore parse errors
+      }
+    }
+
+    // Extract URLs, also from page settings
+    const allUrls = extractUrls(page.meta?._elementor_data || "").map(({ url }) => url);
+    if (page.meta?._elementor_page_settings) {
+      const settingsData =
+        typeof page.meta._elementor_page_settings === "string"
+          ? page.meta._elementor_page_settings
+          : JSON.stringify(page.meta._elementor_page_settings);
+      allUrls.push(...extractUrls(settingsData).map(({ url }) => url));
+    }
+
+    // Count URLs by host
+    const hostCounts = new Map<string, number>();
+    for (const url of allUrls) {
+      const host = parseHost(url);
+      if (host) {
+        hostCounts.set(host, (hostCounts.get(host) || 0) + 1);
+      }
+    }
+
+    const urlCounts: UrlCount[] = Array.from(hostCounts.entries())
+      .map(([host, count]) => ({
+        host,
+        count,
+        matches: host === this.siteHost,
+      }))
+      .sort((a, b) => b.count - a.count);
+
+    // Check if CSS is stale
+    const pageModified = new Date(page.modified);
+    const cssGenerated = cssTime ? new Date(cssTime * 1000) : null;
+    const isStale = cssGenerated ? pageModified > cssGenerated : true;
+
+    return {
+      pageId: page.id,
+      title: pageTitle(page),
+      css: {
+        status: cssStatus,
+        generatedAt: cssGeneratedAt,
+        isStale,
+      },
+      data: {
+        lastModified: page.modified,
+        elementCount: countElements(elements),
+      },
+      urls: urlCounts,
+      siteUrl: this.siteUrl,
+    };
+  }
+
+  private auditCss(page: WPPage): CssStatus {
+    const cssMetaRaw = page.meta?._elementor_css;
+    if (!cssMetaRaw) {
+      return { isStale: true, status: "not_generated" };
+    }
+
+    try {
+      const cssMeta = typeof cssMetaRaw === "string" ? JSON.parse(cssMetaRaw) : cssMetaRaw;
+      const cssTime = cssMeta?.time;
+      const cssStatus = cssMeta?.status;
+
+      if (cssTime && page.modified) {
+        const cssDate = new Date(cssTime * 1000);
+        const modifiedDate = new Date(page.modified);
+        return {
+          isStale: modifiedDate > cssDate,
+          cssTimestamp: cssDate.toISOString(),
+          dataTimestamp: modifiedDate.toISOString(),
+          status: cssStatus,
+        };
+      }
+      return { isStale: false, status: cssStatus || "unknown" };
+    } catch {
+      return { isStale: true, status: "parse_error" };
+    }
+  }
+}
+
+function isAssetUrl(url: string): boolean {
+  const lowerUrl = url.toLowerCase();
+  return ASSET_EXTENSIONS.some((ext) => lowerUrl.includes(ext));
+}
+
+function pageTitle(page: WPPage): string {
+  return typeof page.title === "object" ? page.title.rendered : String(page.title);
+}
+
+function parsePageSettings(page: WPPage): Record<string, unknown> {
+  const raw = page.meta?._elementor_page_settings;
+  if (!raw) return {};
+  try {
+    return typeof raw === "string" ? JSON.parse(raw) : raw;
+  } catch {
+    // Ignore parse errors for settings
+    return {};
+  }
+}
+
+function extractUrls(data: unknown, path = ""): Array<{ location: string; url: string }> {
+  const urls: Array<{ location: string; url: string }> = [];
+
+  if (typeof data === "string") {
+    // Match URLs in strings
+    const urlRegex = /https?:\/\/[^\s"'<>]+/g;
+    const matches = data.match(urlRegex);
+    if (matches) {
+      for (const url of matches) {
+        urls.push({ location: path, url });
+      }
+    }
+  } else if (Array.isArray(data)) {
+    for (let i = 0; i < data.length; i++) {
+      urls.push(...extractUrls(data[i], `${path}[${i}]`));
+    }
+  } else if (data && typeof data === "object") {
+    for (const [key, value] of Object.entries(data)) {
+      urls.push(...extractUrls(value, path ? `${path}.${key}` : key));
+    }
+  }
+
+  return urls;
+}
+
+function buildElementPath(element: ElementorElement): string {
+  if (element.widgetType) {
+    return `widget[${element.widgetType}]`;
+  }
+  return `${element.elType}[${element.id.slice(0, 7)}]`;
+}
+
+function extractUrlsFromElements(
+  elements: ElementorElement[],
+  parentPath = ""
+): Array<{ location: string; url: string }> {
+  const urls: Array<{ location: string; url: string }> = [];
+
+  for (const element of elements) {
+    const elementPath = parentPath
+      ? `${parentPath} > ${buildElementPath(element)}`
+      : buildElementPath(element);
+
+    // Extract URLs from settings
+    for (const { location, url } of extractUrls(element.settings, "")) {
+      urls.push({
+        location: location ? `${elementPath}.${location}` : elementPath,
+        url,
+      });
+    }
+
+    // Recurse into child elements
+    if (element.elements && element.elements.length > 0) {
+      urls.push(...extractUrlsFromElements(element.elements, elementPath));
+    }
+  }
+
+  return urls;
+}
+
+function countElements(elements: ElementorElement[]): number {
+  let count = 0;
+  for (const element of elements) {
+    count++;
+    if (element.elements && element.elements.length > 0) {
+      count += countElements(element.elements);
+    }
+  }
+  return count;
+}
+
+function parseHost(url: string): string {
+  try {
+    return new URL(url).host;
+  } catch {
+    return "";
+  }
+}
+
+async function checkAssetAccessibility(
+  url: string
+): Promise<{ accessible: boolean; error?: string }> {
+  try {
+    const response = await fetch(url, {
+      method: "HEAD",
+      signal: AbortSignal.timeout(5000),
+    });
+    if (response.ok) {
+      return { accessible: true };
+    }
+    return { accessible: false, error: `HTTP ${response.status}` };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return { accessible: false, error: message };
+  }
+}
@@ -0,0 +1,35 @@
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { PageMappingStore } from "./page-mapping-store.js";
+
+describe("PageMappingStore", () => {
+  let dir: string;
+  let store: PageMappingStore;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "page-mappings-"));
+    store = new PageMappingStore(join(dir, "nested", "page-mappings.json"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  test("stores one target per source page, site pair and post type", async () => {
+    expect(await store.get("staging", "production", "page", 42)).toBeNull();
+
+    await store.set("staging", "production", "page", 42, 314);
+    await store.set("staging", "production", "post", 42, 900);
+    await store.set("staging", "production", "page", 42, 315);
+
+    expect(await store.get("staging", "production", "page", 42)).toBe(315);
+    expect(await store.get("staging", "production", "post", 42)).toBe(900);
+    expect(await store.get("production", "staging", "page", 42)).toBeNull();
+    expect(await store.list()).toHaveLength(2);
+
+    await store.remove("staging", "production", "page", 42);
+    expect(await store.get("staging", "production", "page", 42)).toBeNull();
+  });
+});
@@ -0,0 +1,97 @@
+import { mkdir } from "node:fs/promises";
+import { dirname } from "node:path";
+import type { PostType } from "../types/elementor.js";
+
+const MAPPINGS_FILE = ".elementor-cli/page-mappings.json";
+
+/**
+ * A page on one site and its counterpart on another, recorded by `promote`
+ */
+export interface PageMapping {
+  from: string;
+  to: string;
+  post_type: PostType;
+  source_id: number;
+  target_id: number;
+  promoted_at: string;
+}
+
+/**
+ * PageMappingStore remembers which page on the target site a promoted page
+ * was written to, so later promotions update the same page even if its slug
+ * changed.
+ */
+export class PageMappingStore {
+  private path: string;
+
+  constructor(path?: string) {
+    this.path = path || `${process.cwd()}/${MAPPINGS_FILE}`;
+  }
+
+  async list(): Promise<PageMapping[]> {
+    const file = Bun.file(this.path);
+    if (!(await file.exists())) {
+      return [];
+    }
+    const data = (await file.json()) as { mappings?: PageMapping[] };
+    return data.mappings || [];
+  }
+
+  async get(from: string, to: string, postType: PostType, sourceId: number): Promise<number | null> {
+    const mapping = (await this.list()).find((entry) =>
+      this.matches(entry, from, to, postType, sourceId)
+    );
+    return mapping ? mapping.target_id : null;
+  }
+
+  async set(
+    from: string,
+    to: string,
+    postType: PostType,
+    sourceId: number,
+    targetId: number
+  ): Promise<void> {
+    const mappings = (await this.list()).filter(
+      (entry) => !this.matches(entry, from, to, postType, sourceId)
+    );
+    mappings.push({
+      from,
+      to,
+      post_type: postType,
+      source_id: sourceId,
+      target_id: targetId,
+      promoted_at: new Date().toISOString(),
+    });
+    await this.write(mappings);
+  }
+
+  async remove(from: string, to: string, postType: PostType, sourceId: number): Promise<void> {
+    const mappings = await this.list();
+    const remaining = mappings.filter(
+      (entry) => !this.matches(entry, from, to, postType, sourceId)
+    );
+    if (remaining.length !== mappings.length) {
+      await this.write(remaining);
+    }
+  }
+
+  private matches(
+    entry: PageMapping,
+    from: string,
+    to: string,
+    postType: PostType,
+    sourceId: number
+  ): boolean {
+    return (
+      entry.from === from &&
+      entry.to === to &&
+      entry.post_type === postType &&
+      entry.source_id === sourceId
+    );
+  }
+
+  private async write(mappings: PageMapping[]): Promise<void> {
+    await mkdir(dirname(this.path), { recursive: true });
+    await Bun.write(this.path, JSON.stringify({ mappings }, null, 2));
+  }
+}
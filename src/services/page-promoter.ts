@@ -0,0 +1,285 @@
+import type { SiteConfig } from "../types/config.js";
+import type { ElementorElement, PageData, PageSettings, PostType } from "../types/elementor.js";
+import type { MediaMapping } from "../types/media.js";
+import type { WPPage } from "../types/wordpress.js";
+import type { WordPressClient } from "./wordpress-client.js";
+import { ElementorParser, type ElementDiff, type SettingChange } from "./elementor-parser.js";
+import { MediaManager } from "./media-manager.js";
+import {
+  wordpressUploader,
+  type MediaDownloadResult,
+  type MediaSync,
+  type MediaUploadResult,
+} from "./media-sync.js";
+import { PageMappingStore } from "./page-mapping-store.js";
+import { OperationJournal, type JournalOperation } from "./operation-journal.js";
+import { WPNotFoundError } from "./wordpress-errors.js";
+import { postTypeLabel } from "../utils/post-type.js";
+
+export interface PromoteSite {
+  name: string;
+  config: SiteConfig;
+  client: WordPressClient;
+}
+
+export interface PromoteOptions {
+  postType: PostType;
+  targetId?: number; // Page to write to, remembered for next time
+  media: boolean; // Copy attachments to the target and remap them
+  rewriteUrls: boolean; // Rewrite source site URLs to the target site URL
+}
+
+export type PromoteTarget = { page: WPPage; matchedBy: "--target-id" | "mapping" | "slug" } | null;
+
+/**
+ * What a promotion would write: the source page, the target page it
+ * matched (null: a new page is created) and the content prepared for the
+ * target site
+ */
+export interface PromotePlan {
+  sourceId: number;
+  source: PageData;
+  target: PromoteTarget;
+  elements: ElementorElement[];
+  settings: PageSettings;
+  pendingMedia: number; // Attachments not copied to the target yet
+  // What the preview compares: the content with pending attachments
+  // replaced by placeholders for their copies on the target
+  previewContent: { elements: ElementorElement[]; settings: PageSettings };
+}
+
+/**
+ * Changes to the matched target page; title, slug and template come first
+ * in `settings`
+ */
+export interface PromotePreview {
+  elements: ElementDiff;
+  settings: SettingChange[];
+}
+
+/**
+ * PagePromoter copies an Elementor page from one site to another, as
+ * `promote` and the studio's copy endpoint do: it finds the target page,
+ * rewrites URLs, copies media and journals the write.
+ */
+export class PagePromoter {
+  private parser = new ElementorParser();
+  private media = new MediaManager();
+
+  constructor(
+    private from: PromoteSite,
+    private to: PromoteSite,
+    private mediaSync: MediaSync,
+    private options: PromoteOptions,
+    private mappings = new PageMappingStore()
+  ) {}
+
+  /**
+   * Plan the promotion of an Elementor page of the source site
+   */
+  async plan(sourcePage: WPPage): Promise<PromotePlan> {
+    const source = this.parser.parseWPPage(sourcePage);
+    const target = await this.findTarget(sourcePage.id, source.slug);
+
+    // Attachments copied by an earlier promotion are remapped right away
+    const attachments = this.media.uniqueReferences(
+      this.media.findReferences(source.elementor_data, source.page_settings)
+    );
+    const knownMappings = this.options.media
+      ? await this.mediaSync.knownMappings(
+          this.from.name,
+          sourcePage.id,
+          this.to.name,
+          source.elementor_data,
+          source.page_settings
+        )
+      : [];
+    const remapped = this.media.remap(source.elementor_data, source.page_settings, knownMappings);
+
+    // The others only get their ids and URLs on upload; the preview shows
+    // placeholders for them
+    const placeholders: MediaMapping[] = this.options.media
+      ? attachments
+          .filter(
+            (attachment) =>
+              !knownMappings.some((mapping) =>
+                attachment.id !== undefined && mapping.fromId !== undefined
+                  ? mapping.fromId === attachment.id
+                  : mapping.fromUrl === attachment.url
+              )
+          )
+          .map((attachment) => ({
+            fromId: attachment.id,
+            fromUrl: attachment.url,
+            toId: 0,
+            toUrl: `[${this.media.fileName(attachment.url)} uploaded to ${this.to.name}]`,
+          }))
+      : [];
+    const placeheld = this.media.remap(source.elementor_data, source.page_settings, [
+      ...knownMappings,
+      ...placeholders,
+    ]);
+
+    return {
+      sourceId: sourcePage.id,
+      source,
+      target,
+      ...this.prepare(remapped.elements, remapped.settings),
+      pendingMedia: placeholders.length,
+      previewContent: this.prepare(placeheld.elements, placeheld.settings),
+    };
+  }
+
+  /**
+   * Changes to the target page, or null if a new page would be created
+   */
+  preview(plan: PromotePlan): PromotePreview | null {
+    if (!plan.target) {
+      return null;
+    }
+
+    const target = this.parser.parseWPPage(plan.target.page);
+    const { source, previewContent } = plan;
+    return {
+      elements: this.parser.diffElements(previewContent.elements, target.elementor_data),
+      settings: [
+        ...this.parser.diffSettings(
+          { title: target.title, slug: target.slug, template: target.template },
+          { title: source.title, slug: source.slug, template: source.template }
+        ),
+        ...this.parser.diffSettings(target.page_settings, previewContent.settings),
+      ],
+    };
+  }
+
+  /**
+   * Explains the placeholders of pending attachments in the preview. Null
+   * without pending media.
+   */
+  pendingMediaNote(plan: PromotePlan): string | null {
+    if (plan.pendingMedia === 0) {
+      return null;
+    }
+    return `${plan.pendingMedia} attachment(s) are not on ${this.to.name} yet. The preview shows them with id 0 and a "[<file> uploaded to ${this.to.name}]" URL, which become the id and URL of the uploaded copy.`;
+  }
+
+  /**
+   * Copy the plan's pending attachments to the target site. Unless some
+   * failed, the plan's content is remapped to the uploaded copies.
+   */
+  async copyMedia(
+    plan: PromotePlan
+  ): Promise<{ download: MediaDownloadResult; upload: MediaUploadResult }> {
+    const { source, sourceId } = plan;
+    const download = await this.mediaSync.download(
+      this.from.client,
+      this.from.name,
+      sourceId,
+      source.elementor_data,
+      source.page_settings
+    );
+    const upload = await this.mediaSync.upload(
+      this.from.name,
+      sourceId,
+      this.to.name,
+      source.elementor_data,
+      source.page_settings,
+      wordpressUploader(this.to.client)
+    );
+
+    if (download.failed.length === 0 && upload.failed.length === 0) {
+      const uploaded = this.media.remap(source.elementor_data, source.page_settings, upload.mappings);
+      const content = this.prepare(uploaded.elements, uploaded.settings);
+      Object.assign(plan, content, { pendingMedia: 0, previewContent: content });
+    }
+    return { download, upload };
+  }
+
+  /**
+   * Write the plan to the target site: update the matched page or create
+   * one with `status`. The target page is journaled first.
+   */
+  async write(
+    plan: PromotePlan,
+    status: string
+  ): Promise<{ targetId: number; created: boolean; operation: JournalOperation }> {
+    const { postType } = this.options;
+    const data = {
+      title: plan.source.title,
+      slug: plan.source.slug,
+      template: plan.source.template,
+      elementorData: this.parser.serializeElements(plan.elements),
+      pageSettings: plan.settings,
+    };
+
+    const recorder = new OperationJournal(this.to.name).begin(
+      "promote",
+      `Promote ${postTypeLabel(postType)} ${plan.sourceId} from ${this.from.name}`
+    );
+    let targetId: number;
+    if (plan.target) {
+      await recorder.record(plan.target.page);
+      await this.to.client.updatePage(plan.target.page.id, data, postType);
+      targetId = plan.target.page.id;
+    } else {
+      const created = await this.to.client.createPage({ ...data, status }, postType);
+      await recorder.record(created, "create");
+      targetId = created.id;
+    }
+    await this.to.client.invalidateCss(targetId, postType);
+    await this.mappings.set(this.from.name, this.to.name, postType, plan.sourceId, targetId);
+
+    return { targetId, created: !plan.target, operation: recorder.operation };
+  }
+
+  private prepare(
+    elements: ElementorElement[],
+    settings: PageSettings
+  ): { elements: ElementorElement[]; settings: PageSettings } {
+    if (!this.options.rewriteUrls) {
+      return { elements, settings };
+    }
+    return {
+      elements: this.parser.rewriteUrls(elements, this.from.config.url, this.to.config.url),
+      settings: this.parser.rewriteSettingsUrls(settings, this.from.config.url, this.to.config.url),
+    };
+  }
+
+  /**
+   * Find the page to write to: --target-id, a stored mapping, or the same slug
+   */
+  private async findTarget(sourceId: number, slug: string): Promise<PromoteTarget> {
+    const { postType, targetId } = this.options;
+    const { client } = this.to;
+
+    if (targetId !== undefined) {
+      return { page: await client.getPage(targetId, postType), matchedBy: "--target-id" };
+    }
+
+    const mapped = await this.mappings.get(this.from.name, this.to.name, postType, sourceId);
+    if (mapped !== null) {
+      try {
+        return { page: await client.getPage(mapped, postType), matchedBy: "mapping" };
+      } catch (error) {
+        if (!(error instanceof WPNotFoundError)) throw error;
+        // The target page was deleted; forget it and fall back to the slug
+        await this.mappings.remove(this.from.name, this.to.name, postType, sourceId);
+      }
+    }
+
+    const candidates = (await client.findPagesBySlug(slug, postType)).filter(
+      (page) => page.status !== "trash"
+    );
+    if (candidates.length > 1) {
+      throw new Error(
+        `Several pages on ${this.to.name} have the slug "${slug}" (${candidates.map((page) => page.id).join(", ")}). Use --target-id.`
+      );
+    }
+    if (candidates.length === 1) {
+      // listPages() returns a subset of fields; fetch the full page for the diff
+      return { page: await client.getPage(candidates[0].id, postType), matchedBy: "slug" };
+    }
+
+    return null;
+  }
+}
@@ -0,0 +1,48 @@
+import { mkdirSync, watch as fsWatch, type FSWatcher } from "node:fs";
+
+/**
+ * PageWatcher watches a site's pages directory and reports which page
+ * changed, once the page's files have been quiet for `debounceMs` (editors
+ * and `pull` write several files per save). Changes to a page's snapshot
+ * history (.snapshots/) are ignored.
+ */
+export class PageWatcher {
+  private watcher: FSWatcher | null = null;
+  private pending = new Map<number, ReturnType<typeof setTimeout>>();
+
+  constructor(
+    private dir: string,
+    private onChange: (pageId: number) => void,
+    private debounceMs = 500
+  ) {}
+
+  start(): void {
+    // A site without pulled pages has no directory yet; pages pulled later still count
+    mkdirSync(this.dir, { recursive: true });
+    this.watcher = fsWatch(this.dir, { recursive: true }, (_eventType, filename) => {
+      if (!filename) return;
+
+      // Parse the page ID from the path (e.g., "42/elements.json" -> 42)
+      const pageIdMatch = filename.match(/^(\d+)\/(.*)$/);
+      if (!pageIdMatch || pageIdMatch[2].startsWith(".snapshots")) return;
+      const pageId = Number.parseInt(pageIdMatch[1], 10);
+
+      const timer = this.pending.get(pageId);
+      if (timer) clearTimeout(timer);
+      this.pending.set(
+        pageId,
+        setTimeout(() => {
+          this.pending.delete(pageId);
+          this.onChange(pageId);
+        }, this.debounceMs)
+      );
+    });
+  }
+
+  close(): void {
+    this.watcher?.close();
+    this.watcher = null;
+    for (const timer of this.pending.values()) clearTimeout(timer);
+    this.pending.clear();
+  }
+}
@@ -1,7 +1,9 @@
 import type { WPRevision } from "../types/wordpress.js";
-import type { ElementorElement } from "../types/elementor.js";
+import type { ElementorElement, PostType } from "../types/elementor.js";
 import { WordPressClient } from "./wordpress-client.js";
 import { ElementorParser } from "./elementor-parser.js";
+import type { JournalRecorder } from "./operation-journal.js";
+import type { RevisionTag } from "./revision-tag-store.js";
 
 export interface ParsedRevision {
   id: number;
@@ -13,33 +15,94 @@ export interface ParsedRevision {
   hasElementorData: boolean;
 }
 
+/**
+ * A revision as listed by `revisions list --json` and the studio's
+ * GET /api/pages/:id/revisions
+ */
+export interface RevisionSummary {
+  id: number;
+  parent: number;
+  date: string;
+  author: number;
+  title: string;
+  hasElementorData: boolean;
+  elementCount: number | null; // null without Elementor data
+  tag: string | null; // Message of 'revisions create --message'
+}
+
+/**
+ * Result of `revisions restore --json` and the studio's
+ * POST /api/pages/:id/revisions/:rev/restore
+ */
+export interface RevisionRestoreResult {
+  pageId: number;
+  revisionId: number;
+  site: string;
+  operation: string; // Journal operation; 'undo <operation>' reverts the restore
+}
+
 export class RevisionManager {
   private client: WordPressClient;
   private parser: ElementorParser;
+  private postType: PostType;
 
-  constructor(client: WordPressClient) {
+  constructor(client: WordPressClient, postType: PostType = "page") {
     this.client = client;
     this.parser = new ElementorParser();
+    this.postType = postType;
   }
 
   async listRevisions(pageId: number): Promise<ParsedRevision[]> {
-    const revisions = await this.client.getRevisions(pageId);
+    const revisions = await this.client.getRevisions(pageId, this.postType);
 
     return revisions.map((rev) => this.parseRevision(rev));
   }
 
   async getRevision(pageId: number, revisionId: number): Promise<ParsedRevision> {
-    const revision = await this.client.getRevision(pageId, revisionId);
+    const revision = await this.client.getRevision(pageId, revisionId, this.postType);
     return this.parseRevision(revision);
   }
 
-  async restoreRevision(pageId: number, revisionId: number): Promise<void> {
-    const revision = await this.client.getRevision(pageId, revisionId);
+  /**
+   * Revisions with their element counts and tags, newest first as
+   * WordPress returns them
+   */
+  async listSummaries(
+    pageId: number,
+    tags: Map<number, RevisionTag> = new Map()
+  ): Promise<RevisionSummary[]> {
+    const revisions = await this.listRevisions(pageId);
+    return revisions.map((rev) => ({
+      id: rev.id,
+      parent: rev.parent,
+      date: rev.date,
+      author: rev.author,
+      title: rev.title,
+      hasElementorData: rev.hasElementorData,
+      elementCount: rev.hasElementorData ? this.parser.countElements(rev.elementorData) : null,
+      tag: tags.get(rev.id)?.message ?? null,
+    }));
+  }
+
+  /**
+   * Write a revision's Elementor data and settings back to the page.
+   * With a recorder, the current page is journaled first.
+   */
+  async restoreRevision(
+    pageId: number,
+    revisionId: number,
+    recorder?: JournalRecorder
+  ): Promise<void> {
+    const revision = await this.client.getRevision(pageId, revisionId, this.postType);
 
     if (!revision.meta?._elementor_data) {
       throw new Error("Revision does not contain Elementor data");
     }
 
+    if (recorder) {
+      await recorder.record(await this.client.getPage(pageId, this.postType));
+    }
+
     // Parse page settings if they exist (stored as JSON string in meta)
     let pageSettings: Record<string, unknown> | undefined;
     if (revision.meta._elementor_page_settings) {
@@ -50,21 +113,42 @@ export class RevisionManager {
       }
     }
 
-    await this.client.updatePage(pageId, {
-      elementorData: revision.meta._elementor_data,
-      pageSettings,
-    });
+    await this.client.updatePage(
+      pageId,
+      {
+        elementorData: revision.meta._elementor_data,
+        pageSettings,
+      },
+      this.postType
+    );
   }
 
   async createBackup(pageId: number): Promise<void> {
     // Fetch current page data
-    const page = await this.client.getPage(pageId);
+    const page = await this.client.getPage(pageId, this.postType);
 
     // WordPress automatically creates a revision when we update the page
     // We do a no-op update to trigger revision creation
-    await this.client.updatePage(pageId, {
-      title: page.title.raw || page.title.rendered,
-    });
+    await this.client.updatePage(
+      pageId,
+      { title: page.title.raw || page.title.rendered },
+      this.postType
+    );
+  }
+
+  /**
+   * The page's newest revision, or null if the site keeps none
+   */
+  async latestRevision(pageId: number): Promise<ParsedRevision | null> {
+    const revisions = await this.listRevisions(pageId);
+    return revisions.reduce<ParsedRevision | null>(
+      (newest, revision) => (!newest || revision.id > newest.id ? revision : newest),
+      null
+    );
+  }
+
+  async deleteRevision(pageId: number, revisionId: number): Promise<void> {
+    await this.client.deleteRevision(pageId, revisionId, this.postType);
   }
 
   diffWithCurrent(
@@ -0,0 +1,34 @@
+import { describe, test, expect } from "bun:test";
+import { RevisionRetention } from "./revision-retention.js";
+
+const revisions = [
+  { id: 10, date: "2024-03-01T09:00:00" },
+  { id: 11, date: "2024-03-10T08:00:00" },
+  { id: 12, date: "2024-03-10T17:30:00" },
+  { id: 13, date: "2024-03-14T12:00:00" },
+  { id: 14, date: "2024-03-15T10:00:00" },
+];
+const now = new Date("2024-03-15T12:00:00Z");
+
+const kept = (decisions: Array<{ id: number; keep: boolean }>) =>
+  decisions.filter((decision) => decision.keep).map((decision) => decision.id);
+
+describe("RevisionRetention", () => {
+  test("keeps the newest N, one per day within the window and tagged revisions", () => {
+    expect(kept(new RevisionRetention({ keepLast: 2 }, now).decide(revisions, new Set()))).toEqual([14, 13]);
+
+    // Only the later revision of March 10 counts as that day's revision
+    const daily = new RevisionRetention({ keepDaily: 7 }, now).decide(revisions, new Set());
+    expect(kept(daily)).toEqual([14, 13, 12]);
+    expect(daily.find((decision) => decision.id === 12)?.reasons).toEqual(["daily (2024-03-10)"]);
+
+    const combined = new RevisionRetention({ keepLast: 1, keepDaily: 1, keepTagged: true }, now);
+    const decisions = combined.decide(revisions, new Set([10]));
+    expect(decisions.map((decision) => decision.id)).toEqual([14, 13, 12, 11, 10]);
+    expect(kept(decisions)).toEqual([14, 13, 10]);
+    expect(decisions[0].reasons).toEqual(["last 1", "daily (2024-03-15)"]);
+
+    // Tags only protect revisions when the policy says so
+    expect(kept(new RevisionRetention({ keepLast: 0 }, now).decide(revisions, new Set([10])))).toEqual([]);
+  });
+});
@@ -0,0 +1,59 @@
+/**
+ * Which revisions of a page to keep. A revision is kept if any rule keeps
+ * it; everything else is pruned.
+ */
+export interface RetentionPolicy {
+  keepLast?: number; // The newest N revisions
+  keepDaily?: number; // The newest revision of each day, for the last N days
+  keepTagged?: boolean; // Revisions tagged with 'revisions create --message'
+}
+
+export interface RetentionDecision {
+  id: number;
+  date: string;
+  keep: boolean;
+  reasons: string[]; // Why it is kept, e.g. ["last 10", "tagged"]
+}
+
+/**
+ * RevisionRetention applies a retention policy to the revisions of one page
+ */
+export class RevisionRetention {
+  constructor(
+    private policy: RetentionPolicy,
+    private now = new Date()
+  ) {}
+
+  /**
+   * Decide for each revision, newest first. `date` is the revision date
+   * WordPress reports (site time); days are compared on its date part.
+   */
+  decide(revisions: Array<{ id: number; date: string }>, tagged: Set<number>): RetentionDecision[] {
+    const sorted = [...revisions].sort((a, b) => b.date.localeCompare(a.date) || b.id - a.id);
+    const cutoff =
+      this.policy.keepDaily !== undefined
+        ? new Date(this.now.getTime() - this.policy.keepDaily * 86_400_000).toISOString().slice(0, 10)
+        : null;
+    const days = new Set<string>();
+
+    return sorted.map((revision, index) => {
+      const reasons: string[] = [];
+
+      if (this.policy.keepLast !== undefined && index < this.policy.keepLast) {
+        reasons.push(`last ${this.policy.keepLast}`);
+      }
+
+      const day = revision.date.slice(0, 10);
+      if (cutoff && day >= cutoff && !days.has(day)) {
+        days.add(day);
+        reasons.push(`daily (${day})`);
+      }
+
+      if (this.policy.keepTagged && tagged.has(revision.id)) {
+        reasons.push("tagged");
+      }
+
+      return { id: revision.id, date: revision.date, keep: reasons.length > 0, reasons };
+    });
+  }
+}
@@ -0,0 +1,35 @@
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { RevisionTagStore } from "./revision-tag-store.js";
+
+describe("RevisionTagStore", () => {
+  let dir: string;
+  let store: RevisionTagStore;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "revision-tags-"));
+    store = new RevisionTagStore(join(dir, "nested", "revision-tags.json"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  test("stores tags per site, post type and page", async () => {
+    await store.add("production", "page", 42, 500, "Before redesign");
+    await store.add("production", "page", 42, 501, "Launch");
+    await store.add("staging", "page", 42, 500, "Other site");
+    await store.add("production", "page", 42, 500, "Before the redesign");
+
+    const tags = await store.forPage("production", "page", 42);
+    expect([...tags.keys()].sort()).toEqual([500, 501]);
+    expect(tags.get(500)?.message).toBe("Before the redesign");
+    expect((await store.forPage("production", "post", 42)).size).toBe(0);
+
+    await store.remove("production", "page", [500]);
+    expect([...(await store.forPage("production", "page", 42)).keys()]).toEqual([501]);
+    expect((await store.forPage("staging", "page", 42)).size).toBe(1);
+  });
+});
@@ -0,0 +1,88 @@
+import { mkdir } from "node:fs/promises";
+import { dirname } from "node:path";
+import type { PostType } from "../types/elementor.js";
+
+const TAGS_FILE = ".elementor-cli/revision-tags.json";
+
+/**
+ * A note attached to a revision by `revisions create --message`
+ */
+export interface RevisionTag {
+  site: string;
+  post_type: PostType;
+  page_id: number;
+  revision_id: number;
+  message: string;
+  created_at: string;
+}
+
+/**
+ * RevisionTagStore keeps revision notes locally, since WordPress has no
+ * place for them. Tagged revisions survive `revisions prune` by default.
+ */
+export class RevisionTagStore {
+  private path: string;
+
+  constructor(path?: string) {
+    this.path = path || `${process.cwd()}/${TAGS_FILE}`;
+  }
+
+  /**
+   * Tags of one page, by revision id
+   */
+  async forPage(site: string, postType: PostType, pageId: number): Promise<Map<number, RevisionTag>> {
+    const tags = (await this.list()).filter(
+      (tag) => tag.site === site && tag.post_type === postType && tag.page_id === pageId
+    );
+    return new Map(tags.map((tag) => [tag.revision_id, tag]));
+  }
+
+  async add(
+    site: string,
+    postType: PostType,
+    pageId: number,
+    revisionId: number,
+    message: string
+  ): Promise<void> {
+    const tags = (await this.list()).filter(
+      (tag) => !(tag.site === site && tag.post_type === postType && tag.revision_id === revisionId)
+    );
+    tags.push({
+      site,
+      post_type: postType,
+      page_id: pageId,
+      revision_id: revisionId,
+      message,
+      created_at: new Date().toISOString(),
+    });
+    await this.write(tags);
+  }
+
+  /**
+   * Forget the tags of deleted revisions
+   */
+  async remove(site: string, postType: PostType, revisionIds: number[]): Promise<void> {
+    const ids = new Set(revisionIds);
+    const tags = await this.list();
+    const remaining = tags.filter(
+      (tag) => !(tag.site === site && tag.post_type === postType && ids.has(tag.revision_id))
+    );
+    if (remaining.length !== tags.length) {
+      await this.write(remaining);
+    }
+  }
+
+  private async list(): Promise<RevisionTag[]> {
+    const file = Bun.file(this.path);
+    if (!(await file.exists())) {
+      return [];
+    }
+    const data = (await file.json()) as { tags?: RevisionTag[] };
+    return data.tags || [];
+  }
+
+  private async write(tags: RevisionTag[]): Promise<void> {
+    await mkdir(dirname(this.path), { recursive: true });
+    await Bun.write(this.path, JSON.stringify({ tags }, null, 2));
+  }
+}
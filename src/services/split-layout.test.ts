@@ -0,0 +1,65 @@
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { CanonicalSerializer } from "./canonical-serializer.js";
+import { SplitLayout } from "./split-layout.js";
+import { container, widget } from "../test-utils/elements.js";
+
+describe("SplitLayout", () => {
+  const layout = new SplitLayout(new CanonicalSerializer());
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "split-layout-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  test("round-trips an element tree", async () => {
+    const elements = [
+      container("c1", [widget("w1", "heading", { title: "Hi" }), widget("w2", "button")], { flex_direction: "row" }),
+      container("c2", [], { flex_direction: "row" }),
+    ];
+
+    await layout.write(dir, elements);
+
+    expect(await layout.exists(dir)).toBe(true);
+    expect(await Bun.file(`${dir}/container-c1/heading-w1.json`).exists()).toBe(true);
+    expect(await Bun.file(`${dir}/container-c1/_index.json`).json()).toEqual([
+      "heading-w1.json",
+      "button-w2.json",
+    ]);
+    expect(await layout.read(dir)).toEqual(elements);
+  });
+
+  test("only reports changed files and removes stale ones", async () => {
+    await layout.write(dir, [container("c1", [widget("w1", "heading"), widget("w2", "button")], { flex_direction: "row" })]);
+
+    const changed = await layout.write(dir, [
+      container("c1", [widget("w1", "heading", { title: "New" })], { flex_direction: "row" }),
+    ]);
+
+    expect(changed.sort()).toEqual([
+      "container-c1/_index.json",
+      "container-c1/button-w2.json",
+      "container-c1/heading-w1.json",
+    ]);
+    expect(await Bun.file(`${dir}/container-c1/button-w2.json`).exists()).toBe(false);
+    expect(await layout.write(dir, await layout.read(dir))).toEqual([]);
+  });
+
+  test("keeps unsafe ids and widget types out of the file paths", async () => {
+    const elements = [container("../c1", [widget("w/1", "../../evil")])];
+
+    expect((await layout.write(dir, elements)).sort()).toEqual([
+      "_index.json",
+      "container-.._c1/.._.._evil-w_1.json",
+      "container-.._c1/_element.json",
+      "container-.._c1/_index.json",
+    ]);
+    expect(await layout.read(dir)).toEqual(elements);
+  });
+});
@@ -0,0 +1,163 @@
+import { mkdir, readdir, rm, rmdir } from "node:fs/promises";
+import type { ElementorElement } from "../types/elementor.js";
+import type { CanonicalSerializer } from "./canonical-serializer.js";
+
+const INDEX_FILE = "_index.json";
+const ELEMENT_FILE = "_element.json";
+
+/**
+ * SplitLayout stores an element tree as a directory hierarchy instead of a
+ * single elements.json:
+ *
+ *   elements/
+ *   ├── _index.json                  # ["section-abc1234"]
+ *   └── section-abc1234/
+ *       ├── _element.json            # section without its children
+ *       ├── _index.json              # ["column-def5678"]
+ *       └── column-def5678/
+ *           ├── _element.json
+ *           ├── _index.json          # ["heading-a1b2c3d.json"]
+ *           └── heading-a1b2c3d.json # widget with its settings
+ *
+ * Containers, sections and columns become folders; widgets become files.
+ * Each _index.json keeps the order of its folder's children.
+ */
+export class SplitLayout {
+  private serializer: CanonicalSerializer;
+
+  constructor(serializer: CanonicalSerializer) {
+    this.serializer = serializer;
+  }
+
+  async exists(dir: string): Promise<boolean> {
+    return Bun.file(`${dir}/${INDEX_FILE}`).exists();
+  }
+
+  /**
+   * Reassemble the element tree from a split directory
+   */
+  async read(dir: string): Promise<ElementorElement[]> {
+    const index = (await Bun.file(`${dir}/${INDEX_FILE}`).json()) as string[];
+    const elements: ElementorElement[] = [];
+
+    for (const entry of index) {
+      if (entry.endsWith(".json")) {
+        const element = (await Bun.file(`${dir}/${entry}`).json()) as ElementorElement;
+        elements.push({ ...element, elements: element.elements || [] });
+      } else {
+        const element = (await Bun.file(`${dir}/${entry}/${ELEMENT_FILE}`).json()) as ElementorElement;
+        elements.push({ ...element, elements: await this.read(`${dir}/${entry}`) });
+      }
+    }
+
+    return elements;
+  }
+
+  /**
+   * Write the element tree into a split directory, removing stale files.
+   * Returns the paths (relative to `dir`) of files that were added, changed or removed.
+   */
+  async write(
+    dir: string,
+    elements: ElementorElement[],
+    options: { dryRun?: boolean } = {}
+  ): Promise<string[]> {
+    const files = new Map<string, string>();
+    this.collect(this.serializer.canonicalElements(elements), "", files);
+
+    const existing = await this.listFiles(dir);
+    const changed: string[] = [];
+
+    for (const [path, content] of files) {
+      const file = Bun.file(`${dir}/${path}`);
+      if ((await file.exists()) && (await file.text()) === content) {
+        continue;
+      }
+      changed.push(path);
+      if (!options.dryRun) {
+        await mkdir(`${dir}/${path}`.replace(/\/[^/]+$/, ""), { recursive: true });
+        await Bun.write(`${dir}/${path}`, content);
+      }
+    }
+
+    for (const path of existing) {
+      if (files.has(path)) continue;
+      changed.push(path);
+      if (!options.dryRun) {
+        await rm(`${dir}/${path}`, { force: true });
+      }
+    }
+
+    if (!options.dryRun) {
+      await this.removeEmptyDirs(dir);
+    }
+
+    return changed;
+  }
+
+  /**
+   * Map canonical elements to file contents. Elements are already in
+   * canonical key order, so plain JSON.stringify keeps that order.
+   */
+  private collect(elements: ElementorElement[], prefix: string, files: Map<string, string>): void {
+    const index: string[] = [];
+
+    for (const el of elements) {
+      if (el.elType === "widget") {
+        const name = `${this.safeName(`${el.widgetType || "widget"}-${el.id}`)}.json`;
+        index.push(name);
+        files.set(`${prefix}${name}`, `${JSON.stringify(el, null, 2)}\n`);
+      } else {
+        const name = this.safeName(`${el.elType}-${el.id}`);
+        const { elements: children, ...element } = el;
+        index.push(name);
+        files.set(`${prefix}${name}/${ELEMENT_FILE}`, `${JSON.stringify(element, null, 2)}\n`);
+        this.collect(children, `${prefix}${name}/`, files);
+      }
+    }
+
+    files.set(`${prefix}${INDEX_FILE}`, `${JSON.stringify(index, null, 2)}\n`);
+  }
+
+  /**
+   * Ids and widget types come from remote data: keep path separators and
+   * other unsafe characters out of the file names
+   */
+  private safeName(name: string): string {
+    return name.replace(/[^a-zA-Z0-9._-]/g, "_");
+  }
+
+  private async listFiles(dir: string): Promise<string[]> {
+    if (!(await this.exists(dir))) {
+      return [];
+    }
+    const files: string[] = [];
+    const glob = new Bun.Glob("**/*.json");
+    for await (const file of glob.scan({ cwd: dir })) {
+      files.push(file);
+    }
+    return files;
+  }
+
+  private async removeEmptyDirs(dir: string): Promise<boolean> {
+    let entries: string[];
+    try {
+      entries = await readdir(dir);
+    } catch {
+      return false;
+    }
+
+    let remaining = entries.length;
+    for (const entry of entries) {
+      if (!entry.endsWith(".json") && (await this.removeEmptyDirs(`${dir}/${entry}`))) {
+        remaining--;
+      }
+    }
+
+    if (remaining === 0) {
+      await rmdir(dir);
+      return true;
+    }
+    return false;
+  }
+}
@@ -1,5 +1,12 @@
-import { describe, test, expect, mock, beforeEach } from "bun:test";
+import { describe, test, expect, mock, beforeEach, beforeAll, afterAll } from "bun:test";
 import { WordPressClient } from "./wordpress-client.js";
+import { ConcurrencyLimiter } from "./concurrency-limiter.js";
+import {
+  WPAuthError,
+  WPNetworkError,
+  WPNotFoundError,
+  WPServerError,
+} from "./wordpress-errors.js";
 
 describe("WordPressClient", () => {
   describe("listPages", () => {
@@ -80,5 +87,209 @@ describe("WordPressClient", () => {
 
       globalThis.fetch = originalFetch;
     });
+
+    test("discovers the REST base of custom post types from /wp/v2/types", async () => {
+      fetchMock = mock((url: string) =>
+        Promise.resolve({
+          ok: true,
+          json: () =>
+            Promise.resolve(
+              url.includes("/wp/v2/types/")
+                ? { slug: "case_study", name: "Case Studies", rest_base: "case-studies", rest_namespace: "wp/v2" }
+                : []
+            ),
+        })
+      );
+      globalThis.fetch = fetchMock as unknown as typeof fetch;
+
+      const client = new WordPressClient({
+        url: "https://example.com",
+        username: "user",
+        appPassword: "pass",
+      });
+
+      await client.listPages({ postType: "case_study" });
+      await client.listPages({ postType: "case_study" });
+
+      // The type lookup is cached after the first call
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+      expect(fetchMock.mock.calls[0][0]).toStartWith("https://example.com/wp-json/wp/v2/types/case_study");
+      expect(fetchMock.mock.calls[1][0]).toStartWith("https://example.com/wp-json/wp/v2/case-studies?");
+
+      globalThis.fetch = originalFetch;
+    });
+  });
+
+  describe("iteratePages", () => {
+    test("follows X-WP-TotalPages until every page is fetched", async () => {
+      const originalFetch = globalThis.fetch;
+      const fetchMock = mock((url: string) => {
+        const page = Number(new URL(url).searchParams.get("page"));
+        return Promise.resolve({
+          ok: true,
+          headers: new Headers({ "X-WP-TotalPages": "3" }),
+          json: () => Promise.resolve([{ id: page * 10 }, { id: page * 10 + 1 }]),
+        });
+      });
+      globalThis.fetch = fetchMock as unknown as typeof fetch;
+
+      const client = new WordPressClient({
+        url: "https://example.com",
+        username: "user",
+        appPassword: "pass",
+      });
+
+      const ids: number[] = [];
+      for await (const page of client.iteratePages()) {
+        ids.push(page.id);
+      }
+
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+      expect(ids).toEqual([10, 11, 20, 21, 30, 31]);
+
+      globalThis.fetch = originalFetch;
+    });
+
+    test("stops after the first page without pagination headers", async () => {
+      const originalFetch = globalThis.fetch;
+      const fetchMock = mock(() =>
+        Promise.resolve({ ok: true, json: () => Promise.resolve([{ id: 1 }]) })
+      );
+      globalThis.fetch = fetchMock as unknown as typeof fetch;
+
+      const client = new WordPressClient({
+        url: "https://example.com",
+        username: "user",
+        appPassword: "pass",
+      });
+
+      const ids: number[] = [];
+      for await (const page of client.iteratePages()) {
+        ids.push(page.id);
+      }
+
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      expect(ids).toEqual([1]);
+
+      globalThis.fetch = originalFetch;
+    });
+  });
+
+  describe("HTTP errors and retries (mock server)", () => {
+    let server: ReturnType<typeof Bun.serve>;
+    let requests: string[] = [];
+    // Responses served in order; the last one repeats
+    let responses: Array<() => Response | Promise<Response>> = [];
+
+    beforeAll(() => {
+      server = Bun.serve({
+        port: 0,
+        fetch(req) {
+          requests.push(`${req.method} ${new URL(req.url).pathname}`);
+          const next = responses.length > 1 ? responses.shift() : responses[0];
+          return next ? next() : new Response("[]");
+        },
+      });
+    });
+
+    afterAll(() => {
+      server.stop(true);
+    });
+
+    beforeEach(() => {
+      requests = [];
+      responses = [];
+    });
+
+    function client(options: ConstructorParameters<typeof WordPressClient>[1] = {}) {
+      return new WordPressClient(
+        { url: `http://localhost:${server.port}`, username: "user", appPassword: "pass" },
+        { retryDelay: 1, limiter: new ConcurrencyLimiter(4), ...options }
+      );
+    }
+
+    const jsonResponse = (body: unknown, status = 200) =>
+      new Response(JSON.stringify(body), {
+        status,
+        headers: { "Content-Type": "application/json" },
+      });
+
+    test("maps WordPress error bodies to typed errors", async () => {
+      responses = [() => jsonResponse({ code: "rest_post_invalid_id", message: "Invalid post ID." }, 404)];
+
+      const error = await client().getPage(999).catch((e) => e);
+
+      expect(error).toBeInstanceOf(WPNotFoundError);
+      expect(error.message).toBe("Invalid post ID.");
+      expect(error.code).toBe("rest_post_invalid_id");
+      expect(error.status).toBe(404);
+    });
+
+    test("does not retry auth errors", async () => {
+      responses = [() => jsonResponse({ code: "rest_forbidden", message: "Sorry." }, 401)];
+
+      const error = await client().getPage(1).catch((e) => e);
+
+      expect(error).toBeInstanceOf(WPAuthError);
+      expect(requests).toHaveLength(1);
+    });
+
+    test("retries an HTML 502 and succeeds", async () => {
+      responses = [
+        () => new Response("<html><body>Bad Gateway</body></html>", { status: 502 }),
+        () => jsonResponse({ id: 1, title: { rendered: "Home" }, meta: {} }),
+      ];
+
+      const page = await client().getPage(1);
+
+      expect(page.id).toBe(1);
+      expect(requests).toHaveLength(2);
+    });
+
+    test("gives up after the configured retries with a server error", async () => {
+      responses = [() => new Response("<html>Bad Gateway</html>", { status: 502, statusText: "Bad Gateway" })];
+
+      const error = await client({ retries: 2 }).getPage(1).catch((e) => e);
+
+      expect(error).toBeInstanceOf(WPServerError);
+      expect(error.message).toBe("HTTP 502 Bad Gateway");
+      expect(requests).toHaveLength(3);
+    });
+
+    test("honors Retry-After on 429", async () => {
+      responses = [
+        () => new Response("", { status: 429, headers: { "Retry-After": "0.05" } }),
+        () => jsonResponse({ id: 1, title: { rendered: "Home" }, meta: {} }),
+      ];
+
+      const started = Date.now();
+      await client().getPage(1);
+
+      expect(Date.now() - started).toBeGreaterThanOrEqual(45);
+      expect(requests).toHaveLength(2);
+    });
+
+    test("does not retry POST on server errors", async () => {
+      responses = [() => new Response("", { status: 500 })];
+
+      const error = await client().createPage({ title: "New" }).catch((e) => e);
+
+      expect(error).toBeInstanceOf(WPServerError);
+      expect(requests).toEqual(["POST /wp-json/wp/v2/pages"]);
+    });
+
+    test("times out slow responses as network errors", async () => {
+      responses = [
+        async () => {
+          await Bun.sleep(200);
+          return jsonResponse({});
+        },
+      ];
+
+      const error = await client({ timeout: 20, retries: 0 }).getPage(1).catch((e) => e);
+
+      expect(error).toBeInstanceOf(WPNetworkError);
+      expect(error.message).toContain("timed out");
+    });
   });
 });
@@ -1,55 +1,226 @@
 import type { SiteConfig } from "../types/config.js";
-import type { WPPage, WPRevision, WPUser, WPError } from "../types/wordpress.js";
+import type { PostType } from "../types/elementor.js";
+import type { WPMedia, WPPage, WPPostType, WPRevision, WPUser } from "../types/wordpress.js";
+import { type ConcurrencyLimiter, sharedLimiter } from "./concurrency-limiter.js";
+import { WPNetworkError, errorFromResponse } from "./wordpress-errors.js";
+
+export interface WordPressClientOptions {
+  timeout?: number; // ms per attempt (default 30s)
+  retries?: number; // extra attempts on 429/5xx and network errors (default 3)
+  retryDelay?: number; // base delay for exponential backoff in ms (default 500)
+  maxRetryDelay?: number; // upper bound for backoff and Retry-After in ms (default 30s)
+  limiter?: ConcurrencyLimiter; // defaults to the limiter shared by all clients
+}
+
+const RETRYABLE_STATUS = new Set([429, 500, 502, 503, 504]);
+// Methods that are safe to repeat after a server error or lost response
+const IDEMPOTENT_METHODS = new Set(["GET", "HEAD", "PUT", "DELETE", "OPTIONS"]);
+
+export interface ListPagesOptions {
+  status?: string;
+  perPage?: number;
+  page?: number;
+  postType?: PostType;
+  slug?: string;
+}
 
 export class WordPressClient {
   private baseUrl: string;
   private authHeader: string;
+  private timeout: number;
+  private retries: number;
+  private retryDelay: number;
+  private maxRetryDelay: number;
+  private limiter: ConcurrencyLimiter;
+  // REST collection per post type; core types are known, others come from /wp/v2/types
+  private collections = new Map<PostType, string>([
+    ["page", "/wp/v2/pages"],
+    ["post", "/wp/v2/posts"],
+  ]);
 
-  constructor(config: SiteConfig) {
+  constructor(config: SiteConfig, options: WordPressClientOptions = {}) {
     this.baseUrl = config.url.replace(/\/$/, "");
     const credentials = btoa(`${config.username}:${config.appPassword}`);
     this.authHeader = `Basic ${credentials}`;
+    this.timeout = options.timeout ?? config.timeout ?? 30_000;
+    this.retries = options.retries ?? config.retries ?? 3;
+    this.retryDelay = options.retryDelay ?? 500;
+    this.maxRetryDelay = options.maxRetryDelay ?? 30_000;
+    this.limiter = options.limiter ?? sharedLimiter;
+  }
+
+  /**
+   * Send a request, retrying with exponential backoff on 429, 5xx and network
+   * errors. Server errors and network errors are only retried for idempotent
+   * methods; 429 means the request was not processed, so it is always retried.
+   */
+  private async send(endpoint: string, options: RequestInit = {}): Promise<Response> {
+    const method = (options.method || "GET").toUpperCase();
+
+    for (let attempt = 0; ; attempt++) {
+      let response: Response;
+      try {
+        response = await this.limiter.run(() => this.fetchOnce(endpoint, options));
+      } catch (error) {
+        if (!(error instanceof WPNetworkError)) throw error;
+        if (attempt >= this.retries || !IDEMPOTENT_METHODS.has(method)) throw error;
+        await Bun.sleep(this.backoff(attempt));
+        continue;
+      }
+
+      if (response.ok) {
+        return response;
+      }
+
+      const retryable =
+        RETRYABLE_STATUS.has(response.status) &&
+        (response.status === 429 || IDEMPOTENT_METHODS.has(method));
+
+      if (retryable && attempt < this.retries) {
+        const retryAfter = this.parseRetryAfter(response.headers?.get("Retry-After"));
+        // Discard the body so the connection can be reused
+        await response.text().catch(() => "");
+        await Bun.sleep(retryAfter ?? this.backoff(attempt));
+        continue;
+      }
+
+      const body = await response.text().catch(() => "");
+      throw errorFromResponse(response.status, response.statusText, body);
+    }
+  }
+
+  private async fetchOnce(endpoint: string, options: RequestInit): Promise<Response> {
+    // REST endpoints are relative; absolute URLs are used to download media files
+    const absolute = /^https?:\/\//.test(endpoint);
+    const url = absolute ? endpoint : `${this.baseUrl}/wp-json${endpoint}`;
+    // Never send credentials to other hosts (e.g. a CDN serving uploads)
+    const authorize = !absolute || url.startsWith(`${this.baseUrl}/`);
+
+    try {
+      return await fetch(url, {
+        ...options,
+        signal: AbortSignal.timeout(this.timeout),
+        headers: {
+          ...(authorize ? { Authorization: this.authHeader } : {}),
+          "Content-Type": "application/json",
+          ...options.headers,
+        },
+      });
+    } catch (error) {
+      const timedOut = error instanceof Error && error.name === "TimeoutError";
+      throw new WPNetworkError(
+        timedOut
+          ? `Request to ${url} timed out after ${this.timeout}ms`
+          : `Request to ${url} failed: ${error instanceof Error ? error.message : error}`,
+        { cause: error }
+      );
+    }
+  }
+
+  private backoff(attempt: number): number {
+    return Math.min(this.maxRetryDelay, this.retryDelay * 2 ** attempt);
+  }
+
+  /**
+   * Retry-After is either a number of seconds or an HTTP date
+   */
+  private parseRetryAfter(value: string | null | undefined): number | null {
+    if (!value) return null;
+
+    const seconds = Number(value);
+    const delay = Number.isNaN(seconds) ? Date.parse(value) - Date.now() : seconds * 1000;
+    if (Number.isNaN(delay)) return null;
+
+    return Math.min(this.maxRetryDelay, Math.max(0, delay));
   }
 
   private async request<T>(
     endpoint: string,
     options: RequestInit = {}
   ): Promise<T> {
-    const url = `${this.baseUrl}/wp-json${endpoint}`;
+    const response = await this.send(endpoint, options);
+    return response.json() as Promise<T>;
+  }
 
-    const response = await fetch(url, {
-      ...options,
-      headers: {
-        Authorization: this.authHeader,
-        "Content-Type": "application/json",
-        ...options.headers,
-      },
-    });
+  /**
+   * Request one page of a collection along with the total page count
+   * WordPress reports in the X-WP-TotalPages header
+   */
+  private async requestList<T>(endpoint: string): Promise<{ items: T[]; totalPages: number }> {
+    const response = await this.send(endpoint);
+    const items = (await response.json()) as T[];
+    const totalPages = Number.parseInt(response.headers?.get("X-WP-TotalPages") || "1", 10);
+    return { items, totalPages: Number.isNaN(totalPages) ? 1 : totalPages };
+  }
 
-    if (!response.ok) {
-      const error = (await response.json()) as WPError;
-      throw new Error(error.message || `HTTP ${response.status}`);
+  /**
+   * REST collection endpoint for a post type, e.g. /wp/v2/pages for "page" or
+   * /wp/v2/case-studies for a "case_study" type registered with that rest_base
+   */
+  async getCollection(postType: PostType): Promise<string> {
+    const known = this.collections.get(postType);
+    if (known) {
+      return known;
     }
 
-    return response.json() as Promise<T>;
+    const type = await this.request<WPPostType>(`/wp/v2/types/${postType}?context=edit`);
+    if (!type.rest_base) {
+      throw new Error(`Post type '${postType}' is not available in the REST API`);
+    }
+
+    const collection = `/${type.rest_namespace || "wp/v2"}/${type.rest_base}`;
+    this.collections.set(postType, collection);
+    return collection;
+  }
+
+  async listPostTypes(): Promise<WPPostType[]> {
+    const types = await this.request<Record<string, WPPostType>>("/wp/v2/types?context=edit");
+    return Object.values(types);
   }
 
   async testConnection(): Promise<WPUser> {
     return this.request<WPUser>("/wp/v2/users/me");
   }
 
-  async listPages(options: {
-    status?: string;
-    perPage?: number;
-    page?: number;
-  } = {}): Promise<WPPage[]> {
+  /**
+   * List a single page of results (at most `perPage` items).
+   * Use iteratePages() to go through every item of a post type.
+   */
+  async listPages(options: ListPagesOptions = {}): Promise<WPPage[]> {
+    const { items } = await this.listPagesPage(options);
+    return items;
+  }
+
+  /**
+   * Iterate over all items of a post type, requesting further pages
+   * until X-WP-TotalPages is reached.
+   */
+  async *iteratePages(options: Omit<ListPagesOptions, "page"> = {}): AsyncGenerator<WPPage> {
+    let page = 1;
+    let totalPages = 1;
+
+    do {
+      const result = await this.listPagesPage({ ...options, page });
+      yield* result.items;
+      totalPages = result.totalPages;
+      page++;
+    } while (page <= totalPages);
+  }
+
+  private async listPagesPage(
+    options: ListPagesOptions
+  ): Promise<{ items: WPPage[]; totalPages: number }> {
     const params = new URLSearchParams({
       per_page: String(options.perPage || 100),
       page: String(options.page || 1),
       context: "edit",
-      _fields: "id,title,slug,status,modified,meta,template",
+      _fields: "id,type,title,slug,status,modified,meta,template",
     });
 
+    if (options.slug) {
+      params.set("slug", options.slug);
+    }
+
     if (options.status && options.status !== "all") {
       params.set("status", options.status);
     } else {
@@ -59,20 +230,34 @@ export class WordPressClient {
       }
     }
 
-    return this.request<WPPage[]>(`/wp/v2/pages?${params}`);
+    const collection = await this.getCollection(options.postType || "page");
+    return this.requestList<WPPage>(`${collection}?${params}`);
+  }
+
+  async getPage(pageId: number, postType: PostType = "page"): Promise<WPPage> {
+    const collection = await this.getCollection(postType);
+    return this.request<WPPage>(`${collection}/${pageId}?context=edit`);
   }
 
-  async getPage(pageId: number): Promise<WPPage> {
-    return this.request<WPPage>(`/wp/v2/pages/${pageId}?context=edit`);
+  /**
+   * Items of a post type with the given slug (any status). Usually one,
+   * but WordPress allows the same slug under different parents.
+   */
+  async findPagesBySlug(slug: string, postType: PostType = "page"): Promise<WPPage[]> {
+    return this.listPages({ slug, postType });
   }
 
-  async createPage(data: {
-    title: string;
-    status?: string;
-    template?: string;
-    elementorData?: string;
-    pageSettings?: Record<string, unknown>;
-  }): Promise<WPPage> {
+  async createPage(
+    data: {
+      title: string;
+      slug?: string;
+      status?: string;
+      template?: string;
+      elementorData?: string;
+      pageSettings?: Record<string, unknown>;
+    },
+    postType: PostType = "page"
+  ): Promise<WPPage> {
     const body: Record<string, unknown> = {
       title: data.title,
       status: data.status || "draft",
@@ -83,11 +268,14 @@ export class WordPressClient {
       },
     };
 
+    if (data.slug) {
+      body.slug = data.slug;
+    }
     if (data.template) {
       body.template = data.template;
     }
 
-    return this.request<WPPage>("/wp/v2/pages", {
+    return this.request<WPPage>(await this.getCollection(postType), {
       method: "POST",
       body: JSON.stringify(body),
     });
@@ -102,7 +290,9 @@ export class WordPressClient {
       template?: string;
       elementorData?: string;
       pageSettings?: Record<string, unknown>;
-    }
+      editMode?: "builder"; // Turn on Elementor for a page that doesn't use it yet
+    },
+    postType: PostType = "page"
   ): Promise<WPPage> {
     const body: Record<string, unknown> = {};
 
@@ -111,8 +301,11 @@ export class WordPressClient {
     if (data.slug) body.slug = data.slug;
     if (data.template) body.template = data.template;
 
-    if (data.elementorData || data.pageSettings) {
+    if (data.elementorData || data.pageSettings || data.editMode) {
       body.meta = {};
+      if (data.editMode) {
+        (body.meta as Record<string, string>)._elementor_edit_mode = data.editMode;
+      }
       if (data.elementorData) {
         (body.meta as Record<string, string>)._elementor_data =
           data.elementorData;
@@ -125,41 +318,142 @@ export class WordPressClient {
       }
     }
 
-    return this.request<WPPage>(`/wp/v2/pages/${pageId}`, {
+    const collection = await this.getCollection(postType);
+    return this.request<WPPage>(`${collection}/${pageId}`, {
+      method: "PUT",
+      body: JSON.stringify(body),
+    });
+  }
+
+  /**
+   * Write a page back to a recorded state. Unlike updatePage, every field
+   * is sent: an empty template is the default one, and empty meta values
+   * are sent as null, which deletes them (an empty {} would be stored as a
+   * string, see updatePage).
+   */
+  async replacePage(
+    pageId: number,
+    data: {
+      title: string;
+      status: string;
+      slug: string;
+      template: string;
+      elementorData: string;
+      pageSettings: Record<string, unknown>;
+      editMode: string;
+    },
+    postType: PostType = "page"
+  ): Promise<WPPage> {
+    const body = {
+      title: data.title,
+      status: data.status,
+      slug: data.slug,
+      template: data.template,
+      meta: {
+        _elementor_edit_mode: data.editMode || null,
+        _elementor_data: data.elementorData || null,
+        _elementor_page_settings:
+          Object.keys(data.pageSettings).length > 0 ? data.pageSettings : null,
+      },
+    };
+
+    const collection = await this.getCollection(postType);
+    return this.request<WPPage>(`${collection}/${pageId}`, {
       method: "PUT",
       body: JSON.stringify(body),
     });
   }
 
-  async deletePage(pageId: number, force = false): Promise<void> {
+  async deletePage(pageId: number, force = false, postType: PostType = "page"): Promise<void> {
+    const collection = await this.getCollection(postType);
     await this.request<unknown>(
-      `/wp/v2/pages/${pageId}?force=${force}`,
+      `${collection}/${pageId}?force=${force}`,
       {
         method: "DELETE",
       }
     );
   }
 
-  async getRevisions(pageId: number): Promise<WPRevision[]> {
+  async getRevisions(pageId: number, postType: PostType = "page"): Promise<WPRevision[]> {
+    const collection = await this.getCollection(postType);
     return this.request<WPRevision[]>(
-      `/wp/v2/pages/${pageId}/revisions?context=edit`
+      `${collection}/${pageId}/revisions?context=edit`
     );
   }
 
-  async getRevision(pageId: number, revisionId: number): Promise<WPRevision> {
+  async getRevision(
+    pageId: number,
+    revisionId: number,
+    postType: PostType = "page"
+  ): Promise<WPRevision> {
+    const collection = await this.getCollection(postType);
     return this.request<WPRevision>(
-      `/wp/v2/pages/${pageId}/revisions/${revisionId}?context=edit`
+      `${collection}/${pageId}/revisions/${revisionId}?context=edit`
     );
   }
 
+  /**
+   * Delete a revision for good (revisions have no trash, so force is required)
+   */
+  async deleteRevision(
+    pageId: number,
+    revisionId: number,
+    postType: PostType = "page"
+  ): Promise<void> {
+    const collection = await this.getCollection(postType);
+    await this.request<unknown>(
+      `${collection}/${pageId}/revisions/${revisionId}?force=true`,
+      { method: "DELETE" }
+    );
+  }
+
+  async getMedia(mediaId: number): Promise<WPMedia> {
+    return this.request<WPMedia>(`/wp/v2/media/${mediaId}?context=edit`);
+  }
+
+  /**
+   * Download a media file by its URL (usually under wp-content/uploads)
+   */
+  async downloadMedia(url: string): Promise<{ data: ArrayBuffer; mimeType: string }> {
+    const response = await this.send(url);
+    return {
+      data: await response.arrayBuffer(),
+      mimeType: response.headers?.get("Content-Type") || "application/octet-stream",
+    };
+  }
+
+  /**
+   * Upload a file to the media library. Title and alt text are passed as
+   * query parameters because the request body is the file itself.
+   */
+  async uploadMedia(
+    file: { name: string; data: Blob | ArrayBuffer; mimeType: string },
+    details: { title?: string; alt?: string } = {}
+  ): Promise<WPMedia> {
+    const params = new URLSearchParams();
+    if (details.title) params.set("title", details.title);
+    if (details.alt) params.set("alt_text", details.alt);
+    const query = params.toString();
+
+    return this.request<WPMedia>(`/wp/v2/media${query ? `?${query}` : ""}`, {
+      method: "POST",
+      body: file.data,
+      headers: {
+        "Content-Type": file.mimeType,
+        "Content-Disposition": `attachment; filename="${file.name.replace(/"/g, "")}"`,
+      },
+    });
+  }
+
   isElementorPage(page: WPPage): boolean {
     return page.meta?._elementor_edit_mode === "builder";
   }
 
-  async invalidateCss(pageId: number): Promise<WPPage> {
+  async invalidateCss(pageId: number, postType: PostType = "page"): Promise<WPPage> {
     // Invalidate Elementor CSS cache by setting _elementor_css meta to empty
     // This forces Elementor to regenerate CSS on next page load
-    return this.request<WPPage>(`/wp/v2/pages/${pageId}`, {
+    const collection = await this.getCollection(postType);
+    return this.request<WPPage>(`${collection}/${pageId}`, {
       method: "PUT",
       body: JSON.stringify({
         meta: {
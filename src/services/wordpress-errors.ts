@@ -0,0 +1,87 @@
+import type { WPError } from "../types/wordpress.js";
+
+/**
+ * Base class for failed WordPress REST API requests.
+ *
+ * `status` is the HTTP status (undefined for network errors), `code` the
+ * WordPress error code from the response body (e.g. "rest_post_invalid_id").
+ */
+export class WPApiError extends Error {
+  readonly status?: number;
+  readonly code?: string;
+  readonly data?: WPError["data"];
+
+  constructor(message: string, options: { status?: number; code?: string; data?: WPError["data"] } = {}) {
+    super(message);
+    this.name = "WPApiError";
+    this.status = options.status;
+    this.code = options.code;
+    this.data = options.data;
+  }
+}
+
+/** 401/403: wrong credentials or missing capabilities */
+export class WPAuthError extends WPApiError {
+  constructor(message: string, options: ConstructorParameters<typeof WPApiError>[1] = {}) {
+    super(message, options);
+    this.name = "WPAuthError";
+  }
+}
+
+/** 404: page, revision or route does not exist */
+export class WPNotFoundError extends WPApiError {
+  constructor(message: string, options: ConstructorParameters<typeof WPApiError>[1] = {}) {
+    super(message, options);
+    this.name = "WPNotFoundError";
+  }
+}
+
+/** 409/412: the resource changed or is locked */
+export class WPConflictError extends WPApiError {
+  constructor(message: string, options: ConstructorParameters<typeof WPApiError>[1] = {}) {
+    super(message, options);
+    this.name = "WPConflictError";
+  }
+}
+
+/** 5xx: WordPress or a proxy in front of it failed */
+export class WPServerError extends WPApiError {
+  constructor(message: string, options: ConstructorParameters<typeof WPApiError>[1] = {}) {
+    super(message, options);
+    this.name = "WPServerError";
+  }
+}
+
+/** The request never got a response: DNS, connection refused, timeout */
+export class WPNetworkError extends WPApiError {
+  constructor(message: string, options: { cause?: unknown } = {}) {
+    super(message);
+    this.name = "WPNetworkError";
+    this.cause = options.cause;
+  }
+}
+
+/**
+ * Build the matching error for a non-ok response. The body may be a WordPress
+ * JSON error or anything else (an HTML 502 page from a proxy, an empty body).
+ */
+export function errorFromResponse(status: number, statusText: string, body: string): WPApiError {
+  let wpError: Partial<WPError> = {};
+  try {
+    const parsed = JSON.parse(body);
+    if (parsed && typeof parsed === "object") {
+      wpError = parsed as WPError;
+    }
+  } catch {
+    // Not JSON, fall back to the HTTP status
+  }
+
+  const message = wpError.message || `HTTP ${status}${statusText ? ` ${statusText}` : ""}`;
+  const options = { status, code: wpError.code, data: wpError.data };
+
+  if (status === 401 || status === 403) return new WPAuthError(message, options);
+  if (status === 404) return new WPNotFoundError(message, options);
+  if (status === 409 || status === 412) return new WPConflictError(message, options);
+  if (status >= 500) return new WPServerError(message, options);
+  return new WPApiError(message, options);
+}
@@ -0,0 +1,310 @@
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join, relative } from "node:path";
+import { createApiHandler, type ApiContext } from "./api.js";
+import { StudioEvents } from "./events.js";
+import { StudioSites } from "./sites.js";
+import { LocalStore } from "../services/local-store.js";
+import { ElementorParser } from "../services/elementor-parser.js";
+import type { DockerManager } from "../services/docker-manager.js";
+import type { WordPressClient } from "../services/wordpress-client.js";
+import type { PageData } from "../types/elementor.js";
+import type { Config, SiteConfig } from "../types/config.js";
+
+const page: PageData = {
+  id: 42,
+  title: "Home",
+  slug: "home",
+  status: "publish",
+  elementor_data: [
+    {
+      id: "c1",
+      elType: "container",
+      settings: {},
+      elements: [
+        { id: "h1", elType: "widget", widgetType: "heading", settings: { title: "Hello" }, elements: [] },
+        { id: "b1", elType: "widget", widgetType: "button", settings: { text: "Go" }, elements: [] },
+      ],
+    },
+  ],
+  page_settings: {},
+};
+
+const config = {
+  sites: {
+    local: { url: "http://local.test", username: "admin", appPassword: "secret" },
+    production: { url: "https://example.com", username: "admin", appPassword: "secret" },
+  },
+  pagesDir: ".elementor-cli/pages",
+} as unknown as Config;
+
+// Sites whose WordPress clients are the given fakes, by site URL
+const fakeSites = (clients: Record<string, unknown> = {}) =>
+  new StudioSites(config, "local", (site: SiteConfig) => clients[site.url] as WordPressClient);
+
+describe("studio element endpoints", () => {
+  let dir: string;
+  let store: LocalStore;
+  let synced: string[];
+  let handle: ReturnType<typeof createApiHandler>;
+
+  const request = (path: string, method = "GET", body?: unknown) => {
+    const url = new URL(`http://studio${path}`);
+    return handle(
+      new Request(url, { method, body: body === undefined ? undefined : JSON.stringify(body) }),
+      url
+    );
+  };
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "studio-"));
+    store = new LocalStore(relative(process.cwd(), dir));
+    await store.savePage("local", page);
+
+    synced = [];
+    const docker = {
+      async getStatus() {
+        return { running: true, services: [] };
+      },
+      async updatePost(id: number) {
+        synced.push(`post ${id}`);
+      },
+      async updatePostMeta(id: number, key: string) {
+        synced.push(`meta ${id} ${key}`);
+      },
+      async flushElementorCss() {},
+    };
+    handle = createApiHandler({
+      sites: fakeSites(),
+      docker: docker as unknown as DockerManager,
+      store,
+      parser: new ElementorParser(),
+      config,
+      events: new StudioEvents(),
+    } as ApiContext);
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  test("reads and replaces the local element tree", async () => {
+    const read = await request("/api/pages/42/elements");
+    expect((await read.json()).elements[0].id).toBe("c1");
+    expect((await request("/api/pages/7/elements")).status).toBe(404);
+
+    const [container] = page.elementor_data;
+    const reordered = [{ ...container, elements: [...container.elements].reverse() }];
+    const response = await request("/api/pages/42/elements", "PUT", { elements: reordered });
+    expect(response.status).toBe(200);
+
+    const saved = await store.loadElements("local", 42);
+    expect(saved?.[0].elements.map((element) => element.id)).toEqual(["b1", "h1"]);
+    expect(synced).toEqual([]);
+  });
+
+  test("edits one element's settings and position, syncing on request", async () => {
+    const response = await request("/api/pages/42/elements/h1", "PUT", {
+      settings: { title: "Welcome" },
+      position: { parentId: "c1", index: 1 },
+      sync: true,
+    });
+    const result = await response.json();
+
+    expect(result.synced).toBe(true);
+    expect(result.elements[0].elements.map((element: { id: string }) => element.id)).toEqual(["b1", "h1"]);
+    const saved = await store.loadElements("local", 42);
+    expect(saved?.[0].elements[1].settings).toEqual({ title: "Welcome" });
+    expect(synced).toContain("meta 42 _elementor_data");
+  });
+
+  test("rejects edits that make the tree invalid", async () => {
+    const intoWidget = await request("/api/pages/42/elements/b1", "PUT", {
+      position: { parentId: "h1" },
+    });
+    expect(intoWidget.status).toBe(400);
+
+    const [container] = page.elementor_data;
+    const duplicateIds = [container, { ...container }];
+    const invalid = await request("/api/pages/42/elements", "PUT", { elements: duplicateIds });
+    expect(invalid.status).toBe(422);
+    expect((await invalid.json()).issues.length).toBeGreaterThan(0);
+
+    expect((await request("/api/pages/42/elements/nope", "PUT", { settings: {} })).status).toBe(404);
+    expect((await store.loadElements("local", 42))?.[0].elements[0].id).toBe("h1");
+  });
+});
+
+describe("studio push endpoint", () => {
+  let dir: string;
+  let store: LocalStore;
+  let remote: { modified: string; heading: string };
+  let updates: number[];
+  let handle: ReturnType<typeof createApiHandler>;
+
+  const push = async (body: unknown) => {
+    const url = new URL("http://studio/api/push/42");
+    const response = await handle(new Request(url, { method: "POST", body: JSON.stringify(body) }), url);
+    return { status: response.status, body: await response.json() };
+  };
+
+  const withHeading = (title: string) => {
+    const [container] = page.elementor_data;
+    const [heading, button] = container.elements;
+    return [{ ...container, elements: [{ ...heading, settings: { title } }, button] }];
+  };
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "studio-"));
+    store = new LocalStore(relative(process.cwd(), dir));
+    await store.savePage("local", { ...page, remote_modified: "2026-01-01T00:00:00" });
+    await store.saveElements("local", 42, withHeading("Local"));
+
+    remote = { modified: "2026-01-01T00:00:00", heading: "Hello" };
+    updates = [];
+    const wpClient = {
+      async getPage(id: number) {
+        return {
+          id,
+          title: { raw: page.title, rendered: page.title },
+          slug: page.slug,
+          status: page.status,
+          modified: remote.modified,
+          meta: { _elementor_data: JSON.stringify(withHeading(remote.heading)), _elementor_page_settings: "{}" },
+        };
+      },
+      async updatePage(id: number) {
+        updates.push(id);
+      },
+    };
+    handle = createApiHandler({
+      sites: fakeSites({ "http://local.test": wpClient }),
+      store,
+      parser: new ElementorParser(),
+      config,
+      events: new StudioEvents(),
+    } as ApiContext);
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  test("previews a push without writing", async () => {
+    const { status, body } = await push({ dryRun: true });
+
+    expect(status).toBe(200);
+    expect(body.dryRun).toBe(true);
+    expect(body.merged).toBe(false);
+    expect(body.diff.elements.modified).toEqual(["h1"]);
+    expect(updates).toEqual([]);
+  });
+
+  test("refuses to overwrite conflicting production changes unless forced", async () => {
+    remote = { modified: "2026-02-01T00:00:00", heading: "Remote" };
+
+    const refused = await push({ dryRun: true });
+    expect(refused.status).toBe(409);
+    expect(refused.body.conflicts).toBe(1);
+    expect(await store.loadConflicts("local", 42)).toBeNull();
+
+    expect((await push({})).status).toBe(409);
+    expect(updates).toEqual([]);
+    expect(await store.loadConflicts("local", 42)).not.toBeNull();
+
+    // Unresolved conflicts keep blocking until forced
+    remote = { modified: "2026-01-01T00:00:00", heading: "Hello" };
+    expect((await push({ dryRun: true })).status).toBe(409);
+    expect((await push({ dryRun: true, force: true })).status).toBe(200);
+  });
+});
+
+describe("studio sites", () => {
+  let dir: string;
+  let handle: ReturnType<typeof createApiHandler>;
+  let created: string[];
+
+  const request = async (path: string, method = "GET", body?: unknown) => {
+    const url = new URL(`http://studio${path}`);
+    const response = await handle(
+      new Request(url, { method, body: body === undefined ? undefined : JSON.stringify(body) }),
+      url
+    );
+    return { status: response.status, body: await response.json() };
+  };
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "studio-"));
+    const store = new LocalStore(relative(process.cwd(), dir));
+    await store.savePage("local", page);
+
+    created = [];
+    const source = {
+      async getPage(id: number) {
+        return {
+          id,
+          title: { raw: page.title, rendered: page.title },
+          slug: page.slug,
+          status: page.status,
+          modified: "2026-01-01T00:00:00",
+          meta: {
+            _elementor_edit_mode: "builder",
+            _elementor_data: JSON.stringify(page.elementor_data),
+            _elementor_page_settings: "{}",
+          },
+        };
+      },
+      isElementorPage() {
+        return true;
+      },
+    };
+    const target = {
+      async findPagesBySlug() {
+        return [];
+      },
+      async createPage(data: { title: string }) {
+        created.push(data.title);
+        return { id: 314 };
+      },
+    };
+    handle = createApiHandler({
+      sites: fakeSites({ "http://local.test": source, "https://example.com": target }),
+      store,
+      parser: new ElementorParser(),
+      config,
+      events: new StudioEvents(),
+    } as ApiContext);
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  test("scopes routes to a site of the config", async () => {
+    const { body: sites } = await request("/api/sites");
+    expect(sites.map((site: { name: string }) => site.name)).toEqual(["local", "production"]);
+    expect(sites[0].isDefault).toBe(true);
+
+    expect((await request("/api/sites/local/pages/42/elements")).status).toBe(200);
+    expect((await request("/api/pages/42/elements")).status).toBe(200);
+    expect((await request("/api/sites/production/pages/42/elements")).status).toBe(404);
+    expect((await request("/api/sites/nope/pages/42/elements")).body.error).toContain("'nope' not found");
+    expect((await request("/api/sites/constructor/pages/42/elements")).body.error).toContain("'constructor' not found");
+  });
+
+  test("previews copying a page to another site", async () => {
+    const { status, body } = await request("/api/sites/local/pages/42/copy", "POST", {
+      to: "production",
+      dryRun: true,
+    });
+
+    expect(status).toBe(200);
+    expect(body.target).toBeNull();
+    expect(body.summary).toBe("new page with 3 element(s)");
+    expect(created).toEqual([]);
+
+    expect((await request("/api/sites/local/pages/42/copy", "POST", { to: "local" })).status).toBe(400);
+    expect((await request("/api/sites/local/pages/42/copy", "POST", { to: "nope" })).status).toBe(404);
+  });
+});
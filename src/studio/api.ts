@@ -2,16 +2,40 @@ import type { WordPressClient } from "../services/wordpress-client.js";
 import type { DockerManager } from "../services/docker-manager.js";
 import type { LocalStore } from "../services/local-store.js";
 import type { ElementorParser } from "../services/elementor-parser.js";
+import { ElementEditor, type ElementPosition } from "../services/element-editor.js";
+import { ElementValidator } from "../services/element-validator.js";
+import { PageDiff } from "../services/page-diff.js";
+import { PageInspector } from "../services/page-inspector.js";
+import { RevisionManager, type RevisionRestoreResult } from "../services/revision-manager.js";
+import { RevisionTagStore } from "../services/revision-tag-store.js";
+import { OperationJournal } from "../services/operation-journal.js";
+import { ElementMerger, toMergeSide } from "../services/element-merger.js";
+import type { LocalPageData } from "../services/local-store.js";
+import { PagePromoter } from "../services/page-promoter.js";
+import { MediaSync } from "../services/media-sync.js";
+import { hasElementChanges, summarizeElementDiff } from "../utils/diff-format.js";
 import type { SiteConfig, Config } from "../types/config.js";
+import type { WPPage } from "../types/wordpress.js";
+import type { StudioEvents } from "./events.js";
+import type { StudioSites } from "./sites.js";
+import type { ElementorElement } from "../types/elementor.js";
 
 export interface ApiContext {
-  wpClient: WordPressClient;
+  sites: StudioSites;
   docker: DockerManager;
   store: LocalStore;
   parser: ElementorParser;
+  config: Config;
+  events: StudioEvents;
+}
+
+/**
+ * ApiContext of a request, with the site it is scoped to
+ */
+interface SiteContext extends ApiContext {
+  wpClient: WordPressClient;
   siteName: string;
   siteConfig: SiteConfig;
-  config: Config;
 }
 
 function json(data: unknown, status = 200): Response {
@@ -25,11 +49,120 @@ function error(message: string, status = 500): Response {
   return json({ error: message }, status);
 }
 
-export function createApiHandler(ctx: ApiContext) {
+/**
+ * Body of the element endpoints. `sync` also syncs the page to staging
+ * after saving (the editor's "sync to staging on save" toggle).
+ */
+interface ElementsBody {
+  elements?: ElementorElement[];
+  settings?: ElementorElement["settings"];
+  position?: ElementPosition;
+  sync?: boolean;
+}
+
+/**
+ * Body of POST /api/push/:id. As with 'push', `force` overwrites remote
+ * changes and ignores unresolved conflicts; `dryRun` only previews.
+ */
+interface PushBody {
+  dryRun?: boolean;
+  force?: boolean;
+}
+
+/**
+ * Body of POST /api/sites/:site/pages/:id/copy, with the options of
+ * 'promote'. `media` and `rewriteUrls` default to true, `status` (of a
+ * created page) to draft.
+ */
+interface CopyBody {
+  to?: string;
+  targetId?: number;
+  status?: string;
+  media?: boolean;
+  rewriteUrls?: boolean;
+  dryRun?: boolean;
+}
+
+/**
+ * Write a local page to the staging WordPress, announcing start and result
+ * to the browsers so their staging previews reload
+ */
+async function syncPage(ctx: SiteContext, pageId: number): Promise<void> {
+  ctx.events.publish({ type: "sync-started", site: ctx.siteName, pageId });
+  try {
+    await writeToStaging(ctx, pageId);
+    ctx.events.publish({ type: "sync-finished", site: ctx.siteName, pageId, success: true });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    ctx.events.publish({ type: "sync-finished", site: ctx.siteName, pageId, success: false, error: message });
+    throw err;
+  }
+}
+
+async function writeToStaging(ctx: SiteContext, pageId: number): Promise<void> {
+  const localData = await ctx.store.loadPage(ctx.siteName, pageId);
+  if (!localData) {
+    throw new Error("Page not found locally. Pull it first.");
+  }
+
+  // Try to update existing page, or create new one
+  try {
+    await ctx.docker.updatePost(pageId, {
+      title: localData.meta.title,
+      slug: localData.meta.slug,
+      status: localData.meta.status,
+    });
+  } catch {
+    // Page doesn't exist in staging, create it
+    await ctx.docker.createPage(localData.meta.title, localData.meta.status);
+  }
+
+  // Update Elementor meta
+  await ctx.docker.updatePostMeta(pageId, "_elementor_edit_mode", "builder");
+  await ctx.docker.updatePostMeta(
+    pageId,
+    "_elementor_data",
+    ctx.parser.serializeElements(localData.elements)
+  );
+  await ctx.docker.updatePostMeta(
+    pageId,
+    "_elementor_page_settings",
+    ctx.parser.serializeSettings(localData.settings)
+  );
+
+  // Flush CSS cache
+  await ctx.docker.flushElementorCss();
+}
+
+export function createApiHandler(studio: ApiContext) {
   return async (req: Request, url: URL): Promise<Response> => {
-    const pathname = url.pathname;
+    // /api/sites/:site/... is scoped to a site of the config, /api/... to the default site
+    const scoped = url.pathname.match(/^\/api\/sites\/([^/]+)(\/.*)$/);
+    const pathname = scoped ? `/api${scoped[2]}` : url.pathname;
 
     try {
+      const site = studio.sites.get(scoped ? decodeURIComponent(scoped[1]) : undefined);
+      if (!site) {
+        return error(`Site '${decodeURIComponent(scoped?.[1] ?? "")}' not found in config`, 404);
+      }
+      const ctx: SiteContext = {
+        ...studio,
+        wpClient: site.wpClient,
+        siteName: site.name,
+        siteConfig: site.config,
+      };
+
+      // GET /api/sites - Sites of the config
+      if (pathname === "/api/sites" && req.method === "GET") {
+        return json(
+          studio.sites.names().map((name) => ({
+            name,
+            url: studio.config.sites[name].url,
+            isDefault: name === studio.sites.defaultSite,
+          }))
+        );
+      }
+
       // GET /api/config - Get current configuration
       if (pathname === "/api/config" && req.method === "GET") {
         const stagingStatus = await ctx.docker.getStatus();
@@ -45,10 +178,19 @@ export function createApiHandler(ctx: ApiContext) {
         });
       }
 
+      // GET /api/events - Server-sent events (file changes, syncs, pushes, staging status)
+      if (pathname === "/api/events" && req.method === "GET") {
+        return ctx.events.subscribe(req);
+      }
+
       // GET /api/pages - List all Elementor pages
       if (pathname === "/api/pages" && req.method === "GET") {
-        const pages = await ctx.wpClient.listPages();
-        const elementorPages = pages.filter((p) => ctx.wpClient.isElementorPage(p));
+        const elementorPages: WPPage[] = [];
+        for await (const page of ctx.wpClient.iteratePages()) {
+          if (ctx.wpClient.isElementorPage(page)) {
+            elementorPages.push(page);
+          }
+        }
         return json(
           elementorPages.map((p) => ({
             id: p.id,
@@ -79,6 +221,162 @@ export function createApiHandler(ctx: ApiContext) {
         });
       }
 
+      // GET /api/pages/:id/elements - Local element tree of a page
+      const elementsMatch = pathname.match(/^\/api\/pages\/(\d+)\/elements$/);
+      if (elementsMatch && req.method === "GET") {
+        const pageId = Number.parseInt(elementsMatch[1], 10);
+        const elements = await ctx.store.loadElements(ctx.siteName, pageId);
+        if (!elements) {
+          return error("Page not found locally. Pull it first.", 404);
+        }
+        return json({ id: pageId, elements });
+      }
+
+      // PUT /api/pages/:id/elements - Replace the whole element tree
+      // PUT /api/pages/:id/elements/:elementId - Replace an element's settings and/or move it
+      const elementMatch = pathname.match(/^\/api\/pages\/(\d+)\/elements(?:\/([^/]+))?$/);
+      if (elementMatch && req.method === "PUT") {
+        const pageId = Number.parseInt(elementMatch[1], 10);
+        const elementId = elementMatch[2];
+
+        const page = await ctx.store.loadPage(ctx.siteName, pageId);
+        if (!page) {
+          return error("Page not found locally. Pull it first.", 404);
+        }
+
+        const body = (await req.json()) as ElementsBody;
+        let elements: ElementorElement[];
+
+        if (elementId) {
+          const editor = new ElementEditor();
+          elements = ctx.parser.cloneElements(page.elements);
+          const location = editor.locate(elements, elementId);
+          if (!location) {
+            return error(`Element ${elementId} not found`, 404);
+          }
+          if (body.settings !== undefined) {
+            if (body.settings === null || typeof body.settings !== "object" || Array.isArray(body.settings)) {
+              return error("settings must be an object", 400);
+            }
+            location.element.settings = body.settings;
+          }
+          if (body.position) {
+            try {
+              elements = editor.move(elements, elementId, body.position);
+            } catch (err) {
+              return error(err instanceof Error ? err.message : String(err), 400);
+            }
+          }
+        } else {
+          if (!Array.isArray(body.elements)) {
+            return error("elements must be an array", 400);
+          }
+          elements = body.elements;
+        }
+
+        // Only errors the edit introduces block saving, as with 'element'
+        const validator = new ElementValidator();
+        const before = validator.validate(page.elements, page.settings, page.page);
+        const after = validator.validate(elements, page.settings, page.page);
+        if (after.errors.length > before.errors.length) {
+          return json({ error: "The change would make the element tree invalid", issues: after.errors }, 422);
+        }
+
+        await ctx.store.saveElements(ctx.siteName, pageId, elements);
+
+        let synced = false;
+        let syncError: string | undefined;
+        if (body.sync) {
+          if ((await ctx.docker.getStatus()).running) {
+            try {
+              await syncPage(ctx, pageId);
+              synced = true;
+            } catch (err) {
+              syncError = err instanceof Error ? err.message : String(err);
+            }
+          } else {
+            syncError = "Staging environment is not running";
+          }
+        }
+
+        return json({
+          success: true,
+          message: `Saved page ${pageId}${synced ? " and synced it to staging" : ""}`,
+          elements,
+          warnings: after.warnings,
+          synced,
+          syncError,
+        });
+      }
+
+      // The report endpoints below return the same JSON as the CLI's --json
+      // GET /api/pages/:id/diff - Local changes vs remote (diff --format json)
+      const diffMatch = pathname.match(/^\/api\/pages\/(\d+)\/diff$/);
+      if (diffMatch && req.method === "GET") {
+        const pageId = Number.parseInt(diffMatch[1], 10);
+        const local = await ctx.store.loadPage(ctx.siteName, pageId);
+        if (!local) {
+          return error("Page not found locally. Pull it first.", 404);
+        }
+        const remote = ctx.parser.parseWPPage(await ctx.wpClient.getPage(pageId));
+        return json(new PageDiff().compare({ site: ctx.siteName, postType: "page" }, local, remote));
+      }
+
+      // GET /api/pages/:id/revisions - Revisions with tags (revisions list --json)
+      const revisionsMatch = pathname.match(/^\/api\/pages\/(\d+)\/revisions$/);
+      if (revisionsMatch && req.method === "GET") {
+        const pageId = Number.parseInt(revisionsMatch[1], 10);
+        const tags = await new RevisionTagStore().forPage(ctx.siteName, "page", pageId);
+        return json(await new RevisionManager(ctx.wpClient).listSummaries(pageId, tags));
+      }
+
+      // POST /api/pages/:id/revisions/:rev/restore - Restore a revision, journaled (revisions restore --json)
+      const restoreMatch = pathname.match(/^\/api\/pages\/(\d+)\/revisions\/(\d+)\/restore$/);
+      if (restoreMatch && req.method === "POST") {
+        const pageId = Number.parseInt(restoreMatch[1], 10);
+        const revisionId = Number.parseInt(restoreMatch[2], 10);
+        const recorder = new OperationJournal(ctx.siteName).begin(
+          "revisions",
+          `Restore page ${pageId} to revision ${revisionId}`
+        );
+        await new RevisionManager(ctx.wpClient).restoreRevision(pageId, revisionId, recorder);
+        const result: RevisionRestoreResult = {
+          pageId,
+          revisionId,
+          site: ctx.siteName,
+          operation: recorder.operation.id,
+        };
+        return json(result);
+      }
+
+      // GET /api/pages/:id/audit - URL mismatches, missing assets, CSS state (audit --json)
+      // Query: checkAssets=1 to HEAD-request assets, select=<selector> to scope
+      const auditMatch = pathname.match(/^\/api\/pages\/(\d+)\/audit$/);
+      if (auditMatch && req.method === "GET") {
+        const pageId = Number.parseInt(auditMatch[1], 10);
+        const page = await ctx.wpClient.getPage(pageId);
+        if (!ctx.wpClient.isElementorPage(page)) {
+          return error("Page is not an Elementor page", 400);
+        }
+        const checkAssets = url.searchParams.get("checkAssets");
+        const { result } = await new PageInspector(ctx.siteConfig.url).audit(page, {
+          checkAssets: checkAssets === "1" || checkAssets === "true",
+          select: url.searchParams.get("select") || undefined,
+        });
+        return json(result);
+      }
+
+      // GET /api/pages/:id/status - CSS cache state and URL hosts (status --json)
+      const statusMatch = pathname.match(/^\/api\/pages\/(\d+)\/status$/);
+      if (statusMatch && req.method === "GET") {
+        const pageId = Number.parseInt(statusMatch[1], 10);
+        const page = await ctx.wpClient.getPage(pageId);
+        if (!ctx.wpClient.isElementorPage(page)) {
+          return error("Page is not an Elementor page", 400);
+        }
+        return json(new PageInspector(ctx.siteConfig.url).status(page));
+      }
+
       // POST /api/sync/:id - Sync page to staging
       const syncMatch = pathname.match(/^\/api\/sync\/(\d+)$/);
       if (syncMatch && req.method === "POST") {
@@ -90,48 +388,20 @@ export function createApiHandler(ctx: ApiContext) {
           return error("Staging environment is not running", 503);
         }
 
-        // Get local page data
-        const localData = await ctx.store.loadPage(ctx.siteName, pageId);
-        if (!localData) {
-          // No local data, pull from remote first
+        if (!(await ctx.store.pageExists(ctx.siteName, pageId))) {
           return error("Page not found locally. Pull it first.", 404);
         }
 
-        // Try to update existing page, or create new one
-        try {
-          await ctx.docker.updatePost(pageId, {
-            title: localData.meta.title,
-            slug: localData.meta.slug,
-            status: localData.meta.status,
-          });
-        } catch {
-          // Page doesn't exist in staging, create it
-          await ctx.docker.createPage(localData.meta.title, localData.meta.status);
-        }
-
-        // Update Elementor meta
-        await ctx.docker.updatePostMeta(pageId, "_elementor_edit_mode", "builder");
-        await ctx.docker.updatePostMeta(
-          pageId,
-          "_elementor_data",
-          ctx.parser.serializeElements(localData.elements)
-        );
-        await ctx.docker.updatePostMeta(
-          pageId,
-          "_elementor_page_settings",
-          ctx.parser.serializeSettings(localData.settings)
-        );
-
-        // Flush CSS cache
-        await ctx.docker.flushElementorCss();
+        await syncPage(ctx, pageId);
 
         return json({ success: true, message: `Synced page ${pageId} to staging` });
       }
 
-      // POST /api/push/:id - Push page to production
+      // POST /api/push/:id - Push page to production, with the checks of 'push'
       const pushMatch = pathname.match(/^\/api\/push\/(\d+)$/);
       if (pushMatch && req.method === "POST") {
-        const pageId = parseInt(pushMatch[1], 10);
+        const pageId = Number.parseInt(pushMatch[1], 10);
+        const body = (await req.json().catch(() => ({}))) as PushBody;
 
         // Get local page data
         const localData = await ctx.store.loadPage(ctx.siteName, pageId);
@@ -139,16 +409,196 @@ export function createApiHandler(ctx: ApiContext) {
           return error("Page not found locally", 404);
         }
 
-        // Update remote page
-        await ctx.wpClient.updatePage(pageId, {
-          title: localData.meta.title,
-          status: localData.meta.status,
-          slug: localData.meta.slug,
-          elementorData: ctx.parser.serializeElements(localData.elements),
-          pageSettings: localData.settings,
-        });
+        // Refuse to push while merge conflicts are unresolved
+        const pending = await ctx.store.loadConflicts(ctx.siteName, pageId);
+        if (pending && !body.force) {
+          return json(
+            {
+              error: `Page has ${pending.conflicts.length} unresolved conflict(s). Run 'elementor-cli resolve ${pageId}' first.`,
+              conflicts: pending.conflicts.length,
+            },
+            409
+          );
+        }
+
+        // Refuse to push element trees that Elementor would not load
+        const validation = new ElementValidator().validate(localData.elements, localData.settings, localData.page);
+        if (!validation.valid) {
+          return json({ error: "Page failed validation", issues: validation.errors }, 422);
+        }
+
+        // Remote changed since last pull: merge its changes into ours, or refuse
+        const remotePage = await ctx.wpClient.getPage(pageId);
+        const remoteData = ctx.parser.parseWPPage(remotePage);
+        const pulledAt = localData.page.remote_modified;
+        const remoteChanged =
+          !body.force && pulledAt !== undefined && new Date(remotePage.modified) > new Date(pulledAt);
+
+        let { elements, settings, meta } = localData;
+        let merged = false;
+        if (remoteChanged) {
+          const base = await ctx.store.loadBase(ctx.siteName, pageId);
+          if (!base) {
+            return json(
+              {
+                error: "Page has been modified on production since last pull. Push with force to overwrite.",
+                remoteModified: remotePage.modified,
+                pulledAt,
+              },
+              409
+            );
+          }
+
+          const result = new ElementMerger().merge(
+            toMergeSide(base),
+            { elements, settings, meta },
+            toMergeSide(remoteData)
+          );
+          if (result.conflicts.length > 0) {
+            if (!body.dryRun) {
+              await ctx.store.saveMerged(ctx.siteName, remoteData, result);
+            }
+            return json(
+              {
+                error: `Page conflicts with production changes (${result.conflicts.length} conflict(s)). Run 'elementor-cli resolve ${pageId}'.`,
+                conflicts: result.conflicts.length,
+              },
+              409
+            );
+          }
+          elements = result.elements;
+          settings = result.settings;
+          meta = result.meta as LocalPageData["meta"];
+          merged = true;
+        }
+
+        if (body.dryRun) {
+          const diff = new PageDiff().compare(
+            { site: ctx.siteName, postType: "page" },
+            { ...localData, elements, settings, meta },
+            remoteData
+          );
+          return json({
+            dryRun: true,
+            pageId,
+            merged,
+            summary: hasElementChanges(diff.elements)
+              ? summarizeElementDiff(diff.elements)
+              : "no element changes",
+            diff,
+          });
+        }
+
+        // Update remote page; the journal keeps what it replaced for 'undo'
+        const recorder = new OperationJournal(ctx.siteName).begin("push", `Push page ${pageId} from the studio`);
+        try {
+          await recorder.record(remotePage);
+          await ctx.wpClient.updatePage(pageId, {
+            title: meta.title,
+            status: meta.status,
+            slug: meta.slug,
+            template: meta.template,
+            elementorData: ctx.parser.serializeElements(elements),
+            pageSettings: settings,
+          });
+        } catch (err) {
+          const message = err instanceof Error ? err.message : String(err);
+          ctx.events.publish({ type: "push", site: ctx.siteName, pageId, success: false, message });
+          throw err;
+        }
+
+        // Later pushes compare against the pushed version
+        const updatedPage = await ctx.wpClient.getPage(pageId);
+        localData.page.remote_modified = updatedPage.modified;
+        localData.page.elementor_data = elements;
+        localData.page.page_settings = settings;
+        localData.page.title = meta.title;
+        localData.page.slug = meta.slug;
+        localData.page.status = meta.status;
+        localData.page.template = meta.template;
+        await ctx.store.savePage(ctx.siteName, localData.page);
+        await ctx.store.recordSnapshot(ctx.siteName, pageId, "push");
+
+        const message = `Pushed page ${pageId} to production${merged ? " (merged with production changes)" : ""}`;
+        ctx.events.publish({ type: "push", site: ctx.siteName, pageId, success: true, message });
+        return json({ success: true, message, merged, operation: recorder.operation.id });
+      }
+
+      // POST /api/sites/:site/pages/:id/copy - Copy a page of this site to another site (promote)
+      const copyMatch = pathname.match(/^\/api\/pages\/(\d+)\/copy$/);
+      if (copyMatch && req.method === "POST") {
+        const pageId = Number.parseInt(copyMatch[1], 10);
+        const body = (await req.json().catch(() => ({}))) as CopyBody;
+
+        const target = body.to ? studio.sites.get(body.to) : null;
+        if (!target) {
+          return error(body.to ? `Site '${body.to}' not found in config` : "to must name a site", body.to ? 404 : 400);
+        }
+        if (target.name === ctx.siteName) {
+          return error("Source and target must be different sites", 400);
+        }
 
-        return json({ success: true, message: `Pushed page ${pageId} to production` });
+        const sourcePage = await ctx.wpClient.getPage(pageId);
+        if (!ctx.wpClient.isElementorPage(sourcePage)) {
+          return error("Page is not an Elementor page", 400);
+        }
+
+        const promoter = new PagePromoter(
+          { name: ctx.siteName, config: ctx.siteConfig, client: ctx.wpClient },
+          { name: target.name, config: target.config, client: target.wpClient },
+          new MediaSync(ctx.store),
+          {
+            postType: "page",
+            targetId: body.targetId,
+            media: body.media !== false,
+            rewriteUrls: body.rewriteUrls !== false,
+          }
+        );
+        const plan = await promoter.plan(sourcePage);
+
+        const validation = new ElementValidator().validate(plan.elements, plan.settings, plan.source);
+        if (!validation.valid) {
+          return json({ error: "Page failed validation", issues: validation.errors }, 422);
+        }
+
+        const targetInfo = plan.target
+          ? { id: plan.target.page.id, matchedBy: plan.target.matchedBy }
+          : null;
+
+        if (body.dryRun) {
+          const preview = promoter.preview(plan);
+          return json({
+            dryRun: true,
+            from: ctx.siteName,
+            to: target.name,
+            sourceId: pageId,
+            target: targetInfo,
+            pendingMedia: plan.pendingMedia,
+            mediaNote: promoter.pendingMediaNote(plan),
+            summary: preview
+              ? hasElementChanges(preview.elements)
+                ? summarizeElementDiff(preview.elements)
+                : "no element changes"
+              : `new page with ${ctx.parser.countElements(plan.elements)} element(s)`,
+            preview,
+          });
+        }
+
+        if (plan.pendingMedia > 0) {
+          const { download, upload } = await promoter.copyMedia(plan);
+          if (download.failed.length > 0 || upload.failed.length > 0) {
+            return error("Some media could not be copied. Nothing was written to the target page.", 502);
+          }
+        }
+
+        const { targetId, created, operation } = await promoter.write(plan, body.status ?? "draft");
+        return json({
+          success: true,
+          message: `${created ? "Created" : "Updated"} page ${targetId} on ${target.name}`,
+          targetId,
+          created,
+          operation: operation.id,
+        });
       }
 
       // POST /api/regenerate-css/:id - Regenerate CSS for page
@@ -172,6 +622,7 @@ export function createApiHandler(ctx: ApiContext) {
 
         const pageData = ctx.parser.parseWPPage(page);
         await ctx.store.savePage(ctx.siteName, pageData);
+        await ctx.store.recordSnapshot(ctx.siteName, pageId, "pull");
 
         return json({ success: true, message: `Pulled page ${pageId}` });
       }
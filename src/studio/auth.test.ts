@@ -0,0 +1,32 @@
+import { describe, test, expect } from "bun:test";
+import { createSessionToken, isAuthorized, isLoopbackHost, TOKEN_HEADER } from "./auth.js";
+
+describe("studio auth", () => {
+  const token = createSessionToken();
+  const check = (path: string, init: RequestInit = {}) => {
+    const url = new URL(`http://localhost:3000${path}`);
+    return isAuthorized(new Request(url, init), url, token);
+  };
+
+  test("accepts the session token in the header", () => {
+    expect(check("/api/pages", { headers: { [TOKEN_HEADER]: token } })).toBe(true);
+    expect(check("/api/push/42", { method: "POST", headers: { [TOKEN_HEADER]: token } })).toBe(true);
+
+    expect(check("/api/pages")).toBe(false);
+    expect(check("/api/pages", { headers: { [TOKEN_HEADER]: createSessionToken() } })).toBe(false);
+    expect(check("/api/pages", { headers: { [TOKEN_HEADER]: token.slice(1) } })).toBe(false);
+  });
+
+  test("accepts a token query only on the event stream", () => {
+    expect(check(`/api/events?token=${token}`)).toBe(true);
+    expect(check(`/api/pages?token=${token}`)).toBe(false);
+    expect(check(`/api/push/42?token=${token}`, { method: "POST" })).toBe(false);
+  });
+
+  test("recognizes loopback hosts", () => {
+    expect(isLoopbackHost("127.0.0.1")).toBe(true);
+    expect(isLoopbackHost("localhost")).toBe(true);
+    expect(isLoopbackHost("0.0.0.0")).toBe(false);
+    expect(isLoopbackHost("192.168.1.10")).toBe(false);
+  });
+});
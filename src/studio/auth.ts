@@ -0,0 +1,39 @@
+import { randomBytes, timingSafeEqual } from "node:crypto";
+
+/**
+ * Header the studio frontend sends the session token in. Browsers only
+ * let pages of the studio's own origin set it, which also keeps other
+ * sites from forging requests (CSRF).
+ */
+export const TOKEN_HEADER = "X-Studio-Token";
+
+/**
+ * A random token for one studio session, printed on startup
+ */
+export function createSessionToken(): string {
+  return randomBytes(24).toString("base64url");
+}
+
+/**
+ * Whether an API request carries the session token. EventSource can't set
+ * headers, so the event stream may pass it as `?token=` instead.
+ */
+export function isAuthorized(req: Request, url: URL, token: string): boolean {
+  const given =
+    req.headers.get(TOKEN_HEADER) ??
+    (url.pathname === "/api/events" && req.method === "GET" ? url.searchParams.get("token") : null);
+  if (!given) {
+    return false;
+  }
+
+  const expected = Buffer.from(token);
+  const actual = Buffer.from(given);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+/**
+ * Whether a host name only accepts connections from this machine
+ */
+export function isLoopbackHost(host: string): boolean {
+  return host === "localhost" || host === "::1" || host.startsWith("127.");
+}
@@ -0,0 +1,43 @@
+import { describe, test, expect } from "bun:test";
+import { StudioEvents } from "./events.js";
+
+async function read(reader: ReadableStreamDefaultReader<Uint8Array | string>): Promise<string> {
+  const { value } = await reader.read();
+  return typeof value === "string" ? value : new TextDecoder().decode(value);
+}
+
+describe("StudioEvents", () => {
+  test("streams published events to every subscriber as SSE", async () => {
+    const events = new StudioEvents();
+    const first = events.subscribe(new Request("http://studio/api/events"));
+    const second = events.subscribe(new Request("http://studio/api/events"));
+    expect(first.headers.get("Content-Type")).toBe("text/event-stream");
+    expect(events.size).toBe(2);
+
+    const readers = [first, second].map((response) => (response.body as ReadableStream).getReader());
+    for (const reader of readers) {
+      expect(await read(reader)).toBe(": connected\n\n");
+    }
+
+    events.publish({ type: "sync-finished", site: "local", pageId: 42, success: true });
+    for (const reader of readers) {
+      expect(await read(reader)).toBe('event: sync-finished\ndata: {"site":"local","pageId":42,"success":true}\n\n');
+    }
+
+    events.close();
+    expect(events.size).toBe(0);
+    expect((await readers[0].read()).done).toBe(true);
+  });
+
+  test("drops a subscriber when its request is aborted", async () => {
+    const events = new StudioEvents();
+    const controller = new AbortController();
+    events.subscribe(new Request("http://studio/api/events", { signal: controller.signal }));
+    expect(events.size).toBe(1);
+
+    controller.abort();
+    expect(events.size).toBe(0);
+    // Publishing to nobody is fine
+    events.publish({ type: "staging-status", running: false });
+  });
+});
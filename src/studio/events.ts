@@ -0,0 +1,77 @@
+/**
+ * Events pushed to the browser over GET /api/events (server-sent events).
+ * Page events name the site of the page.
+ */
+export type StudioEvent =
+  | { type: "file-changed"; site: string; pageId: number }
+  | { type: "sync-started"; site: string; pageId: number }
+  | { type: "sync-finished"; site: string; pageId: number; success: boolean; error?: string }
+  | { type: "push"; site: string; pageId: number; success: boolean; message: string }
+  | { type: "staging-status"; running: boolean };
+
+/**
+ * StudioEvents fans events out to every connected browser
+ */
+export class StudioEvents {
+  private clients = new Set<ReadableStreamDefaultController<string>>();
+
+  get size(): number {
+    return this.clients.size;
+  }
+
+  /**
+   * Open an event stream for one browser. It is closed when the request is
+   * aborted (tab closed or reloaded) or the server stops.
+   */
+  subscribe(req: Request): Response {
+    let client: ReadableStreamDefaultController<string>;
+    const stream = new ReadableStream<string>({
+      start: (controller) => {
+        client = controller;
+        this.clients.add(controller);
+        controller.enqueue(": connected\n\n");
+      },
+      cancel: () => {
+        this.clients.delete(client);
+      },
+    });
+
+    req.signal.addEventListener("abort", () => this.drop(client));
+
+    return new Response(stream, {
+      headers: {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+        Connection: "keep-alive",
+      },
+    });
+  }
+
+  publish(event: StudioEvent): void {
+    const { type, ...data } = event;
+    const message = `event: ${type}\ndata: ${JSON.stringify(data)}\n\n`;
+    for (const client of this.clients) {
+      try {
+        client.enqueue(message);
+      } catch {
+        // Stream already closed
+        this.clients.delete(client);
+      }
+    }
+  }
+
+  close(): void {
+    for (const client of [...this.clients]) {
+      this.drop(client);
+    }
+  }
+
+  private drop(client: ReadableStreamDefaultController<string>): void {
+    if (!this.clients.delete(client)) return;
+    try {
+      client.close();
+    } catch {
+      // Already closed
+    }
+  }
+}
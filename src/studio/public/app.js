@@ -1,11 +1,20 @@
+// Session token printed by 'elementor-cli studio'; the API rejects requests without it
+const token = readSessionToken();
+
 // State
 let config = null;
+let sites = [];
+let currentSite = null; // Site the page list and page actions are scoped to
 let pages = [];
 let currentPageId = null;
 let stagingOnline = false;
+let elements = null; // Local element tree of the current page
+let selectedElementId = null;
+let draggedElementId = null;
+const collapsedElements = new Set();
 
 // DOM elements
-const siteName = document.getElementById("siteName");
+const siteSelector = document.getElementById("siteSelector");
 const pageSelector = document.getElementById("pageSelector");
 const stagingStatus = document.getElementById("stagingStatus");
 const productionFrame = document.getElementById("productionFrame");
@@ -16,10 +25,25 @@ const stagingOffline = document.getElementById("stagingOffline");
 const syncBtn = document.getElementById("syncBtn");
 const pullBtn = document.getElementById("pullBtn");
 const pushBtn = document.getElementById("pushBtn");
+const copyBtn = document.getElementById("copyBtn");
 const regenerateCssBtn = document.getElementById("regenerateCssBtn");
 const refreshProduction = document.getElementById("refreshProduction");
 const refreshStaging = document.getElementById("refreshStaging");
 const toastContainer = document.getElementById("toastContainer");
+const main = document.getElementById("main");
+const editorToggle = document.getElementById("editorToggle");
+const editorPanel = document.getElementById("editorPanel");
+const editorEmpty = document.getElementById("editorEmpty");
+const elementTree = document.getElementById("elementTree");
+const syncOnSave = document.getElementById("syncOnSave");
+const settingsForm = document.getElementById("settingsForm");
+const settingsTitle = document.getElementById("settingsTitle");
+const settingsId = document.getElementById("settingsId");
+const settingsFields = document.getElementById("settingsFields");
+const newSettingKey = document.getElementById("newSettingKey");
+const newSettingValue = document.getElementById("newSettingValue");
+const addSettingBtn = document.getElementById("addSettingBtn");
+const resetSettingsBtn = document.getElementById("resetSettingsBtn");
 
 // Toast notifications
 function showToast(message, type = "info") {
@@ -34,12 +58,26 @@ function showToast(message, type = "info") {
   }, 3000);
 }
 
+// Take the token from the opened URL, keep it for reloads and drop it from the address bar
+function readSessionToken() {
+  const params = new URLSearchParams(location.search);
+  const fromUrl = params.get("token");
+  if (fromUrl) {
+    sessionStorage.setItem("studioToken", fromUrl);
+    params.delete("token");
+    const query = params.toString();
+    history.replaceState(null, "", `${location.pathname}${query ? `?${query}` : ""}`);
+  }
+  return fromUrl || sessionStorage.getItem("studioToken") || "";
+}
+
 // API helpers
 async function api(endpoint, options = {}) {
   const response = await fetch(`/api${endpoint}`, {
     ...options,
     headers: {
       "Content-Type": "application/json",
+      "X-Studio-Token": token,
       ...options.headers,
     },
   });
@@ -47,17 +85,33 @@ async function api(endpoint, options = {}) {
   const data = await response.json();
 
   if (!response.ok) {
-    throw new Error(data.error || "Request failed");
+    // Validation failures list the issues; show the first one
+    const issue = data.issues?.[0];
+    const err = new Error(
+      issue ? `${data.error}: ${issue.path}: ${issue.message}` : data.error || "Request failed"
+    );
+    err.status = response.status;
+    throw err;
   }
 
   return data;
 }
 
+// API routes of the selected site
+function siteApi(endpoint, options = {}) {
+  return api(`/sites/${encodeURIComponent(currentSite)}${endpoint}`, options);
+}
+
+// Whether a page event is about the selected page
+function isCurrentPage(site, pageId) {
+  return site === currentSite && String(pageId) === String(currentPageId);
+}
+
 // Load configuration
 async function loadConfig() {
   try {
     config = await api("/config");
-    siteName.textContent = config.site.name;
+    currentSite = config.site.name;
     stagingOnline = config.staging.running;
     updateStagingStatus();
   } catch (err) {
@@ -65,6 +119,35 @@ async function loadConfig() {
   }
 }
 
+// Load the sites of the config into the site switcher
+async function loadSites() {
+  try {
+    sites = await api("/sites");
+    siteSelector.innerHTML = "";
+    for (const site of sites) {
+      const option = document.createElement("option");
+      option.value = site.name;
+      option.textContent = site.name;
+      option.title = site.url;
+      siteSelector.appendChild(option);
+    }
+    siteSelector.value = currentSite;
+    siteSelector.disabled = sites.length < 2;
+  } catch (err) {
+    showToast("Failed to load sites: " + err.message, "error");
+  }
+}
+
+// Switch to another site: its pages replace the page list
+async function selectSite(name) {
+  currentSite = name;
+  pageSelector.value = "";
+  pageSelector.disabled = true;
+  selectPage("");
+  pages = [];
+  await loadPages();
+}
+
 // Update staging status indicator
 function updateStagingStatus() {
   const dot = stagingStatus.querySelector(".status-dot");
@@ -96,7 +179,7 @@ function updateStagingStatus() {
 // Load pages
 async function loadPages() {
   try {
-    pages = await api("/pages");
+    pages = await siteApi("/pages");
     pageSelector.innerHTML = '<option value="">Select a page...</option>';
 
     for (const page of pages) {
@@ -127,7 +210,11 @@ function selectPage(pageId) {
     syncBtn.disabled = true;
     pullBtn.disabled = true;
     pushBtn.disabled = true;
+    copyBtn.disabled = true;
     regenerateCssBtn.disabled = true;
+    editorToggle.disabled = true;
+    elements = null;
+    renderElementTree();
     return;
   }
 
@@ -151,7 +238,13 @@ function selectPage(pageId) {
   syncBtn.disabled = !stagingOnline;
   pullBtn.disabled = false;
   pushBtn.disabled = false;
+  copyBtn.disabled = sites.length < 2;
   regenerateCssBtn.disabled = false;
+  editorToggle.disabled = false;
+
+  selectedElementId = null;
+  collapsedElements.clear();
+  loadElements();
 }
 
 // Sync page to staging
@@ -160,12 +253,9 @@ async function syncToStaging() {
 
   syncBtn.disabled = true;
   try {
-    await api(`/sync/${currentPageId}`, { method: "POST" });
+    await siteApi(`/sync/${currentPageId}`, { method: "POST" });
     showToast("Synced to staging successfully", "success");
-    // Refresh staging frame
-    if (stagingFrame.src) {
-      stagingFrame.src = stagingFrame.src;
-    }
+    // The staging frame reloads on the sync-finished event
   } catch (err) {
     showToast("Sync failed: " + err.message, "error");
   } finally {
@@ -179,8 +269,9 @@ async function pullFromProduction() {
 
   pullBtn.disabled = true;
   try {
-    await api(`/pull/${currentPageId}`, { method: "POST" });
+    await siteApi(`/pull/${currentPageId}`, { method: "POST" });
     showToast("Pulled from production successfully", "success");
+    await loadElements();
   } catch (err) {
     showToast("Pull failed: " + err.message, "error");
   } finally {
@@ -192,18 +283,37 @@ async function pullFromProduction() {
 async function pushToProduction() {
   if (!currentPageId) return;
 
-  if (!confirm("Are you sure you want to push local changes to production?")) {
-    return;
-  }
-
   pushBtn.disabled = true;
   try {
-    await api(`/push/${currentPageId}`, { method: "POST" });
-    showToast("Pushed to production successfully", "success");
-    // Refresh production frame
-    if (productionFrame.src) {
-      productionFrame.src = productionFrame.src;
+    // Preview first: conflicts and remote changes show up before anything is written
+    let force = false;
+    let preview;
+    try {
+      preview = await siteApi(`/push/${currentPageId}`, {
+        method: "POST",
+        body: JSON.stringify({ dryRun: true }),
+      });
+    } catch (err) {
+      if (err.status !== 409) throw err;
+      if (!confirm(`${err.message}\n\nOverwrite production anyway?`)) return;
+      force = true;
+      preview = await siteApi(`/push/${currentPageId}`, {
+        method: "POST",
+        body: JSON.stringify({ dryRun: true, force }),
+      });
+    }
+
+    const merged = preview.merged ? "\nProduction changes since the last pull will be merged in." : "";
+    if (!confirm(`Push page ${currentPageId} to production?\n\nChanges: ${preview.summary}${merged}`)) {
+      return;
     }
+
+    const result = await siteApi(`/push/${currentPageId}`, {
+      method: "POST",
+      body: JSON.stringify({ force }),
+    });
+    showToast(result.message, "success");
+    // The production frame reloads on the push event
   } catch (err) {
     showToast("Push failed: " + err.message, "error");
   } finally {
@@ -211,13 +321,50 @@ async function pushToProduction() {
   }
 }
 
+// Copy page to another site of the config (as 'promote')
+async function copyToSite() {
+  if (!currentPageId) return;
+
+  const others = sites.filter((site) => site.name !== currentSite).map((site) => site.name);
+  const to = prompt(`Copy page ${currentPageId} from ${currentSite} to which site?\n\n${others.join(", ")}`, others[0]);
+  if (!to) return;
+
+  copyBtn.disabled = true;
+  try {
+    const endpoint = `/pages/${currentPageId}/copy`;
+    const preview = await siteApi(endpoint, {
+      method: "POST",
+      body: JSON.stringify({ to, dryRun: true }),
+    });
+
+    const target = preview.target
+      ? `page ${preview.target.id} (matched by ${preview.target.matchedBy})`
+      : "a new draft page";
+    // The summary shows placeholders for pending attachments
+    const media = preview.mediaNote ? `\n\n${preview.mediaNote}` : "";
+    if (!confirm(`Write page ${currentPageId} to ${target} on ${to}?\n\nChanges: ${preview.summary}${media}`)) {
+      return;
+    }
+
+    const result = await siteApi(endpoint, {
+      method: "POST",
+      body: JSON.stringify({ to }),
+    });
+    showToast(result.message, "success");
+  } catch (err) {
+    showToast("Copy failed: " + err.message, "error");
+  } finally {
+    copyBtn.disabled = false;
+  }
+}
+
 // Regenerate CSS
 async function regenerateCss() {
   if (!currentPageId) return;
 
   regenerateCssBtn.disabled = true;
   try {
-    await api(`/regenerate-css/${currentPageId}`, { method: "POST" });
+    await siteApi(`/regenerate-css/${currentPageId}`, { method: "POST" });
     showToast("CSS cache invalidated. Reload to see changes.", "success");
   } catch (err) {
     showToast("Regenerate CSS failed: " + err.message, "error");
@@ -239,42 +386,420 @@ function refreshStagingFrame() {
   }
 }
 
-// Check staging status periodically
-async function checkStagingStatus() {
+// Element editor
+
+// Load the local element tree of the current page
+async function loadElements() {
+  const pageId = currentPageId;
   try {
-    const status = await api("/staging/status");
-    const wasOnline = stagingOnline;
-    stagingOnline = status.running;
-
-    if (wasOnline !== stagingOnline) {
-      updateStagingStatus();
-      if (stagingOnline) {
-        showToast("Staging environment is now online", "success");
-      } else {
-        showToast("Staging environment went offline", "error");
+    const data = await siteApi(`/pages/${pageId}/elements`);
+    if (pageId !== currentPageId) return;
+    elements = data.elements;
+  } catch {
+    // Not pulled yet
+    elements = null;
+  }
+  renderElementTree();
+}
+
+function toggleEditor() {
+  const open = editorPanel.classList.toggle("hidden") === false;
+  main.classList.toggle("editing", open);
+}
+
+// Find an element, its parent (null at the top level) and its index
+function findElement(list, id, parent = null) {
+  for (let index = 0; index < list.length; index++) {
+    const element = list[index];
+    if (element.id === id) return { element, parent, index };
+    const found = findElement(element.elements || [], id, element);
+    if (found) return found;
+  }
+  return null;
+}
+
+// Short text shown next to the element type, from its most telling setting
+function elementLabel(element) {
+  const settings = Array.isArray(element.settings) ? {} : element.settings || {};
+  const text = settings.title || settings.text || settings.editor || settings._title || "";
+  if (typeof text !== "string") return "";
+  const plain = text.replace(/<[^>]*>/g, "").trim();
+  return plain.length > 40 ? `${plain.slice(0, 40)}…` : plain;
+}
+
+function renderElementTree() {
+  elementTree.innerHTML = "";
+
+  if (!elements) {
+    editorEmpty.querySelector("p").textContent = currentPageId
+      ? "Pull this page to edit its elements"
+      : "Select a page to edit its elements";
+    editorEmpty.classList.remove("hidden");
+    elementTree.classList.add("hidden");
+    settingsForm.classList.add("hidden");
+    return;
+  }
+
+  editorEmpty.classList.add("hidden");
+  elementTree.classList.remove("hidden");
+  for (const element of elements) {
+    elementTree.appendChild(renderElementNode(element));
+  }
+
+  const selected = selectedElementId && findElement(elements, selectedElementId);
+  if (selected) {
+    renderSettingsForm(selected.element);
+  } else {
+    selectedElementId = null;
+    settingsForm.classList.add("hidden");
+  }
+}
+
+function renderElementNode(element) {
+  const item = document.createElement("li");
+  const children = element.elements || [];
+  if (collapsedElements.has(element.id)) item.classList.add("collapsed");
+
+  const row = document.createElement("div");
+  row.className = "tree-node";
+  if (element.id === selectedElementId) row.classList.add("selected");
+  row.draggable = true;
+  row.dataset.id = element.id;
+
+  const caret = document.createElement("span");
+  caret.className = "tree-caret";
+  caret.textContent = children.length > 0 ? (collapsedElements.has(element.id) ? "▸" : "▾") : "";
+  caret.addEventListener("click", (e) => {
+    e.stopPropagation();
+    if (collapsedElements.has(element.id)) collapsedElements.delete(element.id);
+    else collapsedElements.add(element.id);
+    renderElementTree();
+  });
+
+  const type = document.createElement("span");
+  type.className = "tree-type";
+  type.textContent = element.widgetType || element.elType;
+
+  const label = document.createElement("span");
+  label.className = "tree-label";
+  label.textContent = elementLabel(element);
+
+  row.append(caret, type, label);
+  row.addEventListener("click", () => {
+    selectedElementId = element.id;
+    renderElementTree();
+  });
+  addDragHandlers(row, element);
+  item.appendChild(row);
+
+  if (children.length > 0) {
+    const list = document.createElement("ul");
+    for (const child of children) {
+      list.appendChild(renderElementNode(child));
+    }
+    item.appendChild(list);
+  }
+
+  return item;
+}
+
+// Where a drop on a row goes: before or after it, or inside it for the
+// middle of a container row
+function dropZone(e, row, element) {
+  const rect = row.getBoundingClientRect();
+  const offset = (e.clientY - rect.top) / rect.height;
+  if (element.elType !== "widget" && offset > 0.25 && offset < 0.75) return "inside";
+  return offset < 0.5 ? "before" : "after";
+}
+
+function clearDropMarkers(row) {
+  row.classList.remove("drop-before", "drop-after", "drop-inside");
+}
+
+function addDragHandlers(row, element) {
+  row.addEventListener("dragstart", (e) => {
+    draggedElementId = element.id;
+    e.dataTransfer.effectAllowed = "move";
+  });
+
+  row.addEventListener("dragend", () => {
+    draggedElementId = null;
+  });
+
+  row.addEventListener("dragover", (e) => {
+    if (!draggedElementId || draggedElementId === element.id) return;
+    e.preventDefault();
+    clearDropMarkers(row);
+    row.classList.add(`drop-${dropZone(e, row, element)}`);
+  });
+
+  row.addEventListener("dragleave", () => clearDropMarkers(row));
+
+  row.addEventListener("drop", (e) => {
+    e.preventDefault();
+    clearDropMarkers(row);
+    if (!draggedElementId || draggedElementId === element.id) return;
+    moveElement(draggedElementId, element, dropZone(e, row, element));
+  });
+}
+
+// Move an element next to or into a target element
+async function moveElement(id, target, zone) {
+  let position;
+  if (zone === "inside") {
+    position = { parentId: target.id };
+  } else {
+    const dragged = findElement(elements, id);
+    const { parent, index } = findElement(elements, target.id);
+    let targetIndex = zone === "after" ? index + 1 : index;
+    // The index counts siblings after the dragged element is taken out
+    if (dragged.parent === parent && dragged.index < targetIndex) targetIndex--;
+    position = { parentId: parent ? parent.id : null, index: targetIndex };
+  }
+
+  await saveElement(id, { position });
+}
+
+function renderSettingsForm(element) {
+  settingsForm.classList.remove("hidden");
+  settingsTitle.textContent = element.widgetType || element.elType;
+  settingsId.textContent = element.id;
+  settingsFields.innerHTML = "";
+
+  // Elementor stores empty settings as []
+  const settings = Array.isArray(element.settings) ? {} : element.settings || {};
+  for (const [key, value] of Object.entries(settings)) {
+    addSettingField(key, value);
+  }
+}
+
+function addSettingField(key, value) {
+  const field = document.createElement("div");
+  field.className = "settings-field";
+  field.dataset.key = key;
+
+  const label = document.createElement("label");
+  label.textContent = key;
+
+  let input;
+  if (typeof value === "boolean") {
+    input = document.createElement("input");
+    input.type = "checkbox";
+    input.checked = value;
+    field.dataset.kind = "boolean";
+  } else if (typeof value === "number") {
+    input = document.createElement("input");
+    input.type = "number";
+    input.step = "any";
+    input.value = String(value);
+    field.dataset.kind = "number";
+  } else if (typeof value === "string" && value.length <= 80 && !value.includes("\n")) {
+    input = document.createElement("input");
+    input.type = "text";
+    input.value = value;
+    field.dataset.kind = "string";
+  } else if (typeof value === "string") {
+    input = document.createElement("textarea");
+    input.value = value;
+    field.dataset.kind = "string";
+  } else {
+    input = document.createElement("textarea");
+    input.value = JSON.stringify(value, null, 2);
+    field.dataset.kind = "json";
+  }
+
+  const remove = document.createElement("button");
+  remove.type = "button";
+  remove.className = "btn btn-icon";
+  remove.title = "Remove setting";
+  remove.textContent = "×";
+  remove.addEventListener("click", () => field.remove());
+
+  field.append(label, input, remove);
+  settingsFields.appendChild(field);
+}
+
+// Collect the form into a settings object; JSON fields must parse
+function readSettingsForm() {
+  const settings = {};
+  for (const field of settingsFields.querySelectorAll(".settings-field")) {
+    const input = field.querySelector("input, textarea");
+    const key = field.dataset.key;
+    if (field.dataset.kind === "boolean") {
+      settings[key] = input.checked;
+    } else if (field.dataset.kind === "number") {
+      settings[key] = Number(input.value);
+    } else if (field.dataset.kind === "json") {
+      try {
+        settings[key] = JSON.parse(input.value);
+      } catch {
+        throw new Error(`${key} is not valid JSON`);
       }
+    } else {
+      settings[key] = input.value;
     }
+  }
+  return settings;
+}
+
+function addSetting() {
+  const key = newSettingKey.value.trim();
+  if (!key) return;
+  if (settingsFields.querySelector(`[data-key="${CSS.escape(key)}"]`)) {
+    showToast(`Setting ${key} already exists`, "error");
+    return;
+  }
+
+  // Values that parse as JSON (numbers, objects, ...) keep their type
+  let value = newSettingValue.value;
+  try {
+    value = JSON.parse(value);
+  } catch {
+    // Plain text
+  }
+  addSettingField(key, value);
+  newSettingKey.value = "";
+  newSettingValue.value = "";
+}
+
+async function saveSettings(e) {
+  e.preventDefault();
+  if (!selectedElementId) return;
+
+  let settings;
+  try {
+    settings = readSettingsForm();
+  } catch (err) {
+    showToast(err.message, "error");
+    return;
+  }
+  await saveElement(selectedElementId, { settings });
+}
+
+// Save a change to one element, syncing to staging if the toggle is on
+async function saveElement(id, change) {
+  try {
+    const result = await siteApi(`/pages/${currentPageId}/elements/${id}`, {
+      method: "PUT",
+      body: JSON.stringify({ ...change, sync: syncOnSave.checked }),
+    });
+    elements = result.elements;
+    renderElementTree();
+    showToast(result.message, "success");
+
+    if (result.syncError) {
+      showToast(`Sync failed: ${result.syncError}`, "error");
+    }
+  } catch (err) {
+    showToast(`Save failed: ${err.message}`, "error");
+  }
+}
+
+// Staging status changes, from /staging/status or the staging-status event
+function setStagingOnline(running) {
+  const wasOnline = stagingOnline;
+  stagingOnline = running;
+
+  if (wasOnline !== stagingOnline) {
+    updateStagingStatus();
+    syncBtn.disabled = !currentPageId || !stagingOnline;
+    if (stagingOnline) {
+      showToast("Staging environment is now online", "success");
+    } else {
+      showToast("Staging environment went offline", "error");
+    }
+  }
+}
+
+async function checkStagingStatus() {
+  try {
+    const status = await api("/staging/status");
+    setStagingOnline(status.running);
   } catch {
     // Ignore errors during status check
   }
 }
 
+// Live updates from the studio server
+function connectEvents() {
+  const events = new EventSource(`/api/events?token=${encodeURIComponent(token)}`);
+  const on = (type, handler) =>
+    events.addEventListener(type, (e) => handler(JSON.parse(e.data)));
+
+  // Catch up on staging changes missed while (re)connecting
+  events.addEventListener("open", checkStagingStatus);
+
+  on("file-changed", async ({ site, pageId }) => {
+    if (!isCurrentPage(site, pageId) || !elements) return;
+    // Skip our own saves: only re-render when the tree on disk differs
+    const before = JSON.stringify(elements);
+    try {
+      const data = await siteApi(`/pages/${pageId}/elements`);
+      if (JSON.stringify(data.elements) !== before && isCurrentPage(site, pageId)) {
+        elements = data.elements;
+        renderElementTree();
+        showToast(`Page ${pageId} changed on disk`, "info");
+      }
+    } catch {
+      // Page removed locally
+    }
+  });
+
+  on("sync-started", ({ site, pageId }) => {
+    if (isCurrentPage(site, pageId)) {
+      stagingStatus.classList.add("syncing");
+    }
+  });
+
+  on("sync-finished", ({ site, pageId, success }) => {
+    if (!isCurrentPage(site, pageId)) return;
+    stagingStatus.classList.remove("syncing");
+    if (success) refreshStagingFrame();
+  });
+
+  on("push", ({ site, pageId, success }) => {
+    if (success && isCurrentPage(site, pageId)) {
+      refreshProductionFrame();
+    }
+  });
+
+  on("staging-status", ({ running }) => setStagingOnline(running));
+}
+
 // Event listeners
+siteSelector.addEventListener("change", (e) => selectSite(e.target.value));
 pageSelector.addEventListener("change", (e) => selectPage(e.target.value));
 syncBtn.addEventListener("click", syncToStaging);
 pullBtn.addEventListener("click", pullFromProduction);
 pushBtn.addEventListener("click", pushToProduction);
+copyBtn.addEventListener("click", copyToSite);
 regenerateCssBtn.addEventListener("click", regenerateCss);
 refreshProduction.addEventListener("click", refreshProductionFrame);
 refreshStaging.addEventListener("click", refreshStagingFrame);
+editorToggle.addEventListener("click", toggleEditor);
+settingsForm.addEventListener("submit", saveSettings);
+addSettingBtn.addEventListener("click", addSetting);
+newSettingValue.addEventListener("keydown", (e) => {
+  if (e.key === "Enter") {
+    e.preventDefault();
+    addSetting();
+  }
+});
+resetSettingsBtn.addEventListener("click", () => renderElementTree());
 
 // Initialize
 async function init() {
+  if (!token) {
+    showToast("No session token. Open the URL printed by 'elementor-cli studio'.", "error");
+    return;
+  }
+
   await loadConfig();
+  await loadSites();
   await loadPages();
 
-  // Check staging status every 10 seconds
-  setInterval(checkStagingStatus, 10000);
+  // Staging status, syncs, pushes and file changes arrive as events
+  connectEvents();
 }
 
 init();
@@ -1,9 +1,12 @@
 import { readConfig, getSiteConfig } from "../utils/config-store.js";
-import { WordPressClient } from "../services/wordpress-client.js";
 import { DockerManager } from "../services/docker-manager.js";
 import { LocalStore } from "../services/local-store.js";
 import { ElementorParser } from "../services/elementor-parser.js";
+import { PageWatcher } from "../services/page-watcher.js";
 import { createApiHandler } from "./api.js";
+import { StudioEvents } from "./events.js";
+import { StudioSites } from "./sites.js";
+import { createSessionToken, isAuthorized } from "./auth.js";
 
 // Embed static assets directly for bundled builds
 // @ts-ignore - Bun text imports
@@ -15,12 +18,14 @@ import appJs from "./public/app.js" with { type: "text" };
 
 export interface StudioOptions {
   port: number;
-  site?: string;
+  host: string; // Interface to listen on; loopback unless --host says otherwise
+  site?: string; // Site selected on startup; every site of the config can be opened
 }
 
 export interface StudioServer {
   server: ReturnType<typeof Bun.serve>;
   url: string;
+  token: string; // Session token the API requires
   stop: () => void;
 }
 
@@ -28,31 +33,70 @@ export async function createStudioServer(
   options: StudioOptions
 ): Promise<StudioServer> {
   const config = await readConfig();
-  const { name: siteName, config: siteConfig } = await getSiteConfig(options.site);
+  const { name: siteName } = await getSiteConfig(options.site);
 
-  const wpClient = new WordPressClient(siteConfig);
+  const sites = new StudioSites(config, siteName);
   const docker = await DockerManager.create();
   const store = await LocalStore.create();
   const parser = new ElementorParser();
+  const events = new StudioEvents();
+  const token = createSessionToken();
 
   const apiHandler = createApiHandler({
-    wpClient,
+    sites,
     docker,
     store,
     parser,
-    siteName,
-    siteConfig,
     config,
+    events,
   });
 
+  // Tell the browsers about edits to the local pages of every site (editor, pull, git, ...)
+  const watchers = sites.names().map(
+    (site) =>
+      new PageWatcher(`${process.cwd()}/${config.pagesDir}/${site}`, (pageId) =>
+        events.publish({ type: "file-changed", site, pageId })
+      )
+  );
+  for (const watcher of watchers) watcher.start();
+
+  // Check staging status every 10 seconds while a browser is connected
+  let stagingRunning: boolean | null = null;
+  const statusTimer = setInterval(async () => {
+    if (events.size === 0) return;
+    try {
+      const { running } = await docker.getStatus();
+      if (running !== stagingRunning) {
+        stagingRunning = running;
+        events.publish({ type: "staging-status", running });
+      }
+    } catch {
+      // Ignore errors during status check
+    }
+  }, 10000);
+
   const server = Bun.serve({
     port: options.port,
-    async fetch(req) {
+    hostname: options.host,
+    async fetch(req, server) {
       const url = new URL(req.url);
       const pathname = url.pathname;
 
-      // API routes
+      // The event stream stays open; don't time it out
+      if (pathname === "/api/events") {
+        server.timeout(req, 0);
+      }
+
+      // API routes, only with the session token
       if (pathname.startsWith("/api/")) {
+        if (!isAuthorized(req, url, token)) {
+          return new Response(
+            JSON.stringify({
+              error: "Missing or invalid session token. Open the URL printed by 'elementor-cli studio'.",
+            }),
+            { status: 401, headers: { "Content-Type": "application/json" } }
+          );
+        }
         return apiHandler(req, url);
       }
 
@@ -82,7 +126,19 @@ export async function createStudioServer(
 
   return {
     server,
-    url: `http://localhost:${options.port}`,
-    stop: () => server.stop(),
+    url: `http://${displayHost(options.host)}:${options.port}`,
+    token,
+    stop: () => {
+      clearInterval(statusTimer);
+      for (const watcher of watchers) watcher.close();
+      events.close();
+      server.stop();
+    },
   };
 }
+
+// Wildcard addresses can't be browsed to; this machine is one of them
+function displayHost(host: string): string {
+  if (host === "0.0.0.0" || host === "::") return "localhost";
+  return host.includes(":") ? `[${host}]` : host;
+}
@@ -0,0 +1,45 @@
+import type { Config, SiteConfig } from "../types/config.js";
+import { WordPressClient } from "../services/wordpress-client.js";
+
+export interface StudioSite {
+  name: string;
+  config: SiteConfig;
+  wpClient: WordPressClient;
+}
+
+/**
+ * StudioSites gives the studio access to every site of the config. A site's
+ * WordPress client is created the first time a request needs it.
+ */
+export class StudioSites {
+  private sites = new Map<string, StudioSite>();
+
+  constructor(
+    private config: Config,
+    readonly defaultSite: string, // --site, or the config's default site
+    private createClient = (site: SiteConfig) => new WordPressClient(site)
+  ) {}
+
+  names(): string[] {
+    return Object.keys(this.config.sites);
+  }
+
+  /**
+   * A site of the config, or null if there is none by that name
+   */
+  get(name = this.defaultSite): StudioSite | null {
+    const cached = this.sites.get(name);
+    if (cached) {
+      return cached;
+    }
+
+    // Own keys only: a name like "constructor" would resolve on the prototype
+    if (!Object.hasOwn(this.config.sites, name)) {
+      return null;
+    }
+    const config = this.config.sites[name];
+    const site = { name, config, wpClient: this.createClient(config) };
+    this.sites.set(name, site);
+    return site;
+  }
+}
@@ -0,0 +1,34 @@
+import type { ElementorElement } from "../types/elementor.js";
+
+/**
+ * Element tree fixtures for the unit tests
+ */
+
+export function widget(
+  id: string,
+  widgetType = "heading",
+  settings: Record<string, unknown> = {}
+): ElementorElement {
+  return { id, elType: "widget", widgetType, settings, elements: [] };
+}
+
+export function container(
+  id: string,
+  elements: ElementorElement[] = [],
+  settings: Record<string, unknown> = {}
+): ElementorElement {
+  return { id, elType: "container", settings, elements };
+}
+
+export function element(
+  id: string,
+  elType: ElementorElement["elType"],
+  elements: ElementorElement[] = [],
+  settings: Record<string, unknown> = {}
+): ElementorElement {
+  return { id, elType, settings, elements };
+}
+
+export function column(id: string, elements: ElementorElement[] = []): ElementorElement {
+  return element(id, "column", elements);
+}
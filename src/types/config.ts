@@ -4,6 +4,9 @@ export const SiteConfigSchema = z.object({
   url: z.string().url(),
   username: z.string(),
   appPassword: z.string(),
+  // HTTP behaviour; defaults are applied by WordPressClient
+  timeout: z.number().int().positive().optional(), // ms per request
+  retries: z.number().int().min(0).optional(), // retries on 429/5xx and network errors
 });
 
 export const StagingConfigSchema = z.object({
@@ -18,8 +21,11 @@ export const ConfigSchema = z.object({
   sites: z.record(z.string(), SiteConfigSchema).default({}),
   staging: StagingConfigSchema.default({}),
   pagesDir: z.string().default(".elementor-cli/pages"),
+  // "single" keeps the tree in elements.json, "split" uses one file per element
+  pagesLayout: z.enum(["single", "split"]).default("single"),
 });
 
 export type SiteConfig = z.infer<typeof SiteConfigSchema>;
 export type StagingConfig = z.infer<typeof StagingConfigSchema>;
 export type Config = z.infer<typeof ConfigSchema>;
+export type PagesLayout = Config["pagesLayout"];
@@ -0,0 +1,131 @@
+import { z } from "zod";
+
+export const ElementTypeSchema = z.enum(["container", "section", "column", "widget"]);
+
+// Structure of a single element; children are validated recursively by ElementValidator
+export const ElementSchema = z.object({
+  id: z.string().min(1, "Element id must not be empty"),
+  elType: ElementTypeSchema,
+  widgetType: z.string().min(1).optional(),
+  isInner: z.boolean().optional(),
+  settings: z.union([z.record(z.string(), z.unknown()), z.array(z.never())]),
+  elements: z.array(z.unknown()),
+});
+
+export const PageSettingsSchema = z.union([
+  z.record(z.string(), z.unknown()),
+  z.array(z.never()),
+]);
+
+// Shared setting shapes
+const LinkSchema = z
+  .object({
+    url: z.string(),
+    is_external: z.union([z.string(), z.boolean()]).optional(),
+    nofollow: z.union([z.string(), z.boolean()]).optional(),
+    custom_attributes: z.string().optional(),
+  })
+  .passthrough();
+
+const MediaSchema = z
+  .object({
+    url: z.string(),
+    id: z.union([z.number(), z.string()]).optional(),
+  })
+  .passthrough();
+
+const IconSchema = z
+  .object({
+    value: z.union([z.string(), MediaSchema]),
+    library: z.string(),
+  })
+  .passthrough();
+
+const AlignSchema = z.enum(["left", "center", "right", "justify", "start", "end", ""]);
+const ButtonSizeSchema = z.enum(["xs", "sm", "md", "lg", "xl"]);
+
+// Settings of common widgets. Only well-known keys are checked;
+// any other keys (styles, responsive variants) are passed through.
+export const WidgetSettingsSchemas: Record<string, z.ZodTypeAny> = {
+  heading: z
+    .object({
+      title: z.string().optional(),
+      header_size: z.enum(["h1", "h2", "h3", "h4", "h5", "h6", "div", "span", "p"]).optional(),
+      link: LinkSchema.optional(),
+      align: AlignSchema.optional(),
+    })
+    .passthrough(),
+
+  "text-editor": z
+    .object({
+      editor: z.string().optional(),
+      drop_cap: z.enum(["yes", ""]).optional(),
+    })
+    .passthrough(),
+
+  image: z
+    .object({
+      image: MediaSchema.optional(),
+      image_size: z.string().optional(),
+      link_to: z.enum(["none", "file", "custom", ""]).optional(),
+      link: LinkSchema.optional(),
+      caption: z.string().optional(),
+      align: AlignSchema.optional(),
+    })
+    .passthrough(),
+
+  button: z
+    .object({
+      text: z.string().optional(),
+      link: LinkSchema.optional(),
+      size: ButtonSizeSchema.optional(),
+      selected_icon: IconSchema.optional(),
+      align: AlignSchema.optional(),
+    })
+    .passthrough(),
+
+  "icon-box": z
+    .object({
+      selected_icon: IconSchema.optional(),
+      title_text: z.string().optional(),
+      description_text: z.string().optional(),
+      title_size: z.enum(["h1", "h2", "h3", "h4", "h5", "h6", "div", "span", "p"]).optional(),
+      link: LinkSchema.optional(),
+      position: z.enum(["top", "left", "right", ""]).optional(),
+    })
+    .passthrough(),
+
+  video: z
+    .object({
+      video_type: z.enum(["youtube", "vimeo", "dailymotion", "videopress", "hosted"]).optional(),
+      youtube_url: z.string().optional(),
+      vimeo_url: z.string().optional(),
+      dailymotion_url: z.string().optional(),
+      hosted_url: MediaSchema.optional(),
+      autoplay: z.enum(["yes", ""]).optional(),
+      mute: z.enum(["yes", ""]).optional(),
+      loop: z.enum(["yes", ""]).optional(),
+    })
+    .passthrough(),
+
+  form: z
+    .object({
+      form_name: z.string().optional(),
+      form_fields: z
+        .array(
+          z
+            .object({
+              _id: z.string().optional(),
+              custom_id: z.string().min(1, "Form field needs a custom_id"),
+              field_type: z.string().optional(),
+              field_label: z.string().optional(),
+              required: z.enum(["true", "yes", ""]).optional(),
+            })
+            .passthrough()
+        )
+        .optional(),
+      button_text: z.string().optional(),
+      submit_actions: z.array(z.string()).optional(),
+    })
+    .passthrough(),
+};
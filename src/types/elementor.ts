@@ -1,5 +1,11 @@
 export type ElementType = "container" | "section" | "column" | "widget";
 
+// Post type holding Elementor templates, Theme Builder parts (header, footer, ...) and global widgets
+export const LIBRARY_POST_TYPE = "elementor_library";
+
+// WordPress post type slug: "page", "post", LIBRARY_POST_TYPE or a custom post type like "product"
+export type PostType = string;
+
 export interface ElementorElement {
   id: string;
   elType: ElementType;
@@ -21,6 +27,8 @@ export interface PageData {
   slug: string;
   status: PageStatus;
   template?: string; // WordPress page template (e.g., "elementor_canvas", "elementor_header_footer")
+  post_type?: PostType; // Only set for post types other than "page"
+  template_type?: string; // _elementor_template_type of library items (header, footer, section, widget, ...)
   elementor_data: ElementorElement[];
   page_settings: PageSettings;
   pulled_at?: string;
@@ -1,3 +1,6 @@
 export * from "./config.js";
 export * from "./elementor.js";
 export * from "./wordpress.js";
+export * from "./elementor-schema.js";
+export * from "./media.js";
+export * from "./manifest.js";
@@ -0,0 +1,56 @@
+import { z } from "zod";
+import type { ElementorElement, PageSettings, PostType } from "./elementor.js";
+
+export const ManifestPageSchema = z
+  .object({
+    slug: z.string().min(1),
+    title: z.string().min(1),
+    status: z.enum(["publish", "draft", "private", "pending"]).optional(), // New pages default to draft
+    type: z.string().optional(), // Post type; defaults to the manifest's `type`
+    template: z.string().optional(), // WordPress page template, e.g. "elementor_canvas"
+    elements: z.string().optional(), // Path to an elements JSON file, relative to the manifest
+    settings: z.string().optional(), // Path to a page settings JSON file, relative to the manifest
+    fromTemplate: z.string().optional(), // Name or slug of a template (templates list)
+  })
+  .refine((page) => (page.elements ? 1 : 0) + (page.fromTemplate ? 1 : 0) === 1, {
+    message: "Set exactly one of 'elements' or 'fromTemplate'",
+  });
+
+export const SiteManifestSchema = z.object({
+  site: z.string().optional(), // Site from config; --site overrides it
+  type: z.string().default("page"),
+  prune: z.boolean().default(false), // Delete Elementor pages that are not listed
+  pages: z.array(ManifestPageSchema).default([]),
+});
+
+export type ManifestPage = z.infer<typeof ManifestPageSchema>;
+export type SiteManifest = z.infer<typeof SiteManifestSchema>;
+
+/**
+ * A manifest page with its element tree and settings loaded
+ */
+export interface DesiredPage {
+  slug: string;
+  title: string;
+  status?: ManifestPage["status"]; // Left as it is on the site when not set
+  postType: PostType;
+  template?: string;
+  elements: ElementorElement[];
+  settings?: PageSettings; // Left as it is on the site when not set
+  source: string; // Where the elements come from, for display
+}
+
+export type PlanActionType = "create" | "update" | "delete" | "unchanged";
+
+/**
+ * One step of an `apply` plan
+ */
+export interface PlanAction {
+  action: PlanActionType;
+  postType: PostType;
+  slug: string;
+  title: string;
+  remoteId?: number; // Not set for "create"
+  changes: string[]; // Human readable, e.g. "status: draft → publish"
+  desired?: DesiredPage; // Not set for "delete"
+}
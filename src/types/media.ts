@@ -0,0 +1,38 @@
+/**
+ * An attachment used by a page: an Elementor media control such as
+ * `image`, `background_image` or a `gallery` item ({ id, url, ... }).
+ */
+export interface MediaReference {
+  id?: number; // Attachment id; missing for media controls without a library id
+  url: string;
+  elementId?: string; // Not set for page settings
+  setting: string; // e.g. "background_image", "gallery[2]", "selected_icon.value"
+}
+
+/**
+ * A downloaded attachment, listed in the page's media.json.
+ * The file itself lives in the page's media/ directory.
+ */
+export interface MediaEntry {
+  id?: number; // Attachment id on `site`
+  url: string; // URL on `site`
+  file: string; // File name inside media/
+  site: string; // Site the attachment was downloaded from
+  mime_type?: string;
+  title?: string;
+  alt?: string;
+  // Copies uploaded elsewhere, keyed by site name ("staging" for the preview environment)
+  targets?: Record<string, { id: number; url: string }>;
+}
+
+export interface MediaManifest {
+  items: MediaEntry[];
+}
+
+/** Replace one attachment by another when remapping an element tree */
+export interface MediaMapping {
+  fromId?: number;
+  fromUrl: string;
+  toId: number;
+  toUrl: string;
+}
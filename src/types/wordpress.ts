@@ -1,5 +1,6 @@
 export interface WPPage {
   id: number;
+  type?: string;
   date: string;
   date_gmt: string;
   modified: string;
@@ -22,12 +23,21 @@ export interface WPPage {
     _elementor_data?: string;
     _elementor_page_settings?: string;
     _elementor_edit_mode?: string;
+    _elementor_template_type?: string;
     [key: string]: unknown;
   };
   template?: string; // WordPress page template (e.g., "elementor_canvas", "elementor_header_footer")
   link: string;
 }
 
+export interface WPPostType {
+  slug: string;
+  name: string;
+  rest_base: string | false;
+  rest_namespace?: string;
+  hierarchical?: boolean;
+}
+
 export interface WPRevision {
   id: number;
   parent: number;
@@ -62,3 +72,16 @@ export interface WPError {
     [key: string]: unknown;
   };
 }
+
+export interface WPMedia {
+  id: number;
+  slug: string;
+  source_url: string;
+  mime_type: string;
+  media_type: "image" | "file";
+  title: {
+    rendered: string;
+    raw?: string;
+  };
+  alt_text: string;
+}
@@ -0,0 +1,113 @@
+import chalk from "chalk";
+import type { Ora } from "ora";
+import { logger } from "./logger.js";
+import { ConcurrencyLimiter } from "../services/concurrency-limiter.js";
+import { countResults, type BulkResult } from "../services/bulk-runner.js";
+
+export const DEFAULT_CONCURRENCY = 4;
+
+/**
+ * Parse a --concurrency value. Throws on anything but a positive integer.
+ */
+export function parseConcurrency(value: string | undefined): number {
+  if (value === undefined) return DEFAULT_CONCURRENCY;
+  const concurrency = Number.parseInt(value, 10);
+  if (!Number.isInteger(concurrency) || concurrency < 1 || String(concurrency) !== value.trim()) {
+    throw new Error(`Invalid --concurrency "${value}". Use a positive integer.`);
+  }
+  return concurrency;
+}
+
+/**
+ * BulkProgress shows one spinner for a whole bulk run ("Pulling 12/400...")
+ * instead of one per page. Output of concurrent workers goes through print()
+ * so it lands above the spinner, and prompts are shown one at a time.
+ * A disabled progress (--json) prints nothing.
+ */
+export class BulkProgress {
+  private spinner: Ora | null = null;
+  private done = 0;
+  private failed = 0;
+  private prompting = false;
+  private pending: Array<() => void> = [];
+  private promptLock = new ConcurrencyLimiter(1);
+
+  constructor(
+    private label: string,
+    private total: number,
+    private enabled = true
+  ) {}
+
+  start(): void {
+    if (this.enabled) {
+      this.spinner = logger.spinner(this.text());
+    }
+  }
+
+  print(write: () => void): void {
+    if (!this.enabled) return;
+    // Hold output back while a prompt is waiting for input
+    if (this.prompting) {
+      this.pending.push(write);
+      return;
+    }
+    this.spinner?.clear();
+    write();
+    if (this.spinner?.isSpinning) this.spinner.render();
+  }
+
+  async prompt<T>(ask: () => Promise<T>): Promise<T> {
+    return this.promptLock.run(async () => {
+      this.spinner?.stop();
+      this.prompting = true;
+      try {
+        return await ask();
+      } finally {
+        this.prompting = false;
+        for (const write of this.pending.splice(0)) write();
+        this.spinner?.start(this.text());
+      }
+    });
+  }
+
+  complete(result: BulkResult): void {
+    this.done++;
+    if (result.status === "failed") this.failed++;
+    if (this.spinner) this.spinner.text = this.text();
+  }
+
+  stop(): void {
+    this.spinner?.stop();
+    this.spinner = null;
+  }
+
+  private text(): string {
+    const failed = this.failed > 0 ? chalk.red(` ${this.failed} failed`) : "";
+    return `${this.label} ${this.done}/${this.total}${failed}...`;
+  }
+}
+
+/**
+ * Print per-page results as a table. Callers print their own totals line.
+ */
+export function printBulkSummary(results: BulkResult[]): void {
+  logger.table(
+    results.map((result) => ({
+      Page: result.pageId,
+      Title: (result.title ?? "").slice(0, 40),
+      Status: result.status,
+      Message: (result.message ?? "").slice(0, 60),
+    }))
+  );
+}
+
+/**
+ * Machine-readable report for --json: run context, totals and per-page results.
+ */
+export function bulkReport(context: Record<string, unknown>, results: BulkResult[]) {
+  return {
+    ...context,
+    summary: { total: results.length, ...countResults(results) },
+    results,
+  };
+}
@@ -0,0 +1,129 @@
+import chalk from "chalk";
+import { ElementorParser, type ElementDiff } from "../services/elementor-parser.js";
+import { isEqual } from "./equality.js";
+import type { ElementorElement } from "../types/elementor.js";
+
+const parser = new ElementorParser();
+
+export function hasElementChanges(diff: ElementDiff): boolean {
+  return diff.added.length > 0 || diff.removed.length > 0 || diff.changes.length > 0;
+}
+
+export function summarizeElementDiff(diff: ElementDiff): string {
+  const parts = [
+    `+${diff.added.length} added`,
+    `-${diff.removed.length} removed`,
+    `~${diff.modified.length} modified`,
+  ];
+  if (diff.moved.length > 0) parts.push(`${diff.moved.length} moved`);
+  if (diff.reordered.length > 0) parts.push(`${diff.reordered.length} reordered`);
+  return parts.join(", ");
+}
+
+export function formatElement(el: ElementorElement | null): string {
+  if (!el) return "(unknown)";
+
+  if (el.elType === "widget") {
+    const label =
+      el.widgetType === "heading"
+        ? (el.settings.title as string)?.slice(0, 30)
+        : el.widgetType === "button"
+          ? (el.settings.text as string)?.slice(0, 30)
+          : null;
+
+    return `widget[${el.widgetType}]${label ? ` "${label}"` : ""} (${el.id})`;
+  }
+
+  return `${el.elType} (${el.id})`;
+}
+
+export function formatValue(value: unknown): string {
+  if (value === undefined) return "(not set)";
+  if (typeof value === "object") {
+    return JSON.stringify(value).slice(0, 50);
+  }
+  return String(value);
+}
+
+function formatParent(elements: ElementorElement[], parentId: string | null): string {
+  if (parentId === null) return "(top level)";
+  return formatElement(parser.findElement(elements, parentId));
+}
+
+/**
+ * Print an element diff as a list of changes.
+ *
+ * `newElements` and `oldElements` are the trees the diff was computed from
+ * and are used to describe elements that only exist on one side.
+ */
+export function printElementDiff(
+  diff: ElementDiff,
+  newElements: ElementorElement[],
+  oldElements: ElementorElement[]
+): void {
+  for (const id of diff.added) {
+    const el = parser.findElement(newElements, id);
+    console.log(`  ${chalk.green("+")} Added: ${formatElement(el)}`);
+  }
+
+  for (const id of diff.removed) {
+    const el = parser.findElement(oldElements, id);
+    console.log(`  ${chalk.red("-")} Removed: ${formatElement(el)}`);
+  }
+
+  for (const change of diff.changes) {
+    const el = parser.findElement(newElements, change.id);
+
+    if (change.settings.length > 0 || change.type) {
+      console.log(`  ${chalk.yellow("~")} Modified: ${formatElement(el)}`);
+
+      if (change.type) {
+        const oldType = change.type.oldWidgetType || change.type.oldElType;
+        const newType = change.type.newWidgetType || change.type.newElType;
+        console.log(`      type: ${chalk.red(oldType)} → ${chalk.green(newType)}`);
+      }
+
+      for (const setting of change.settings) {
+        console.log(
+          `      ${setting.key}: ${chalk.red(formatValue(setting.oldValue))} → ${chalk.green(formatValue(setting.newValue))}`
+        );
+      }
+    }
+
+    if (change.move) {
+      console.log(
+        `  ${chalk.cyan("→")} Moved: ${formatElement(el)} from ${formatParent(oldElements, change.move.oldParentId)} to ${formatParent(newElements, change.move.newParentId)}`
+      );
+    }
+
+    if (change.reorder) {
+      console.log(
+        `  ${chalk.cyan("↕")} Reordered: ${formatElement(el)} position ${change.reorder.oldIndex + 1} → ${change.reorder.newIndex + 1}`
+      );
+    }
+  }
+}
+
+/**
+ * Top-level keys whose values differ between two settings or meta objects
+ */
+export function diffFields(
+  oldValues: Record<string, unknown>,
+  newValues: Record<string, unknown>
+): Array<{ key: string; oldValue: unknown; newValue: unknown }> {
+  const keys = [...new Set([...Object.keys(oldValues), ...Object.keys(newValues)])].sort();
+  return keys
+    .filter((key) => !isEqual(oldValues[key], newValues[key]))
+    .map((key) => ({ key, oldValue: oldValues[key], newValue: newValues[key] }));
+}
+
+export function printFieldDiff(
+  label: string,
+  changes: Array<{ key: string; oldValue: unknown; newValue: unknown }>
+): void {
+  for (const change of changes) {
+    console.log(
+      `  ${chalk.yellow("~")} ${label} ${change.key}: ${chalk.red(formatValue(change.oldValue))} → ${chalk.green(formatValue(change.newValue))}`
+    );
+  }
+}
@@ -0,0 +1,60 @@
+import chalk from "chalk";
+import type { JournalAction, JournalOperation } from "../services/operation-journal.js";
+import { formatDate, logger } from "./logger.js";
+import { postTypeLabel } from "./post-type.js";
+
+const MARKERS: Record<JournalAction, string> = {
+  update: chalk.yellow("~"),
+  delete: chalk.red("-"),
+  create: chalk.green("+"),
+};
+
+/**
+ * After a remote write: tell the user how to take it back
+ */
+export function printUndoHint(operation: JournalOperation): void {
+  if (operation.pages.length === 0) return;
+  logger.dim(`Undo with: elementor-cli undo ${operation.id}`);
+}
+
+export function printHistory(operations: JournalOperation[]): void {
+  console.log(
+    `${"ID".padEnd(22)}${"Date".padEnd(25)}${"Command".padEnd(16)}${"Pages".padEnd(7)}Description`
+  );
+  console.log("─".repeat(100));
+
+  for (const operation of operations) {
+    const line =
+      operation.id.padEnd(22) +
+      formatDate(operation.created_at).padEnd(25) +
+      operation.command.padEnd(16) +
+      String(operation.pages.length).padEnd(7) +
+      operation.description +
+      (operation.undone_by ? ` (undone by ${operation.undone_by})` : "");
+    console.log(operation.undone_by ? chalk.dim(line) : line);
+  }
+}
+
+/**
+ * The pages of an operation and what undoing it does to each
+ */
+export function printOperation(operation: JournalOperation): void {
+  console.log(`  Command:      ${operation.command}`);
+  console.log(`  Description:  ${operation.description}`);
+  console.log(`  Date:         ${formatDate(operation.created_at)}`);
+  console.log(`  Site:         ${operation.site}`);
+  if (operation.undone_by) {
+    console.log(`  Undone by:    ${operation.undone_by}`);
+  }
+  console.log("");
+
+  for (const page of operation.pages) {
+    let undo = "undo restores the previous content";
+    if (page.recreated_as) undo = `recreated as ${page.recreated_as}`;
+    else if (page.action === "create") undo = "undo moves it to the trash";
+    else if (page.action === "delete") undo = "undo restores it";
+    console.log(
+      `  ${MARKERS[page.action]} ${postTypeLabel(page.post_type)} ${page.id}: ${page.title} ${chalk.dim(`(${page.action}d; ${undo})`)}`
+    );
+  }
+}
@@ -0,0 +1,36 @@
+import { logger } from "./logger.js";
+import type { MediaDownloadResult, MediaUploadResult } from "../services/media-sync.js";
+
+export function summarizeMediaDownload(result: MediaDownloadResult): string {
+  const parts = [`${result.downloaded} downloaded`];
+  if (result.existing > 0) parts.push(`${result.existing} already stored`);
+  if (result.failed.length > 0) parts.push(`${result.failed.length} failed`);
+  return parts.join(", ");
+}
+
+export function summarizeMediaUpload(result: MediaUploadResult): string {
+  const parts = [`${result.uploaded} uploaded`];
+  if (result.reused > 0) parts.push(`${result.reused} already uploaded`);
+  if (result.failed.length > 0) parts.push(`${result.failed.length} failed`);
+  return parts.join(", ");
+}
+
+/**
+ * Print a media download summary with one line per failed file.
+ * Prints nothing for pages without media.
+ */
+export function printMediaDownload(result: MediaDownloadResult): void {
+  if (result.downloaded + result.existing + result.failed.length === 0) return;
+  logger.dim(`  Media: ${summarizeMediaDownload(result)}`);
+  for (const { reference, error } of result.failed) {
+    logger.warn(`  Could not download ${reference.url}: ${error}`);
+  }
+}
+
+export function printMediaUpload(result: MediaUploadResult): void {
+  if (result.uploaded + result.reused + result.failed.length === 0) return;
+  logger.dim(`  Media: ${summarizeMediaUpload(result)}`);
+  for (const { entry, error } of result.failed) {
+    logger.warn(`  Could not upload ${entry.file}: ${error}`);
+  }
+}
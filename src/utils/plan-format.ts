@@ -0,0 +1,51 @@
+import chalk from "chalk";
+import type { PlanAction, PlanActionType } from "../types/manifest.js";
+import { postTypeLabel } from "./post-type.js";
+
+const MARKERS: Record<PlanActionType, string> = {
+  create: chalk.green("+"),
+  update: chalk.yellow("~"),
+  delete: chalk.red("-"),
+  unchanged: chalk.dim("="),
+};
+
+export function countPlan(actions: PlanAction[]): Record<PlanActionType, number> {
+  const counts: Record<PlanActionType, number> = { create: 0, update: 0, delete: 0, unchanged: 0 };
+  for (const action of actions) {
+    counts[action.action]++;
+  }
+  return counts;
+}
+
+export function summarizePlan(actions: PlanAction[]): string {
+  const counts = countPlan(actions);
+  return `${counts.create} to create, ${counts.update} to update, ${counts.delete} to delete, ${counts.unchanged} unchanged`;
+}
+
+/**
+ * Print a plan in the style of `terraform plan`: one line per page with
+ * its changes below. Unchanged pages are only listed with `showUnchanged`.
+ */
+export function printPlan(actions: PlanAction[], showUnchanged = false): void {
+  for (const action of actions) {
+    if (action.action === "unchanged" && !showUnchanged) continue;
+
+    const label = postTypeLabel(action.postType);
+    const id = action.remoteId !== undefined ? chalk.dim(` (${label} ${action.remoteId})`) : "";
+    const source =
+      action.desired && action.action !== "unchanged" ? chalk.dim(` ← ${action.desired.source}`) : "";
+    console.log(
+      `  ${MARKERS[action.action]} ${action.action.padEnd(9)} ${label} "${action.slug}"${id}${source}`
+    );
+
+    if (action.action === "create" && action.desired) {
+      console.log(chalk.dim(`      title: "${action.desired.title}", status: ${action.desired.status || "draft"}`));
+    }
+    for (const change of action.changes) {
+      console.log(`      ${chalk.yellow("~")} ${change}`);
+    }
+  }
+
+  console.log("");
+  console.log(`${chalk.bold("Plan:")} ${summarizePlan(actions)}.`);
+}
@@ -0,0 +1,41 @@
+import { LIBRARY_POST_TYPE, type PostType } from "../types/elementor.js";
+
+/**
+ * Post type selected by a command's --type / --library options.
+ * --library is a shorthand for --type elementor_library.
+ */
+export function getPostType(options: { type?: string; library?: boolean }): PostType {
+  if (options.library) {
+    return LIBRARY_POST_TYPE;
+  }
+  return checkPostType(options.type || "page");
+}
+
+/**
+ * Post types name local directories, so they are limited to the characters
+ * WordPress allows in post type keys
+ */
+export function checkPostType(postType: string): PostType {
+  if (!/^[a-z0-9_-]+$/.test(postType)) {
+    throw new Error(
+      `Invalid post type "${postType}": use lowercase letters, numbers, dashes and underscores`
+    );
+  }
+  return postType;
+}
+
+/**
+ * Extra flags to repeat in hints such as "Run 'elementor-cli pull 42 --type post'"
+ */
+export function postTypeFlag(postType: PostType): string {
+  if (postType === "page") return "";
+  if (postType === LIBRARY_POST_TYPE) return " --library";
+  return ` --type ${postType}`;
+}
+
+/**
+ * Singular noun for messages: "page", "library item", "post", "product", ...
+ */
+export function postTypeLabel(postType: PostType): string {
+  return postType === LIBRARY_POST_TYPE ? "library item" : postType;
+}
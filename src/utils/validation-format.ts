@@ -0,0 +1,29 @@
+import chalk from "chalk";
+import type { ValidationIssue, ValidationResult } from "../services/element-validator.js";
+
+function printIssue(issue: ValidationIssue): void {
+  const marker = issue.severity === "error" ? chalk.red("✗") : chalk.yellow("!");
+  console.log(`  ${marker} ${chalk.dim(issue.path)}`);
+  console.log(`      ${issue.message}`);
+}
+
+export function summarizeValidation(result: ValidationResult): string {
+  return `${result.errors.length} error(s), ${result.warnings.length} warning(s)`;
+}
+
+/**
+ * Print validation errors followed by warnings.
+ * At most `limit` issues are shown; the rest are counted.
+ */
+export function printValidationResult(
+  result: ValidationResult,
+  limit = Number.POSITIVE_INFINITY
+): void {
+  const issues = [...result.errors, ...result.warnings];
+  for (const issue of issues.slice(0, limit)) {
+    printIssue(issue);
+  }
+  if (issues.length > limit) {
+    console.log(chalk.dim(`  ... and ${issues.length - limit} more`));
+  }
+}